@@ -254,7 +254,7 @@ async function auditDatabase() {
         video_status,
         created_at
       FROM calls
-      WHERE status NOT IN ('call_created', 'prompt_ready', 'call_attempted', 'call_complete', 'call_failed')
+      WHERE status NOT IN ('created', 'scheduled', 'dialing', 'ringing', 'in_progress', 'no_answer', 'busy', 'voicemail', 'completed', 'failed', 'cancelled')
         OR (video_status IS NOT NULL AND video_status NOT IN ('pending', 'generating', 'completed', 'failed'))
       ORDER BY created_at DESC
       LIMIT 50;
@@ -297,7 +297,7 @@ async function auditDatabase() {
       });
     }
 
-    // 11. Check for calls stuck in call_attempted status
+    // 11. Check for calls stuck mid-call (dialing, ringing, in_progress)
     console.log("⏰ Checking for stuck calls...");
     const stuckCalls = await driver.unsafe(`
       SELECT 
@@ -310,7 +310,7 @@ async function auditDatabase() {
         created_at,
         EXTRACT(EPOCH FROM (NOW() - COALESCE(last_attempt_at, first_attempt_at, created_at))) / 3600 as hours_stuck
       FROM calls
-      WHERE status = 'call_attempted'
+      WHERE status IN ('dialing', 'ringing', 'in_progress')
         AND (
           last_attempt_at IS NULL 
           OR last_attempt_at < NOW() - INTERVAL '2 hours'
@@ -323,7 +323,7 @@ async function auditDatabase() {
       results.push({
         category: "Stuck Calls",
         severity: "warning",
-        message: `Found ${stuckCalls.length} calls stuck in 'call_attempted' status for >2 hours`,
+        message: `Found ${stuckCalls.length} calls stuck mid-call for >2 hours`,
         count: stuckCalls.length,
         details: stuckCalls as Array<Record<string, unknown>>,
       });
@@ -391,7 +391,7 @@ async function auditDatabase() {
         created_at
       FROM calls
       WHERE caller_id IS NULL
-        AND status IN ('prompt_ready', 'call_attempted', 'call_complete')
+        AND status IN ('scheduled', 'dialing', 'ringing', 'in_progress', 'completed')
         AND created_at > NOW() - INTERVAL '7 days'
       ORDER BY created_at DESC
       LIMIT 50;
@@ -417,8 +417,8 @@ async function auditDatabase() {
         (SELECT COUNT(*) FROM call_credits WHERE state = 'consumed') as consumed_credits,
         (SELECT COUNT(*) FROM calls WHERE is_free = true) as free_calls,
         (SELECT COUNT(*) FROM calls WHERE is_free = false) as paid_calls,
-        (SELECT COUNT(*) FROM calls WHERE status = 'call_complete') as completed_calls,
-        (SELECT COUNT(*) FROM calls WHERE status = 'call_failed') as failed_calls,
+        (SELECT COUNT(*) FROM calls WHERE status = 'completed') as completed_calls,
+        (SELECT COUNT(*) FROM calls WHERE status = 'failed') as failed_calls,
         (SELECT COUNT(*) FROM calls WHERE video_status = 'completed') as videos_completed;
     `);
 
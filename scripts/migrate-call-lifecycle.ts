@@ -0,0 +1,60 @@
+import postgres from "postgres";
+import { env } from "~/env/server";
+
+/**
+ * Move existing calls from the old coarse statuses to the lifecycle states
+ * (see src/lib/calls/lifecycle.ts). Run this BEFORE `bun run db:push`, which
+ * then drops the old enum labels and creates the call_events table.
+ */
+
+const LIFECYCLE_STATUSES = [
+  "created",
+  "scheduled",
+  "dialing",
+  "ringing",
+  "in_progress",
+  "no_answer",
+  "busy",
+  "voicemail",
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+const STATUS_MAPPING: Record<string, string> = {
+  call_created: "created",
+  prompt_ready: "scheduled",
+  call_attempted: "dialing", // Unknown how far it got - audit-db reports it if stuck
+  call_complete: "completed",
+  call_failed: "failed",
+};
+
+async function migrateCallLifecycle() {
+  const driver = postgres(env.DATABASE_URL);
+
+  try {
+    console.log("🔄 Adding lifecycle values to call_status enum...");
+    // ADD VALUE can't run inside a transaction with its first use - one statement each
+    for (const status of LIFECYCLE_STATUSES) {
+      await driver.unsafe(`ALTER TYPE call_status ADD VALUE IF NOT EXISTS '${status}';`);
+    }
+
+    for (const [oldStatus, newStatus] of Object.entries(STATUS_MAPPING)) {
+      const updated = await driver.unsafe(
+        `UPDATE calls SET status = '${newStatus}' WHERE status::text = '${oldStatus}' RETURNING id;`,
+      );
+      console.log(`  ✅ ${oldStatus} → ${newStatus}: ${updated.length} calls`);
+    }
+
+    console.log("\n✅ Calls migrated. Now run: bun run db:push");
+  } catch (error) {
+    console.error("❌ Error:", error);
+    throw error;
+  } finally {
+    await driver.end();
+  }
+}
+
+if (import.meta.main) {
+  migrateCallLifecycle();
+}
@@ -0,0 +1,157 @@
+/**
+ * Work through the moderation review queue (see src/lib/moderation/moderate.ts)
+ * Blocks take effect immediately - reviewing records whether they were right.
+ *
+ * Run:
+ *   bun run scripts/moderation-queue.ts list                  # pending reviews, oldest first
+ *   bun run scripts/moderation-queue.ts list --status overturned
+ *   bun run scripts/moderation-queue.ts uphold <id> [--notes "Clear threat"]
+ *   bun run scripts/moderation-queue.ts overturn <id> [--notes "Idiom, not a threat"]
+ *   bun run scripts/moderation-queue.ts stats                 # blocks and overturn rate per category
+ */
+
+import { asc, eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { moderationReviews } from "~/lib/db/schema/moderation";
+import { moderationReviewStatusEnum } from "~/lib/db/schema/enums";
+import * as schema from "~/lib/db/schema";
+import { env } from "~/env/server";
+import { moderationFieldLabel } from "~/lib/moderation/rules";
+import type { ModeratedFields, ModerationFlag } from "~/lib/moderation/rules";
+
+type Database = ReturnType<typeof drizzle>;
+type ReviewStatus = (typeof moderationReviewStatusEnum.enumValues)[number];
+
+/**
+ * "--notes text" style options, and everything else as positional arguments
+ */
+function parseArgs(args: string[]): { positional: string[]; options: Record<string, string> } {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      options[args[i].substring(2)] = args[i + 1] ?? "";
+      i++;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return { positional, options };
+}
+
+function parseStatus(value: string | undefined): ReviewStatus {
+  const status = (value || "pending") as ReviewStatus;
+  if (!moderationReviewStatusEnum.enumValues.includes(status)) {
+    throw new Error(`--status must be one of ${moderationReviewStatusEnum.enumValues.join(", ")}, got "${value}"`);
+  }
+  return status;
+}
+
+async function listReviews(db: Database, status: ReviewStatus) {
+  const reviews = await db
+    .select()
+    .from(moderationReviews)
+    .where(eq(moderationReviews.status, status))
+    .orderBy(asc(moderationReviews.createdAt));
+
+  if (reviews.length === 0) {
+    console.log(`📭 No ${status} reviews`);
+    return;
+  }
+
+  for (const review of reviews) {
+    const content = review.content as ModeratedFields;
+    const flags = review.flags as ModerationFlag[];
+    console.log(`\n${review.id}  ${review.stage}  ${review.createdAt.toISOString()}  user ${review.userId}${review.callId ? `  call ${review.callId}` : ""}`);
+    for (const flag of flags) {
+      console.log(`  🚩 ${moderationFieldLabel(flag.field)}: ${flag.category} (${flag.source})`);
+      console.log(`     "${content[flag.field] ?? ""}"`);
+    }
+    if (review.reviewNotes) {
+      console.log(`  📝 ${review.reviewNotes}`);
+    }
+  }
+}
+
+async function resolveReview(db: Database, id: string | undefined, status: ReviewStatus, notes: string | undefined) {
+  if (!id) {
+    throw new Error("Usage: uphold | overturn <review id> [--notes text]");
+  }
+  const [updated] = await db
+    .update(moderationReviews)
+    .set({ status, reviewNotes: notes || null, reviewedAt: new Date() })
+    .where(eq(moderationReviews.id, id))
+    .returning();
+  if (!updated) {
+    throw new Error(`Review ${id} does not exist`);
+  }
+  console.log(`✅ Review ${id} marked ${status}`);
+}
+
+async function showStats(db: Database) {
+  const reviews = await db
+    .select({ status: moderationReviews.status, flags: moderationReviews.flags })
+    .from(moderationReviews);
+  if (reviews.length === 0) {
+    console.log("📭 Nothing has been blocked yet");
+    return;
+  }
+
+  const byCategory = new Map<string, Record<ReviewStatus, number>>();
+  for (const review of reviews) {
+    const categories = new Set((review.flags as ModerationFlag[]).map((flag) => flag.category));
+    for (const category of categories) {
+      const counts = byCategory.get(category) ?? { pending: 0, upheld: 0, overturned: 0 };
+      counts[review.status]++;
+      byCategory.set(category, counts);
+    }
+  }
+
+  for (const [category, counts] of byCategory) {
+    const reviewed = counts.upheld + counts.overturned;
+    const overturnRate = reviewed > 0 ? `${Math.round((counts.overturned / reviewed) * 100)}%` : "-";
+    console.log(`${category}  ${counts.pending} pending, ${counts.upheld} upheld, ${counts.overturned} overturned (overturn rate ${overturnRate})`);
+  }
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+
+  const driver = postgres(env.DATABASE_URL);
+  const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+  try {
+    switch (command) {
+      case "list":
+        await listReviews(db, parseStatus(options.status));
+        break;
+      case "uphold":
+        await resolveReview(db, positional[0], "upheld", options.notes);
+        break;
+      case "overturn":
+        await resolveReview(db, positional[0], "overturned", options.notes);
+        break;
+      case "stats":
+        await showStats(db);
+        break;
+      default:
+        throw new Error("Usage: moderation-queue.ts list | uphold | overturn | stats (see header)");
+    }
+  } finally {
+    await driver.end();
+  }
+}
+
+// Run if called directly
+if (import.meta.main) {
+  main()
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
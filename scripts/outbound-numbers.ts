@@ -0,0 +1,118 @@
+/**
+ * Manage the outbound caller-ID pool (see src/lib/twilio/caller-id-pool.ts)
+ * Numbers must already be bought on the Twilio account.
+ *
+ * Run:
+ *   bun run scripts/outbound-numbers.ts list
+ *   bun run scripts/outbound-numbers.ts add +14155550123 [+12125550123 ...]
+ *   bun run scripts/outbound-numbers.ts retire +14155550123
+ *   bun run scripts/outbound-numbers.ts reactivate +14155550123
+ */
+
+import { asc, eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { outboundNumbers } from "~/lib/db/schema/outbound-numbers";
+import * as schema from "~/lib/db/schema";
+import { env } from "~/env/server";
+import { getAreaCode } from "~/lib/twilio/caller-id-pool";
+import { parsePhoneNumber } from "~/lib/validation/phone-number";
+
+type Database = ReturnType<typeof drizzle>;
+
+async function listNumbers(db: Database) {
+  const numbers = await db.select().from(outboundNumbers).orderBy(asc(outboundNumbers.phoneNumber));
+  if (numbers.length === 0) {
+    console.log(`📭 Pool is empty - every call goes out from TWILIO_PHONE_NUMBER (${env.TWILIO_PHONE_NUMBER ?? "not set"})`);
+    return;
+  }
+
+  const now = new Date();
+  for (const number of numbers) {
+    const answered = number.callsAnswered + number.callsUnanswered;
+    const answerRate = answered > 0 ? `${Math.round((number.callsAnswered / answered) * 100)}%` : "-";
+    const state = !number.active
+      ? "🚫 retired"
+      : number.cooldownUntil && number.cooldownUntil > now
+        ? `🧊 cooling until ${number.cooldownUntil.toISOString()}`
+        : "✅ active";
+    console.log(
+      `${number.phoneNumber}  ${number.country}${number.areaCode ? ` ${number.areaCode}` : ""}  ` +
+      `placed ${number.callsPlaced}, answer rate ${answerRate}, spam flags ${number.spamFlags}  ${state}`,
+    );
+  }
+}
+
+async function addNumbers(db: Database, inputs: string[]) {
+  for (const input of inputs) {
+    const parsed = parsePhoneNumber(input);
+    if (!parsed.valid) {
+      console.error(`❌ ${input}: ${parsed.error}`);
+      continue;
+    }
+
+    const [added] = await db
+      .insert(outboundNumbers)
+      .values({
+        phoneNumber: parsed.phone.e164,
+        country: parsed.phone.country,
+        areaCode: getAreaCode(parsed.phone.e164),
+      })
+      .onConflictDoNothing({ target: outboundNumbers.phoneNumber })
+      .returning();
+    console.log(added ? `✅ Added ${added.phoneNumber}` : `⏭️  ${parsed.phone.e164} is already in the pool`);
+  }
+}
+
+async function setActive(db: Database, input: string, active: boolean) {
+  const parsed = parsePhoneNumber(input);
+  const phoneNumber = parsed.valid ? parsed.phone.e164 : input;
+
+  const [updated] = await db
+    .update(outboundNumbers)
+    // Reactivating is a fresh start - clear the cool-down and spam history
+    .set(active ? { active, cooldownUntil: null, spamFlags: 0, lastSpamFlagAt: null } : { active })
+    .where(eq(outboundNumbers.phoneNumber, phoneNumber))
+    .returning();
+  console.log(updated
+    ? `✅ ${phoneNumber} ${active ? "reactivated" : "retired"}`
+    : `❌ ${phoneNumber} is not in the pool`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const driver = postgres(env.DATABASE_URL);
+  const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+  try {
+    switch (command) {
+      case "list":
+        await listNumbers(db);
+        break;
+      case "add":
+        await addNumbers(db, args);
+        break;
+      case "retire":
+      case "reactivate":
+        if (!args[0]) throw new Error(`Usage: ${command} <phone number>`);
+        await setActive(db, args[0], command === "reactivate");
+        break;
+      default:
+        throw new Error("Usage: outbound-numbers.ts list | add <numbers...> | retire <number> | reactivate <number>");
+    }
+  } finally {
+    await driver.end();
+  }
+}
+
+// Run if called directly
+if (import.meta.main) {
+  main()
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,190 @@
+/**
+ * Manage versioned prompt templates and A/B splits (see src/lib/prompts/registry.ts)
+ *
+ * Run:
+ *   bun run scripts/prompt-templates.ts export-builtin ./prompts       # system.txt + user.txt to edit
+ *   bun run scripts/prompt-templates.ts publish ./prompts/system.txt ./prompts/user.txt --weight 50 --notes "Shorter greeting"
+ *   bun run scripts/prompt-templates.ts weight 2 30                    # version 2 gets weight 30
+ *   bun run scripts/prompt-templates.ts retire 1                       # stop serving version 1
+ *   bun run scripts/prompt-templates.ts list
+ *   bun run scripts/prompt-templates.ts stats                          # completion rate / duration per version
+ *
+ * Every command works on the "call_prompts" template unless --name is given.
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { and, asc, eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { promptTemplates } from "~/lib/db/schema/prompt-templates";
+import * as schema from "~/lib/db/schema";
+import { env } from "~/env/server";
+import { CALL_PROMPT_VARIABLES, CALL_PROMPTS_TEMPLATE_NAME } from "~/lib/prompts/call-prompt-template";
+import { getBuiltinPromptTemplate, getCallPromptStats, nextPromptTemplateVersion } from "~/lib/prompts/registry";
+import { templateVariableNames } from "~/lib/prompts/template";
+
+type Database = ReturnType<typeof drizzle>;
+
+// Variables each template name can use - a typo would silently render as ""
+const KNOWN_VARIABLES: Record<string, readonly string[]> = {
+  [CALL_PROMPTS_TEMPLATE_NAME]: CALL_PROMPT_VARIABLES,
+};
+
+/**
+ * "--weight 50" style options, and everything else as positional arguments
+ */
+function parseArgs(args: string[]): { positional: string[]; options: Record<string, string> } {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--")) {
+      options[args[i].substring(2)] = args[i + 1] ?? "";
+      i++;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  return { positional, options };
+}
+
+function parseNumber(value: string | undefined, label: string): number {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${label} must be a whole number, got "${value ?? ""}"`);
+  }
+  return parsed;
+}
+
+async function listVersions(db: Database, name: string) {
+  const versions = await db
+    .select()
+    .from(promptTemplates)
+    .where(eq(promptTemplates.name, name))
+    .orderBy(asc(promptTemplates.version));
+
+  const served = versions.filter((version) => version.active && version.weight > 0);
+  const totalWeight = served.reduce((sum, version) => sum + version.weight, 0);
+  if (served.length === 0) {
+    console.log(`📄 ${name}: serving the built-in template (v0)`);
+  }
+  for (const version of versions) {
+    const share = version.active && version.weight > 0
+      ? `${Math.round((version.weight / totalWeight) * 100)}% of traffic`
+      : version.active ? "not served (weight 0)" : "retired";
+    console.log(`v${version.version}  weight ${version.weight}  ${share}  ${version.createdAt.toISOString()}${version.notes ? `  - ${version.notes}` : ""}`);
+  }
+}
+
+async function exportBuiltin(name: string, dir: string) {
+  const builtin = getBuiltinPromptTemplate(name);
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, "system.txt"), builtin.systemTemplate);
+  await writeFile(join(dir, "user.txt"), builtin.userTemplate);
+  console.log(`✅ Wrote ${join(dir, "system.txt")} and ${join(dir, "user.txt")}`);
+}
+
+async function publish(db: Database, name: string, files: string[], options: Record<string, string>) {
+  if (files.length !== 2) {
+    throw new Error("Usage: publish <system template file> <user template file> [--weight N] [--notes text]");
+  }
+  const [systemTemplate, userTemplate] = await Promise.all(files.map((file) => readFile(file, "utf8")));
+
+  const known = KNOWN_VARIABLES[name];
+  const unknown = known
+    ? templateVariableNames(systemTemplate + userTemplate).filter((variable) => !known.includes(variable))
+    : [];
+  if (unknown.length > 0) {
+    throw new Error(`Unknown template variables: ${unknown.join(", ")}. Available: ${known.join(", ")}`);
+  }
+
+  const version = await nextPromptTemplateVersion(db, name);
+  await db.insert(promptTemplates).values({
+    name,
+    version,
+    systemTemplate,
+    userTemplate,
+    weight: options.weight ? parseNumber(options.weight, "--weight") : 0,
+    notes: options.notes || null,
+  });
+  console.log(`✅ Published ${name} v${version}`);
+  await listVersions(db, name);
+}
+
+async function updateVersion(db: Database, name: string, version: number, values: { weight?: number; active?: boolean }) {
+  const [updated] = await db
+    .update(promptTemplates)
+    .set(values)
+    .where(and(eq(promptTemplates.name, name), eq(promptTemplates.version, version)))
+    .returning();
+  if (!updated) {
+    throw new Error(`${name} v${version} does not exist`);
+  }
+  await listVersions(db, name);
+}
+
+async function showStats(db: Database) {
+  const stats = await getCallPromptStats(db);
+  if (stats.length === 0) {
+    console.log("📭 No calls record a prompt template version yet");
+    return;
+  }
+  for (const row of stats) {
+    const rate = row.completionRate === null ? "-" : `${Math.round(row.completionRate * 100)}%`;
+    const duration = row.avgDurationSeconds === null ? "-" : `${Math.round(row.avgDurationSeconds)}s`;
+    console.log(`v${row.version}  ${row.calls} calls, ${row.completed}/${row.finished} completed (${rate}), avg duration ${duration}`);
+  }
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const { positional, options } = parseArgs(rest);
+  const name = options.name || CALL_PROMPTS_TEMPLATE_NAME;
+
+  if (command === "export-builtin") {
+    await exportBuiltin(name, positional[0] ?? "./prompts");
+    return;
+  }
+
+  const driver = postgres(env.DATABASE_URL);
+  const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+  try {
+    switch (command) {
+      case "list":
+        await listVersions(db, name);
+        break;
+      case "publish":
+        await publish(db, name, positional, options);
+        break;
+      case "weight":
+        await updateVersion(db, name, parseNumber(positional[0], "Version"), {
+          weight: parseNumber(positional[1], "Weight"),
+          active: true,
+        });
+        break;
+      case "retire":
+        await updateVersion(db, name, parseNumber(positional[0], "Version"), { active: false });
+        break;
+      case "stats":
+        await showStats(db);
+        break;
+      default:
+        throw new Error("Usage: prompt-templates.ts export-builtin | publish | weight | retire | list | stats (see header)");
+    }
+  } finally {
+    await driver.end();
+  }
+}
+
+// Run if called directly
+if (import.meta.main) {
+  main()
+    .then(() => {
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("💥 Failed:", error);
+      process.exit(1);
+    });
+}
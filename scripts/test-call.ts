@@ -92,7 +92,7 @@ Start by asking if they're aware their cheese license expired last Tuesday. Be p
         encryptedHandle,
         paymentMethod: "free",
         isFree: true,
-        status: "call_created",
+        status: "dialing", // Dialed directly below, not through the call processor
       })
       .returning();
     
@@ -103,13 +103,20 @@ Start by asking if they're aware their cheese license expired last Tuesday. Be p
 
     // Initiate the call
     console.log("📞 Initiating Twilio call...");
-    const callResult = await initiateTwilioCall(newCall);
+    const callResult = await initiateTwilioCall(db, newCall, { source: "api" });
+    if (!callResult) {
+      await driver.end();
+      console.error("❌ This number is on the do-not-call list - the call was not placed");
+      process.exit(1);
+    }
 
     // Update call with Twilio Call SID
     await db
       .update(calls)
       .set({
         callSid: callResult.callSid,
+        fromNumber: callResult.fromNumber,
+        outboundNumberId: callResult.outboundNumberId,
         updatedAt: new Date(),
       })
       .where(eq(calls.id, newCall.id));
@@ -4,8 +4,13 @@
  * Handles text-based conversations with:
  * - ElevenLabs TTS (handled by Twilio)
  * - Deepgram STT (handled by Twilio)
- * - OpenAI Chat for AI responses
- * - Built-in interruption handling
+ * - Pluggable LLM chat (OpenAI, Groq, NEAR AI, local) for AI responses
+ * - In-call tools: end_call, switch_language, play_sound (when SOUND_EFFECTS_BASE_URL is set)
+ * - Keypad (DTMF) menu, including do-not-call opt-out
+ * - Max call duration and silence watchdog (nudge, then wrap up)
+ * - Twilio signature validation on the WebSocket upgrade
+ * - Interruption handling: in-flight LLM streams are cancelled, prompts
+ *   received while generating are queued and answered together
  */
 
 import { createServer } from "node:http";
@@ -15,7 +20,9 @@ import type {
   SetupMessage,
   PromptMessage,
   InterruptMessage,
+  DTMFMessage,
   ConversationSession,
+  ConversationTurn,
 } from "./src/lib/conversation-relay/types";
 
 // Railway sets PORT automatically, fall back to WS_PORT or 3001
@@ -25,41 +32,174 @@ const PORT = process.env.PORT ? parseInt(process.env.PORT) :
 // Session storage
 const sessions = new Map<string, ConversationSession>();
 
-// OpenAI Chat Client (lazy loaded)
-let OpenAIChatClientClass: typeof import("./src/lib/conversation-relay/openai-chat").OpenAIChatClient | null = null;
+// In-call tools (end_call, switch_language, play_sound) - lazy loaded
+type RelayToolsModule = typeof import("./src/lib/conversation-relay/tools");
+type EndCallHandoff = import("./src/lib/conversation-relay/tools").EndCallHandoff;
+let relayToolsModule: RelayToolsModule | null = null;
 
-async function getOpenAIChatClient() {
-  if (!OpenAIChatClientClass) {
-    const module = await import("./src/lib/conversation-relay/openai-chat");
-    OpenAIChatClientClass = module.OpenAIChatClient;
+async function getRelayTools() {
+  if (!relayToolsModule) {
+    relayToolsModule = await import("./src/lib/conversation-relay/tools");
+  }
+  return relayToolsModule;
+}
+
+// Keypad (DTMF) menu - parsed once from DTMF_MENU
+type DtmfMenuModule = typeof import("./src/lib/conversation-relay/dtmf-menu");
+let dtmfMenuCache: { module: DtmfMenuModule; menu: import("./src/lib/conversation-relay/dtmf-menu").DtmfMenu } | null = null;
+
+async function getDtmfMenu() {
+  if (!dtmfMenuCache) {
+    const module = await import("./src/lib/conversation-relay/dtmf-menu");
+    dtmfMenuCache = { module, menu: module.loadDtmfMenu() };
+  }
+  return dtmfMenuCache;
+}
+
+// Duration/silence limits (lazy loaded)
+type CallLimitsModule = typeof import("./src/lib/conversation-relay/call-limits");
+type CallLimits = import("./src/lib/conversation-relay/call-limits").CallLimits;
+let callLimitsModule: CallLimitsModule | null = null;
+
+async function getCallLimits() {
+  if (!callLimitsModule) {
+    callLimitsModule = await import("./src/lib/conversation-relay/call-limits");
+  }
+  return callLimitsModule;
+}
+
+// LLM provider layer (lazy loaded)
+type LLMProvidersModule = typeof import("./src/lib/conversation-relay/llm-providers");
+type ChatProvider = import("./src/lib/conversation-relay/llm-providers").ChatProvider;
+type PersonaLLMSettings = import("./src/lib/conversation-relay/llm-providers").PersonaLLMSettings;
+let llmProvidersModule: LLMProvidersModule | null = null;
+
+async function getLLMProviders() {
+  if (!llmProvidersModule) {
+    llmProvidersModule = await import("./src/lib/conversation-relay/llm-providers");
+  }
+  return llmProvidersModule;
+}
+
+// Short-lived DB connection (caller must end the driver when done)
+async function openDatabase() {
+  const postgres = (await import("postgres")).default;
+  const { drizzle } = await import("drizzle-orm/postgres-js");
+  const schema = await import("./src/lib/db/schema");
+
+  const driver = postgres(process.env.DATABASE_URL!);
+  const db = drizzle({ client: driver, schema, casing: "snake_case" });
+  return { driver, db };
+}
+
+// Cut an assistant turn down to what the recipient heard before interrupting
+// Returns null when the utterance can't be located in the content
+function truncateAtUtterance(content: string, utterance: string): string | null {
+  const position = content.indexOf(utterance);
+  if (position === -1) return null;
+  return content.substring(0, position + utterance.length);
+}
+
+// Persist session turns to call_transcripts (fire-and-forget from close handler)
+async function persistTranscript(session: ConversationSession) {
+  const { driver, db } = await openDatabase();
+  try {
+    const { saveSessionTranscript } = await import("./src/lib/conversation-relay/transcript");
+    const saved = await saveSessionTranscript(db, session);
+    if (saved > 0) {
+      console.log(`[WS] 📝 Saved ${saved} transcript turns for ${session.callSid}`);
+    }
+  } finally {
+    await driver.end();
+  }
 }
-  return OpenAIChatClientClass;
+
+// Long-lived pool shared by every session on this instance (cache reads, live events, live turns)
+let sharedDatabase: Awaited<ReturnType<typeof openDatabase>>["db"] | null = null;
+
+async function getSharedDatabase() {
+  if (!sharedDatabase) {
+    const postgres = (await import("postgres")).default;
+    const { drizzle } = await import("drizzle-orm/postgres-js");
+    const schema = await import("./src/lib/db/schema");
+    const driver = postgres(process.env.DATABASE_URL!, { max: 5 });
+    sharedDatabase = drizzle({ client: driver, schema, casing: "snake_case" });
+  }
+  return sharedDatabase;
 }
 
-// In-memory cache for call data (keyed by callSid)
-interface CachedCallData {
-  openaiPrompt: string;
-  welcomeGreeting?: string;
-  cachedAt: number;
+// Publish to the requester's live transcript feed (best effort - never blocks the call)
+function publishLiveEvent(event: import("./src/lib/calls/live-events").CallLiveEventInput) {
+  Promise.all([getSharedDatabase(), import("./src/lib/calls/live-events")])
+    .then(([db, { publishCallEvent }]) => publishCallEvent(db, event))
+    .catch((error) => {
+      console.warn("[WS] ⚠️ Failed to publish live event:", error);
+    });
+}
+
+// Write a turn as it happens so the live feed's snapshot has the call so far
+async function persistLiveTurn(session: ConversationSession, turn: ConversationTurn, index: number) {
+  const [db, { saveTranscriptTurn }] = await Promise.all([
+    getSharedDatabase(),
+    import("./src/lib/conversation-relay/transcript"),
+  ]);
+  await saveTranscriptTurn(db, session, turn, index);
 }
-const callDataCache = new Map<string, CachedCallData>();
-
-// Cleanup old cache entries every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  const oneHour = 60 * 60 * 1000;
-  let cleaned = 0;
-  for (const [callSid, data] of callDataCache.entries()) {
-    if (now - data.cachedAt > oneHour) {
-      callDataCache.delete(callSid);
-      cleaned++;
+
+// Call data cache (keyed by callSid) - Postgres by default so any instance can resolve any call
+type CallDataStore = import("./src/lib/conversation-relay/call-data-store").CallDataStore;
+type CachedCallData = import("./src/lib/conversation-relay/call-data-store").CachedCallData;
+let callDataStore: CallDataStore | null = null;
+
+async function getCallDataStore() {
+  if (!callDataStore) {
+    const { getCallDataStoreName, MemoryCallDataStore, PostgresCallDataStore } =
+      await import("./src/lib/conversation-relay/call-data-store");
+
+    if (getCallDataStoreName() === "memory") {
+      console.warn("[WS Cache] ⚠️ Using in-memory call cache - only safe with a single relay instance");
+      callDataStore = new MemoryCallDataStore();
+    } else {
+      callDataStore = new PostgresCallDataStore(await getSharedDatabase());
     }
   }
-  if (cleaned > 0) {
-    console.log(`[WS] Cleaned up ${cleaned} old cache entries`);
+  return callDataStore;
+}
+
+// Purge expired cache entries every 5 minutes
+setInterval(async () => {
+  try {
+    const store = await getCallDataStore();
+    const cleaned = await store.purgeExpired();
+    if (cleaned > 0) {
+      console.log(`[WS] Cleaned up ${cleaned} expired cache entries`);
+    }
+  } catch (error) {
+    console.error("[WS Cache] Failed to purge expired entries:", error);
   }
 }, 5 * 60 * 1000);
 
+// Verify the HMAC on a cache write (CALL_CACHE_SECRET shared with the app)
+// Returns an error message, or null when the write may proceed
+async function authenticateCacheWrite(req: import("node:http").IncomingMessage, body: string) {
+  const secret = process.env.CALL_CACHE_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      return "CALL_CACHE_SECRET is not configured";
+    }
+    console.warn("[WS Cache] ⚠️ CALL_CACHE_SECRET not set - accepting unsigned write (development only)");
+    return null;
+  }
+
+  const { verifyCacheRequest, CACHE_SIGNATURE_HEADER, CACHE_TIMESTAMP_HEADER } =
+    await import("./src/lib/conversation-relay/cache-signature");
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  return verifyCacheRequest(secret, body, header(CACHE_TIMESTAMP_HEADER), header(CACHE_SIGNATURE_HEADER));
+}
+
 // HTTP server for health checks and cache
 const httpServer = createServer((req, res) => {
   if (req.url === "/" || req.url === "/health") {
@@ -74,22 +214,27 @@ const httpServer = createServer((req, res) => {
     req.on("data", (chunk) => {
       body += chunk.toString();
     });
-    req.on("end", () => {
+    req.on("end", async () => {
       try {
-        const data = JSON.parse(body);
-        const { callSid, openaiPrompt, welcomeGreeting } = data;
-        
-        if (!callSid || !openaiPrompt) {
+        const authError = await authenticateCacheWrite(req, body);
+        if (authError) {
+          console.warn(`[WS Cache] 🚫 Rejected cache write: ${authError}`);
+          res.writeHead(401, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "Unauthorized" }));
+          return;
+        }
+
+        const { getCallDataTtlMs, parseCacheWrite } = await import("./src/lib/conversation-relay/call-data-store");
+        const write = parseCacheWrite(body);
+        if (!write) {
           res.writeHead(400, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ error: "Missing callSid or openaiPrompt" }));
           return;
         }
 
-        callDataCache.set(callSid, {
-          openaiPrompt,
-          welcomeGreeting,
-          cachedAt: Date.now(),
-        });
+        const { callSid } = write;
+        const store = await getCallDataStore();
+        await store.set(callSid, write.data, getCallDataTtlMs());
         
         console.log(`[WS Cache] ✅ Cached call data for ${callSid}`);
         res.writeHead(200, { "Content-Type": "application/json" });
@@ -107,8 +252,51 @@ const httpServer = createServer((req, res) => {
   res.end("Not Found");
 });
 
+// Validate X-Twilio-Signature on the WebSocket upgrade (Twilio signs the wss:// URL from the TwiML)
+async function isTwilioUpgrade(req: import("node:http").IncomingMessage): Promise<boolean> {
+  if (process.env.NODE_ENV !== "production" && process.env.TWILIO_SKIP_SIGNATURE_VALIDATION === "true") {
+    return true;
+  }
+
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) {
+    console.error("[WS] ❌ TWILIO_AUTH_TOKEN not set - cannot validate WebSocket upgrade");
+    return false;
+  }
+
+  const { isValidTwilioSignature, TWILIO_SIGNATURE_HEADER } = await import("./src/lib/twilio/signature");
+  const path = req.url || "/ws";
+  const candidates = [`wss://${req.headers.host}${path}`];
+  if (process.env.WEBSOCKET_URL) {
+    candidates.unshift(`${new URL(process.env.WEBSOCKET_URL).origin}${path}`);
+  }
+
+  const signature = req.headers[TWILIO_SIGNATURE_HEADER];
+  return isValidTwilioSignature(
+    authToken,
+    Array.isArray(signature) ? signature[0] : signature,
+    candidates,
+  );
+}
+
 // WebSocket server for ConversationRelay
-const wss = new WebSocketServer({ server: httpServer, path: "/ws" });
+const wss = new WebSocketServer({
+  server: httpServer,
+  path: "/ws",
+  verifyClient: (info, callback) => {
+    isTwilioUpgrade(info.req)
+      .then((valid) => {
+        if (!valid) {
+          console.warn(`[WS] 🚫 Rejected WebSocket upgrade with invalid Twilio signature`);
+        }
+        callback(valid, valid ? undefined : 403, valid ? undefined : "Forbidden");
+      })
+      .catch((error) => {
+        console.error("[WS] Signature validation failed:", error);
+        callback(false, 500);
+      });
+  },
+});
 
 wss.on("connection", (ws: WebSocket, req) => {
   console.log("=".repeat(60));
@@ -117,7 +305,23 @@ wss.on("connection", (ws: WebSocket, req) => {
   console.log("=".repeat(60));
   
   let currentSession: ConversationSession | null = null;
-  let chatClient: InstanceType<typeof import("./src/lib/conversation-relay/openai-chat").OpenAIChatClient> | null = null;
+  let chatClient: ChatProvider | null = null;
+  let endCallTimer: ReturnType<typeof setTimeout> | null = null;
+  // Duration limit + silence watchdog state
+  let callLimits: CallLimits | null = null;
+  let maxDurationTimer: ReturnType<typeof setTimeout> | null = null;
+  let silenceTimer: ReturnType<typeof setTimeout> | null = null;
+  let silenceNudged = false;
+  let pendingWrapUp: { reason: "max_duration" | "silence_timeout"; instruction: string } | null = null;
+  // In-flight response cancellation + prompts received while generating
+  let responseAbort: AbortController | null = null;
+  let responseSpoken = false; // Any text of the in-flight response sent to Twilio yet
+  let interruptedUtterance: string | null = null;
+  const promptQueue: PromptMessage[] = [];
+  // Last content published per turn index (live transcript feed)
+  const publishedTurns: string[] = [];
+  // Turn writes run one after another so a stale version never lands last
+  let transcriptWrites: Promise<void> = Promise.resolve();
   
   ws.on("message", async (data: Buffer) => {
     const rawData = data.toString();
@@ -145,7 +349,8 @@ wss.on("connection", (ws: WebSocket, req) => {
           break;
 
         case "dtmf":
-          console.log(`[WS] 📱 DTMF: ${(message as { digit: string }).digit}`);
+          console.log(`[WS] 📱 DTMF: ${(message as DTMFMessage).digit}`);
+          await handleDtmf(ws, message as DTMFMessage);
           break;
 
         case "info": {
@@ -153,6 +358,7 @@ wss.on("connection", (ws: WebSocket, req) => {
           const info = message as { name?: string; value?: string };
           if (info.name === "clientSpeaking" && info.value === "on") {
             console.log("[WS] 🎤 User speaking...");
+            clearSilenceWatchdog();
           }
           break;
         }
@@ -172,8 +378,23 @@ wss.on("connection", (ws: WebSocket, req) => {
   
   ws.on("close", (code) => {
     console.log(`[WS] 🔌 Connection closed (code: ${code})`);
+    if (endCallTimer) {
+      clearTimeout(endCallTimer);
+    }
+    if (maxDurationTimer) {
+      clearTimeout(maxDurationTimer);
+    }
+    clearSilenceWatchdog();
     if (currentSession) {
+      syncLiveTranscript();
+      if (currentSession.callId) {
+        publishLiveEvent({ type: "session", callId: currentSession.callId, state: "ended" });
+      }
       sessions.delete(currentSession.sessionId);
+      const session = currentSession;
+      transcriptWrites = transcriptWrites.then(() => persistTranscript(session)).catch((error) => {
+        console.error("[WS] Failed to save transcript:", error);
+      });
     }
 });
 
@@ -187,54 +408,111 @@ wss.on("connection", (ws: WebSocket, req) => {
     
     console.log(`[WS] 🚀 Setup - Session: ${sessionId}, Call: ${callSid}`);
 
-    // Get OpenAI prompt from cache or DB
-    let openaiPrompt = "You are a helpful assistant on a phone call. Be concise and conversational.";
+    // Get OpenAI prompt and persona LLM settings from cache or DB
+    const defaultPrompt = "You are a helpful assistant on a phone call. Be concise and conversational.";
+    let openaiPrompt = defaultPrompt;
+    let personaLLM: PersonaLLMSettings | undefined;
+    let welcomeGreeting = "";
+    let callId: string | undefined;
+    const { resolveCallLimits, callLimitOverridesFromCall } = await getCallLimits();
+    callLimits = resolveCallLimits();
     
-    const cached = callDataCache.get(callSid);
+    let cached: CachedCallData | null = null;
+    try {
+      cached = await (await getCallDataStore()).get(callSid);
+    } catch (error) {
+      console.error("[WS] Call cache lookup failed:", error);
+    }
+
     if (cached) {
       console.log(`[WS] ✅ Using cached prompt`);
       openaiPrompt = cached.openaiPrompt;
+      personaLLM = cached.llm;
+      welcomeGreeting = cached.welcomeGreeting || "";
+      callId = cached.callId;
+      if (cached.limits) {
+        callLimits = cached.limits;
+      }
     } else {
       // Fallback to DB query
       console.log(`[WS] ⚠️ Cache miss, querying DB...`);
       try {
-    const postgres = (await import("postgres")).default;
-    const { drizzle } = await import("drizzle-orm/postgres-js");
     const { eq } = await import("drizzle-orm");
     const { calls } = await import("./src/lib/db/schema/calls");
-    const schema = await import("./src/lib/db/schema");
-    
-    const driver = postgres(process.env.DATABASE_URL!);
-    const db = drizzle({ client: driver, schema, casing: "snake_case" });
+    const { callers } = await import("./src/lib/db/schema/callers");
+    const { driver, db } = await openDatabase();
     
-    const [call] = await db.select().from(calls).where(eq(calls.callSid, callSid)).limit(1);
+    const [call] = await db
+      .select({
+        id: calls.id,
+        openaiPrompt: calls.openaiPrompt,
+        welcomeGreeting: calls.welcomeGreeting,
+        maxDurationSeconds: calls.maxDurationSeconds,
+        silenceNudgeSeconds: calls.silenceNudgeSeconds,
+        silenceTimeoutSeconds: calls.silenceTimeoutSeconds,
+        llmProvider: callers.llmProvider,
+        llmModel: callers.llmModel,
+        llmTemperature: callers.llmTemperature,
+        llmMaxTokens: callers.llmMaxTokens,
+      })
+      .from(calls)
+      .leftJoin(callers, eq(calls.callerId, callers.id))
+      .where(eq(calls.callSid, callSid))
+      .limit(1);
     await driver.end();
     
         if (call?.openaiPrompt) {
           openaiPrompt = call.openaiPrompt;
         }
+        if (call) {
+          callId = call.id;
+          const { personaLLMSettingsFromCaller } = await getLLMProviders();
+          personaLLM = personaLLMSettingsFromCaller(call);
+          welcomeGreeting = call.welcomeGreeting || "";
+          callLimits = resolveCallLimits(callLimitOverridesFromCall(call));
+        }
       } catch (error) {
         console.error("[WS] DB query failed:", error);
       }
     }
 
-    // Initialize chat client
-    const OpenAIChatClient = await getOpenAIChatClient();
-    chatClient = new OpenAIChatClient({
-      apiKey: process.env.OPENAI_API_KEY!,
-      model: "gpt-4o-mini",
-      systemPrompt: openaiPrompt,
-    });
+    // Screened at generation too - this catches rows written or edited some other way
+    const { detectPromptInjection, LIVE_PROMPT_GUARD } = await import("./src/lib/prompts/injection");
+    const injected = detectPromptInjection(openaiPrompt);
+    if (injected.length > 0) {
+      console.warn(`[WS] 🛡️ Prompt failed the injection check (${injected.map((match) => match.pattern).join(", ")}) - using the default prompt`);
+      openaiPrompt = defaultPrompt;
+    }
+
+    // Initialize chat client for the persona's provider/model
+    const { resolveLLMConfig, createChatProvider } = await getLLMProviders();
+    const { RELAY_TOOLS } = await getRelayTools();
+    const { module: dtmfMenuModule, menu } = await getDtmfMenu();
+    const llmConfig = resolveLLMConfig(personaLLM);
+    chatClient = createChatProvider(
+      llmConfig,
+      `${openaiPrompt}\n\n${dtmfMenuModule.describeDtmfMenu(menu)}\n\n${LIVE_PROMPT_GUARD}`,
+      RELAY_TOOLS,
+    );
+    console.log(`[WS] 🧠 LLM: ${llmConfig.provider}/${llmConfig.model} (temp ${llmConfig.temperature}, max ${llmConfig.maxTokens})`);
 
     // Create session
     currentSession = {
       sessionId,
       callSid,
+      callId,
+      recipientNumber: message.direction === "inbound" ? message.from : message.to,
       openaiPrompt,
       conversation: [],
       isProcessing: false,
     };
     sessions.set(sessionId, currentSession);
+    if (callId) {
+      publishLiveEvent({ type: "session", callId, state: "started" });
+    }
+
+    console.log(`[WS] ⏱️ Limits: max ${callLimits.maxDurationSeconds}s, nudge after ${callLimits.silenceNudgeSeconds}s, end after ${callLimits.silenceTimeoutSeconds}s of silence`);
+    await startCallWatchdogs(ws, welcomeGreeting);
 
     console.log(`[WS] ✅ Ready - waiting for user speech...`);
     }
@@ -246,28 +524,85 @@ wss.on("connection", (ws: WebSocket, req) => {
       return;
     }
 
+    if (currentSession.pendingEnd) {
+      console.log("[WS] 📴 Call is ending, ignoring prompt");
+      return;
+    }
+
+    // The recipient is talking - reset the silence watchdog
+    silenceNudged = false;
+    clearSilenceWatchdog();
+
     if (currentSession.isProcessing) {
-      console.log("[WS] ⏳ Already processing, ignoring");
+      promptQueue.push(message);
+      console.log(`[WS] ⏳ Generating, queued prompt (${promptQueue.length} waiting)`);
+
+      // Nothing spoken yet - the in-flight answer is already stale, regenerate with the new speech
+      if (responseAbort && !responseSpoken) {
+        responseAbort.abort();
+      }
+      return;
+    }
+
+    addUserTurn([message]);
+    await respond(ws);
+  }
+
+  // Add speech to the conversation, merging into a trailing user turn
+  // (left behind when a superseded response was dropped before it was spoken)
+  function addUserTurn(prompts: PromptMessage[]) {
+    if (!currentSession || prompts.length === 0) return;
+
+    const text = prompts.map((prompt) => prompt.voicePrompt.trim()).filter(Boolean).join(" ");
+    const confidences = prompts
+      .map((prompt) => prompt.confidence)
+      .filter((confidence): confidence is number => confidence !== undefined);
+    const confidence = confidences.length ? Math.min(...confidences) : undefined;
+
+    const lastTurn = currentSession.conversation[currentSession.conversation.length - 1];
+    if (lastTurn?.role === "user") {
+      lastTurn.content = `${lastTurn.content} ${text}`;
+      if (confidence !== undefined) {
+        lastTurn.confidence = Math.min(lastTurn.confidence ?? confidence, confidence);
+      }
       return;
     }
-    
-    const userText = message.voicePrompt;
 
-    // Add user turn to conversation
     currentSession.conversation.push({
       role: "user",
-      content: userText,
+      content: text,
       timestamp: Date.now(),
+      confidence,
     });
-    
-    currentSession.isProcessing = true;
+  }
+
+  // Generate and speak the persona's next turn
+  // instruction: one-off system message (silence nudge, wrap-up) instead of a user prompt
+  async function respond(ws: WebSocket, instruction?: string) {
+    if (!currentSession || !chatClient) return;
+
+    const session = currentSession;
+    session.isProcessing = true;
+    syncLiveTranscript();
+
+    const abort = new AbortController();
+    responseAbort = abort;
+    responseSpoken = false;
+    interruptedUtterance = null;
 
     try {
+      const { executeRelayTool } = await getRelayTools();
+
       // Stream response from OpenAI, buffering into word groups for smooth TTS
       let buffer = "";
       
       const sendChunk = (text: string, isLast: boolean) => {
+        // A keypad action took over the call - its confirmation is already playing
+        if (session.pendingEnd?.muteResponse) return;
+        // Interrupted or superseded - Twilio already dropped this answer
+        if (abort.signal.aborted) return;
         if (text.trim() || isLast) {
+          responseSpoken = true;
           ws.send(JSON.stringify({
             type: "text",
             token: text,
@@ -277,7 +612,7 @@ wss.on("connection", (ws: WebSocket, req) => {
       };
       
       const fullResponse = await chatClient.streamResponse(
-        currentSession.conversation,
+        session.conversation,
         (token) => {
           buffer += token;
           
@@ -292,48 +627,316 @@ wss.on("connection", (ws: WebSocket, req) => {
             sendChunk(buffer, false);
             buffer = "";
           }
-        }
+        },
+        {
+          instruction,
+          signal: abort.signal,
+          // No tools while wrapping up - the call is already ending
+          onToolCall: session.pendingEnd ? undefined : async (toolCall) => {
+            // Flush buffered speech so tool effects land in order
+            if (buffer.trim()) {
+              sendChunk(buffer, false);
+              buffer = "";
+            }
+            return executeRelayTool(toolCall, {
+              session,
+              send: (outgoing) => ws.send(JSON.stringify(outgoing)),
+            });
+          },
+        },
       );
 
-      // Send any remaining buffer
-      if (buffer.trim()) {
-        sendChunk(buffer, false);
-      }
+      if (abort.signal.aborted) {
+        recordAbortedResponse(fullResponse);
+      } else {
+        // Send any remaining buffer
+        if (buffer.trim()) {
+          sendChunk(buffer, false);
+        }
       
-      // Send final empty token with last: true
-      sendChunk("", true);
-
-      console.log(`[WS] 🤖 AI: "${fullResponse.substring(0, 80)}..."`);
-
-      // Add assistant turn to conversation
-      currentSession.conversation.push({
-        role: "assistant",
-        content: fullResponse,
-        timestamp: Date.now(),
-      });
+        // Send final empty token with last: true
+        sendChunk("", true);
+
+        console.log(`[WS] 🤖 AI: "${fullResponse.substring(0, 80)}..."`);
+
+        // Add assistant turn to conversation (tool-only and muted responses were never spoken)
+        if (fullResponse.trim() && !session.pendingEnd?.muteResponse) {
+          session.conversation.push({
+            role: "assistant",
+            content: fullResponse,
+            timestamp: Date.now(),
+          });
+          session.lastAssistantResponse = fullResponse;
+        }
 
-      currentSession.lastAssistantResponse = fullResponse;
+        // end_call or a limit was hit - hang up once the goodbye has been spoken
+        if (session.pendingEnd) {
+          await scheduleEnd(ws, session.pendingEnd.handoffData, fullResponse);
+        } else {
+          await armSilenceWatchdog(fullResponse);
+        }
+      }
     } catch (error) {
       console.error("[WS] Error getting AI response:", error);
-      
-      // Send error message to user
-      ws.send(JSON.stringify({
-        type: "text",
-        token: "I'm sorry, I encountered an error. Could you please repeat that?",
-        last: true,
-      }));
+
+      if (session.pendingEnd) {
+        // Wrapping up anyway - don't ask them to repeat, just hang up
+        await scheduleEnd(ws, session.pendingEnd.handoffData, "");
+      } else {
+        // Send error message to user
+        ws.send(JSON.stringify({
+          type: "text",
+          token: "I'm sorry, I encountered an error. Could you please repeat that?",
+          last: true,
+        }));
+        await armSilenceWatchdog("");
+      }
     } finally {
-      currentSession.isProcessing = false;
+      session.isProcessing = false;
+      if (responseAbort === abort) {
+        responseAbort = null;
+      }
+      syncLiveTranscript();
+    }
+
+    // A limit was hit while this turn was generating - wrap up now
+    if (pendingWrapUp) {
+      const { reason, instruction: wrapUpInstruction } = pendingWrapUp;
+      pendingWrapUp = null;
+      promptQueue.length = 0;
+      await wrapUp(ws, reason, wrapUpInstruction);
+      return;
+    }
+
+    // Answer everything said while we were generating, as one turn
+    if (promptQueue.length > 0) {
+      if (session.pendingEnd) {
+        console.log(`[WS] 📴 Call is ending, dropping ${promptQueue.length} queued prompt(s)`);
+        promptQueue.length = 0;
+        return;
+      }
+      addUserTurn(promptQueue.splice(0));
+      await respond(ws);
     }
   }
 
+  // Publish turns that are new or changed since the last sync (merged speech, interrupt truncation)
+  function syncLiveTranscript() {
+    const session = currentSession;
+    const callId = session?.callId;
+    if (!session || !callId) return;
+
+    session.conversation.forEach((turn, index) => {
+      const published = `${turn.wasInterrupted ? "1" : "0"}${turn.content}`;
+      if (publishedTurns[index] === published) return;
+      publishedTurns[index] = published;
+      const snapshot = { ...turn };
+      transcriptWrites = transcriptWrites.then(() => persistLiveTurn(session, snapshot, index)).catch((error) => {
+        console.warn("[WS] ⚠️ Failed to save live turn:", error);
+      });
+      publishLiveEvent({
+        type: "turn",
+        callId,
+        index,
+        role: turn.role,
+        content: turn.content,
+        wasInterrupted: turn.wasInterrupted ?? false,
+      });
+    });
+  }
+
+  // Keep what was actually spoken of a cancelled response
+  function recordAbortedResponse(fullResponse: string) {
+    if (!currentSession) return;
+
+    if (!responseSpoken || !fullResponse.trim()) {
+      console.log("[WS] ✋ Response superseded before it was spoken");
+      return;
+    }
+
+    const utterance = interruptedUtterance;
+    const heard = utterance ? truncateAtUtterance(fullResponse, utterance) : null;
+    console.log(`[WS] ✋ Response cancelled after ${fullResponse.length} chars`);
+
+    currentSession.conversation.push({
+      role: "assistant",
+      content: heard ?? fullResponse,
+      timestamp: Date.now(),
+      wasInterrupted: true,
+      interruptedAt: utterance ?? undefined,
+    });
+    currentSession.lastAssistantResponse = heard ?? fullResponse;
+  }
+
+  // Start the max-duration timer and the first silence window (after the welcome greeting)
+  async function startCallWatchdogs(ws: WebSocket, welcomeGreeting: string) {
+    if (!callLimits) return;
+
+    const { MAX_DURATION_WRAP_UP_INSTRUCTION } = await getCallLimits();
+    maxDurationTimer = setTimeout(() => {
+      console.log(`[WS] ⏱️ Max duration reached (${callLimits?.maxDurationSeconds}s)`);
+      wrapUp(ws, "max_duration", MAX_DURATION_WRAP_UP_INSTRUCTION).catch((error) => {
+        console.error("[WS] Failed to wrap up call:", error);
+      });
+    }, callLimits.maxDurationSeconds * 1000);
+
+    await armSilenceWatchdog(welcomeGreeting);
+  }
+
+  // Wait for the persona's speech to finish, then for the recipient to respond
+  async function armSilenceWatchdog(spokenText: string) {
+    clearSilenceWatchdog();
+    if (!callLimits || !currentSession || currentSession.pendingEnd) return;
+
+    const { estimateSpeechDurationMs } = await getRelayTools();
+    const waitSeconds = silenceNudged
+      ? callLimits.silenceTimeoutSeconds - callLimits.silenceNudgeSeconds
+      : callLimits.silenceNudgeSeconds;
+
+    silenceTimer = setTimeout(() => {
+      handleSilence(ws).catch((error) => {
+        console.error("[WS] Silence watchdog failed:", error);
+      });
+    }, estimateSpeechDurationMs(spokenText) + waitSeconds * 1000);
+  }
+
+  function clearSilenceWatchdog() {
+    if (silenceTimer) {
+      clearTimeout(silenceTimer);
+      silenceTimer = null;
+    }
+  }
+
+  // Recipient stayed silent: nudge once, then wrap up
+  async function handleSilence(ws: WebSocket) {
+    silenceTimer = null;
+    if (!currentSession || currentSession.pendingEnd || currentSession.isProcessing) return;
+
+    const { SILENCE_NUDGE_INSTRUCTION, SILENCE_WRAP_UP_INSTRUCTION } = await getCallLimits();
+
+    if (!silenceNudged) {
+      console.log(`[WS] 🤫 Silence for ${callLimits?.silenceNudgeSeconds}s - nudging`);
+      silenceNudged = true;
+      await respond(ws, SILENCE_NUDGE_INSTRUCTION);
+      return;
+    }
+
+    console.log(`[WS] 🤫 Silence timeout (${callLimits?.silenceTimeoutSeconds}s) - wrapping up`);
+    await wrapUp(ws, "silence_timeout", SILENCE_WRAP_UP_INSTRUCTION);
+  }
+
+  // Deliver an in-character wrap-up, then end the session
+  async function wrapUp(ws: WebSocket, reason: "max_duration" | "silence_timeout", instruction: string) {
+    if (!currentSession || currentSession.pendingEnd) return;
+
+    if (currentSession.isProcessing) {
+      // Let the current turn finish first (see respond)
+      pendingWrapUp = { reason, instruction };
+      return;
+    }
+
+    const handoff: EndCallHandoff = {
+      reason,
+      endedBy: "system",
+      callSid: currentSession.callSid,
+      sessionId: currentSession.sessionId,
+    };
+    currentSession.pendingEnd = { handoffData: JSON.stringify(handoff) };
+    clearSilenceWatchdog();
+
+    await respond(ws, instruction);
+  }
+
+  // Send the EndMessage once the last spoken text has had time to play
+  async function scheduleEnd(ws: WebSocket, handoffData: string, spokenText: string) {
+    if (endCallTimer) return;
+
+    const { estimateSpeechDurationMs } = await getRelayTools();
+    const delayMs = estimateSpeechDurationMs(spokenText);
+    console.log(`[WS] 📴 Ending call in ${delayMs}ms`);
+    endCallTimer = setTimeout(() => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: "end", handoffData }));
+      }
+    }, delayMs);
+  }
+
+  // Handle keypad press - menu actions run directly, without the LLM
+  async function handleDtmf(ws: WebSocket, message: DTMFMessage) {
+    if (!currentSession || currentSession.pendingEnd?.muteResponse) return;
+
+    const { menu } = await getDtmfMenu();
+    const option = menu[message.digit];
+    if (!option) return;
+
+    const session = currentSession;
+    console.log(`[WS] 📱 Keypad action: ${option.action}`);
+
+    if (option.action === "opt_out") {
+      if (session.recipientNumber) {
+        try {
+          const { addToDoNotCallList } = await import("./src/lib/calls/do-not-call");
+          const { driver, db } = await openDatabase();
+          try {
+            await addToDoNotCallList(db, session.recipientNumber, {
+              source: "dtmf",
+              callSid: session.callSid,
+            });
+          } finally {
+            await driver.end();
+          }
+        } catch (error) {
+          console.error("[WS] ❌ Failed to record do-not-call opt-out:", error);
+        }
+      } else {
+        console.error("[WS] ❌ Opt-out pressed but recipient number is unknown");
+      }
+    }
+
+    const handoff: EndCallHandoff = {
+      reason: option.action === "opt_out" ? "dtmf_opt_out" : "dtmf_end_call",
+      endedBy: "recipient",
+      callSid: session.callSid,
+      sessionId: session.sessionId,
+    };
+    session.pendingEnd = { handoffData: JSON.stringify(handoff), muteResponse: true };
+    clearSilenceWatchdog();
+
+    // Stop whatever the persona was saying and speak the confirmation
+    ws.send(JSON.stringify({ type: "clear" }));
+    ws.send(JSON.stringify({ type: "text", token: option.confirmation, last: true }));
+    session.conversation.push({
+      role: "assistant",
+      content: option.confirmation,
+      timestamp: Date.now(),
+    });
+    syncLiveTranscript();
+
+    if (endCallTimer) {
+      // end_call was already pending - restart the timer for the confirmation
+      clearTimeout(endCallTimer);
+      endCallTimer = null;
+    }
+    await scheduleEnd(ws, session.pendingEnd.handoffData, option.confirmation);
+  }
+
   // Handle interrupt (user interrupted AI)
   function handleInterrupt(ws: WebSocket, message: InterruptMessage) {
     if (!currentSession) return;
 
+    // Recipient is talking over the persona - not silent
+    clearSilenceWatchdog();
+
     const { utteranceUntilInterrupt } = message;
     console.log(`[WS] ⚡ Interrupted at: "${utteranceUntilInterrupt.substring(0, 30)}..."`);
 
+    // Still generating - stop the stream; respond() records the truncated turn
+    if (responseAbort && !currentSession.pendingEnd) {
+      interruptedUtterance = utteranceUntilInterrupt;
+      responseAbort.abort();
+      return;
+    }
+
     // Find and truncate the last assistant message
     let lastAssistantIndex = -1;
     for (let i = currentSession.conversation.length - 1; i >= 0; i--) {
@@ -345,24 +948,18 @@ wss.on("connection", (ws: WebSocket, req) => {
 
     if (lastAssistantIndex !== -1) {
       const lastTurn = currentSession.conversation[lastAssistantIndex];
-      const interruptPosition = lastTurn.content.indexOf(utteranceUntilInterrupt);
+      const truncatedContent = truncateAtUtterance(lastTurn.content, utteranceUntilInterrupt);
       
-      if (interruptPosition !== -1) {
-        const truncatedContent = lastTurn.content.substring(
-          0,
-          interruptPosition + utteranceUntilInterrupt.length
-        );
-
+      if (truncatedContent !== null) {
         currentSession.conversation[lastAssistantIndex] = {
           ...lastTurn,
           content: truncatedContent,
           wasInterrupted: true,
           interruptedAt: utteranceUntilInterrupt,
         };
+        syncLiveTranscript();
     }
     }
-
-    currentSession.isProcessing = false;
   }
 });
 
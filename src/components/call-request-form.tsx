@@ -9,6 +9,7 @@ import { PaymentModal } from "~/components/payment-modal";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
+import { Checkbox } from "~/components/ui/checkbox";
 import { Textarea } from "~/components/ui/textarea";
 import {
   Select,
@@ -19,10 +20,12 @@ import {
 } from "~/components/ui/select";
 import { toast } from "sonner";
 import { authQueryOptions } from "~/lib/auth/queries";
-import { createCall } from "~/lib/calls/functions";
+import { checkDoNotCall, createCall } from "~/lib/calls/functions";
 import { VIDEO_STYLES } from "~/lib/constants/video-styles";
+import { RECIPIENT_TIMEZONE_OPTIONS } from "~/lib/calls/timezones";
+import { getCountryRules, SUPPORTED_COUNTRIES } from "~/lib/calls/country-rules";
 import { PAYMENT_CONFIG } from "~/lib/web3/config";
-import { validateCallFormData } from "~/lib/validation/call-form";
+import { validateCallFormData, type VoicemailMode } from "~/lib/validation/call-form";
 
 type InputMode = "form" | "ai-chat";
 
@@ -63,6 +66,7 @@ export function CallRequestForm() {
   const [formData, setFormData] = useState({
     recipientName: "",
     phoneNumber: "",
+    recipientCountry: "US", // Selects the dialing code and calling rules
     callerId: null as string | null,
     targetGender: "male" as "male" | "female" | "prefer_not_to_say" | "other",
     targetGenderCustom: "",
@@ -78,8 +82,18 @@ export function CallRequestForm() {
     // Optional image upload
     uploadedImageUrl: "",
     uploadedImageS3Key: "",
+    // Calling-hours timezone override ("" = detect from area code)
+    recipientTimezone: "",
+    // Delivery time on their wall clock ("" = as soon as possible)
+    scheduledFor: "",
+    // Answering machine: hang up and retry, or leave the persona's voicemail
+    voicemailMode: "hang_up" as VoicemailMode,
+    // Hold the call until the requester approves the generated script
+    reviewScript: false,
   });
   
+  const phoneCountry = getCountryRules(formData.recipientCountry) ?? SUPPORTED_COUNTRIES[0];
+
   // Use ref to track if we've processed sessionStorage (persists across renders within same mount)
   const hasProcessedStorage = useRef(false);
   // Store the loaded caller ID in a ref so it survives state resets
@@ -265,6 +279,7 @@ export function CallRequestForm() {
         videoStyle: data.videoStyle || prev.videoStyle,
         uploadedImageUrl: data.uploadedImageUrl || prev.uploadedImageUrl,
         uploadedImageS3Key: data.uploadedImageS3Key || prev.uploadedImageS3Key,
+        scheduledFor: data.scheduledFor || prev.scheduledFor,
       };
       console.log("[CallRequestForm] Updated form data:", updated);
       return updated;
@@ -294,14 +309,29 @@ export function CallRequestForm() {
   }, [(search as any).payment]);
 
   // Form validation using the same validation logic as API
-  const validateForm = (): boolean => {
+  // Opted-out numbers fail validation like any other bad number (the lookup needs a session;
+  // createCall and checkout check again either way)
+  const lookUpDoNotCall = async (): Promise<ReadonlySet<string>> => {
+    if (!user || !formData.phoneNumber) return new Set();
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = await (checkDoNotCall as any)({
+        data: { phoneNumber: formData.phoneNumber, recipientCountry: formData.recipientCountry },
+      });
+      return result.doNotCall && result.phoneNumber ? new Set([result.phoneNumber]) : new Set();
+    } catch {
+      return new Set();
+    }
+  };
+
+  const validateForm = (doNotCallNumbers: ReadonlySet<string>): boolean => {
     // Check caller is selected
     if (!formData.callerId) {
       toast.error("Please select a caller");
       return false;
     }
     
-    const validationResult = validateCallFormData(formData);
+    const validationResult = validateCallFormData(formData, { doNotCallNumbers });
     
     if (!validationResult.isValid) {
       // Show first error to user
@@ -315,6 +345,7 @@ export function CallRequestForm() {
       setFormData((prev) => ({
         ...prev,
         phoneNumber: validationResult.normalizedData.phoneNumber!,
+        recipientCountry: validationResult.normalizedData.recipientCountry || prev.recipientCountry,
       }));
     }
     
@@ -327,7 +358,7 @@ export function CallRequestForm() {
     if (isSubmitting || isEncrypting) return;
 
     // Validate form first
-    if (!validateForm()) return;
+    if (!validateForm(await lookUpDoNotCall())) return;
 
     // If Fhenix mode selected but wallet not connected, show error
     if (privacyMode === "fhenix" && !isFhenixReady) {
@@ -405,6 +436,11 @@ export function CallRequestForm() {
             // Optional uploaded image
             uploadedImageUrl: formData.uploadedImageUrl || undefined,
             uploadedImageS3Key: formData.uploadedImageS3Key || undefined,
+          recipientTimezone: formData.recipientTimezone || undefined,
+          recipientCountry: formData.recipientCountry,
+          scheduledFor: formData.scheduledFor || undefined,
+          voicemailMode: formData.voicemailMode,
+          reviewScript: formData.reviewScript,
           // Include fhenix metadata
           fhenixEnabled: privacyMode === "fhenix",
           fhenixVaultId: fhenixVaultId || undefined,
@@ -413,7 +449,9 @@ export function CallRequestForm() {
       console.log("[Client] Call created:", result);
 
       toast.success(
-        "🎉 Purchase complete! Your AI call is being processed.",
+        formData.reviewScript
+          ? "🎉 Purchase complete! Review the script in Your Calls to send the call."
+          : "🎉 Purchase complete! Your AI call is being processed.",
         {
           duration: 5000,
         }
@@ -426,6 +464,7 @@ export function CallRequestForm() {
       setFormData({
         recipientName: "",
         phoneNumber: "",
+        recipientCountry: "US",
         callerId: null,
         targetGender: "male",
         targetGenderCustom: "",
@@ -439,6 +478,10 @@ export function CallRequestForm() {
         videoStyle: "anime",
         uploadedImageUrl: "",
         uploadedImageS3Key: "",
+        recipientTimezone: "",
+        scheduledFor: "",
+        voicemailMode: "hang_up",
+        reviewScript: false,
       });
       // Reset Fhenix state
       setFhenixVaultId(null);
@@ -527,37 +570,136 @@ export function CallRequestForm() {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="phoneNumber" style={{ color: '#1A1A1A' }}>Their phone number (US) *</Label>
+              <Label htmlFor="phoneNumber" style={{ color: '#1A1A1A' }}>Their phone number *</Label>
               <div className="flex items-center gap-2">
-                <span className="text-sm font-medium" style={{ color: '#1A1A1A', opacity: 0.7 }}>+1</span>
+                <Select
+                  value={formData.recipientCountry}
+                  onValueChange={(value) =>
+                    // New dialing code - start the number over
+                    setFormData({ ...formData, recipientCountry: value, phoneNumber: "" })
+                  }
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger aria-label="Country" className="w-28" style={{ color: '#1A1A1A' }}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_COUNTRIES.map((country) => (
+                      <SelectItem key={country.code} value={country.code}>
+                        {country.code} +{country.dialCode}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Input
                   id="phoneNumber"
                   type="tel"
                   value={(() => {
-                    // Format as (xxx) xxx-xxxx for display
-                    const digits = formData.phoneNumber?.replace(/^\+1/, "").replace(/\D/g, "") || "";
+                    const digits = formData.phoneNumber?.replace(`+${phoneCountry.dialCode}`, "").replace(/\D/g, "") || "";
                     if (digits.length === 0) return "";
+                    if (phoneCountry.dialCode !== "1") return digits;
+                    // Format as (xxx) xxx-xxxx for display
                     if (digits.length <= 3) return `(${digits}`;
                     if (digits.length <= 6) return `(${digits.slice(0, 3)}) ${digits.slice(3)}`;
                     return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6, 10)}`;
                   })()}
                   onChange={(e) => {
-                    // Strip to digits only, limit to 10
-                    const value = e.target.value.replace(/[^\d]/g, "").substring(0, 10);
-                    // Store with +1 prefix (raw format for backend)
-                    setFormData({ ...formData, phoneNumber: value ? `+1${value}` : "" });
+                    // Strip to digits only - leaves room for a trunk "0" (UK 020...)
+                    const maxDigits =
+                      Math.max(...phoneCountry.nationalNumberLengths) + (phoneCountry.trunkPrefix?.length ?? 0);
+                    const value = e.target.value.replace(/[^\d]/g, "").substring(0, maxDigits);
+                    // Store with the country code (raw format for backend, normalized on submit)
+                    setFormData({ ...formData, phoneNumber: value ? `+${phoneCountry.dialCode}${value}` : "" });
                   }}
-                  placeholder="(555) 123-4567"
+                  placeholder={phoneCountry.dialCode === "1" ? "(555) 123-4567" : "Number without country code"}
                   required
                   disabled={isSubmitting}
                   className="flex-1"
-                  maxLength={14} // (555) 123-4567 = 14 chars
                   style={{ color: '#1A1A1A' }}
                 />
               </div>
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="recipientTimezone" style={{ color: '#1A1A1A' }}>Their timezone</Label>
+            <Select
+              value={formData.recipientTimezone || "auto"}
+              onValueChange={(value) =>
+                setFormData({
+                  ...formData,
+                  recipientTimezone: value === "auto" ? "" : value,
+                })
+              }
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="recipientTimezone" style={{ color: '#1A1A1A' }}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect from area code</SelectItem>
+                {RECIPIENT_TIMEZONE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs" style={{ color: '#1A1A1A', opacity: 0.6 }}>
+              We only call between 9 AM and 9 PM their time. Set this if their number is from a different area.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scheduledFor" style={{ color: '#1A1A1A' }}>When to call (their time)</Label>
+            <Input
+              id="scheduledFor"
+              type="datetime-local"
+              value={formData.scheduledFor}
+              onChange={(e) => setFormData({ ...formData, scheduledFor: e.target.value })}
+              disabled={isSubmitting}
+              style={{ color: '#1A1A1A' }}
+            />
+            <p className="text-xs" style={{ color: '#1A1A1A', opacity: 0.6 }}>
+              Leave empty to call as soon as possible. You can reschedule or cancel from Your Calls until the call is dialed.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="voicemailMode" style={{ color: '#1A1A1A' }}>If voicemail picks up</Label>
+            <Select
+              value={formData.voicemailMode}
+              onValueChange={(value) => setFormData({ ...formData, voicemailMode: value as VoicemailMode })}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="voicemailMode" style={{ color: '#1A1A1A' }}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="hang_up">Hang up and try again later</SelectItem>
+                <SelectItem value="leave_message">Leave a short message in character</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs" style={{ color: '#1A1A1A', opacity: 0.6 }}>
+              A voicemail message counts as delivered - no video is made from it.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="reviewScript"
+                checked={formData.reviewScript}
+                onCheckedChange={(checked) => setFormData({ ...formData, reviewScript: checked === true })}
+                disabled={isSubmitting}
+              />
+              <Label htmlFor="reviewScript" style={{ color: '#1A1A1A' }}>Let me review the script before calling</Label>
+            </div>
+            <p className="text-xs" style={{ color: '#1A1A1A', opacity: 0.6 }}>
+              See the opening line first and regenerate or edit it. If you don&apos;t approve it before the review window closes, the call goes ahead as written.
+            </p>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="targetGender" style={{ color: '#1A1A1A' }}>Gender *</Label>
@@ -983,6 +1125,11 @@ export function CallRequestForm() {
           videoStyle: formData.videoStyle,
           uploadedImageUrl: formData.uploadedImageUrl,
           uploadedImageS3Key: formData.uploadedImageS3Key,
+          recipientTimezone: formData.recipientTimezone || undefined,
+          recipientCountry: formData.recipientCountry,
+          scheduledFor: formData.scheduledFor || undefined,
+          voicemailMode: formData.voicemailMode,
+          reviewScript: formData.reviewScript,
           // Fhenix FHE encryption
           fhenixEnabled: privacyMode === "fhenix",
           fhenixVaultId: fhenixVaultId || undefined,
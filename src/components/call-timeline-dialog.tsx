@@ -0,0 +1,83 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { CALL_STATUS_DISPLAY } from "~/lib/constants/call-status";
+
+export interface CallTimelineEvent {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  reason: string;
+  source: string;
+  createdAt: Date | string;
+}
+
+interface CallTimelineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipientName: string;
+  timeline: CallTimelineEvent[];
+}
+
+/**
+ * Every status change of a call, oldest first, from the call_events log
+ */
+export function CallTimelineDialog({
+  open,
+  onOpenChange,
+  recipientName,
+  timeline,
+}: CallTimelineDialogProps) {
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-lg max-h-[90vh] overflow-hidden border-2"
+        style={{ backgroundColor: '#fffcf2', borderColor: '#1A1A1A' }}
+      >
+        <DialogHeader>
+          <DialogTitle style={{ color: '#1A1A1A' }}>Call to {recipientName}</DialogTitle>
+          <DialogDescription style={{ color: '#1A1A1A', opacity: 0.7 }}>
+            {timeline.length} status changes
+          </DialogDescription>
+        </DialogHeader>
+
+        <ol className="flex flex-col gap-3 overflow-y-auto max-h-[70vh] pr-2">
+          {timeline.map((event) => {
+            const display = CALL_STATUS_DISPLAY[event.toStatus];
+            return (
+              <li key={event.id} className="flex items-start justify-between gap-4">
+                <div className="flex flex-col gap-1">
+                  <span
+                    className={`inline-flex w-fit items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${display?.className ?? ""}`}
+                  >
+                    {display?.label ?? event.toStatus}
+                  </span>
+                  <span className="text-xs" style={{ color: '#1A1A1A', opacity: 0.7 }}>
+                    {event.reason.replace(/_/g, " ")} · {event.source}
+                  </span>
+                </div>
+                <span className="text-xs whitespace-nowrap" style={{ color: '#1A1A1A', opacity: 0.7 }}>
+                  {formatDate(event.createdAt)}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+
+export interface TranscriptTurn {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  wasInterrupted: boolean;
+  confidence: number | null;
+  spokenAt: Date | string;
+}
+
+interface CallTranscriptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipientName: string;
+  callerName: string | null;
+  welcomeGreeting: string | null;
+  videoUrl: string | null;
+  transcript: TranscriptTurn[];
+}
+
+/**
+ * Shows the persisted call conversation next to the generated video
+ */
+export function CallTranscriptDialog({
+  open,
+  onOpenChange,
+  recipientName,
+  callerName,
+  welcomeGreeting,
+  videoUrl,
+  transcript,
+}: CallTranscriptDialogProps) {
+  const formatTime = (date: Date | string) => {
+    return new Date(date).toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-4xl max-h-[90vh] overflow-hidden border-2"
+        style={{ backgroundColor: '#fffcf2', borderColor: '#1A1A1A' }}
+      >
+        <DialogHeader>
+          <DialogTitle style={{ color: '#1A1A1A' }}>Call with {recipientName}</DialogTitle>
+          <DialogDescription style={{ color: '#1A1A1A', opacity: 0.7 }}>
+            {callerName ? `${callerName} · ` : ""}{transcript.length} turns
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className={`grid gap-6 min-h-0 ${videoUrl ? "md:grid-cols-2" : ""}`}>
+          {videoUrl && (
+            <video
+              src={videoUrl}
+              controls
+              playsInline
+              className="w-full max-h-[70vh] rounded-lg border-2 bg-black"
+              style={{ borderColor: '#1A1A1A' }}
+            />
+          )}
+
+          <div className="flex flex-col gap-3 overflow-y-auto max-h-[70vh] pr-2">
+            {welcomeGreeting && (
+              <TranscriptBubble
+                speaker={callerName || "Caller"}
+                content={welcomeGreeting}
+                isCaller
+              />
+            )}
+            {transcript.length === 0 ? (
+              <p className="text-sm" style={{ color: '#1A1A1A', opacity: 0.7 }}>
+                No transcript available for this call yet.
+              </p>
+            ) : (
+              transcript.map((turn) => (
+                <TranscriptBubble
+                  key={turn.id}
+                  speaker={turn.role === "assistant" ? callerName || "Caller" : recipientName}
+                  content={turn.content}
+                  isCaller={turn.role === "assistant"}
+                  time={formatTime(turn.spokenAt)}
+                  wasInterrupted={turn.wasInterrupted}
+                  confidence={turn.confidence}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function TranscriptBubble({
+  speaker,
+  content,
+  isCaller,
+  time,
+  wasInterrupted,
+  confidence,
+}: {
+  speaker: string;
+  content: string;
+  isCaller: boolean;
+  time?: string;
+  wasInterrupted?: boolean;
+  confidence?: number | null;
+}) {
+  return (
+    <div className={`flex flex-col ${isCaller ? "items-start" : "items-end"}`}>
+      <div className="mb-1 flex items-center gap-2 text-xs" style={{ color: '#1A1A1A', opacity: 0.6 }}>
+        <span className="font-medium">{speaker}</span>
+        {time && <span>{time}</span>}
+        {confidence != null && <span>{Math.round(confidence * 100)}% confidence</span>}
+      </div>
+      <div
+        className="max-w-[85%] rounded-lg border px-3 py-2 text-sm"
+        style={{
+          color: '#1A1A1A',
+          borderColor: '#1A1A1A',
+          backgroundColor: isCaller ? 'transparent' : 'rgba(26, 26, 26, 0.06)',
+        }}
+      >
+        {content}
+        {wasInterrupted && (
+          <span className="ml-1 italic" style={{ opacity: 0.6 }}>— interrupted</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import { useSuspenseQuery } from "@tanstack/react-query";
+import { useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
 import { Download } from "lucide-react";
 import { queryOptions } from "@tanstack/react-query";
+import { useState } from "react";
+import { toast } from "sonner";
 import {
   Table,
   TableBody,
@@ -10,7 +12,19 @@ import {
   TableRow,
 } from "~/components/ui/table";
 import { Button } from "~/components/ui/button";
+import { CallTranscriptDialog, type TranscriptTurn } from "~/components/call-transcript-dialog";
+import { LiveCallDialog } from "~/components/live-call-dialog";
+import { CallTimelineDialog, type CallTimelineEvent } from "~/components/call-timeline-dialog";
+import { RescheduleCallDialog } from "~/components/reschedule-call-dialog";
+import { ScriptReviewDialog } from "~/components/script-review-dialog";
+import { cancelCall } from "~/lib/calls/functions";
 import { getUserCalls } from "~/lib/calls/queries";
+import {
+  CALL_STATUS_DISPLAY,
+  CANCELLABLE_CALL_STATUSES,
+  LIVE_CALL_STATUSES,
+  SCRIPT_REVIEW_DISPLAY,
+} from "~/lib/constants/call-status";
 
 // Type for call data returned from getUserCalls
 interface CallData {
@@ -27,6 +41,10 @@ interface CallData {
   interestingPiece: string | null;
   videoStyle: string | null;
   openaiPrompt: string | null;
+  welcomeGreeting: string | null;
+  scenarioSummary: string | null;
+  scriptReviewDeadline: Date | null; // Set while the script waits for the requester's approval
+  scriptRegenerations: number;
   imagePrompt: string | null;
   script: string | null;
   attempts: number;
@@ -35,6 +53,8 @@ interface CallData {
   lastAttemptAt: Date | null;
   daysSinceFirstAttempt: number | null;
   nextRetryAt: Date | null;
+  scheduledFor: Date | null;
+  scheduleTimezone: string | null; // Set while the call can still be rescheduled
   isFree: boolean;
   paymentMethod: string;
   paymentTxHash: string | null;
@@ -51,6 +71,8 @@ interface CallData {
   videoErrorMessage: string | null;
   createdAt: Date;
   updatedAt: Date;
+  transcript: TranscriptTurn[];
+  timeline: CallTimelineEvent[];
 }
 
 const callsQueryOptions = () =>
@@ -61,6 +83,37 @@ const callsQueryOptions = () =>
 
 export function CallsTable() {
   const { data: calls } = useSuspenseQuery(callsQueryOptions());
+  const [transcriptCallId, setTranscriptCallId] = useState<string | null>(null);
+  const transcriptCall = calls.find((call) => call.id === transcriptCallId);
+  const [liveCallId, setLiveCallId] = useState<string | null>(null);
+  const liveCall = calls.find((call) => call.id === liveCallId);
+  const [timelineCallId, setTimelineCallId] = useState<string | null>(null);
+  const timelineCall = calls.find((call) => call.id === timelineCallId);
+  const [rescheduleCallId, setRescheduleCallId] = useState<string | null>(null);
+  const rescheduleTarget = calls.find((call) => call.id === rescheduleCallId);
+  const [reviewCallId, setReviewCallId] = useState<string | null>(null);
+  const reviewCall = calls.find((call) => call.id === reviewCallId);
+  const [cancellingCallId, setCancellingCallId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const handleCancel = async (call: CallData) => {
+    if (!window.confirm(`Cancel the call to ${call.recipientName}?`)) return;
+    setCancellingCallId(call.id);
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = await (cancelCall as any)({ data: { callId: call.id } });
+      toast.success(
+        result?.creditRestored
+          ? `Call to ${call.recipientName} cancelled - your credit has been restored`
+          : `Call to ${call.recipientName} cancelled`
+      );
+      await queryClient.invalidateQueries({ queryKey: ["calls"] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel call");
+    } finally {
+      setCancellingCallId(null);
+    }
+  };
 
   if (calls.length === 0) {
     return (
@@ -70,7 +123,7 @@ export function CallsTable() {
     );
   }
 
-  const getStatusBadge = (status: string, videoStatus?: string | null) => {
+  const getStatusBadge = (status: string, videoStatus?: string | null, awaitingReview?: boolean) => {
     // Show video status if available
     if (videoStatus === "completed") {
       return (
@@ -95,15 +148,9 @@ export function CallsTable() {
     }
 
     // Call status
-    const statusConfig = {
-      call_created: { label: "Created", className: "bg-blue-500/10 text-blue-500" },
-      prompt_ready: { label: "Ready", className: "bg-green-500/10 text-green-500" },
-      call_attempted: { label: "In Progress", className: "bg-yellow-500/10 text-yellow-500" },
-      call_complete: { label: "Complete", className: "bg-green-500/10 text-green-500" },
-      call_failed: { label: "Failed", className: "bg-red-500/10 text-red-500" },
-    };
-
-    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.call_created;
+    const config = status === "created" && awaitingReview
+      ? SCRIPT_REVIEW_DISPLAY
+      : CALL_STATUS_DISPLAY[status] || CALL_STATUS_DISPLAY.created;
 
     return (
       <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium ${config.className}`}>
@@ -130,6 +177,7 @@ export function CallsTable() {
             <TableHead style={{ color: '#1A1A1A' }}>Recipient</TableHead>
             <TableHead style={{ color: '#1A1A1A' }}>Status</TableHead>
             <TableHead style={{ color: '#1A1A1A' }}>Video</TableHead>
+            <TableHead style={{ color: '#1A1A1A' }}>Transcript</TableHead>
             <TableHead style={{ color: '#1A1A1A' }}>Created</TableHead>
             <TableHead className="text-right" style={{ color: '#1A1A1A' }}>Actions</TableHead>
           </TableRow>
@@ -138,7 +186,32 @@ export function CallsTable() {
           {calls.map((call) => (
             <TableRow key={call.id} style={{ borderColor: '#1A1A1A' }}>
               <TableCell className="font-medium" style={{ color: '#1A1A1A' }}>{call.recipientName}</TableCell>
-              <TableCell>{getStatusBadge(call.status, call.videoStatus)}</TableCell>
+              <TableCell>
+                {call.timeline.length > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => setTimelineCallId(call.id)}
+                    title="View timeline"
+                    className="cursor-pointer bg-transparent border-none p-0"
+                  >
+                    {getStatusBadge(call.status, call.videoStatus, !!call.scriptReviewDeadline)}
+                  </button>
+                ) : (
+                  getStatusBadge(call.status, call.videoStatus, !!call.scriptReviewDeadline)
+                )}
+                {call.scheduleTimezone && call.nextRetryAt && (
+                  <div className="mt-1 text-xs" style={{ color: '#1A1A1A', opacity: 0.7 }}>
+                    {new Date(call.nextRetryAt).toLocaleString("en-US", {
+                      timeZone: call.scheduleTimezone,
+                      month: "short",
+                      day: "numeric",
+                      hour: "numeric",
+                      minute: "2-digit",
+                      timeZoneName: "short",
+                    })}
+                  </div>
+                )}
+              </TableCell>
               <TableCell>
                 {call.videoUrl ? (
                   <button
@@ -164,10 +237,31 @@ export function CallsTable() {
                   <span className="text-sm" style={{ color: '#1A1A1A', opacity: 0.7 }}>
                     {call.videoStatus === "generating" ? "Generating..." : 
                      call.videoStatus === "failed" ? "Failed" :
-                     call.status === "call_complete" ? "Pending" : "Not started"}
+                     call.status === "completed" ? "Pending" : "Not started"}
                   </span>
                 )}
               </TableCell>
+              <TableCell>
+                {call.transcript.length > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => setTranscriptCallId(call.id)}
+                    className="text-sm text-blue-600 hover:underline cursor-pointer bg-transparent border-none p-0"
+                  >
+                    View Transcript
+                  </button>
+                ) : LIVE_CALL_STATUSES.has(call.status) ? (
+                  <button
+                    type="button"
+                    onClick={() => setLiveCallId(call.id)}
+                    className="text-sm text-blue-600 hover:underline cursor-pointer bg-transparent border-none p-0"
+                  >
+                    Watch Live
+                  </button>
+                ) : (
+                  <span className="text-sm" style={{ color: '#1A1A1A', opacity: 0.7 }}>-</span>
+                )}
+              </TableCell>
               <TableCell className="text-sm" style={{ color: '#1A1A1A', opacity: 0.7 }}>
                 {formatDate(call.createdAt)}
               </TableCell>
@@ -222,6 +316,44 @@ export function CallsTable() {
                     <Download className="mr-2 h-4 w-4" style={{ color: '#1A1A1A' }} />
                     <span style={{ color: '#1A1A1A' }}>Download</span>
                   </Button>
+                ) : CANCELLABLE_CALL_STATUSES.has(call.status) ? (
+                  <div className="flex justify-end gap-2">
+                    {call.status === "created" && call.scriptReviewDeadline && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        type="button"
+                        style={{ color: '#1A1A1A', borderColor: '#1A1A1A', backgroundColor: 'transparent' }}
+                        className="hover:bg-[#1A1A1A]/10"
+                        onClick={() => setReviewCallId(call.id)}
+                      >
+                        Review script
+                      </Button>
+                    )}
+                    {call.scheduleTimezone && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        type="button"
+                        style={{ color: '#1A1A1A', borderColor: '#1A1A1A', backgroundColor: 'transparent' }}
+                        className="hover:bg-[#1A1A1A]/10"
+                        onClick={() => setRescheduleCallId(call.id)}
+                      >
+                        Reschedule
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      type="button"
+                      style={{ color: '#1A1A1A', borderColor: '#1A1A1A', backgroundColor: 'transparent' }}
+                      className="hover:bg-[#1A1A1A]/10"
+                      disabled={cancellingCallId === call.id}
+                      onClick={() => handleCancel(call)}
+                    >
+                      {cancellingCallId === call.id ? "Cancelling..." : "Cancel"}
+                    </Button>
+                  </div>
                 ) : (
                   <span className="text-sm" style={{ color: '#1A1A1A', opacity: 0.7 }}>-</span>
                 )}
@@ -230,6 +362,68 @@ export function CallsTable() {
           ))}
         </TableBody>
       </Table>
+      {transcriptCall && (
+        <CallTranscriptDialog
+          open={!!transcriptCall}
+          onOpenChange={(open) => {
+            if (!open) setTranscriptCallId(null);
+          }}
+          recipientName={transcriptCall.recipientName}
+          callerName={transcriptCall.callerName}
+          welcomeGreeting={transcriptCall.welcomeGreeting}
+          videoUrl={transcriptCall.videoUrl}
+          transcript={transcriptCall.transcript}
+        />
+      )}
+      {timelineCall && (
+        <CallTimelineDialog
+          open={!!timelineCall}
+          onOpenChange={(open) => {
+            if (!open) setTimelineCallId(null);
+          }}
+          recipientName={timelineCall.recipientName}
+          timeline={timelineCall.timeline}
+        />
+      )}
+      {rescheduleTarget?.scheduleTimezone && (
+        <RescheduleCallDialog
+          callId={rescheduleTarget.id}
+          open={!!rescheduleTarget}
+          onOpenChange={(open) => {
+            if (!open) setRescheduleCallId(null);
+          }}
+          recipientName={rescheduleTarget.recipientName}
+          scheduledAt={rescheduleTarget.nextRetryAt}
+          timezone={rescheduleTarget.scheduleTimezone}
+        />
+      )}
+      {reviewCall?.scriptReviewDeadline && (
+        <ScriptReviewDialog
+          callId={reviewCall.id}
+          open={!!reviewCall}
+          onOpenChange={(open) => {
+            if (!open) setReviewCallId(null);
+          }}
+          recipientName={reviewCall.recipientName}
+          callerName={reviewCall.callerName}
+          welcomeGreeting={reviewCall.welcomeGreeting}
+          scenarioSummary={reviewCall.scenarioSummary}
+          reviewDeadline={reviewCall.scriptReviewDeadline}
+          regenerations={reviewCall.scriptRegenerations}
+        />
+      )}
+      {liveCall && (
+        <LiveCallDialog
+          callId={liveCall.id}
+          open={!!liveCall}
+          onOpenChange={(open) => {
+            if (!open) setLiveCallId(null);
+          }}
+          recipientName={liveCall.recipientName}
+          callerName={liveCall.callerName}
+          welcomeGreeting={liveCall.welcomeGreeting}
+        />
+      )}
     </div>
   );
 }
@@ -117,6 +117,13 @@ export function Footer() {
                 className="hover:text-white transition-colors underline"
               >
                 zypherpunk
+              </a>{" "}
+              •{" "}
+              <a
+                href="/opt-out"
+                className="hover:text-white transition-colors underline"
+              >
+                stop calls to my number
               </a>
             </span>
           </div>
@@ -0,0 +1,192 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { TranscriptBubble } from "~/components/call-transcript-dialog";
+import type { CallLiveEvent } from "~/lib/calls/live-events";
+import { LIVE_CALL_STATUSES } from "~/lib/constants/call-status";
+
+type TurnEvent = Extract<CallLiveEvent, { type: "turn" }>;
+
+type FeedItem =
+  | { kind: "marker"; label: string; at: string }
+  | { kind: "turn"; turn: TurnEvent };
+
+interface LiveCallDialogProps {
+  callId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipientName: string;
+  callerName: string | null;
+  welcomeGreeting: string | null;
+}
+
+// Twilio statuses worth a marker in the feed
+const STATUS_MARKERS: Record<string, string> = {
+  ringing: "Ringing",
+  "in-progress": "Answered",
+  completed: "Call ended",
+  "no-answer": "No answer",
+  busy: "Line busy",
+  failed: "Call failed",
+};
+
+const FINAL_STATUSES = new Set(["completed", "no-answer", "busy", "failed"]);
+
+/**
+ * Follows a call as it happens - status markers and the conversation, turn by turn
+ */
+export function LiveCallDialog({ open, onOpenChange, ...feed }: LiveCallDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-2xl max-h-[90vh] overflow-hidden border-2"
+        style={{ backgroundColor: '#fffcf2', borderColor: '#1A1A1A' }}
+      >
+        {/* Mounted while open - a fresh feed (and stream) per opening and per call */}
+        <LiveCallFeed key={feed.callId} {...feed} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LiveCallFeed({
+  callId,
+  recipientName,
+  callerName,
+  welcomeGreeting,
+}: Omit<LiveCallDialogProps, "open" | "onOpenChange">) {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [connected, setConnected] = useState(false);
+  const [ended, setEnded] = useState(false);
+
+  useEffect(() => {
+    const source = new EventSource(`/api/calls/${callId}/live`);
+
+    // Turns are re-sent when they change (merged speech, interruptions) - replace by index
+    const upsertTurn = (turn: TurnEvent) => {
+      setItems((current) => {
+        const position = current.findIndex(
+          (item) => item.kind === "turn" && item.turn.index === turn.index,
+        );
+        if (position === -1) return [...current, { kind: "turn", turn }];
+        const next = [...current];
+        next[position] = { kind: "turn", turn };
+        return next;
+      });
+    };
+
+    const addMarker = (label: string, at: string) => {
+      setItems((current) => [...current, { kind: "marker", label, at }]);
+    };
+
+    const finish = () => {
+      setEnded(true);
+      source.close();
+      // Pick up the persisted transcript and final status
+      queryClient.invalidateQueries({ queryKey: ["calls"] });
+    };
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    const onSnapshot = (message: MessageEvent<string>) => {
+      const snapshot = JSON.parse(message.data) as {
+        status: string;
+        turns: TurnEvent[];
+      };
+      setItems(snapshot.turns.map((turn) => ({ kind: "turn", turn })));
+      if (!LIVE_CALL_STATUSES.has(snapshot.status)) {
+        finish();
+      }
+    };
+
+    const onStatus = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as Extract<CallLiveEvent, { type: "status" }>;
+      const label = STATUS_MARKERS[event.status];
+      if (label) addMarker(label, event.at);
+      if (FINAL_STATUSES.has(event.status)) finish();
+    };
+
+    const onTurn = (message: MessageEvent<string>) => {
+      upsertTurn(JSON.parse(message.data) as TurnEvent);
+    };
+
+    source.addEventListener("snapshot", onSnapshot);
+    source.addEventListener("status", onStatus);
+    source.addEventListener("turn", onTurn);
+
+    return () => {
+      source.removeEventListener("snapshot", onSnapshot);
+      source.removeEventListener("status", onStatus);
+      source.removeEventListener("turn", onTurn);
+      source.close();
+    };
+  }, [callId, queryClient]);
+
+  const formatTime = (date: string) => {
+    return new Date(date).toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  return (
+    <>
+    <DialogHeader>
+      <DialogTitle className="flex items-center gap-2" style={{ color: '#1A1A1A' }}>
+        {!ended && <span className="inline-block h-2 w-2 rounded-full bg-red-500 animate-pulse" />}
+        Call with {recipientName}
+      </DialogTitle>
+      <DialogDescription style={{ color: '#1A1A1A', opacity: 0.7 }}>
+        {callerName ? `${callerName} · ` : ""}
+        {ended ? "Call finished" : connected ? "Live" : "Connecting..."}
+      </DialogDescription>
+    </DialogHeader>
+
+    <div className="flex flex-col gap-3 overflow-y-auto max-h-[70vh] pr-2">
+      {items.length === 0 && (
+        <p className="text-sm" style={{ color: '#1A1A1A', opacity: 0.7 }}>
+          {ended ? "No transcript available for this call." : "Waiting for the call to connect..."}
+        </p>
+      )}
+      {items.map((item) =>
+        item.kind === "marker" ? (
+          <Fragment key={`marker-${item.label}-${item.at}`}>
+            <div
+              className="text-center text-xs uppercase tracking-wide"
+              style={{ color: '#1A1A1A', opacity: 0.6 }}
+            >
+              {item.label} · {formatTime(item.at)}
+            </div>
+            {/* Spoken by ConversationRelay on answer, before the first turn */}
+            {item.label === "Answered" && welcomeGreeting && (
+              <TranscriptBubble
+                speaker={callerName || "Caller"}
+                content={welcomeGreeting}
+                isCaller
+              />
+            )}
+          </Fragment>
+        ) : (
+          <TranscriptBubble
+            key={`turn-${item.turn.index}`}
+            speaker={item.turn.role === "assistant" ? callerName || "Caller" : recipientName}
+            content={item.turn.content}
+            isCaller={item.turn.role === "assistant"}
+            time={formatTime(item.turn.at)}
+            wasInterrupted={item.turn.wasInterrupted}
+          />
+        ),
+      )}
+    </div>
+    </>
+  );
+}
@@ -116,6 +116,11 @@ export interface PaymentModalProps {
     // Optional uploaded image
     uploadedImageUrl?: string;
     uploadedImageS3Key?: string;
+    recipientTimezone?: string; // Calling-hours timezone override
+    recipientCountry?: string; // ISO country of the number
+    scheduledFor?: string; // Delivery time on the recipient's wall clock ("YYYY-MM-DDTHH:mm")
+    voicemailMode?: "hang_up" | "leave_message"; // Answering machine behavior
+    reviewScript?: boolean; // Approve the generated script before the call is queued
     // Fhenix FHE encryption
     fhenixEnabled?: boolean;
     fhenixVaultId?: string;
@@ -986,6 +991,11 @@ export function PaymentModal({
                               // Optional uploaded image
                               uploadedImageUrl: callDetails.uploadedImageUrl,
                               uploadedImageS3Key: callDetails.uploadedImageS3Key,
+                              recipientTimezone: callDetails.recipientTimezone,
+                              recipientCountry: callDetails.recipientCountry,
+                              scheduledFor: callDetails.scheduledFor,
+                              voicemailMode: callDetails.voicemailMode,
+                              reviewScript: callDetails.reviewScript,
                               // Fhenix FHE encryption
                               fhenixEnabled: callDetails.fhenixEnabled,
                               fhenixVaultId: callDetails.fhenixVaultId,
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { rescheduleCall } from "~/lib/calls/functions";
+
+interface RescheduleCallDialogProps {
+  callId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipientName: string;
+  scheduledAt: Date | string | null; // Current dial time
+  timezone: string; // Recipient's wall clock - the time is entered in this zone
+}
+
+/**
+ * "YYYY-MM-DDTHH:mm" for an instant on a timezone's wall clock (datetime-local format)
+ */
+function toLocalInputValue(date: Date | string | null, timezone: string): string {
+  if (!date) return "";
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(date));
+  const value = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${value("year")}-${value("month")}-${value("day")}T${value("hour")}:${value("minute")}`;
+}
+
+/**
+ * Pick a new time for a call that hasn't been dialed yet
+ */
+export function RescheduleCallDialog({ open, onOpenChange, ...form }: RescheduleCallDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-md border-2"
+        style={{ backgroundColor: '#fffcf2', borderColor: '#1A1A1A' }}
+      >
+        {/* Mounted while open - starts from the call's current time on every opening */}
+        <RescheduleCallForm key={form.callId} onDone={() => onOpenChange(false)} {...form} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RescheduleCallForm({
+  callId,
+  recipientName,
+  scheduledAt,
+  timezone,
+  onDone,
+}: Omit<RescheduleCallDialogProps, "open" | "onOpenChange"> & { onDone: () => void }) {
+  const queryClient = useQueryClient();
+  const [scheduledFor, setScheduledFor] = useState(() => toLocalInputValue(scheduledAt, timezone));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (rescheduleCall as any)({ data: { callId, scheduledFor } });
+      toast.success(`Call to ${recipientName} rescheduled`);
+      await queryClient.invalidateQueries({ queryKey: ["calls"] });
+      onDone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to reschedule call");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle style={{ color: '#1A1A1A' }}>Reschedule call to {recipientName}</DialogTitle>
+        <DialogDescription style={{ color: '#1A1A1A', opacity: 0.7 }}>
+          Their local time ({timezone.replace(/_/g, " ")})
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="rescheduleFor" style={{ color: '#1A1A1A' }}>Call at</Label>
+        <Input
+          id="rescheduleFor"
+          type="datetime-local"
+          value={scheduledFor}
+          onChange={(e) => setScheduledFor(e.target.value)}
+          disabled={isSaving}
+          style={{ color: '#1A1A1A' }}
+        />
+      </div>
+
+      <DialogFooter>
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || !scheduledFor}
+          style={{ backgroundColor: '#1A1A1A', color: '#fffcf2' }}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "~/components/ui/dialog";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import { Textarea } from "~/components/ui/textarea";
+import { approveCallScript, editCallGreeting, regenerateCallScript } from "~/lib/calls/functions";
+import {
+  MAX_SCRIPT_REGENERATIONS,
+  SCRIPT_FEEDBACK_MAX_LENGTH,
+  WELCOME_GREETING_MAX_LENGTH,
+} from "~/lib/validation/call-form";
+
+interface ScriptReviewDialogProps {
+  callId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipientName: string;
+  callerName: string | null;
+  welcomeGreeting: string | null;
+  scenarioSummary: string | null;
+  reviewDeadline: Date | string;
+  regenerations: number;
+}
+
+type PendingAction = "approve" | "regenerate" | "save" | null;
+
+/**
+ * Opening line and scenario of a call waiting for the requester's approval
+ * Approve queues the call; regenerate and edit keep it waiting (and extend the deadline)
+ */
+export function ScriptReviewDialog({ open, onOpenChange, ...review }: ScriptReviewDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-lg border-2"
+        style={{ backgroundColor: '#fffcf2', borderColor: '#1A1A1A' }}
+      >
+        {/* Mounted while open - starts from the current script on every opening */}
+        <ScriptReviewForm key={review.callId} onDone={() => onOpenChange(false)} {...review} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ScriptReviewForm({
+  callId,
+  recipientName,
+  callerName,
+  welcomeGreeting,
+  scenarioSummary,
+  reviewDeadline,
+  regenerations,
+  onDone,
+}: Omit<ScriptReviewDialogProps, "open" | "onOpenChange"> & { onDone: () => void }) {
+  const queryClient = useQueryClient();
+  const [greeting, setGreeting] = useState(welcomeGreeting ?? "");
+  const [feedback, setFeedback] = useState("");
+  const [pending, setPending] = useState<PendingAction>(null);
+
+  // A regenerated or saved script replaces the opening line being edited
+  const [shownGreeting, setShownGreeting] = useState(welcomeGreeting);
+  if (welcomeGreeting !== shownGreeting) {
+    setShownGreeting(welcomeGreeting);
+    setGreeting(welcomeGreeting ?? "");
+  }
+
+  const regenerationsLeft = MAX_SCRIPT_REGENERATIONS - regenerations;
+  const greetingChanged = greeting.trim() !== (welcomeGreeting ?? "").trim();
+
+  const run = async (action: Exclude<PendingAction, null>, request: () => Promise<unknown>, success: string) => {
+    setPending(action);
+    try {
+      await request();
+      toast.success(success);
+      await queryClient.invalidateQueries({ queryKey: ["calls"] });
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Something went wrong - please try again");
+      return false;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const done = await run(
+      "regenerate",
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      () => (regenerateCallScript as any)({ data: { callId, feedback } }),
+      "New script ready",
+    );
+    if (done) setFeedback("");
+  };
+
+  const handleSaveGreeting = () =>
+    run(
+      "save",
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      () => (editCallGreeting as any)({ data: { callId, welcomeGreeting: greeting } }),
+      "Opening line saved",
+    );
+
+  const handleApprove = async () => {
+    // Unsaved edits go out with the approval
+    if (greetingChanged && !(await handleSaveGreeting())) return;
+    const done = await run(
+      "approve",
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      () => (approveCallScript as any)({ data: { callId } }),
+      `Call to ${recipientName} approved`,
+    );
+    if (done) onDone();
+  };
+
+  const deadline = new Date(reviewDeadline).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle style={{ color: '#1A1A1A' }}>Review the call to {recipientName}</DialogTitle>
+        <DialogDescription style={{ color: '#1A1A1A', opacity: 0.7 }}>
+          If you don&apos;t approve it by {deadline}, the call goes ahead as written.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        {scenarioSummary && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium" style={{ color: '#1A1A1A' }}>The scenario</p>
+            <p className="text-sm" style={{ color: '#1A1A1A', opacity: 0.8 }}>{scenarioSummary}</p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="reviewGreeting" style={{ color: '#1A1A1A' }}>
+            Opening line{callerName ? ` (${callerName})` : ""}
+          </Label>
+          <Textarea
+            id="reviewGreeting"
+            value={greeting}
+            onChange={(e) => setGreeting(e.target.value)}
+            maxLength={WELCOME_GREETING_MAX_LENGTH}
+            rows={3}
+            disabled={pending !== null}
+            style={{ color: '#1A1A1A' }}
+          />
+          {greetingChanged && (
+            <Button
+              size="sm"
+              variant="outline"
+              type="button"
+              style={{ color: '#1A1A1A', borderColor: '#1A1A1A', backgroundColor: 'transparent' }}
+              className="hover:bg-[#1A1A1A]/10"
+              onClick={handleSaveGreeting}
+              disabled={pending !== null || !greeting.trim()}
+            >
+              {pending === "save" ? "Saving..." : "Save opening line"}
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reviewFeedback" style={{ color: '#1A1A1A' }}>Try a different angle</Label>
+          <div className="flex gap-2">
+            <Input
+              id="reviewFeedback"
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              maxLength={SCRIPT_FEEDBACK_MAX_LENGTH}
+              placeholder="e.g. make it about his fantasy football league"
+              disabled={pending !== null || regenerationsLeft <= 0}
+              style={{ color: '#1A1A1A' }}
+            />
+            <Button
+              variant="outline"
+              type="button"
+              style={{ color: '#1A1A1A', borderColor: '#1A1A1A', backgroundColor: 'transparent' }}
+              className="hover:bg-[#1A1A1A]/10"
+              onClick={handleRegenerate}
+              disabled={pending !== null || !feedback.trim() || regenerationsLeft <= 0}
+            >
+              {pending === "regenerate" ? "Writing..." : "Regenerate"}
+            </Button>
+          </div>
+          <p className="text-xs" style={{ color: '#1A1A1A', opacity: 0.6 }}>
+            {regenerationsLeft > 0
+              ? `${regenerationsLeft} regeneration${regenerationsLeft === 1 ? "" : "s"} left`
+              : "No regenerations left - edit the opening line instead"}
+          </p>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button
+          type="button"
+          onClick={handleApprove}
+          disabled={pending !== null || !greeting.trim()}
+          style={{ backgroundColor: '#1A1A1A', color: '#fffcf2' }}
+        >
+          {pending === "approve" ? "Approving..." : "Approve & call"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
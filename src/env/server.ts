@@ -17,10 +17,40 @@ export const env = createEnv({
     TWILIO_ACCOUNT_SID: z.string().optional(),
     TWILIO_AUTH_TOKEN: z.string().optional(),
     TWILIO_PHONE_NUMBER: z.string().optional(),
+    // Public base URL Twilio calls, if different from VITE_BASE_URL (signature validation)
+    TWILIO_WEBHOOK_BASE_URL: z.url().optional(),
+    // "true" disables X-Twilio-Signature checks outside production (local testing)
+    TWILIO_SKIP_SIGNATURE_VALIDATION: z.string().optional(),
+    // Days before a caller-ID pool number may dial the same recipient again (default 30)
+    CALLER_ID_REUSE_DAYS: z.coerce.number().int().positive().optional(),
 
     // OpenAI configuration
     OPENAI_API_KEY: z.string().optional(),
 
+    // Live-call LLM defaults (per-caller overrides live on the callers table)
+    // LLM_PROVIDER: "openai" | "groq" | "near" | "local" (default: openai)
+    LLM_PROVIDER: z.enum(["openai", "groq", "near", "local"]).optional(),
+    LLM_MODEL: z.string().optional(),
+    // Any OpenAI-compatible server for local development (Ollama, LM Studio, vLLM...)
+    LOCAL_LLM_BASE_URL: z.string().optional(),
+    LOCAL_LLM_API_KEY: z.string().optional(),
+    // Base URL for play_sound clips (unset: no play_sound tool)
+    SOUND_EFFECTS_BASE_URL: z.string().optional(),
+    // Keypad menu JSON, e.g. {"9":"opt_out"} (see conversation-relay/dtmf-menu.ts)
+    DTMF_MENU: z.string().optional(),
+    // Live-call limits (see conversation-relay/call-limits.ts)
+    CALL_MAX_DURATION_SECONDS: z.coerce.number().int().positive().optional(),
+    CALL_SILENCE_NUDGE_SECONDS: z.coerce.number().int().positive().optional(),
+    CALL_SILENCE_TIMEOUT_SECONDS: z.coerce.number().int().positive().optional(),
+    // Shared secret for HMAC-signed writes to the relay server's /cache/call
+    CALL_CACHE_SECRET: z.string().min(32).optional(),
+    // Plain recording notice for US all-party-consent states (see calls/recording-consent.ts)
+    RECORDING_DISCLOSURE: z.string().optional(),
+    // Moderation classifier run alongside the local rules (unset = rules only, see lib/moderation)
+    MODERATION_CLASSIFIER: z.enum(["openai", "groq"]).optional(),
+    // Minutes a script waits for the requester's approval before the call is queued anyway (default 30)
+    SCRIPT_REVIEW_TIMEOUT_MINUTES: z.coerce.number().int().positive().optional(),
+
     // AWS S3 configuration (for storing audio/video files)
     AWS_ACCESS_KEY_ID: z.string().optional(),
     AWS_SECRET_ACCESS_KEY: z.string().optional(),
@@ -32,6 +62,11 @@ export const env = createEnv({
 
     // Groq configuration (for prompt generation)
     GROQ_API_KEY: z.string().optional(),
+    // Call script providers tried in order, comma-separated: groq, openai, near, template
+    // (default: all four; "template" is the offline generator and needs no key)
+    PROMPT_PROVIDERS: z.string().optional(),
+    // Per-request limit for every remote script provider (default: 15s Groq, 20s OpenAI, 30s NEAR AI)
+    PROMPT_PROVIDER_TIMEOUT_SECONDS: z.coerce.number().int().positive().optional(),
 
     // Resend configuration (for email notifications)
     RESEND_API_KEY: z.string().optional(),
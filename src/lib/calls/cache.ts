@@ -7,15 +7,23 @@
  */
 
 import { env } from "~/env/server";
+import type { PersonaLLMSettings } from "~/lib/conversation-relay/llm-providers";
+import type { CallLimits } from "~/lib/conversation-relay/call-limits";
+import { signCacheRequest } from "~/lib/conversation-relay/cache-signature";
 
 /**
  * Cache call data in WebSocket server
  * @param callSid - Twilio Call SID
  * @param openaiPrompt - OpenAI prompt for the call
+ * @param options.llm - Caller persona's LLM overrides (provider, model, temperature, max tokens)
+ * @param options.limits - Resolved duration/silence limits for the call
+ * @param options.callId - Our call id, used by the relay to publish live transcript events
+ * @param options.welcomeGreeting - Greeting the relay speaks on answer (a write without it clears it)
  */
 export async function cacheCallData(
   callSid: string,
   openaiPrompt: string,
+  options: { llm?: PersonaLLMSettings; limits?: CallLimits; callId?: string; welcomeGreeting?: string } = {},
 ): Promise<void> {
   try {
     // Convert WebSocket URL to HTTP URL for cache endpoint
@@ -36,13 +44,21 @@ export async function cacheCallData(
       cacheUrl = "http://localhost:3001/cache/call";
     }
     
+    const body = JSON.stringify({
+      callSid,
+      callId: options.callId,
+      openaiPrompt,
+      welcomeGreeting: options.welcomeGreeting,
+      llm: options.llm,
+      limits: options.limits,
+    });
     const response = await fetch(cacheUrl, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        callSid,
-        openaiPrompt,
-      }),
+      headers: {
+        "Content-Type": "application/json",
+        ...(env.CALL_CACHE_SECRET ? signCacheRequest(env.CALL_CACHE_SECRET, body) : {}),
+      },
+      body,
     });
     
     if (response.ok) {
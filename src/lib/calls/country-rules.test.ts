@@ -0,0 +1,37 @@
+/**
+ * Per-country calling rules (run with `bun test`)
+ *
+ * The rules are data in country-rules.json, checked on load: an entry that
+ * doesn't fit CountryCallingRules stops the app instead of reaching a dial.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { COUNTRY_CALLING_RULES, parseCountryCallingRules, SUPPORTED_COUNTRIES } from "./country-rules";
+import countryRulesData from "./country-rules.json";
+
+const GB = countryRulesData.find((rules) => rules.code === "GB")!;
+
+describe("parseCountryCallingRules", () => {
+  test("the shipped file loads, keyed by code in its own order", () => {
+    expect(Object.keys(COUNTRY_CALLING_RULES)).toEqual(countryRulesData.map((rules) => rules.code));
+    expect(SUPPORTED_COUNTRIES.map((rules) => rules.code)).toEqual(countryRulesData.map((rules) => rules.code));
+    expect(COUNTRY_CALLING_RULES.AU.callingHours.sunday).toBeNull();
+  });
+
+  test.each([
+    ["a lowercase code", { ...GB, code: "gb" }],
+    ["a dial code with a plus", { ...GB, dialCode: "+44" }],
+    ["no number lengths", { ...GB, nationalNumberLengths: [] }],
+    ["an unknown timezone", { ...GB, timezones: ["Europe/Atlantis"] }],
+    ["a window that ends before it starts", { ...GB, callingHours: { ...GB.callingHours, weekday: { start: 21, end: 9 } } }],
+    ["no weekday window", { ...GB, callingHours: { ...GB.callingHours, weekday: null } }],
+    ["no daily limit", { ...GB, maxCallsPerDay: 0 }],
+    ["a missing disclosure field", { ...GB, recordingDisclosure: undefined }],
+  ])("rejects %s", (_label, rules) => {
+    expect(() => parseCountryCallingRules([rules])).toThrow();
+  });
+
+  test("rejects a country listed twice", () => {
+    expect(() => parseCountryCallingRules([GB, GB])).toThrow("Country listed twice");
+  });
+});
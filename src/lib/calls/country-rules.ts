@@ -0,0 +1,140 @@
+/**
+ * Per-country calling rules
+ *
+ * Everything that differs by destination country lives in country-rules.json
+ * as data: how to parse the number, which timezones it can be in, when we may
+ * call, how often, and what has to be said about recording. Adding a country
+ * is a new entry there - validation (validation/phone-number.ts), createCall
+ * and the retry logic all read from it. The file is checked against
+ * CountryCallingRules on load, so a bad entry fails at startup instead of
+ * mid-dial.
+ *
+ * Calling windows are local time in the recipient's timezone. Start hours are
+ * whole hours; end hours may be fractional (21.5 = 9:30 PM). A null window
+ * means no calls that day.
+ *
+ * Where the limits come from: US - TCPA; CA - CRTC Unsolicited
+ * Telecommunications Rules; GB - Ofcom persistent misuse guidance; AU -
+ * Telecommunications (Telemarketing and Research Calls) Industry Standard.
+ */
+
+import { z } from "zod";
+import countryRulesData from "./country-rules.json";
+
+export interface CallingWindow {
+  start: number; // Hour of day (inclusive)
+  end: number; // Hour of day (exclusive)
+}
+
+export interface CountryCallingRules {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  dialCode: string; // Country calling code without "+"
+  nationalNumberLengths: number[]; // Digits after the country code
+  trunkPrefix?: string; // Dropped when a number is entered in national format ("0" in the UK)
+  // Zones the country spans - null for NANP, where the area code decides (see timezones.ts)
+  timezones: string[] | null;
+  callingHours: {
+    weekday: CallingWindow;
+    saturday: CallingWindow | null;
+    sunday: CallingWindow | null;
+  };
+  maxCallsPerDay: number; // Attempts per number per day
+  // Notice that the call is recorded, where the law requires it (US states: see recording-consent.ts)
+  recordingDisclosure: string | null;
+}
+
+function isTimeZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const callingWindowSchema = z
+  .object({
+    start: z.int().min(0).max(23),
+    end: z.number().max(24),
+  })
+  .refine((window) => window.end > window.start, "A calling window has to end after it starts");
+
+const countryCallingRulesSchema: z.ZodType<CountryCallingRules> = z.object({
+  code: z.string().regex(/^[A-Z]{2}$/),
+  name: z.string().min(1),
+  dialCode: z.string().regex(/^[1-9]\d{0,2}$/),
+  nationalNumberLengths: z.array(z.int().min(4).max(14)).min(1),
+  trunkPrefix: z.string().regex(/^\d+$/).optional(),
+  timezones: z.array(z.string().refine(isTimeZone, "Unknown timezone")).min(1).nullable(),
+  callingHours: z.object({
+    weekday: callingWindowSchema,
+    saturday: callingWindowSchema.nullable(),
+    sunday: callingWindowSchema.nullable(),
+  }),
+  maxCallsPerDay: z.int().positive(),
+  recordingDisclosure: z.string().min(1).nullable(),
+});
+
+/**
+ * Validate a rules file and key it by country code (throws on a bad or repeated entry)
+ */
+export function parseCountryCallingRules(data: unknown): Record<string, CountryCallingRules> {
+  const list = z
+    .array(countryCallingRulesSchema)
+    .refine((rules) => new Set(rules.map((rule) => rule.code)).size === rules.length, "Country listed twice")
+    .parse(data);
+  return Object.fromEntries(list.map((rules) => [rules.code, rules]));
+}
+
+// In the file's order - the order countries are offered in
+export const COUNTRY_CALLING_RULES = parseCountryCallingRules(countryRulesData);
+
+// Fallback when a stored handle can't be read (legacy records were US-only)
+export const DEFAULT_COUNTRY = "US";
+
+// NANP area codes outside the US and its territories
+const CANADIAN_AREA_CODES = new Set([
+  "204", "226", "236", "249", "250", "257", "263", "289", "306", "343", "354", "365",
+  "367", "368", "382", "387", "403", "416", "418", "428", "431", "437", "438", "450",
+  "468", "474", "506", "514", "519", "548", "579", "581", "584", "587", "604", "613",
+  "639", "647", "672", "683", "705", "709", "742", "753", "778", "780", "782", "807",
+  "819", "825", "867", "873", "879", "902", "905", "942",
+]);
+
+const CARIBBEAN_AREA_CODES = new Set([
+  "242", "246", "264", "268", "284", "345", "441", "473", "649", "658", "664", "721",
+  "758", "767", "784", "809", "829", "849", "868", "869", "876",
+]);
+
+/**
+ * Rules for an ISO country code (null if we don't call that country)
+ */
+export function getCountryRules(code: string | null | undefined): CountryCallingRules | null {
+  if (!code) return null;
+  return COUNTRY_CALLING_RULES[code.toUpperCase()] ?? null;
+}
+
+/**
+ * Country for a NANP area code: "CA", "US" (including territories), or null
+ * for the Caribbean/Atlantic member countries we don't call
+ */
+export function getNanpCountry(areaCode: string): string | null {
+  if (CANADIAN_AREA_CODES.has(areaCode)) return "CA";
+  if (CARIBBEAN_AREA_CODES.has(areaCode)) return null;
+  return "US";
+}
+
+/**
+ * Calling window for a local day of the week (0 = Sunday)
+ */
+export function getCallingWindow(rules: CountryCallingRules, dayOfWeek: number): CallingWindow | null {
+  if (dayOfWeek === 0) return rules.callingHours.sunday;
+  if (dayOfWeek === 6) return rules.callingHours.saturday;
+  return rules.callingHours.weekday;
+}
+
+/**
+ * Countries offered on the call form, in display order
+ */
+export const SUPPORTED_COUNTRIES = Object.values(COUNTRY_CALLING_RULES);
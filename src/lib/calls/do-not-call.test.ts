@@ -0,0 +1,92 @@
+/**
+ * Do-not-call list (run with `bun test`)
+ *
+ * The list only ever sees hashes, formatting differences can't slip a number
+ * past it, and Fhenix handles are left for the check after decryption.
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { addToDoNotCallList, getDoNotCallNumbers, isHandleOnDoNotCallList, isOnDoNotCallList } from "./do-not-call";
+import { hashPhoneNumber } from "./phone-hash";
+
+const dialect = new PgDialect();
+
+// Answers lookups from a set of listed hashes and records what was looked up or inserted
+function fakeDb(listed: string[] = []) {
+  const lookups: unknown[] = [];
+  const inserts: Record<string, unknown>[] = [];
+  const db = {
+    select: () => ({
+      from: () => ({
+        where: (condition: SQL) => ({
+          limit: async () => {
+            const [hash] = dialect.sqlToQuery(condition).params;
+            lookups.push(hash);
+            return listed.includes(hash as string) ? [{ id: "dnc-1" }] : [];
+          },
+        }),
+      }),
+    }),
+    insert: () => ({
+      values: (values: Record<string, unknown>) => {
+        inserts.push(values);
+        return { onConflictDoNothing: async () => undefined };
+      },
+    }),
+  };
+  return { db: db as unknown as ReturnType<typeof drizzle>, lookups, inserts };
+}
+
+describe("hashPhoneNumber", () => {
+  test.each(["+1 (512) 555-0123", "+1-512-555-0123", "15125550123", "+15125550123"])(
+    "%p hashes like its E.164 form",
+    (formatted) => {
+      expect(hashPhoneNumber(formatted)).toBe(hashPhoneNumber("+15125550123"));
+    },
+  );
+
+  test("different numbers hash differently", () => {
+    expect(hashPhoneNumber("+15125550123")).not.toBe(hashPhoneNumber("+15125550124"));
+    expect(hashPhoneNumber("+15125550123")).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe("isOnDoNotCallList", () => {
+  test("looks the number up by hash", async () => {
+    const { db, lookups } = fakeDb([hashPhoneNumber("+15125550123")]);
+    expect(await isOnDoNotCallList(db, "+1 512 555 0123")).toBe(true);
+    expect(await isOnDoNotCallList(db, "+15125550199")).toBe(false);
+    expect(lookups).toEqual([hashPhoneNumber("+15125550123"), hashPhoneNumber("+15125550199")]);
+  });
+
+  test("getDoNotCallNumbers returns the listed subset as given", async () => {
+    const { db } = fakeDb([hashPhoneNumber("+15125550123")]);
+    const listed = await getDoNotCallNumbers(db, ["+1 512 555 0123", "+15125550199"]);
+    expect([...listed]).toEqual(["+1 512 555 0123"]);
+  });
+});
+
+describe("isHandleOnDoNotCallList", () => {
+  test("reads legacy encrypted_ handles", async () => {
+    const { db } = fakeDb([hashPhoneNumber("+15125550123")]);
+    expect(await isHandleOnDoNotCallList(db, "encrypted_+15125550123")).toBe(true);
+  });
+
+  test("leaves Fhenix handles to the post-decryption check", async () => {
+    const { db, lookups } = fakeDb();
+    expect(await isHandleOnDoNotCallList(db, "fhenix:0xabc")).toBe(false);
+    expect(lookups).toEqual([]);
+  });
+});
+
+describe("addToDoNotCallList", () => {
+  test("stores the hash, never the number", async () => {
+    const { db, inserts } = fakeDb();
+    await addToDoNotCallList(db, "+1 (512) 555-0123", { source: "dtmf", callSid: "CA123" });
+    expect(inserts).toEqual([{ phoneNumberHash: hashPhoneNumber("+15125550123"), source: "dtmf", callSid: "CA123" }]);
+    expect(JSON.stringify(inserts)).not.toContain("5550123");
+  });
+});
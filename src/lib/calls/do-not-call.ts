@@ -0,0 +1,88 @@
+import { eq } from "drizzle-orm";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { hashPhoneNumber } from "~/lib/calls/phone-hash";
+import { doNotCall } from "~/lib/db/schema/do-not-call";
+
+type Database = ReturnType<typeof drizzle>;
+type DoNotCallSource = (typeof doNotCall.$inferInsert)["source"];
+
+/**
+ * Extract the dialable number from an encrypted handle
+ * Returns null for Fhenix handles - initiateTwilioCall checks those after decryption
+ */
+function phoneNumberFromHandle(encryptedHandle: string): string | null {
+  if (encryptedHandle.startsWith("fhenix:")) {
+    return null;
+  }
+  if (encryptedHandle.startsWith("encrypted_")) {
+    return encryptedHandle.replace("encrypted_", "");
+  }
+  return encryptedHandle;
+}
+
+/**
+ * Check whether a phone number has opted out of all calls
+ */
+export async function isOnDoNotCallList(
+  db: Database,
+  phoneNumber: string,
+): Promise<boolean> {
+  const [entry] = await db
+    .select({ id: doNotCall.id })
+    .from(doNotCall)
+    .where(eq(doNotCall.phoneNumberHash, hashPhoneNumber(phoneNumber)))
+    .limit(1);
+
+  return !!entry;
+}
+
+/**
+ * The subset of phone numbers that are on the do-not-call list
+ * (for validateCallFormData's doNotCallNumbers option)
+ */
+export async function getDoNotCallNumbers(
+  db: Database,
+  phoneNumbers: string[],
+): Promise<Set<string>> {
+  const listed = new Set<string>();
+  for (const phoneNumber of phoneNumbers) {
+    if (await isOnDoNotCallList(db, phoneNumber)) {
+      listed.add(phoneNumber);
+    }
+  }
+  return listed;
+}
+
+/**
+ * Same as isOnDoNotCallList but accepts a call's encryptedHandle
+ */
+export async function isHandleOnDoNotCallList(
+  db: Database,
+  encryptedHandle: string,
+): Promise<boolean> {
+  const phoneNumber = phoneNumberFromHandle(encryptedHandle);
+  if (!phoneNumber) {
+    return false;
+  }
+  return isOnDoNotCallList(db, phoneNumber);
+}
+
+/**
+ * Permanently add a phone number to the do-not-call list (idempotent)
+ */
+export async function addToDoNotCallList(
+  db: Database,
+  phoneNumber: string,
+  options: { source: DoNotCallSource; callSid?: string },
+): Promise<void> {
+  await db
+    .insert(doNotCall)
+    .values({
+      phoneNumberHash: hashPhoneNumber(phoneNumber),
+      source: options.source,
+      callSid: options.callSid || null,
+    })
+    .onConflictDoNothing({ target: doNotCall.phoneNumberHash });
+
+  console.log(`[Do Not Call] 🚫 Number added to do-not-call list (source: ${options.source})`);
+}
@@ -7,12 +7,26 @@ import * as schema from "~/lib/db/schema";
 import { auth } from "~/lib/auth/auth";
 import { getRequest } from "@tanstack/react-start/server";
 import { consumeCredit } from "~/lib/credits/functions";
+import { CALL_LIMIT_BOUNDS } from "~/lib/conversation-relay/call-limits";
+import { isValidTimeZone } from "~/lib/calls/timezones";
+import { DEFAULT_COUNTRY, getCountryRules } from "~/lib/calls/country-rules";
+import { parsePhoneNumber } from "~/lib/validation/phone-number";
+import {
+  DO_NOT_CALL_MESSAGE,
+  MAX_SCRIPT_REGENERATIONS,
+  SCHEDULED_FOR_PATTERN,
+  SCRIPT_FEEDBACK_MAX_LENGTH,
+  WELCOME_GREETING_MAX_LENGTH,
+} from "~/lib/validation/call-form";
+import type { PromptVariables } from "~/lib/prompts/template";
 
 const createCallSchema = z.object({
   recipientName: z.string().min(1, "Recipient name is required"),
   phoneNumber: z.string().min(1, "Phone number is required"),
+  // Country of the number - reads national-format input, and is the only source for Fhenix numbers
+  recipientCountry: z.string().length(2).optional(),
   // Caller selection
-  callerId: z.string().uuid("Invalid caller ID"), // Required: UUID of selected caller
+  callerId: z.uuid("Invalid caller ID"), // Required: UUID of selected caller
   // Target person details
   targetGender: z.enum(["male", "female", "prefer_not_to_say", "other"]),
   targetGenderCustom: z.string().optional(), // Required if gender is "other"
@@ -30,6 +44,29 @@ const createCallSchema = z.object({
   // Fhenix FHE encryption fields
   fhenixEnabled: z.boolean().optional().default(false),
   fhenixVaultId: z.string().optional(), // bytes32 callId from PIIVault contract
+  // Optional live-call limits (seconds) - env defaults apply when omitted
+  maxDurationSeconds: z.number().int()
+    .min(CALL_LIMIT_BOUNDS.maxDurationSeconds.min)
+    .max(CALL_LIMIT_BOUNDS.maxDurationSeconds.max)
+    .optional(),
+  silenceNudgeSeconds: z.number().int()
+    .min(CALL_LIMIT_BOUNDS.silenceNudgeSeconds.min)
+    .max(CALL_LIMIT_BOUNDS.silenceNudgeSeconds.max)
+    .optional(),
+  silenceTimeoutSeconds: z.number().int()
+    .min(CALL_LIMIT_BOUNDS.silenceTimeoutSeconds.min)
+    .max(CALL_LIMIT_BOUNDS.silenceTimeoutSeconds.max)
+    .optional(),
+  // Optional IANA timezone for the recipient - overrides the area-code lookup for calling hours
+  recipientTimezone: z.string()
+    .refine(isValidTimeZone, "Unknown timezone")
+    .optional(),
+  // Optional delivery time on the recipient's wall clock ("YYYY-MM-DDTHH:mm") - omitted = as soon as possible
+  scheduledFor: z.string().regex(SCHEDULED_FOR_PATTERN, "Invalid scheduled time").optional(),
+  // Answering machine: hang up and retry (default) or leave the persona's voicemail
+  voicemailMode: z.enum(["hang_up", "leave_message"]).optional(),
+  // Hold the call until the requester approves the script (or the review times out)
+  reviewScript: z.boolean().optional(),
 }).refine(
   (data) => {
     // If gender is "other", genderCustom must be provided
@@ -80,209 +117,333 @@ export const createCall = createServerFn({ method: "POST" }).handler(
     const driver = createPostgresDriver();
     const db = drizzle({ client: driver, schema, casing: "snake_case" });
 
-    // Handle Fhenix FHE encryption vs legacy encryption
-    let encryptedHandle: string;
+    try {
+      // Handle Fhenix FHE encryption vs legacy encryption
+      let encryptedHandle: string;
     
-    if (data.fhenixEnabled && data.fhenixVaultId) {
-      // Fhenix mode: phone is encrypted on-chain, we store the vault reference
-      // Format: fhenix:0x... (bytes32 callId in PIIVault contract)
-      encryptedHandle = `fhenix:${data.fhenixVaultId}`;
-      console.log(`[Create Call] 🔐 Using Fhenix FHE encryption, vaultId: ${data.fhenixVaultId}`);
-    } else {
-      // Legacy mode: encrypt phone number server-side
-      encryptedHandle = `encrypted_${data.phoneNumber}`;
-      console.log(`[Create Call] Using legacy phone encryption`);
-    }
+      let recipientCountry: string;
+    
+      if (data.fhenixEnabled && data.fhenixVaultId) {
+        // Fhenix mode: phone is encrypted on-chain, we store the vault reference
+        // Format: fhenix:0x... (bytes32 callId in PIIVault contract)
+        encryptedHandle = `fhenix:${data.fhenixVaultId}`;
+        // The number can't be read here - trust the form's country for calling rules
+        recipientCountry = getCountryRules(data.recipientCountry)?.code ?? DEFAULT_COUNTRY;
+        console.log(`[Create Call] 🔐 Using Fhenix FHE encryption, vaultId: ${data.fhenixVaultId}`);
+      } else {
+        // E.164 + country from the number itself (rejects countries we don't call)
+        const parsed = parsePhoneNumber(data.phoneNumber, data.recipientCountry);
+        if (!parsed.valid) {
+          throw new Error(parsed.error);
+        }
+        recipientCountry = parsed.phone.country;
+        // Legacy mode: encrypt phone number server-side
+        encryptedHandle = `encrypted_${parsed.phone.e164}`;
+        console.log(`[Create Call] Using legacy phone encryption`);
+      }
 
-    // Fetch caller data for prompt generation
-    let callerData: { name: string; personality: string; speakingStyle: string; appearanceDescription?: string } | undefined;
-    if (data.callerId) {
-      const { eq } = await import("drizzle-orm");
-      const [caller] = await db
-        .select({
-          name: schema.callers.name,
-          personality: schema.callers.personality,
-          speakingStyle: schema.callers.speakingStyle,
-          appearanceDescription: schema.callers.appearanceDescription,
-        })
-        .from(schema.callers)
-        .where(eq(schema.callers.id, data.callerId))
-        .limit(1);
+      // Refuse numbers that opted out (before spending anything on prompt generation)
+      const { isHandleOnDoNotCallList } = await import("~/lib/calls/do-not-call");
+      if (await isHandleOnDoNotCallList(db, encryptedHandle)) {
+        console.log(`[Create Call] 🚫 Number is on the do-not-call list`);
+        throw new Error(DO_NOT_CALL_MESSAGE);
+      }
+
+      // Screen the free-text details before they reach the prompt (blocked requests go to the review queue)
+      const { moderateCallContent } = await import("~/lib/moderation/moderate");
+      const { pickCallRequestFields } = await import("~/lib/moderation/rules");
+      const requestModeration = await moderateCallContent(db, {
+        userId,
+        stage: "request",
+        fields: pickCallRequestFields(data),
+      });
+      if (!requestModeration.allowed) {
+        throw new Error(requestModeration.message ?? "This call request isn't allowed");
+      }
+
+      // Requester-chosen delivery time is attempt zero - it must fall inside the recipient's calling hours
+      let scheduledAt: Date | null = null;
+      if (data.scheduledFor) {
+        const { resolveScheduledTime } = await import("~/lib/calls/retry-logic");
+        const schedule = resolveScheduledTime(data.scheduledFor, encryptedHandle, {
+          timezone: data.recipientTimezone,
+          country: recipientCountry,
+        });
+        if (!schedule.valid) {
+          throw new Error(schedule.error);
+        }
+        scheduledAt = schedule.at;
+        console.log(`[Create Call] 📅 Scheduled for ${data.scheduledFor} ${schedule.timezone} (${scheduledAt.toISOString()})`);
+      }
+
+      // Fetch caller data for prompt generation
+      let callerData: { name: string; personality: string; speakingStyle: string; appearanceDescription?: string } | undefined;
+      if (data.callerId) {
+        const { eq } = await import("drizzle-orm");
+        const [caller] = await db
+          .select({
+            name: schema.callers.name,
+            personality: schema.callers.personality,
+            speakingStyle: schema.callers.speakingStyle,
+            appearanceDescription: schema.callers.appearanceDescription,
+          })
+          .from(schema.callers)
+          .where(eq(schema.callers.id, data.callerId))
+          .limit(1);
       
-      if (caller) {
-        callerData = {
-          name: caller.name,
-          personality: caller.personality,
-          speakingStyle: caller.speakingStyle,
-          appearanceDescription: caller.appearanceDescription,
-        };
-        console.log(`[Create Call] 📞 Using caller: ${caller.name}`);
-      } else {
-        console.warn(`[Create Call] ⚠️ Caller ${data.callerId} not found, proceeding without caller personality`);
+        if (caller) {
+          callerData = {
+            name: caller.name,
+            personality: caller.personality,
+            speakingStyle: caller.speakingStyle,
+            appearanceDescription: caller.appearanceDescription,
+          };
+          console.log(`[Create Call] 📞 Using caller: ${caller.name}`);
+        } else {
+          console.warn(`[Create Call] ⚠️ Caller ${data.callerId} not found, proceeding without caller personality`);
+        }
       }
-    }
 
-    // Generate OpenAI prompt using Groq (needed BEFORE call starts)
-    const promptInput = {
-      targetPerson: {
-        name: data.recipientName,
-        gender: data.targetGender,
-        genderCustom: data.targetGenderCustom,
-        ageRange: data.targetAgeRange,
-        physicalDescription: data.targetPhysicalDescription,
-        city: data.targetCity,
-        hobby: data.targetHobby,
-        profession: data.targetProfession,
-        interestingPiece: data.interestingPiece,
-        ragebaitTrigger: data.ragebaitTrigger,
-      },
-      videoStyle: data.videoStyle,
-      hasUploadedImage: !!data.uploadedImageUrl,
-      caller: callerData,
-    };
-
-    // Generate OpenAI prompt and welcome greeting - needed BEFORE call starts
-    // Time the prompt generation for debugging
-    const promptStartTime = Date.now();
-    console.log(`[Create Call] 🕐 Starting prompt generation...`);
+      // All-party-consent jurisdictions hear that the call is recorded, in the persona's voice
+      const { getRecordingConsent, withRecordingDisclosure } = await import("~/lib/calls/recording-consent");
+      const recordingConsent = getRecordingConsent(encryptedHandle, {
+        timezone: data.recipientTimezone,
+        country: recipientCountry,
+      });
+
+      // Generate OpenAI prompt using Groq (needed BEFORE call starts)
+      const promptInput = {
+        targetPerson: {
+          name: data.recipientName,
+          gender: data.targetGender,
+          genderCustom: data.targetGenderCustom,
+          ageRange: data.targetAgeRange,
+          physicalDescription: data.targetPhysicalDescription,
+          city: data.targetCity,
+          hobby: data.targetHobby,
+          profession: data.targetProfession,
+          interestingPiece: data.interestingPiece,
+          ragebaitTrigger: data.ragebaitTrigger,
+        },
+        videoStyle: data.videoStyle,
+        hasUploadedImage: !!data.uploadedImageUrl,
+        caller: callerData,
+        recordingDisclosure: recordingConsent?.disclosure,
+      };
+
+      // Generate OpenAI prompt and welcome greeting - needed BEFORE call starts
+      // Time the prompt generation for debugging
+      const promptStartTime = Date.now();
+      console.log(`[Create Call] 🕐 Starting prompt generation...`);
     
-    let openaiPrompt: string;
-    let welcomeGreeting: string;
-    try {
-      const { generateCallPrompts } = await import("~/lib/prompts/groq-generator");
-      const prompts = await generateCallPrompts(promptInput);
-      openaiPrompt = prompts.systemPrompt;
-      welcomeGreeting = prompts.welcomeGreeting;
-      const promptDuration = Date.now() - promptStartTime;
-      console.log(`[Create Call] ✅ Generated prompts in ${promptDuration}ms`);
-      console.log(`[Create Call]    Welcome: "${welcomeGreeting.substring(0, 50)}..."`);
-    } catch (error) {
-      const promptDuration = Date.now() - promptStartTime;
-      console.error(`[Create Call] ❌ Failed to generate prompts after ${promptDuration}ms:`, error);
-      throw new Error(`Failed to generate prompts: ${error instanceof Error ? error.message : String(error)}`);
-    }
+      // Template version from the registry (A/B split), saved on the call for comparison
+      const { selectPromptTemplate } = await import("~/lib/prompts/registry");
+      const { CALL_PROMPTS_TEMPLATE_NAME } = await import("~/lib/prompts/call-prompt-template");
+      const promptTemplate = await selectPromptTemplate(db, CALL_PROMPTS_TEMPLATE_NAME);
 
-    // Note: Image prompt will be generated later in video-generator worker after call completes
+      let openaiPrompt: string;
+      let welcomeGreeting: string;
+      let recordingDisclosure: string | null;
+      let voicemailMessage: string;
+      let scenarioSummary: string;
+      let promptVariables: PromptVariables;
+      let promptProvider: string;
+      try {
+        const { generateCallPrompts } = await import("~/lib/prompts/groq-generator");
+        const prompts = await generateCallPrompts(promptInput, promptTemplate);
+        openaiPrompt = prompts.systemPrompt;
+        voicemailMessage = prompts.voicemailMessage;
+        scenarioSummary = prompts.scenarioSummary;
+        promptVariables = prompts.promptVariables;
+        promptProvider = prompts.provider;
+        // Falls back to the plain notice if the persona's greeting left it out
+        ({ welcomeGreeting, recordingDisclosure } = withRecordingDisclosure(
+          prompts.welcomeGreeting,
+          recordingConsent?.disclosure ?? null,
+        ));
+        const promptDuration = Date.now() - promptStartTime;
+        console.log(`[Create Call] ✅ Generated prompts in ${promptDuration}ms (${promptProvider}, template v${promptTemplate.version})`);
+        console.log(`[Create Call]    Welcome: "${welcomeGreeting.substring(0, 50)}..."`);
+      } catch (error) {
+        const promptDuration = Date.now() - promptStartTime;
+        console.error(`[Create Call] ❌ Failed to generate prompts after ${promptDuration}ms:`, error);
+        throw new Error(`Failed to generate prompts: ${error instanceof Error ? error.message : String(error)}`);
+      }
 
-    // Create call record with prompt_ready status
-    // Status: prompt_ready → Call is ready to be processed (has OpenAI prompt)
-    // Note: paymentMethod and isFree will be updated after consuming credit
-    const [newCall] = await db
-      .insert(calls)
-      .values({
+      // Screen what the persona will actually say - no credit has been used yet
+      const scriptModeration = await moderateCallContent(db, {
         userId,
-        callerId: data.callerId || null, // Selected caller
-        recipientName: data.recipientName,
-        targetGender: data.targetGender,
-        targetGenderCustom: data.targetGenderCustom || null,
-        targetAgeRange: data.targetAgeRange || null,
-        targetPhysicalDescription: data.targetPhysicalDescription || null,
-        // New personalization fields
-        targetCity: data.targetCity || null,
-        targetHobby: data.targetHobby || null,
-        targetProfession: data.targetProfession || null,
-        interestingPiece: data.interestingPiece || null,
-        ragebaitTrigger: data.ragebaitTrigger || null,
-        videoStyle: data.videoStyle,
-        // Optional uploaded image
-        uploadedImageUrl: data.uploadedImageUrl || null,
-        uploadedImageS3Key: data.uploadedImageS3Key || null,
-        openaiPrompt,
-        welcomeGreeting,
-        imagePrompt: null, // Will be generated later in video-generator worker
-        encryptedHandle,
-        // Fhenix FHE encryption fields
-        fhenixEnabled: data.fhenixEnabled || false,
-        fhenixVaultId: data.fhenixVaultId || null,
-        paymentMethod: "free", // Temporary - will be updated from credit
-        isFree: false, // Will be updated from credit
-        status: "prompt_ready", // Status indicates prompt is ready
-      })
-      .returning();
-
-    // SECURITY: Consume a credit for this call
-    // This is the core of payment verification - no credit = no call
-    try {
-      const creditInfo = await consumeCredit(db, userId, newCall.id);
-      console.log(`[Create Call] ✅ Credit consumed for call ${newCall.id} (method: ${creditInfo.paymentMethod})`);
-      
-      // Update call with actual payment method and transaction hash from credit
-      const { eq } = await import("drizzle-orm");
-      // Cast payment method to the enum type
-      type PaymentMethod = "free" | "sol_usdc" | "base_usdc" | "zcash" | "ztarknet" | "credit_card";
-      await db.update(calls)
-        .set({
-          paymentMethod: creditInfo.paymentMethod as PaymentMethod,
-          isFree: creditInfo.isFree,
-          paymentTxHash: creditInfo.paymentRef || null, // Store transaction hash from credit
+        stage: "generated_script",
+        fields: { systemPrompt: openaiPrompt, welcomeGreeting, voicemailMessage },
+      });
+      if (!scriptModeration.allowed) {
+        throw new Error(scriptModeration.message ?? "The generated script isn't allowed");
+      }
+
+      // Note: Image prompt will be generated later in video-generator worker after call completes
+
+      // Requester wants to see the script first - the call waits in "created" until approved
+      const { getScriptReviewDeadline } = await import("~/lib/calls/script-review");
+      const scriptReviewDeadline = data.reviewScript ? getScriptReviewDeadline() : null;
+
+      // Create call record with scheduled status (created while the script is under review)
+      // Status: scheduled → Call is ready to be processed (has OpenAI prompt)
+      // Note: paymentMethod and isFree will be updated after consuming credit
+      const [newCall] = await db
+        .insert(calls)
+        .values({
+          userId,
+          callerId: data.callerId || null, // Selected caller
+          recipientName: data.recipientName,
+          targetGender: data.targetGender,
+          targetGenderCustom: data.targetGenderCustom || null,
+          targetAgeRange: data.targetAgeRange || null,
+          targetPhysicalDescription: data.targetPhysicalDescription || null,
+          // New personalization fields
+          targetCity: data.targetCity || null,
+          targetHobby: data.targetHobby || null,
+          targetProfession: data.targetProfession || null,
+          interestingPiece: data.interestingPiece || null,
+          ragebaitTrigger: data.ragebaitTrigger || null,
+          videoStyle: data.videoStyle,
+          // Optional uploaded image
+          uploadedImageUrl: data.uploadedImageUrl || null,
+          uploadedImageS3Key: data.uploadedImageS3Key || null,
+          openaiPrompt,
+          promptTemplateId: promptTemplate.id,
+          promptTemplateVersion: promptTemplate.version,
+          promptVariables,
+          promptProvider,
+          scenarioSummary,
+          scriptReviewDeadline,
+          welcomeGreeting,
+          recordingJurisdiction: recordingConsent?.jurisdiction ?? null,
+          recordingDisclosure,
+          voicemailMessage,
+          voicemailMode: data.voicemailMode ?? "hang_up",
+          imagePrompt: null, // Will be generated later in video-generator worker
+          encryptedHandle,
+          // Fhenix FHE encryption fields
+          fhenixEnabled: data.fhenixEnabled || false,
+          fhenixVaultId: data.fhenixVaultId || null,
+          // Live-call limits
+          maxDurationSeconds: data.maxDurationSeconds ?? null,
+          silenceNudgeSeconds: data.silenceNudgeSeconds ?? null,
+          silenceTimeoutSeconds: data.silenceTimeoutSeconds ?? null,
+          recipientTimezone: data.recipientTimezone ?? null,
+          recipientCountry,
+          scheduledFor: scheduledAt,
+          nextRetryAt: scheduledAt,
+          paymentMethod: "free", // Temporary - will be updated from credit
+          isFree: false, // Will be updated from credit
+          status: scriptReviewDeadline ? "created" : "scheduled", // Prompt is ready - waiting for approval or a dial slot
         })
-        .where(eq(calls.id, newCall.id));
+        .returning();
+
+      // SECURITY: Consume a credit for this call
+      // This is the core of payment verification - no credit = no call
+      try {
+        const creditInfo = await consumeCredit(db, userId, newCall.id);
+        console.log(`[Create Call] ✅ Credit consumed for call ${newCall.id} (method: ${creditInfo.paymentMethod})`);
       
-      // Update local object for return
-      (newCall as { paymentMethod: string }).paymentMethod = creditInfo.paymentMethod;
-      newCall.isFree = creditInfo.isFree;
-    } catch {
-      // No credit available - delete the call we just created
-      const { eq } = await import("drizzle-orm");
-      await db.delete(calls).where(eq(calls.id, newCall.id));
-      console.log(`[Create Call] ❌ No credit available, deleted call ${newCall.id}`);
-      throw new Error("Payment required. Please purchase a call credit first.");
-    }
+        // Update call with actual payment method and transaction hash from credit
+        const { eq } = await import("drizzle-orm");
+        // Cast payment method to the enum type
+        type PaymentMethod = "free" | "sol_usdc" | "base_usdc" | "zcash" | "ztarknet" | "credit_card";
+        await db.update(calls)
+          .set({
+            paymentMethod: creditInfo.paymentMethod as PaymentMethod,
+            isFree: creditInfo.isFree,
+            paymentTxHash: creditInfo.paymentRef || null, // Store transaction hash from credit
+          })
+          .where(eq(calls.id, newCall.id));
+      
+        // Update local object for return
+        (newCall as { paymentMethod: string }).paymentMethod = creditInfo.paymentMethod;
+        newCall.isFree = creditInfo.isFree;
+      } catch {
+        // No credit available - delete the call we just created
+        const { eq } = await import("drizzle-orm");
+        await db.delete(calls).where(eq(calls.id, newCall.id));
+        console.log(`[Create Call] ❌ No credit available, deleted call ${newCall.id}`);
+        throw new Error("Payment required. Please purchase a call credit first.");
+      }
     
-    console.log(`[Create Call] ✅ Call created with status: prompt_ready (ID: ${newCall.id})`);
+      const { recordCallCreated } = await import("~/lib/calls/lifecycle");
+      await recordCallCreated(db, newCall, scriptReviewDeadline
+        ? { reason: "awaiting_script_review", source: "api", metadata: { reviewDeadline: scriptReviewDeadline.toISOString() } }
+        : scheduledAt
+          ? { reason: "scheduled_by_requester", source: "api", metadata: { scheduledFor: scheduledAt.toISOString() } }
+          : { reason: "prompts_ready", source: "api" });
 
-    // Close database connection
-    await driver.end();
+      console.log(`[Create Call] ✅ Call created with status: ${newCall.status} (ID: ${newCall.id})`);
 
-    // Enqueue job for async processing by pg-boss worker
-    const { getBoss, JOB_TYPES } = await import("~/lib/queue/boss");
-    const boss = await getBoss();
+      // Enqueue job for async processing by pg-boss worker
+      const { getBoss, JOB_TYPES } = await import("~/lib/queue/boss");
+      const boss = await getBoss();
     
-    // In development, testing mode, or if BYPASS_CALLING_HOURS is set, bypass time restrictions
-    const bypassTimeRestrictions = process.env.NODE_ENV !== "production" || 
-                                   process.env.TESTING_MODE === "true" || 
-                                   process.env.BYPASS_CALLING_HOURS === "true";
+      // In development, testing mode, or if BYPASS_CALLING_HOURS is set, bypass time restrictions
+      const bypassTimeRestrictions = process.env.NODE_ENV !== "production" || 
+                                     process.env.TESTING_MODE === "true" || 
+                                     process.env.BYPASS_CALLING_HOURS === "true";
     
-    if (bypassTimeRestrictions) {
-      // Bypass time checks and call immediately
-      await boss.send(JOB_TYPES.PROCESS_CALL, {
-        callId: newCall.id,
-      });
-      console.log(`[Create Call] ⏰ BYPASS MODE: Enqueued call ${newCall.id} for immediate processing (time restrictions bypassed)`);
-    } else {
-      // Production mode: check calling hours
-      const { isWithinCallingHours } = await import("~/lib/calls/retry-logic");
-      const canCallNow = isWithinCallingHours(encryptedHandle);
-      
-      if (canCallNow) {
-        // Within calling hours - process immediately
+      if (scriptReviewDeadline) {
+        // Nothing is dialed until the script is approved - the timeout approves it otherwise
+        const { queueScriptReviewTimeout } = await import("~/lib/calls/script-review");
+        await queueScriptReviewTimeout(newCall.id, scriptReviewDeadline);
+        console.log(`[Create Call] 📝 Call ${newCall.id} awaiting script review until ${scriptReviewDeadline.toISOString()}`);
+      } else if (scheduledAt) {
+        // Requester picked the time (already checked against calling hours)
+        await boss.send(
+          JOB_TYPES.PROCESS_CALL,
+          { callId: newCall.id },
+          { startAfter: scheduledAt }
+        );
+        console.log(`[Create Call] 📅 Scheduled call ${newCall.id} for ${scheduledAt.toISOString()}`);
+      } else if (bypassTimeRestrictions) {
+        // Bypass time checks and call immediately
         await boss.send(JOB_TYPES.PROCESS_CALL, {
           callId: newCall.id,
         });
-        console.log(`[Create Call] Enqueued call ${newCall.id} for immediate processing`);
+        console.log(`[Create Call] ⏰ BYPASS MODE: Enqueued call ${newCall.id} for immediate processing (time restrictions bypassed)`);
       } else {
-        // Outside calling hours - schedule for next available time slot
-        const { calculateNextRetryTime } = await import("~/lib/calls/retry-logic");
-        const nextRetryAt = calculateNextRetryTime(encryptedHandle, 0);
-        
-        if (nextRetryAt) {
-          await boss.send(
-            JOB_TYPES.PROCESS_CALL,
-            { callId: newCall.id },
-            { startAfter: nextRetryAt }
-          );
-          console.log(`[Create Call] Scheduled call ${newCall.id} for ${nextRetryAt}`);
+        // Production mode: check calling hours
+        const { isWithinCallingHours } = await import("~/lib/calls/retry-logic");
+        const locale = { timezone: data.recipientTimezone, country: recipientCountry };
+        const canCallNow = isWithinCallingHours(encryptedHandle, locale);
+      
+        if (canCallNow) {
+          // Within calling hours - process immediately
+          await boss.send(JOB_TYPES.PROCESS_CALL, {
+            callId: newCall.id,
+          });
+          console.log(`[Create Call] Enqueued call ${newCall.id} for immediate processing`);
         } else {
-          console.error(`[Create Call] Could not schedule call ${newCall.id} - no valid time slot`);
+          // Outside calling hours - schedule for next available time slot
+          const { calculateNextRetryTime } = await import("~/lib/calls/retry-logic");
+          const nextRetryAt = calculateNextRetryTime(encryptedHandle, 0, locale);
+        
+          if (nextRetryAt) {
+            await boss.send(
+              JOB_TYPES.PROCESS_CALL,
+              { callId: newCall.id },
+              { startAfter: nextRetryAt }
+            );
+            console.log(`[Create Call] Scheduled call ${newCall.id} for ${nextRetryAt}`);
+          } else {
+            console.error(`[Create Call] Could not schedule call ${newCall.id} - no valid time slot`);
+          }
         }
       }
-    }
 
-    return {
-      success: true,
-      callId: newCall.id,
-      call: newCall,
-    };
+      return {
+        success: true,
+        callId: newCall.id,
+        call: newCall,
+      };
+    } finally {
+      await driver.end();
+    }
     } catch (error) {
       console.error(`[Create Call] ❌ Error:`, error);
       // Re-throw to let TanStack Start handle it properly
@@ -291,3 +452,256 @@ export const createCall = createServerFn({ method: "POST" }).handler(
   },
 );
 
+const checkDoNotCallSchema = z.object({
+  phoneNumber: z.string().min(1),
+  recipientCountry: z.string().optional(),
+});
+
+/**
+ * Whether a number is on the do-not-call list (form validation before checkout)
+ * Returns the E.164 number so the result can feed validateCallFormData's doNotCallNumbers
+ */
+export const checkDoNotCall = createServerFn({ method: "POST" }).handler(
+  async ({ data: input }: { data: unknown }) => {
+    const data = checkDoNotCallSchema.parse(input);
+
+    const session = await auth.api.getSession({
+      headers: getRequest().headers,
+    });
+    if (!session?.user) {
+      throw new Error("Unauthorized - Please sign in");
+    }
+
+    const parsed = parsePhoneNumber(data.phoneNumber, data.recipientCountry);
+    if (!parsed.valid) {
+      return { phoneNumber: null, doNotCall: false };
+    }
+
+    const driver = createPostgresDriver();
+    const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+    try {
+      const { isOnDoNotCallList } = await import("~/lib/calls/do-not-call");
+      return { phoneNumber: parsed.phone.e164, doNotCall: await isOnDoNotCallList(db, parsed.phone.e164) };
+    } finally {
+      await driver.end();
+    }
+  },
+);
+
+const changeScheduleSchema = z.object({
+  callId: z.uuid("Invalid call ID"),
+  // New delivery time on the recipient's wall clock ("YYYY-MM-DDTHH:mm")
+  scheduledFor: z.string().regex(SCHEDULED_FOR_PATTERN, "Invalid scheduled time"),
+});
+
+const cancelCallSchema = z.object({
+  callId: z.uuid("Invalid call ID"),
+});
+
+const approveCallScriptSchema = z.object({
+  callId: z.uuid("Invalid call ID"),
+});
+
+const regenerateCallScriptSchema = z.object({
+  callId: z.uuid("Invalid call ID"),
+  // What to change, e.g. "make it about his fantasy football league"
+  feedback: z.string().trim().min(1, "Tell us what to change").max(SCRIPT_FEEDBACK_MAX_LENGTH),
+});
+
+const editCallGreetingSchema = z.object({
+  callId: z.uuid("Invalid call ID"),
+  welcomeGreeting: z.string().trim().min(1, "The opening line can't be empty").max(WELCOME_GREETING_MAX_LENGTH),
+});
+
+/**
+ * Load one of the signed-in user's calls, or throw
+ */
+async function getOwnCall(db: ReturnType<typeof drizzle>, callId: string) {
+  const session = await auth.api.getSession({
+    headers: getRequest().headers,
+  });
+  if (!session?.user) {
+    throw new Error("Unauthorized - Please sign in");
+  }
+
+  const { and, eq } = await import("drizzle-orm");
+  const [call] = await db
+    .select()
+    .from(calls)
+    .where(and(eq(calls.id, callId), eq(calls.userId, session.user.id)))
+    .limit(1);
+  if (!call) {
+    throw new Error("Call not found");
+  }
+  return call;
+}
+
+/**
+ * Move a call that hasn't been dialed yet to a new time
+ */
+export const rescheduleCall = createServerFn({ method: "POST" }).handler(
+  async ({ data: input }: { data: unknown }) => {
+    const data = changeScheduleSchema.parse(input);
+
+    const driver = createPostgresDriver();
+    const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+    try {
+      const call = await getOwnCall(db, data.callId);
+      if (call.status !== "scheduled" || call.attempts > 0) {
+        throw new Error("This call has already been dialed and can't be rescheduled");
+      }
+
+      const { getRecipientLocale, resolveScheduledTime } = await import("~/lib/calls/retry-logic");
+      const schedule = resolveScheduledTime(data.scheduledFor, call.encryptedHandle || "", getRecipientLocale(call));
+      if (!schedule.valid) {
+        throw new Error(schedule.error);
+      }
+
+      const { scheduleCallAt } = await import("~/lib/calls/lifecycle");
+      const result = await scheduleCallAt(db, call.id, schedule.at, {
+        reason: "rescheduled_by_requester",
+        source: "api",
+        metadata: { previous: call.scheduledFor?.toISOString() ?? null },
+        fields: { scheduledFor: schedule.at },
+      });
+      if (!result.applied) {
+        throw new Error("This call has already been dialed and can't be rescheduled");
+      }
+
+      console.log(`[Reschedule Call] 📅 Call ${call.id} moved to ${schedule.at.toISOString()}`);
+      return { success: true, scheduledFor: schedule.at };
+    } finally {
+      await driver.end();
+    }
+  },
+);
+
+/**
+ * Cancel a call that hasn't been dialed yet, or is waiting on a retry
+ * Removes its queued jobs and gives the credit back
+ */
+export const cancelCall = createServerFn({ method: "POST" }).handler(
+  async ({ data: input }: { data: unknown }) => {
+    const data = cancelCallSchema.parse(input);
+
+    const driver = createPostgresDriver();
+    const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+    try {
+      const call = await getOwnCall(db, data.callId);
+      const { CANCELLABLE_CALL_STATUSES } = await import("~/lib/constants/call-status");
+      if (!CANCELLABLE_CALL_STATUSES.has(call.status)) {
+        throw new Error("This call is already in progress or finished and can't be cancelled");
+      }
+
+      // Loses to the call processor if it claimed the call first (scheduled → dialing)
+      const { transitionCall } = await import("~/lib/calls/lifecycle");
+      const result = await transitionCall(db, call.id, "cancelled", {
+        reason: "cancelled_by_requester",
+        source: "api",
+        metadata: { attempts: call.attempts },
+      });
+      if (!result.applied) {
+        throw new Error("This call is already in progress or finished and can't be cancelled");
+      }
+
+      // Any job that slips through is dropped by the processor (status is no longer "scheduled")
+      const { deletePendingCallJobs } = await import("~/lib/queue/boss");
+      const removedJobs = await deletePendingCallJobs(call.id);
+
+      const { restoreCreditForCall } = await import("~/lib/credits/functions");
+      const creditRestored = await restoreCreditForCall(db, call.id, "cancelled_by_requester", {
+        attempts: call.attempts,
+      });
+
+      console.log(`[Cancel Call] 🛑 Call ${call.id} cancelled (${removedJobs} queued job(s) removed, credit restored: ${creditRestored})`);
+      return { success: true, creditRestored };
+    } finally {
+      await driver.end();
+    }
+  },
+);
+
+/**
+ * Approve a call's script and queue it for dialing
+ */
+export const approveCallScript = createServerFn({ method: "POST" }).handler(
+  async ({ data: input }: { data: unknown }) => {
+    const data = approveCallScriptSchema.parse(input);
+
+    const driver = createPostgresDriver();
+    const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+    try {
+      const call = await getOwnCall(db, data.callId);
+      const { approveScript, isAwaitingScriptReview } = await import("~/lib/calls/script-review");
+      if (!isAwaitingScriptReview(call)) {
+        throw new Error("This call's script has already been approved");
+      }
+
+      const result = await approveScript(db, call, { reason: "script_approved", source: "api" });
+      if (!result.applied) {
+        throw new Error("This call's script has already been approved");
+      }
+
+      console.log(`[Script Review] ✅ Call ${call.id} approved by requester`);
+      return { success: true, nextRetryAt: result.call.nextRetryAt };
+    } finally {
+      await driver.end();
+    }
+  },
+);
+
+/**
+ * Generate a new script for a call under review, steered by the requester's feedback
+ */
+export const regenerateCallScript = createServerFn({ method: "POST" }).handler(
+  async ({ data: input }: { data: unknown }) => {
+    const data = regenerateCallScriptSchema.parse(input);
+
+    const driver = createPostgresDriver();
+    const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+    try {
+      const call = await getOwnCall(db, data.callId);
+      const { regenerateScript } = await import("~/lib/calls/script-review");
+      const updated = await regenerateScript(db, call, data.feedback);
+      return {
+        success: true,
+        welcomeGreeting: updated.welcomeGreeting,
+        scenarioSummary: updated.scenarioSummary,
+        scriptReviewDeadline: updated.scriptReviewDeadline,
+        regenerationsLeft: MAX_SCRIPT_REGENERATIONS - updated.scriptRegenerations,
+      };
+    } finally {
+      await driver.end();
+    }
+  },
+);
+
+/**
+ * Replace the opening line of a call under review
+ */
+export const editCallGreeting = createServerFn({ method: "POST" }).handler(
+  async ({ data: input }: { data: unknown }) => {
+    const data = editCallGreetingSchema.parse(input);
+
+    const driver = createPostgresDriver();
+    const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+    try {
+      const call = await getOwnCall(db, data.callId);
+      const { editGreeting } = await import("~/lib/calls/script-review");
+      const updated = await editGreeting(db, call, data.welcomeGreeting);
+      return {
+        success: true,
+        welcomeGreeting: updated.welcomeGreeting,
+        scriptReviewDeadline: updated.scriptReviewDeadline,
+      };
+    } finally {
+      await driver.end();
+    }
+  },
+);
@@ -0,0 +1,221 @@
+import { eq } from "drizzle-orm";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { calls } from "~/lib/db/schema/calls";
+import { callEvents } from "~/lib/db/schema/call-events";
+import type { callEventSourceEnum, callStatusEnum } from "~/lib/db/schema/enums";
+import { getBoss, JOB_TYPES } from "~/lib/queue/boss";
+import {
+  calculateNextRetryTime,
+  getNextCallingSlot,
+  getRecipientLocale,
+} from "~/lib/calls/retry-logic";
+
+/**
+ * Call lifecycle - the only place calls.status changes
+ *
+ * Every transition is checked against CALL_TRANSITIONS and recorded in
+ * call_events (same transaction), so the event log is the call's timeline.
+ * Callers never write calls.status directly.
+ *
+ *   created → scheduled → dialing → ringing → in_progress → completed
+ *                 ↑          │          │            └──→ voicemail / failed
+ *                 └── no_answer / busy ←┘
+ *
+ * Twilio and relay callbacks arrive out of order, so a rejected transition is
+ * logged and skipped, not thrown.
+ */
+
+type Database = ReturnType<typeof drizzle>;
+type CallRecord = typeof calls.$inferSelect;
+
+export type CallStatus = (typeof callStatusEnum.enumValues)[number];
+export type CallEventSource = (typeof callEventSourceEnum.enumValues)[number];
+
+export const CALL_TRANSITIONS: Record<CallStatus, readonly CallStatus[]> = {
+  created: ["scheduled", "failed", "cancelled"],
+  // scheduled → scheduled moves the dial slot (outside hours, daily limit)
+  scheduled: ["scheduled", "dialing", "failed", "cancelled"],
+  // → scheduled when the dial itself failed (Twilio error, Twilio "failed")
+  dialing: ["ringing", "in_progress", "no_answer", "busy", "voicemail", "completed", "failed", "scheduled"],
+  ringing: ["in_progress", "no_answer", "busy", "voicemail", "completed", "failed", "scheduled"],
+  // → no_answer when answering-machine detection hung up on a machine
+  in_progress: ["no_answer", "voicemail", "completed", "failed"],
+  no_answer: ["scheduled", "failed", "cancelled"],
+  busy: ["scheduled", "failed", "cancelled"],
+  voicemail: ["scheduled", "failed", "cancelled"],
+  // The relay outcome can land after Twilio's "completed"
+  completed: ["voicemail", "failed"],
+  failed: [],
+  cancelled: [],
+};
+
+// Twilio CallStatus values that map straight onto a lifecycle state
+// ("failed" is handled as a dial failure and retried - see call-status webhook)
+const TWILIO_STATUS_MAP: Record<string, CallStatus> = {
+  ringing: "ringing",
+  "in-progress": "in_progress",
+  completed: "completed",
+  "no-answer": "no_answer",
+  busy: "busy",
+};
+
+export interface TransitionOptions {
+  reason: string; // Short machine-readable cause, e.g. "twilio_no-answer"
+  source: CallEventSource;
+  metadata?: Record<string, unknown>;
+  // Other columns written in the same update (attempt counters, nextRetryAt, ...)
+  fields?: Omit<Partial<typeof calls.$inferInsert>, "id" | "status">;
+}
+
+export type TransitionResult =
+  | { applied: true; call: CallRecord; from: CallStatus }
+  | { applied: false; call: CallRecord | null; from: CallStatus | null };
+
+/**
+ * Whether the state machine allows from → to
+ */
+export function canTransition(from: CallStatus, to: CallStatus): boolean {
+  return CALL_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Lifecycle state for a Twilio CallStatus (null for "queued", "initiated", etc.)
+ */
+export function callStatusFromTwilio(twilioStatus: string): CallStatus | null {
+  return TWILIO_STATUS_MAP[twilioStatus] ?? null;
+}
+
+/**
+ * Move a call to a new status and append the transition to call_events
+ * The row is locked for the check, so concurrent callbacks can't both apply
+ */
+export async function transitionCall(
+  db: Database,
+  callId: string,
+  to: CallStatus,
+  options: TransitionOptions,
+): Promise<TransitionResult> {
+  return db.transaction(async (tx) => {
+    const [call] = await tx
+      .select()
+      .from(calls)
+      .where(eq(calls.id, callId))
+      .limit(1)
+      .for("update");
+
+    if (!call) {
+      console.warn(`[Lifecycle] ⚠️ Call ${callId} not found (→ ${to}, ${options.reason})`);
+      return { applied: false as const, call: null, from: null };
+    }
+
+    if (!canTransition(call.status, to)) {
+      console.warn(`[Lifecycle] ⚠️ Ignoring ${call.status} → ${to} for call ${callId} (${options.reason})`);
+      return { applied: false as const, call, from: call.status };
+    }
+
+    const [updated] = await tx
+      .update(calls)
+      .set({ ...options.fields, status: to, updatedAt: new Date() })
+      .where(eq(calls.id, callId))
+      .returning();
+
+    await tx.insert(callEvents).values({
+      callId,
+      fromStatus: call.status,
+      toStatus: to,
+      reason: options.reason,
+      source: options.source,
+      metadata: options.metadata ?? null,
+    });
+
+    console.log(`[Lifecycle] ${callId}: ${call.status} → ${to} (${options.reason}, ${options.source})`);
+    return { applied: true as const, call: updated, from: call.status };
+  });
+}
+
+/**
+ * Record the first event for a newly inserted call (its initial status)
+ */
+export async function recordCallCreated(
+  db: Database,
+  call: { id: string; status: CallStatus },
+  options: Omit<TransitionOptions, "fields">,
+): Promise<void> {
+  await db.insert(callEvents).values({
+    callId: call.id,
+    fromStatus: null,
+    toStatus: call.status,
+    reason: options.reason,
+    source: options.source,
+    metadata: options.metadata ?? null,
+  });
+}
+
+/**
+ * Move a call to "scheduled" for a later attempt and enqueue the job for then
+ *
+ * - "next_slot": the next 10 AM / 2 PM / 6 PM slot inside calling hours
+ *   (call didn't connect, outside hours right now)
+ * - "backoff": spread across the retry days (daily limit, processing errors);
+ *   once the retry days are used up the call fails and the refund policy runs
+ *
+ * Returns the retry time, or null if the call was failed or the transition
+ * was rejected.
+ */
+export async function scheduleRetry(
+  db: Database,
+  call: CallRecord,
+  options: Omit<TransitionOptions, "fields"> & { strategy: "next_slot" | "backoff" },
+): Promise<Date | null> {
+  const { strategy, ...transition } = options;
+  const handle = call.encryptedHandle || "";
+  const locale = getRecipientLocale(call);
+  const nextRetryAt = strategy === "next_slot"
+    ? getNextCallingSlot(handle, locale)
+    : calculateNextRetryTime(handle, call.daysSinceFirstAttempt || 0, locale);
+
+  if (!nextRetryAt) {
+    const failed = await transitionCall(db, call.id, "failed", {
+      reason: "retries_exhausted",
+      source: options.source,
+      metadata: { ...options.metadata, lastReason: options.reason },
+    });
+    if (failed.applied) {
+      const { applyRefundPolicy, refundCategoryForRetries } = await import("~/lib/credits/refund-policy");
+      await applyRefundPolicy(db, failed.call, {
+        category: refundCategoryForRetries(options.reason),
+        reason: "retries_exhausted",
+      });
+    }
+    return null;
+  }
+
+  const result = await scheduleCallAt(db, call.id, nextRetryAt, transition);
+  return result.applied ? nextRetryAt : null;
+}
+
+/**
+ * Move a call to "scheduled" for an exact time and enqueue the job for then
+ * Used for retries and for requester-chosen times (attempt zero and reschedules)
+ */
+export async function scheduleCallAt(
+  db: Database,
+  callId: string,
+  at: Date,
+  options: TransitionOptions,
+): Promise<TransitionResult> {
+  const result = await transitionCall(db, callId, "scheduled", {
+    ...options,
+    metadata: { ...options.metadata, nextRetryAt: at.toISOString() },
+    fields: { ...options.fields, nextRetryAt: at },
+  });
+  if (!result.applied) {
+    return result;
+  }
+
+  // A job queued for an earlier time is re-queued by the processor for nextRetryAt
+  const boss = await getBoss();
+  await boss.send(JOB_TYPES.PROCESS_CALL, { callId }, { startAfter: at });
+  console.log(`[Lifecycle] 📅 Call ${callId} scheduled for ${at.toISOString()}`);
+  return result;
+}
@@ -0,0 +1,102 @@
+/**
+ * Live call events (run with `bun test`)
+ *
+ * Events go out as one NOTIFY on CALL_LIVE_CHANNEL, capped below Postgres'
+ * 8000-byte payload limit, and the subscriber drops anything it can't route.
+ * Events that arrive while the live feed reads its snapshot go out after it,
+ * without repeating turns the snapshot already has.
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { CALL_LIVE_CHANNEL, eventsAfterSnapshot, parseCallLiveEvent, publishCallEvent } from "./live-events";
+import type { CallLiveEvent, CallLiveEventInput } from "./live-events";
+
+const dialect = new PgDialect();
+
+// Captures the NOTIFY instead of sending it
+async function publish(event: CallLiveEventInput): Promise<{ channel: unknown; payload: CallLiveEvent }> {
+  const queries: SQL[] = [];
+  const db = { execute: async (query: SQL) => queries.push(query) } as unknown as ReturnType<typeof drizzle>;
+  await publishCallEvent(db, event);
+
+  expect(queries).toHaveLength(1);
+  const { sql, params } = dialect.sqlToQuery(queries[0]);
+  expect(sql).toStartWith("select pg_notify(");
+  return { channel: params[0], payload: JSON.parse(params[1] as string) as CallLiveEvent };
+}
+
+describe("publishCallEvent", () => {
+  test("stamps the event and notifies the shared channel", async () => {
+    const { channel, payload } = await publish({ type: "status", callId: "call-1", status: "ringing" });
+    expect(channel).toBe(CALL_LIVE_CHANNEL);
+    expect(payload).toMatchObject({ type: "status", callId: "call-1", status: "ringing" });
+    expect(new Date(payload.at).toISOString()).toBe(payload.at);
+  });
+
+  test("cuts long turns to fit the NOTIFY payload", async () => {
+    const { payload } = await publish({
+      type: "turn",
+      callId: "call-1",
+      index: 3,
+      role: "assistant",
+      content: "blah ".repeat(2000),
+      wasInterrupted: false,
+    });
+    expect(payload).toMatchObject({ type: "turn", index: 3 });
+    const { content } = payload as Extract<CallLiveEvent, { type: "turn" }>;
+    expect(content).toHaveLength(2001);
+    expect(content).toEndWith("…");
+    expect(new TextEncoder().encode(JSON.stringify(payload)).length).toBeLessThan(8000);
+  });
+
+  test("leaves short turns alone", async () => {
+    const { payload } = await publish({
+      type: "turn",
+      callId: "call-1",
+      index: 0,
+      role: "user",
+      content: "Hello?",
+      wasInterrupted: true,
+    });
+    expect(payload).toMatchObject({ content: "Hello?", wasInterrupted: true, index: 0 });
+  });
+});
+
+describe("parseCallLiveEvent", () => {
+  test("reads a published event", () => {
+    const event: CallLiveEvent = { type: "session", callId: "call-1", state: "started", at: "2026-01-01T12:00:00.000Z" };
+    expect(parseCallLiveEvent(JSON.stringify(event))).toEqual(event);
+  });
+
+  test.each([
+    ["not JSON", "{"],
+    ["null", "null"],
+    ["no callId", JSON.stringify({ type: "status", status: "ringing" })],
+    ["no type", JSON.stringify({ callId: "call-1" })],
+  ])("drops a payload that is %s", (_label, payload) => {
+    expect(parseCallLiveEvent(payload)).toBeNull();
+  });
+});
+
+describe("eventsAfterSnapshot", () => {
+  const AT = "2026-01-01T12:00:00.000Z";
+  const turn = (index: number, content: string, wasInterrupted = false) =>
+    ({ type: "turn", callId: "call-1", index, role: "user", content, wasInterrupted, at: AT }) as const;
+
+  test("drops turns the snapshot already has as they are", () => {
+    expect(eventsAfterSnapshot([turn(0, "Hello?")], [turn(0, "Hello?")])).toEqual([]);
+  });
+
+  test("keeps new turns, changed turns and everything else in order", () => {
+    const status: CallLiveEvent = { type: "status", callId: "call-1", status: "completed", at: AT };
+    const buffered = [turn(0, "Hello? Who is this?"), turn(1, "Hi"), turn(2, "Sorry", true), status];
+    expect(eventsAfterSnapshot([turn(0, "Hello?"), turn(1, "Hi"), turn(2, "Sorry")], buffered)).toEqual([
+      turn(0, "Hello? Who is this?"),
+      turn(2, "Sorry", true),
+      status,
+    ]);
+  });
+});
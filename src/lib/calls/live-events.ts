@@ -0,0 +1,90 @@
+/**
+ * Live call events (Postgres LISTEN/NOTIFY)
+ *
+ * The relay server (turns, session start/end) and the call-status webhook
+ * (ringing/answered/ended) publish on one channel; the app's SSE endpoint
+ * subscribes and forwards events for calls the requester owns.
+ *
+ * No env imports - shared by the app and server-ws.ts.
+ */
+
+import { sql } from "drizzle-orm";
+import type { drizzle } from "drizzle-orm/postgres-js";
+
+export const CALL_LIVE_CHANNEL = "call_live_events";
+
+// NOTIFY payloads are capped at 8000 bytes - long turns are cut for the live view
+// (the full text is in call_transcripts)
+const MAX_LIVE_CONTENT_LENGTH = 2000;
+
+export type CallLiveEvent =
+  | {
+      type: "status"; // Twilio call status: initiated, ringing, in-progress, completed, no-answer, busy, failed
+      callId: string;
+      status: string;
+      at: string;
+    }
+  | {
+      type: "session"; // ConversationRelay session
+      callId: string;
+      state: "started" | "ended";
+      at: string;
+    }
+  | {
+      type: "turn"; // Re-sent with the same index when a turn changes (merged speech, interruption)
+      callId: string;
+      index: number;
+      role: "user" | "assistant";
+      content: string;
+      wasInterrupted: boolean;
+      at: string;
+    };
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+export type CallLiveEventInput = DistributiveOmit<CallLiveEvent, "at">;
+
+/**
+ * Publish an event to every subscribed app instance
+ */
+export async function publishCallEvent(
+  db: ReturnType<typeof drizzle>,
+  event: CallLiveEventInput,
+): Promise<void> {
+  const payload: CallLiveEvent = {
+    ...event,
+    ...(event.type === "turn" && event.content.length > MAX_LIVE_CONTENT_LENGTH
+      ? { content: `${event.content.substring(0, MAX_LIVE_CONTENT_LENGTH)}…` }
+      : {}),
+    at: new Date().toISOString(),
+  } as CallLiveEvent;
+
+  await db.execute(sql`select pg_notify(${CALL_LIVE_CHANNEL}, ${JSON.stringify(payload)})`);
+}
+
+/**
+ * Parse a NOTIFY payload (null if malformed)
+ */
+export function parseCallLiveEvent(payload: string): CallLiveEvent | null {
+  try {
+    const event = JSON.parse(payload) as CallLiveEvent;
+    return typeof event?.callId === "string" && typeof event.type === "string" ? event : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Events that arrived while a snapshot was being read, minus turns it already
+ * has as they are (a turn re-sent with new content still goes out)
+ */
+export function eventsAfterSnapshot(
+  snapshotTurns: Extract<CallLiveEvent, { type: "turn" }>[],
+  buffered: CallLiveEvent[],
+): CallLiveEvent[] {
+  const byIndex = new Map(snapshotTurns.map((turn) => [turn.index, turn]));
+  return buffered.filter((event) => {
+    if (event.type !== "turn") return true;
+    const known = byIndex.get(event.index);
+    return !known || known.content !== event.content || known.wasInterrupted !== event.wasInterrupted;
+  });
+}
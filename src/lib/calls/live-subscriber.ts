@@ -0,0 +1,59 @@
+import postgres from "postgres";
+import { env } from "~/env/server";
+import { CALL_LIVE_CHANNEL, parseCallLiveEvent } from "~/lib/calls/live-events";
+import type { CallLiveEvent } from "~/lib/calls/live-events";
+
+type CallEventHandler = (event: CallLiveEvent) => void;
+
+/**
+ * One LISTEN connection per app process, fanned out to SSE clients by callId
+ */
+const handlersByCall = new Map<string, Set<CallEventHandler>>();
+let listening: Promise<void> | null = null;
+
+function ensureListening(): Promise<void> {
+  if (!listening) {
+    // LISTEN needs its own connection (kept open for the process lifetime)
+    const listener = postgres(env.DATABASE_URL, { max: 1, idle_timeout: 0 });
+    listening = listener
+      .listen(CALL_LIVE_CHANNEL, (payload) => {
+        const event = parseCallLiveEvent(payload);
+        if (!event) return;
+        for (const handler of handlersByCall.get(event.callId) ?? []) {
+          handler(event);
+        }
+      })
+      .then(() => {
+        console.log(`[Live Events] 👂 Listening on ${CALL_LIVE_CHANNEL}`);
+      })
+      .catch((error) => {
+        listening = null;
+        throw error;
+      });
+  }
+  return listening;
+}
+
+/**
+ * Receive live events for one call, returns an unsubscribe function
+ */
+export async function subscribeToCallEvents(
+  callId: string,
+  handler: CallEventHandler,
+): Promise<() => void> {
+  await ensureListening();
+
+  let handlers = handlersByCall.get(callId);
+  if (!handlers) {
+    handlers = new Set();
+    handlersByCall.set(callId, handlers);
+  }
+  handlers.add(handler);
+
+  return () => {
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      handlersByCall.delete(callId);
+    }
+  };
+}
@@ -0,0 +1,17 @@
+import { createHash } from "crypto";
+
+/**
+ * Normalize to E.164-ish "+<digits>" so "+1 (555) 123-4567" and
+ * "+15551234567" hash to the same value
+ */
+function normalizePhoneNumber(phoneNumber: string): string {
+  return `+${phoneNumber.replace(/\D/g, "")}`;
+}
+
+/**
+ * Hash a phone number (privacy-preserving) - call_analytics, do_not_call and
+ * opt-out verifications all key on this, never on the raw number
+ */
+export function hashPhoneNumber(phoneNumber: string): string {
+  return createHash("sha256").update(normalizePhoneNumber(phoneNumber)).digest("hex");
+}
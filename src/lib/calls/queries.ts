@@ -1,9 +1,11 @@
 import { createServerFn } from "@tanstack/react-start";
 import { drizzle } from "drizzle-orm/postgres-js";
-import { desc, eq } from "drizzle-orm";
+import { asc, desc, eq, inArray } from "drizzle-orm";
 import { createPostgresDriver } from "~/lib/db";
 import { calls } from "~/lib/db/schema/calls";
 import { callers } from "~/lib/db/schema/callers";
+import { callTranscripts } from "~/lib/db/schema/call-transcripts";
+import { callEvents } from "~/lib/db/schema/call-events";
 import * as schema from "~/lib/db/schema";
 import { auth } from "~/lib/auth/auth";
 import { getRequest } from "@tanstack/react-start/server";
@@ -86,6 +88,10 @@ export const getUserCalls = createServerFn({ method: "GET" }).handler(
         ragebaitTrigger: calls.ragebaitTrigger,
         videoStyle: calls.videoStyle,
         openaiPrompt: calls.openaiPrompt,
+        welcomeGreeting: calls.welcomeGreeting,
+        scenarioSummary: calls.scenarioSummary,
+        scriptReviewDeadline: calls.scriptReviewDeadline,
+        scriptRegenerations: calls.scriptRegenerations,
         imagePrompt: calls.imagePrompt,
         script: calls.script,
         attempts: calls.attempts,
@@ -94,6 +100,9 @@ export const getUserCalls = createServerFn({ method: "GET" }).handler(
         lastAttemptAt: calls.lastAttemptAt,
         daysSinceFirstAttempt: calls.daysSinceFirstAttempt,
         nextRetryAt: calls.nextRetryAt,
+        scheduledFor: calls.scheduledFor,
+        recipientTimezone: calls.recipientTimezone,
+        recipientCountry: calls.recipientCountry,
         isFree: calls.isFree,
         paymentMethod: calls.paymentMethod,
         paymentTxHash: calls.paymentTxHash,
@@ -116,10 +125,70 @@ export const getUserCalls = createServerFn({ method: "GET" }).handler(
       .where(eq(calls.userId, userId))
       .orderBy(desc(calls.createdAt));
 
+    // Fetch persisted conversation turns for all of the user's calls in one query
+    const callIds = userCalls.map((call) => call.id);
+    const transcriptRows = callIds.length > 0
+      ? await db
+          .select({
+            id: callTranscripts.id,
+            callId: callTranscripts.callId,
+            role: callTranscripts.role,
+            content: callTranscripts.content,
+            wasInterrupted: callTranscripts.wasInterrupted,
+            confidence: callTranscripts.confidence,
+            spokenAt: callTranscripts.spokenAt,
+          })
+          .from(callTranscripts)
+          .where(inArray(callTranscripts.callId, callIds))
+          .orderBy(asc(callTranscripts.spokenAt), asc(callTranscripts.turnIndex))
+      : [];
+
+    const transcriptsByCall = new Map<string, typeof transcriptRows>();
+    for (const row of transcriptRows) {
+      if (!row.callId) continue;
+      const turns = transcriptsByCall.get(row.callId) ?? [];
+      turns.push(row);
+      transcriptsByCall.set(row.callId, turns);
+    }
+
+    // Status timeline (call_events) for the same calls
+    const eventRows = callIds.length > 0
+      ? await db
+          .select({
+            id: callEvents.id,
+            callId: callEvents.callId,
+            fromStatus: callEvents.fromStatus,
+            toStatus: callEvents.toStatus,
+            reason: callEvents.reason,
+            source: callEvents.source,
+            createdAt: callEvents.createdAt,
+          })
+          .from(callEvents)
+          .where(inArray(callEvents.callId, callIds))
+          .orderBy(asc(callEvents.createdAt))
+      : [];
+
+    const timelinesByCall = new Map<string, typeof eventRows>();
+    for (const row of eventRows) {
+      const events = timelinesByCall.get(row.callId) ?? [];
+      events.push(row);
+      timelinesByCall.set(row.callId, events);
+    }
+
     // Auto-refresh expired video URLs (videos are kept forever, only URLs expire)
     const { getFreshVideoUrl } = await import("~/lib/storage/s3");
+    const { getRecipientLocale, getTimezonesForPhoneNumber } = await import("~/lib/calls/retry-logic");
     const refreshedCalls = await Promise.all(
-      userCalls.map(async (call) => {
+      userCalls.map(async (callRow) => {
+        const call = {
+          ...callRow,
+          transcript: transcriptsByCall.get(callRow.id) ?? [],
+          timeline: timelinesByCall.get(callRow.id) ?? [],
+          // Wall clock that new times are entered in while the call can still be rescheduled (see resolveScheduledTime)
+          scheduleTimezone: callRow.status === "scheduled" && callRow.attempts === 0
+            ? getTimezonesForPhoneNumber(callRow.encryptedHandle || "", getRecipientLocale(callRow))[0]
+            : null,
+        };
         // If video URL is expired and we have the S3 key, generate a fresh URL
         if (call.videoS3Key && isPresignedUrlExpired(call.videoUrl)) {
           try {
@@ -0,0 +1,116 @@
+import { env } from "~/env/server";
+import { getRecipientAreaCode, getRecipientRules } from "~/lib/calls/retry-logic";
+import type { RecipientLocale } from "~/lib/calls/retry-logic";
+
+/**
+ * Recording consent - whether the recipient has to be told the call is recorded
+ *
+ * Every call is recorded (dual-channel), so wherever all parties must consent
+ * the persona discloses it in the opening line. Countries carry their notice
+ * in country-rules.ts (recordingDisclosure); inside the US it depends on the
+ * state, looked up here by area code. A US number we can't read (Fhenix) gets
+ * the notice too - we can't rule out an all-party state.
+ *
+ * The disclosure that was actually spoken is stored on the call
+ * (recordingJurisdiction / recordingDisclosure) for audit.
+ */
+
+export interface RecordingConsent {
+  jurisdiction: string; // "GB", "US-CA", or "US" when the state is unknown
+  disclosure: string; // Plain notice in the recipient's language - used when the persona's version is missing
+}
+
+const DEFAULT_US_DISCLOSURE = "This call is being recorded.";
+
+// US states requiring every party's consent to record a phone call
+const ALL_PARTY_CONSENT_STATES: Record<string, readonly string[]> = {
+  CA: [
+    "209", "213", "279", "310", "323", "341", "350", "369", "408", "415", "424", "442",
+    "510", "530", "559", "562", "619", "626", "628", "650", "657", "661", "669", "707",
+    "714", "738", "747", "760", "805", "818", "820", "831", "837", "840", "858", "909",
+    "916", "925", "949", "951",
+  ],
+  CT: ["203", "475", "860", "959"],
+  DE: ["302"],
+  FL: [
+    "239", "305", "321", "324", "352", "386", "407", "448", "561", "645", "656", "689",
+    "727", "728", "754", "772", "786", "813", "850", "863", "904", "941", "954",
+  ],
+  IL: [
+    "217", "224", "309", "312", "331", "447", "464", "618", "630", "708", "730", "773",
+    "779", "815", "847", "861", "872",
+  ],
+  MD: ["227", "240", "301", "410", "443", "667"],
+  MA: ["339", "351", "413", "508", "617", "774", "781", "857", "978"],
+  MI: ["231", "248", "269", "313", "517", "586", "616", "679", "734", "810", "906", "947", "989"],
+  MT: ["406"],
+  NV: ["702", "725", "775"],
+  NH: ["603"],
+  PA: [
+    "215", "223", "267", "272", "412", "445", "484", "570", "582", "610", "717", "724",
+    "814", "835", "878",
+  ],
+  WA: ["206", "253", "360", "425", "509", "564"],
+};
+
+const ALL_PARTY_CONSENT_AREA_CODES = new Map<string, string>(
+  Object.entries(ALL_PARTY_CONSENT_STATES).flatMap(([state, areaCodes]) =>
+    areaCodes.map((areaCode) => [areaCode, state] as const),
+  ),
+);
+
+// "record", "recorded", "recording" / Spanish "grabada", "grabando", "grabación"
+const RECORDING_MENTION = /\brecord|\bgrab(?:a|ada|ado|ando|aci[oó]n)\b/i;
+
+/**
+ * Disclosure the recipient must hear, or null where one-party consent applies
+ */
+export function getRecordingConsent(encryptedHandle: string, locale: RecipientLocale = {}): RecordingConsent | null {
+  const rules = getRecipientRules(encryptedHandle, locale);
+  if (rules.recordingDisclosure) {
+    return { jurisdiction: rules.code, disclosure: rules.recordingDisclosure };
+  }
+  if (rules.code !== "US") {
+    return null;
+  }
+
+  const disclosure = env.RECORDING_DISCLOSURE || DEFAULT_US_DISCLOSURE;
+  if (encryptedHandle.startsWith("fhenix:")) {
+    return { jurisdiction: "US", disclosure };
+  }
+
+  const areaCode = getRecipientAreaCode(encryptedHandle);
+  const state = areaCode ? ALL_PARTY_CONSENT_AREA_CODES.get(areaCode) : undefined;
+  return state ? { jurisdiction: `US-${state}`, disclosure } : null;
+}
+
+/**
+ * The sentence of a greeting that tells them about the recording (null if none does)
+ */
+export function findRecordingMention(greeting: string): string | null {
+  const sentences = greeting.split(/(?<=[.!?])\s+/);
+  return sentences.find((sentence) => RECORDING_MENTION.test(sentence))?.trim() ?? null;
+}
+
+/**
+ * Make sure an opening line discloses the recording
+ * Keeps the persona's in-character mention when there is one, otherwise puts
+ * the plain notice first. Returns the greeting and the disclosure to store.
+ */
+export function withRecordingDisclosure(
+  welcomeGreeting: string,
+  disclosure: string | null,
+): { welcomeGreeting: string; recordingDisclosure: string | null } {
+  if (!disclosure) {
+    return { welcomeGreeting, recordingDisclosure: null };
+  }
+
+  const mention = findRecordingMention(welcomeGreeting);
+  if (mention) {
+    return { welcomeGreeting, recordingDisclosure: mention };
+  }
+  return {
+    welcomeGreeting: welcomeGreeting ? `${disclosure} ${welcomeGreeting}` : disclosure,
+    recordingDisclosure: disclosure,
+  };
+}
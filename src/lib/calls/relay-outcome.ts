@@ -0,0 +1,151 @@
+import { eq } from "drizzle-orm";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { calls } from "~/lib/db/schema/calls";
+import { addToDoNotCallList } from "~/lib/calls/do-not-call";
+import { applyRefundPolicy, type RefundCategory } from "~/lib/credits/refund-policy";
+import { scheduleRetry, transitionCall } from "~/lib/calls/lifecycle";
+import type { EndCallHandoff } from "~/lib/conversation-relay/tools";
+
+type CallRecord = typeof calls.$inferSelect;
+
+/**
+ * Values Twilio posts to the <Connect action> URL when a ConversationRelay session ends
+ */
+export interface RelaySessionResult {
+  sessionId: string | null;
+  sessionStatus: string | null; // "ended" | "completed" | "failed"
+  sessionDuration: number | null; // seconds
+  errorCode: string | null;
+  errorMessage: string | null;
+  handoffData: string | null; // JSON from the relay server's EndMessage
+  recipientNumber: string | null; // "To" of the outbound call
+}
+
+/**
+ * What the session outcome means for the call
+ */
+export interface RelayOutcome {
+  handoff: EndCallHandoff | null;
+  failed: boolean; // Call ends failed (or voicemail) - no video is generated
+  retry: boolean; // Persona reached a machine on a hang_up call - no answer, dialed again later
+  refund: RefundCategory | null; // Refund policy category, if the call is refunded
+  doNotCall: boolean; // Recipient asked never to be called again
+}
+
+// Persona-reported reasons where the call didn't reach the intended person
+// (voicemail only when a message was to be left - otherwise it's a no-answer, see resolveRelayOutcome)
+const UNDELIVERED_REASONS = new Set<string>(["wrong_person", "voicemail"]);
+
+// Recipient asked to stop (persona end_call or keypad opt-out)
+const OPT_OUT_REASONS = new Set<string>(["recipient_asked_to_stop", "dtmf_opt_out"]);
+
+/**
+ * Parse HandoffData sent by the relay server (null if absent or not ours)
+ */
+export function parseHandoffData(raw: string | null): EndCallHandoff | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<EndCallHandoff>;
+    if (typeof parsed?.reason !== "string" || typeof parsed.endedBy !== "string") {
+      return null;
+    }
+    return parsed as EndCallHandoff;
+  } catch {
+    console.warn("[Relay Outcome] ⚠️ HandoffData is not valid JSON");
+    return null;
+  }
+}
+
+/**
+ * Map a session result to follow-up actions
+ * A machine the persona noticed follows the call's voicemailMode like one
+ * answering-machine detection caught (see the call-status webhook)
+ */
+export function resolveRelayOutcome(
+  result: RelaySessionResult,
+  call: Pick<CallRecord, "voicemailMode">,
+): RelayOutcome {
+  const handoff = parseHandoffData(result.handoffData);
+  const relayError = result.sessionStatus === "failed" || !!result.errorCode;
+  const retry = !relayError && handoff?.reason === "voicemail" && call.voicemailMode !== "leave_message";
+  const undelivered = !!handoff && UNDELIVERED_REASONS.has(handoff.reason) && !retry;
+
+  return {
+    handoff,
+    failed: relayError || undelivered,
+    retry,
+    refund: relayError ? "our_error" : undelivered ? "never_answered" : null,
+    doNotCall: !!handoff && OPT_OUT_REASONS.has(handoff.reason),
+  };
+}
+
+/**
+ * Persist the session result on the call and run follow-ups
+ * (failure status, no-answer retry, credit refund, do-not-call)
+ */
+export async function applyRelayOutcome(
+  db: ReturnType<typeof drizzle>,
+  call: CallRecord,
+  result: RelaySessionResult,
+): Promise<RelayOutcome> {
+  const outcome = resolveRelayOutcome(result, call);
+
+  await db
+    .update(calls)
+    .set({
+      relaySessionId: result.sessionId,
+      relaySessionStatus: result.sessionStatus,
+      relaySessionDuration: result.sessionDuration,
+      relayErrorCode: result.errorCode,
+      relayErrorMessage: result.errorMessage,
+      endReason: outcome.handoff?.reason ?? null,
+      endedBy: outcome.handoff?.endedBy ?? null,
+      handoffData: outcome.handoff,
+      updatedAt: new Date(),
+    })
+    .where(eq(calls.id, call.id));
+
+  if (outcome.failed) {
+    const reason = outcome.handoff?.reason ?? result.errorCode ?? result.sessionStatus ?? "relay_failed";
+    await transitionCall(db, call.id, reason === "voicemail" ? "voicemail" : "failed", {
+      reason,
+      source: "relay",
+      metadata: { sessionId: result.sessionId, errorMessage: result.errorMessage },
+    });
+    console.log(`[Relay Outcome] ❌ Call ${call.id} failed (${reason})`);
+  }
+
+  if (outcome.retry) {
+    const metadata = { sessionId: result.sessionId };
+    const noAnswer = await transitionCall(db, call.id, "no_answer", { reason: "voicemail", source: "relay", metadata });
+    if (noAnswer.applied) {
+      const nextRetryAt = await scheduleRetry(db, noAnswer.call, {
+        strategy: "next_slot",
+        reason: "retry_after_answering_machine",
+        source: "relay",
+        metadata,
+      });
+      console.log(`[Relay Outcome] 📠 Call ${call.id} reached a machine, scheduled retry for ${nextRetryAt}`);
+    }
+  }
+
+  if (outcome.refund) {
+    await applyRefundPolicy(db, call, {
+      category: outcome.refund,
+      reason: outcome.handoff?.reason ?? result.errorCode ?? "relay_failed",
+    });
+  }
+
+  if (outcome.doNotCall) {
+    if (result.recipientNumber) {
+      await addToDoNotCallList(db, result.recipientNumber, {
+        source: outcome.handoff?.endedBy === "recipient" ? "dtmf" : "persona",
+        callSid: call.callSid ?? undefined,
+      });
+    } else {
+      console.warn(`[Relay Outcome] ⚠️ Opt-out for call ${call.id} but recipient number is unknown`);
+    }
+  }
+
+  return outcome;
+}
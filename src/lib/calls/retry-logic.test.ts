@@ -0,0 +1,108 @@
+/**
+ * Retry and scheduling rules (run with `bun test`)
+ *
+ * Dial slots have to fall inside the country's calling window in every
+ * timezone the recipient may be in, across DST changes and days without a
+ * window. Requester-chosen times are read on the recipient's wall clock.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { calculateNextRetryTime, getNextCallingSlot, resolveScheduledTime } from "./retry-logic";
+
+const NEW_YORK = "encrypted_+12125550123";
+const SYDNEY = "encrypted_+61291234567";
+const FHENIX = "fhenix:0xabc";
+
+const NOW = new Date("2026-06-01T12:00:00Z");
+
+const ENV_KEYS = ["NODE_ENV", "TESTING_MODE", "BYPASS_CALLING_HOURS"] as const;
+let savedEnv: Partial<Record<(typeof ENV_KEYS)[number], string>> = {};
+
+beforeEach(() => {
+  savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  // Calling hours are only enforced in production
+  process.env.NODE_ENV = "production";
+  delete process.env.TESTING_MODE;
+  delete process.env.BYPASS_CALLING_HOURS;
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+describe("getNextCallingSlot", () => {
+  test.each([
+    ["after hours → next morning's window opening", NEW_YORK, {}, "2026-03-04T02:00:00Z", "2026-03-04T14:00:00Z"],
+    ["across the spring DST change", NEW_YORK, {}, "2026-03-08T03:00:00Z", "2026-03-08T13:00:00Z"],
+    ["the requester's timezone override", NEW_YORK, { timezone: "America/Los_Angeles" }, "2026-03-04T01:00:00Z", "2026-03-04T02:00:00Z"],
+    ["a Fhenix handle falls back to the saved country", FHENIX, { country: "GB" }, "2026-03-04T21:00:00Z", "2026-03-05T09:00:00Z"],
+    // No Sunday window, and Perth has to be open too
+    ["no Sunday calls in Australia", SYDNEY, {}, "2026-03-07T09:00:00Z", "2026-03-09T01:00:00Z"],
+  ])("%s", (_label, handle, locale, after, expected) => {
+    expect(getNextCallingSlot(handle, locale, new Date(after)).toISOString()).toBe(new Date(expected).toISOString());
+  });
+
+  test("slots are strictly after the given time", () => {
+    const after = new Date("2026-03-04T14:00:00Z"); // 9:00 in New York
+    expect(getNextCallingSlot(NEW_YORK, {}, after).toISOString()).toBe("2026-03-04T15:00:00.000Z");
+  });
+});
+
+describe("resolveScheduledTime", () => {
+  test("reads the time on the recipient's wall clock", () => {
+    expect(resolveScheduledTime("2026-07-01T10:00", NEW_YORK, {}, NOW)).toEqual({
+      valid: true,
+      at: new Date("2026-07-01T14:00:00Z"),
+      timezone: "America/New_York",
+    });
+  });
+
+  test("uses the timezone override", () => {
+    const result = resolveScheduledTime("2026-07-01T10:00", NEW_YORK, { timezone: "America/Chicago" }, NOW);
+    expect(result).toMatchObject({ valid: true, at: new Date("2026-07-01T15:00:00Z"), timezone: "America/Chicago" });
+  });
+
+  test.each([
+    ["a malformed time", "July 1st, 10am", "must look like"],
+    ["a time in the past", "2026-05-01T10:00", "in the future"],
+    ["a time a minute ahead", "2026-06-01T08:01", "in the future"],
+    ["a time more than 90 days ahead", "2026-10-01T10:00", "up to 90 days ahead"],
+  ])("rejects %s", (_label, localDateTime, error) => {
+    const result = resolveScheduledTime(localDateTime, NEW_YORK, {}, NOW);
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.error).toContain(error);
+  });
+
+  test("rejects a time outside calling hours with the earliest alternative", () => {
+    const result = resolveScheduledTime("2026-07-01T22:00", NEW_YORK, {}, NOW);
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.error).toContain("outside calling hours for United States");
+    expect(!result.valid && result.error).toContain("Jul 2");
+  });
+
+  test("outside production any future time is accepted", () => {
+    process.env.NODE_ENV = "development";
+    expect(resolveScheduledTime("2026-07-01T22:00", NEW_YORK, {}, NOW).valid).toBe(true);
+  });
+});
+
+describe("calculateNextRetryTime", () => {
+  test("gives up after five days", () => {
+    expect(calculateNextRetryTime(NEW_YORK, 5)).toBeNull();
+  });
+
+  test.each([0, 1, 2, 3, 4])("day %d retries inside the window, in the future", (days) => {
+    const retry = calculateNextRetryTime(NEW_YORK, days);
+    expect(retry).not.toBeNull();
+    expect(retry!.getTime()).toBeGreaterThan(Date.now());
+    const hour = parseInt(
+      new Intl.DateTimeFormat("en-US", { timeZone: "America/New_York", hour: "numeric", hourCycle: "h23" }).format(retry!),
+      10,
+    );
+    expect(hour).toBeGreaterThanOrEqual(9);
+    expect(hour).toBeLessThan(21);
+  });
+});
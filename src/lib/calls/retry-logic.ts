@@ -1,13 +1,23 @@
 import { eq, and } from "drizzle-orm";
 import { calls } from "~/lib/db/schema/calls";
 import { callAnalytics } from "~/lib/db/schema/call-analytics";
-import { createHash } from "crypto";
-
-// TCPA Compliance Constants
-const MAX_CALLS_PER_DAY_PER_NUMBER = 3; // TCPA limit
+import { isHandleOnDoNotCallList } from "~/lib/calls/do-not-call";
+import { hashPhoneNumber } from "~/lib/calls/phone-hash";
+import {
+  getTimezonesForAreaCode,
+  isValidTimeZone,
+  UNKNOWN_AREA_CODE_TIMEZONES,
+} from "~/lib/calls/timezones";
+import { DEFAULT_COUNTRY, getCallingWindow, getCountryRules } from "~/lib/calls/country-rules";
+import type { CountryCallingRules } from "~/lib/calls/country-rules";
+import { parsePhoneNumber } from "~/lib/validation/phone-number";
+
+// Per-country hours, daily caps and timezones live in country-rules.ts
 const MAX_RETRY_DAYS = 5; // Retry for 5 days
-const CALLING_HOURS_START = 9; // 9 AM local time
-const CALLING_HOURS_END = 21; // 9 PM local time (21:00)
+
+// Requester-chosen delivery times (see resolveScheduledTime)
+const MIN_SCHEDULE_LEAD_MINUTES = 5;
+const MAX_SCHEDULE_AHEAD_DAYS = 90;
 
 // Retry time slots (hours in local timezone) - spread across the day
 const RETRY_TIME_SLOTS = [
@@ -17,10 +27,21 @@ const RETRY_TIME_SLOTS = [
 ];
 
 /**
- * Hash phone number for analytics tracking (privacy-preserving)
+ * What we know about where the recipient is, beyond the number itself
  */
-function hashPhoneNumber(phoneNumber: string): string {
-  return createHash("sha256").update(phoneNumber).digest("hex");
+export interface RecipientLocale {
+  timezone?: string | null; // Requester's IANA override
+  country?: string | null; // ISO code saved with the call - used when the handle can't be read (Fhenix)
+}
+
+/**
+ * Locale fields stored on a call record
+ */
+export function getRecipientLocale(call: {
+  recipientTimezone: string | null;
+  recipientCountry: string | null;
+}): RecipientLocale {
+  return { timezone: call.recipientTimezone, country: call.recipientCountry };
 }
 
 /**
@@ -37,66 +58,253 @@ function extractPhoneNumber(encryptedHandle: string): string {
 }
 
 /**
- * Get timezone for a phone number using us-area-codes package
- * Maps US area codes to their timezones
+ * Calling rules for the recipient's country: from the number when it can be
+ * read, otherwise the country saved with the call, otherwise US
+ */
+export function getRecipientRules(encryptedHandle: string, locale: RecipientLocale = {}): CountryCallingRules {
+  // Fhenix handles are on-chain vault references - the number isn't readable here
+  if (!encryptedHandle.startsWith("fhenix:")) {
+    const parsed = parsePhoneNumber(extractPhoneNumber(encryptedHandle));
+    const rules = parsed.valid ? getCountryRules(parsed.phone.country) : null;
+    if (rules) return rules;
+  }
+  return getCountryRules(locale.country) ?? getCountryRules(DEFAULT_COUNTRY)!;
+}
+
+/**
+ * NANP area code of the recipient (null outside +1, or when the handle can't be read)
+ */
+export function getRecipientAreaCode(encryptedHandle: string): string | null {
+  if (encryptedHandle.startsWith("fhenix:")) return null;
+  const parsed = parsePhoneNumber(extractPhoneNumber(encryptedHandle));
+  if (!parsed.valid || !parsed.phone.e164.startsWith("+1")) return null;
+  return parsed.phone.nationalNumber.substring(0, 3);
+}
+
+/**
+ * Timezones the recipient may be in: the requester's override, the zones the
+ * country spans, or (NANP) every zone the area code spans - unknown area codes
+ * get every US zone
  */
-export function getTimezoneForPhoneNumber(phoneNumber: string): string {
-  // Extract phone number if it's in encrypted format
+export function getTimezonesForPhoneNumber(
+  phoneNumber: string,
+  locale: RecipientLocale = {},
+): readonly string[] {
+  if (locale.timezone && isValidTimeZone(locale.timezone)) {
+    return [locale.timezone];
+  }
+
+  const rules = getRecipientRules(phoneNumber, locale);
+  if (rules.timezones) {
+    return rules.timezones;
+  }
+
   const cleanPhone = extractPhoneNumber(phoneNumber);
-  
-  // Extract area code
-  const digits = cleanPhone.replace(/\D/g, "");
-  if (digits.length >= 10) {
-    const areaCode = digits.substring(digits.length - 10, digits.length - 7);
-    
-    try {
-      // Simple area code to timezone mapping (US only)
-      // Inline mapping to avoid ESM/CommonJS issues
-      const AREA_CODE_TIMEZONE: Record<string, string> = {
-        // Eastern Time (NJ, NY, PA, etc.)
-        "201": "America/New_York", "212": "America/New_York", "215": "America/New_York",
-        "267": "America/New_York", "302": "America/New_York", "347": "America/New_York",
-        "484": "America/New_York", "516": "America/New_York", "518": "America/New_York",
-        "551": "America/New_York", "570": "America/New_York", "610": "America/New_York",
-        "646": "America/New_York", "609": "America/New_York", "718": "America/New_York",
-        "732": "America/New_York", "848": "America/New_York", "856": "America/New_York",
-        "862": "America/New_York", "908": "America/New_York", "917": "America/New_York",
-        "929": "America/New_York", "973": "America/New_York",
-          // Central Time
-        "312": "America/Chicago", "214": "America/Chicago", "469": "America/Chicago",
-        "512": "America/Chicago", "713": "America/Chicago", "832": "America/Chicago",
-          // Mountain Time
-        "303": "America/Denver", "720": "America/Denver", "505": "America/Denver",
-        "602": "America/Phoenix", "480": "America/Phoenix",
-          // Pacific Time
-        "213": "America/Los_Angeles", "310": "America/Los_Angeles", "323": "America/Los_Angeles",
-        "408": "America/Los_Angeles", "415": "America/Los_Angeles", "510": "America/Los_Angeles",
-        "619": "America/Los_Angeles", "650": "America/Los_Angeles", "818": "America/Los_Angeles",
-        "858": "America/Los_Angeles", "925": "America/Los_Angeles", "949": "America/Los_Angeles",
-        };
-        
-      const timezone = AREA_CODE_TIMEZONE[areaCode];
-        if (timezone) {
-          return timezone;
+  const timezones = getTimezonesForAreaCode(cleanPhone);
+  if (timezones) {
+    return timezones;
+  }
+
+  console.warn(`[Retry Logic] Unknown area code, restricting to hours valid across all US timezones`);
+  return UNKNOWN_AREA_CODE_TIMEZONES;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Local calendar date, time and day of week in a timezone (DST-aware via Intl)
+ */
+function getLocalTime(
+  timezone: string,
+  date: Date,
+): { year: number; month: number; day: number; hour: number; minute: number; dayOfWeek: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const value = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || "0";
+  const part = (type: Intl.DateTimeFormatPartTypes) => parseInt(value(type), 10);
+
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    dayOfWeek: WEEKDAYS.indexOf(value("weekday")),
+  };
+}
+
+/**
+ * The instant a local wall-clock time occurs in a timezone, using the UTC offset
+ * in effect at that moment (not today's offset)
+ */
+function zonedTimeToUtc(
+  timezone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number = 0,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const local = getLocalTime(timezone, new Date(instant));
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - instant;
+  };
+
+  // Second pass corrects guesses that land on the other side of a DST change
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+/**
+ * Inside the country's calling window in every candidate timezone
+ */
+function isWithinCallingWindow(rules: CountryCallingRules, timezones: readonly string[], date: Date): boolean {
+  return timezones.every((timezone) => {
+    const local = getLocalTime(timezone, date);
+    const window = getCallingWindow(rules, local.dayOfWeek);
+    const time = local.hour + local.minute / 60;
+    return !!window && time >= window.start && time < window.end;
+  });
+}
+
+/**
+ * Earliest retry slot (or window opening) after `after` that is inside
+ * calling hours in every candidate timezone
+ */
+function findNextCallingSlot(rules: CountryCallingRules, timezones: readonly string[], after: Date): Date {
+  const { weekday, saturday, sunday } = rules.callingHours;
+  const hours = new Set([weekday.start, saturday?.start, sunday?.start, ...RETRY_TIME_SLOTS]);
+  let best: Date | null = null;
+
+  for (const timezone of timezones) {
+    const today = getLocalTime(timezone, after);
+    // A full week, so days without a calling window are skipped
+    for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+      for (const hour of hours) {
+        if (hour === undefined) continue;
+        // Date.UTC normalises day overflow across month/year boundaries
+        const date = new Date(Date.UTC(today.year, today.month - 1, today.day + dayOffset));
+        const candidate = zonedTimeToUtc(
+          timezone,
+          date.getUTCFullYear(),
+          date.getUTCMonth() + 1,
+          date.getUTCDate(),
+          hour,
+        );
+        if (candidate > after && (!best || candidate < best) && isWithinCallingWindow(rules, timezones, candidate)) {
+          best = candidate;
+        }
       }
-      
-      // No match in our common area codes, fall through to default
-    } catch (error) {
-      console.warn(`[Retry Logic] Error looking up area code ${areaCode}:`, error);
     }
   }
-  
-  // Default to Eastern Time if lookup fails
-  return "America/New_York";
+
+  if (!best) {
+    // Only possible if the candidate zones share no calling hours at all
+    console.warn(`[Retry Logic] No shared calling window for ${timezones.join(", ")}, retrying in 24h`);
+    return new Date(after.getTime() + 24 * 60 * 60 * 1000);
+  }
+  return best;
+}
+
+/**
+ * Next retry slot (10 AM, 2 PM, 6 PM local, or the window opening) that is
+ * within the recipient's calling hours
+ */
+export function getNextCallingSlot(
+  encryptedHandle: string,
+  locale: RecipientLocale = {},
+  after: Date = new Date(),
+): Date {
+  return findNextCallingSlot(
+    getRecipientRules(encryptedHandle, locale),
+    getTimezonesForPhoneNumber(encryptedHandle, locale),
+    after,
+  );
+}
+
+/**
+ * Turn a requester-chosen delivery time - "YYYY-MM-DDTHH:mm" on the
+ * recipient's wall clock - into the instant to dial, and check it is inside
+ * calling hours in every zone the recipient may be in
+ *
+ * The wall clock is the override timezone, or the number's primary zone.
+ * Rejections carry the earliest allowed time after the requested one.
+ */
+export function resolveScheduledTime(
+  localDateTime: string,
+  encryptedHandle: string,
+  locale: RecipientLocale = {},
+  now: Date = new Date(),
+): { valid: true; at: Date; timezone: string } | { valid: false; error: string } {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(localDateTime);
+  if (!match) {
+    return { valid: false, error: "Scheduled time must look like 2025-06-01T10:00" };
+  }
+  const [year, month, day, hour, minute] = match.slice(1).map((part) => parseInt(part, 10));
+
+  const rules = getRecipientRules(encryptedHandle, locale);
+  const timezones = getTimezonesForPhoneNumber(encryptedHandle, locale);
+  const timezone = timezones[0];
+  const at = zonedTimeToUtc(timezone, year, month, day, hour, minute);
+
+  if (at.getTime() < now.getTime() + MIN_SCHEDULE_LEAD_MINUTES * 60 * 1000) {
+    return { valid: false, error: "Scheduled time must be at least a few minutes in the future" };
+  }
+  if (at.getTime() > now.getTime() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return { valid: false, error: `Calls can be scheduled up to ${MAX_SCHEDULE_AHEAD_DAYS} days ahead` };
+  }
+
+  // In development, testing mode, or if BYPASS_CALLING_HOURS is set, any future time is fine
+  const bypassCallingHours = process.env.NODE_ENV !== "production" ||
+    process.env.TESTING_MODE === "true" ||
+    process.env.BYPASS_CALLING_HOURS === "true";
+
+  if (!bypassCallingHours && !isWithinCallingWindow(rules, timezones, at)) {
+    const earliest = findNextCallingSlot(rules, timezones, at);
+    const formatted = earliest.toLocaleString("en-US", {
+      timeZone: timezone,
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      timeZoneName: "short",
+    });
+    return {
+      valid: false,
+      error: `That's outside calling hours for ${rules.name}. The earliest time after it is ${formatted}.`,
+    };
+  }
+
+  return { valid: true, at, timezone };
 }
 
 /**
- * Check if we can make a call today (daily limit check)
+ * Check if we can make a call today (do-not-call list + daily limit check)
+ * doNotCall: true means the number opted out permanently - never retry
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export async function canMakeCallToday(db: any,
   encryptedHandle: string,
-): Promise<{ allowed: boolean; reason?: string }> {
+  locale: RecipientLocale = {},
+): Promise<{ allowed: boolean; reason?: string; doNotCall?: boolean }> {
+  if (await isHandleOnDoNotCallList(db, encryptedHandle)) {
+    return {
+      allowed: false,
+      reason: "Number is on the do-not-call list",
+      doNotCall: true,
+    };
+  }
+
   const phoneNumber = extractPhoneNumber(encryptedHandle);
   const phoneHash = hashPhoneNumber(phoneNumber);
   const today = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
@@ -113,10 +321,11 @@ export async function canMakeCallToday(db: any,
     )
     .limit(1);
 
-  if (analytics && analytics.callCount >= MAX_CALLS_PER_DAY_PER_NUMBER) {
+  const { maxCallsPerDay } = getRecipientRules(encryptedHandle, locale);
+  if (analytics && analytics.callCount >= maxCallsPerDay) {
     return {
       allowed: false,
-      reason: `Daily call limit reached (${MAX_CALLS_PER_DAY_PER_NUMBER} calls/day)`,
+      reason: `Daily call limit reached (${maxCallsPerDay} calls/day)`,
     };
   }
 
@@ -163,10 +372,11 @@ export async function incrementDailyCallCount(
 }
 
 /**
- * Check if current time is within calling hours for the phone number's timezone
+ * Check if current time is within calling hours for the recipient's country
+ * Multi-timezone numbers must be inside the window in every zone they span
  * Returns true if we can call RIGHT NOW
  */
-export function isWithinCallingHours(encryptedHandle: string): boolean {
+export function isWithinCallingHours(encryptedHandle: string, locale: RecipientLocale = {}): boolean {
   // In development, testing mode, or if BYPASS_CALLING_HOURS is set, always allow calls (bypass time restrictions)
   if (process.env.NODE_ENV !== "production" || 
       process.env.TESTING_MODE === "true" || 
@@ -174,58 +384,29 @@ export function isWithinCallingHours(encryptedHandle: string): boolean {
     return true;
   }
 
-  const phoneNumber = extractPhoneNumber(encryptedHandle);
-  const timezone = getTimezoneForPhoneNumber(phoneNumber);
-  const now = new Date();
-  
-  // Get current hour in the phone number's timezone
-  const formatter = new Intl.DateTimeFormat("en-US", {
-    timeZone: timezone,
-    hour: "numeric",
-    hour12: false,
-  });
-  
-  const parts = formatter.formatToParts(now);
-  const currentHour = parseInt(
-    parts.find((p) => p.type === "hour")?.value || "0",
-    10,
-  );
-
-  // Check if current hour is within allowed calling hours (9 AM - 9 PM)
-  return currentHour >= CALLING_HOURS_START && currentHour < CALLING_HOURS_END;
+  const rules = getRecipientRules(encryptedHandle, locale);
+  const timezones = getTimezonesForPhoneNumber(encryptedHandle, locale);
+  return isWithinCallingWindow(rules, timezones, new Date());
 }
 
 /**
  * Calculate next retry time based on:
  * - Days since first attempt
  * - Time slots available today
- * - Timezone restrictions
+ * - The country's calling window in every candidate zone (DST-aware)
  */
 export function calculateNextRetryTime(
   encryptedHandle: string,
   daysSinceFirstAttempt: number,
+  locale: RecipientLocale = {},
 ): Date | null {
   if (daysSinceFirstAttempt >= MAX_RETRY_DAYS) {
     return null; // No more retries
   }
 
-  const phoneNumber = extractPhoneNumber(encryptedHandle);
-  const timezone = getTimezoneForPhoneNumber(phoneNumber);
+  const rules = getRecipientRules(encryptedHandle, locale);
+  const timezones = getTimezonesForPhoneNumber(encryptedHandle, locale);
   const now = new Date();
-  
-  // Get current time in phone number's timezone
-  const formatter = new Intl.DateTimeFormat("en-US", {
-    timeZone: timezone,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-    hour: "numeric",
-    hour12: false,
-  });
-  
-  const parts = formatter.formatToParts(now);
-  // Get current hour for timezone-aware scheduling
-  parseInt(parts.find((p) => p.type === "hour")?.value || "0", 10);
 
   // Determine which time slot to use based on days since first attempt
   const slotIndex = daysSinceFirstAttempt % RETRY_TIME_SLOTS.length;
@@ -234,43 +415,25 @@ export function calculateNextRetryTime(
   // Calculate days to add (spread across 5 days)
   const daysToAdd = Math.min(daysSinceFirstAttempt, MAX_RETRY_DAYS - 1);
 
-  // Create retry date in the phone number's timezone
-  // We'll create it in UTC but target the local time
-  const retryDate = new Date(now);
-  retryDate.setUTCDate(retryDate.getUTCDate() + daysToAdd);
-  
-  // Set the target hour (in UTC, accounting for timezone offset)
-  // This is simplified - in production, use a library like date-fns-tz
-  const offsetHours = getTimezoneOffsetHours(timezone);
-  retryDate.setUTCHours(targetHour - offsetHours, 0, 0, 0);
-
-  // Ensure it's within calling hours
-  if (targetHour < CALLING_HOURS_START) {
-    retryDate.setUTCHours(CALLING_HOURS_START - offsetHours, 0, 0, 0);
-  } else if (targetHour >= CALLING_HOURS_END) {
-    retryDate.setUTCDate(retryDate.getUTCDate() + 1);
-    retryDate.setUTCHours(RETRY_TIME_SLOTS[0] - offsetHours, 0, 0, 0);
-  }
+  // Target the slot in the first candidate zone, on its local calendar
+  const today = getLocalTime(timezones[0], now);
+  const date = new Date(Date.UTC(today.year, today.month - 1, today.day + daysToAdd));
+  const retryDate = zonedTimeToUtc(
+    timezones[0],
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    targetHour,
+  );
 
-  // If the calculated time is in the past, move to next day
-  if (retryDate <= now) {
-    retryDate.setUTCDate(retryDate.getUTCDate() + 1);
+  // Already past, or outside the window in another candidate zone - take the next valid slot
+  if (retryDate <= now || !isWithinCallingWindow(rules, timezones, retryDate)) {
+    return findNextCallingSlot(rules, timezones, retryDate > now ? retryDate : now);
   }
 
   return retryDate;
 }
 
-/**
- * Get timezone offset in hours (simplified)
- * In production, use a proper timezone library
- */
-function getTimezoneOffsetHours(timezone: string): number {
-  const now = new Date();
-  const utc = new Date(now.toLocaleString("en-US", { timeZone: "UTC" }));
-  const local = new Date(now.toLocaleString("en-US", { timeZone: timezone }));
-  return (local.getTime() - utc.getTime()) / (1000 * 60 * 60);
-}
-
 /**
  * Check if a call should be retried now
  */
@@ -278,14 +441,7 @@ export async function shouldRetryCall(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   db: any,
   callId: string,
-): Promise<{ shouldRetry: boolean; reason?: string }> {
-  // In development, testing mode, or if BYPASS_CALLING_HOURS is set, skip all checks and allow calls
-  if (process.env.NODE_ENV !== "production" || 
-      process.env.TESTING_MODE === "true" || 
-      process.env.BYPASS_CALLING_HOURS === "true") {
-    return { shouldRetry: true };
-  }
-
+): Promise<{ shouldRetry: boolean; reason?: string; doNotCall?: boolean; notDue?: boolean }> {
   const [call] = await db
     .select()
     .from(calls)
@@ -296,27 +452,39 @@ export async function shouldRetryCall(
     return { shouldRetry: false, reason: "Call not found" };
   }
 
+  // Opt-outs are never bypassed, not even in development/testing mode
+  if (await isHandleOnDoNotCallList(db, call.encryptedHandle || "")) {
+    return { shouldRetry: false, reason: "Number is on the do-not-call list", doNotCall: true };
+  }
+
+  // Nor is the scheduled time - a job left over from before a reschedule must not dial early
+  if (call.nextRetryAt && new Date() < call.nextRetryAt) {
+    return { shouldRetry: false, reason: "Next retry time not reached", notDue: true };
+  }
+
+  // In development, testing mode, or if BYPASS_CALLING_HOURS is set, skip all other checks and allow calls
+  if (process.env.NODE_ENV !== "production" || 
+      process.env.TESTING_MODE === "true" || 
+      process.env.BYPASS_CALLING_HOURS === "true") {
+    return { shouldRetry: true };
+  }
+
   // Check if max retry days exceeded
   if (call.daysSinceFirstAttempt >= MAX_RETRY_DAYS) {
     return { shouldRetry: false, reason: "Max retry days exceeded" };
   }
 
   // Check daily call limit FIRST (TCPA compliance)
-  const canCall = await canMakeCallToday(db, call.encryptedHandle || "");
+  const canCall = await canMakeCallToday(db, call.encryptedHandle || "", getRecipientLocale(call));
   if (!canCall.allowed) {
-    return { shouldRetry: false, reason: canCall.reason };
+    return { shouldRetry: false, reason: canCall.reason, doNotCall: canCall.doNotCall };
   }
 
   // Check if we're within calling hours - if YES, call immediately!
-  if (!isWithinCallingHours(call.encryptedHandle || "")) {
+  if (!isWithinCallingHours(call.encryptedHandle || "", getRecipientLocale(call))) {
     return { shouldRetry: false, reason: "Outside calling hours" };
   }
 
-  // Check if next retry time has arrived (for scheduled retries)
-  if (call.nextRetryAt && new Date() < call.nextRetryAt) {
-    return { shouldRetry: false, reason: "Next retry time not reached" };
-  }
-
   // All checks passed - we can call RIGHT NOW!
   return { shouldRetry: true };
 }
@@ -0,0 +1,254 @@
+import { and, eq, lt, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import type { PgUpdateSetSource } from "drizzle-orm/pg-core";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { env } from "~/env/server";
+import { calls } from "~/lib/db/schema/calls";
+import { callers } from "~/lib/db/schema/callers";
+import { getBoss, JOB_TYPES } from "~/lib/queue/boss";
+import { scheduleCallAt } from "~/lib/calls/lifecycle";
+import type { CallEventSource, TransitionResult } from "~/lib/calls/lifecycle";
+import { getRecordingConsent, withRecordingDisclosure } from "~/lib/calls/recording-consent";
+import { getNextCallingSlot, getRecipientLocale, isWithinCallingHours } from "~/lib/calls/retry-logic";
+import { CALL_PROMPT_REVISION_TEMPLATE, CALL_PROMPTS_TEMPLATE_NAME } from "~/lib/prompts/call-prompt-template";
+import { generateCallPrompts } from "~/lib/prompts/groq-generator";
+import type { TargetPersonData } from "~/lib/prompts/groq-generator";
+import { getPromptTemplate } from "~/lib/prompts/registry";
+import { moderateCallContent } from "~/lib/moderation/moderate";
+import { detectPromptInjection, PROMPT_INJECTION_MESSAGE } from "~/lib/prompts/injection";
+import { MAX_SCRIPT_REGENERATIONS } from "~/lib/validation/call-form";
+
+/**
+ * Script review - the requester approves the opening line before the call is queued
+ *
+ * A call created with reviewScript stays "created" with a scriptReviewDeadline.
+ * Until then the requester can regenerate the script with feedback or edit the
+ * greeting (each pushes the deadline out), and approving moves it to
+ * "scheduled". A SCRIPT_REVIEW_TIMEOUT job approves it on their behalf once
+ * the deadline passes.
+ */
+
+type Database = ReturnType<typeof drizzle>;
+type CallRecord = typeof calls.$inferSelect;
+
+const DEFAULT_SCRIPT_REVIEW_TIMEOUT_MINUTES = 30;
+const REGENERATION_LIMIT_MESSAGE = `You can regenerate a script up to ${MAX_SCRIPT_REGENERATIONS} times - edit the greeting or approve it`;
+
+export interface ScriptReviewTimeoutJob {
+  callId: string;
+}
+
+/**
+ * When a script left unreviewed from now gets approved automatically
+ */
+export function getScriptReviewDeadline(from: Date = new Date()): Date {
+  const minutes = env.SCRIPT_REVIEW_TIMEOUT_MINUTES ?? DEFAULT_SCRIPT_REVIEW_TIMEOUT_MINUTES;
+  return new Date(from.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Queue the auto-approval for a call's review deadline
+ */
+export async function queueScriptReviewTimeout(callId: string, deadline: Date): Promise<void> {
+  const boss = await getBoss();
+  await boss.send(JOB_TYPES.SCRIPT_REVIEW_TIMEOUT, { callId } satisfies ScriptReviewTimeoutJob, { startAfter: deadline });
+}
+
+/**
+ * Whether the requester can still change or approve the script
+ */
+export function isAwaitingScriptReview(call: Pick<CallRecord, "status" | "scriptReviewDeadline">): boolean {
+  return call.status === "created" && call.scriptReviewDeadline !== null;
+}
+
+function assertAwaitingScriptReview(call: CallRecord): void {
+  if (!isAwaitingScriptReview(call)) {
+    throw new Error("This call's script has already been approved");
+  }
+}
+
+/**
+ * First dial time once approved: the requester's time if it's still ahead,
+ * otherwise now, or the next slot inside calling hours
+ */
+function getFirstDialTime(call: CallRecord, now: Date = new Date()): Date {
+  if (call.scheduledFor && call.scheduledFor > now) {
+    return call.scheduledFor;
+  }
+  const handle = call.encryptedHandle || "";
+  const locale = getRecipientLocale(call);
+  return isWithinCallingHours(handle, locale) ? now : getNextCallingSlot(handle, locale, now);
+}
+
+/**
+ * Approve the script and queue the call (created → scheduled)
+ * Not applied when the call was already approved or cancelled
+ */
+export async function approveScript(
+  db: Database,
+  call: CallRecord,
+  options: { reason: string; source: CallEventSource },
+): Promise<TransitionResult> {
+  const at = getFirstDialTime(call);
+  return scheduleCallAt(db, call.id, at, {
+    reason: options.reason,
+    source: options.source,
+    metadata: {
+      scriptRegenerations: call.scriptRegenerations,
+      scheduledFor: call.scheduledFor?.toISOString() ?? null,
+    },
+    fields: { scriptReviewDeadline: null },
+  });
+}
+
+/**
+ * Recording notice the greeting must carry (null where one-party consent applies)
+ */
+function getDisclosure(call: CallRecord): string | null {
+  return getRecordingConsent(call.encryptedHandle || "", getRecipientLocale(call))?.disclosure ?? null;
+}
+
+/**
+ * Save new script fields while the call is still under review
+ * Throws if it was approved (or auto-approved) in the meantime, or if the
+ * guard condition no longer holds (its message is used then)
+ */
+async function updateReviewedScript(
+  db: Database,
+  callId: string,
+  fields: PgUpdateSetSource<typeof calls>,
+  guard?: { condition: SQL; message: string },
+): Promise<CallRecord> {
+  const [updated] = await db
+    .update(calls)
+    .set({ ...fields, scriptReviewDeadline: getScriptReviewDeadline(), updatedAt: new Date() })
+    .where(and(eq(calls.id, callId), eq(calls.status, "created"), guard?.condition))
+    .returning();
+  if (!updated) {
+    throw new Error(guard?.message ?? "This call's script has already been approved");
+  }
+  return updated;
+}
+
+/**
+ * Generate a new script with the requester's feedback, using the same
+ * template version as the first one
+ */
+export async function regenerateScript(db: Database, call: CallRecord, feedback: string): Promise<CallRecord> {
+  assertAwaitingScriptReview(call);
+  if (call.scriptRegenerations >= MAX_SCRIPT_REGENERATIONS) {
+    throw new Error(REGENERATION_LIMIT_MESSAGE);
+  }
+
+  const feedbackModeration = await moderateCallContent(db, {
+    userId: call.userId,
+    callId: call.id,
+    stage: "script_edit",
+    fields: { feedback },
+  });
+  if (!feedbackModeration.allowed) {
+    throw new Error(feedbackModeration.message ?? "That feedback isn't allowed");
+  }
+  if (detectPromptInjection(feedback).length > 0) {
+    throw new Error(PROMPT_INJECTION_MESSAGE);
+  }
+
+  const [caller] = call.callerId
+    ? await db
+        .select({
+          name: callers.name,
+          personality: callers.personality,
+          speakingStyle: callers.speakingStyle,
+          appearanceDescription: callers.appearanceDescription,
+        })
+        .from(callers)
+        .where(eq(callers.id, call.callerId))
+        .limit(1)
+    : [];
+
+  // Versions published before revisions existed don't use requesterFeedback - append the block
+  const template = await getPromptTemplate(db, CALL_PROMPTS_TEMPLATE_NAME, call.promptTemplateId);
+  const userTemplate = template.userTemplate.includes("{{#requesterFeedback}}")
+    ? template.userTemplate
+    : template.userTemplate + CALL_PROMPT_REVISION_TEMPLATE;
+
+  const disclosure = getDisclosure(call);
+  const prompts = await generateCallPrompts({
+    targetPerson: {
+      name: call.recipientName,
+      gender: call.targetGender as TargetPersonData["gender"],
+      genderCustom: call.targetGenderCustom ?? undefined,
+      ageRange: call.targetAgeRange ?? undefined,
+      physicalDescription: call.targetPhysicalDescription ?? undefined,
+      city: call.targetCity ?? undefined,
+      hobby: call.targetHobby ?? undefined,
+      profession: call.targetProfession ?? undefined,
+      interestingPiece: call.interestingPiece ?? undefined,
+      ragebaitTrigger: call.ragebaitTrigger ?? undefined,
+    },
+    videoStyle: call.videoStyle || "anime",
+    hasUploadedImage: !!call.uploadedImageUrl,
+    caller,
+    recordingDisclosure: disclosure ?? undefined,
+    revision: {
+      feedback,
+      previousWelcomeGreeting: call.welcomeGreeting ?? "",
+    },
+  }, { systemTemplate: template.systemTemplate, userTemplate });
+
+  const { welcomeGreeting, recordingDisclosure } = withRecordingDisclosure(prompts.welcomeGreeting, disclosure);
+  const scriptModeration = await moderateCallContent(db, {
+    userId: call.userId,
+    callId: call.id,
+    stage: "generated_script",
+    fields: { systemPrompt: prompts.systemPrompt, welcomeGreeting, voicemailMessage: prompts.voicemailMessage },
+  });
+  if (!scriptModeration.allowed) {
+    throw new Error(scriptModeration.message ?? "The generated script isn't allowed");
+  }
+
+  const updated = await updateReviewedScript(db, call.id, {
+    openaiPrompt: prompts.systemPrompt,
+    welcomeGreeting,
+    recordingDisclosure,
+    voicemailMessage: prompts.voicemailMessage,
+    scenarioSummary: prompts.scenarioSummary,
+    promptVariables: prompts.promptVariables,
+    promptProvider: prompts.provider,
+    scriptRegenerations: sql`${calls.scriptRegenerations} + 1`,
+  }, {
+    // Checked again in the update - parallel regenerations can't overshoot the limit
+    condition: lt(calls.scriptRegenerations, MAX_SCRIPT_REGENERATIONS),
+    message: REGENERATION_LIMIT_MESSAGE,
+  });
+
+  console.log(`[Script Review] 🔄 Regenerated script for call ${call.id} (${updated.scriptRegenerations}/${MAX_SCRIPT_REGENERATIONS})`);
+  return updated;
+}
+
+/**
+ * Replace the opening line with the requester's own wording
+ * The recording notice is put back in front if their version drops it
+ */
+export async function editGreeting(db: Database, call: CallRecord, greeting: string): Promise<CallRecord> {
+  assertAwaitingScriptReview(call);
+
+  const moderation = await moderateCallContent(db, {
+    userId: call.userId,
+    callId: call.id,
+    stage: "script_edit",
+    fields: { welcomeGreeting: greeting },
+  });
+  if (!moderation.allowed) {
+    throw new Error(moderation.message ?? "That opening line isn't allowed");
+  }
+  if (detectPromptInjection(greeting).length > 0) {
+    throw new Error(PROMPT_INJECTION_MESSAGE);
+  }
+
+  const { welcomeGreeting, recordingDisclosure } = withRecordingDisclosure(greeting.trim(), getDisclosure(call));
+  const updated = await updateReviewedScript(db, call.id, { welcomeGreeting, recordingDisclosure });
+
+  console.log(`[Script Review] ✏️ Greeting edited for call ${call.id}`);
+  return updated;
+}
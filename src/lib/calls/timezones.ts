@@ -0,0 +1,298 @@
+/**
+ * NANP area code → IANA timezone data for calling-window checks
+ *
+ * Covers every geographic area code in the North American Numbering Plan:
+ * US states, DC and territories, Canada, and the Caribbean/Atlantic member
+ * countries, including overlays. Area codes that span more than one zone list
+ * every zone they touch - callers must treat a number as callable only when it
+ * is inside the window in all of them (see retry-logic.ts).
+ *
+ * Non-geographic codes (toll-free, 500/700/900, etc.) are intentionally absent.
+ */
+
+const ET = "America/New_York";
+const CT = "America/Chicago";
+const MT = "America/Denver";
+const PT = "America/Los_Angeles";
+
+export const NANP_AREA_CODE_TIMEZONES: Record<string, readonly string[]> = {
+  // Alabama
+  "205": [CT], "251": [CT], "256": [CT], "334": [CT], "659": [CT], "938": [CT],
+  // Alaska - Aleutians west of 169.5°W are on Hawaii-Aleutian time
+  "907": ["America/Anchorage", "America/Adak"],
+  // Arizona - no DST, except the Navajo Nation (928)
+  "480": ["America/Phoenix"], "520": ["America/Phoenix"],
+  "602": ["America/Phoenix"], "623": ["America/Phoenix"],
+  "928": ["America/Phoenix", MT],
+  // Arkansas
+  "327": [CT], "479": [CT], "501": [CT], "870": [CT],
+  // California
+  "209": [PT], "213": [PT], "279": [PT], "310": [PT], "323": [PT], "341": [PT],
+  "350": [PT], "369": [PT], "408": [PT], "415": [PT], "424": [PT], "442": [PT],
+  "510": [PT], "530": [PT], "559": [PT], "562": [PT], "619": [PT], "626": [PT],
+  "628": [PT], "650": [PT], "657": [PT], "661": [PT], "669": [PT], "707": [PT],
+  "714": [PT], "738": [PT], "747": [PT], "760": [PT], "805": [PT], "818": [PT],
+  "820": [PT], "831": [PT], "837": [PT], "840": [PT], "858": [PT], "909": [PT],
+  "916": [PT], "925": [PT], "949": [PT], "951": [PT],
+  // Colorado
+  "303": [MT], "719": [MT], "720": [MT], "970": [MT], "983": [MT],
+  // Connecticut
+  "203": [ET], "475": [ET], "860": [ET], "959": [ET],
+  // Delaware
+  "302": [ET],
+  // District of Columbia
+  "202": [ET], "771": [ET],
+  // Florida - the western panhandle (850/448) is Central
+  "239": [ET], "305": [ET], "321": [ET], "324": [ET], "352": [ET], "386": [ET],
+  "407": [ET], "561": [ET], "645": [ET], "656": [ET], "689": [ET], "727": [ET],
+  "728": [ET], "754": [ET], "772": [ET], "786": [ET], "813": [ET], "863": [ET],
+  "904": [ET], "941": [ET], "954": [ET],
+  "448": [ET, CT], "850": [ET, CT],
+  // Georgia
+  "229": [ET], "404": [ET], "470": [ET], "478": [ET], "678": [ET], "706": [ET],
+  "762": [ET], "770": [ET], "912": [ET], "943": [ET],
+  // Hawaii - no DST
+  "808": ["Pacific/Honolulu"],
+  // Idaho - the panhandle is Pacific
+  "208": ["America/Boise", PT], "986": ["America/Boise", PT],
+  // Illinois
+  "217": [CT], "224": [CT], "309": [CT], "312": [CT], "331": [CT], "447": [CT],
+  "464": [CT], "618": [CT], "630": [CT], "708": [CT], "730": [CT], "773": [CT],
+  "779": [CT], "815": [CT], "847": [CT], "861": [CT], "872": [CT],
+  // Indiana - northwest and southwest corners are Central
+  "260": ["America/Indiana/Indianapolis"], "317": ["America/Indiana/Indianapolis"],
+  "463": ["America/Indiana/Indianapolis"], "765": ["America/Indiana/Indianapolis"],
+  "219": [CT],
+  "574": ["America/Indiana/Indianapolis", CT], "812": ["America/Indiana/Indianapolis", CT],
+  "930": ["America/Indiana/Indianapolis", CT],
+  // Iowa
+  "319": [CT], "515": [CT], "563": [CT], "641": [CT], "712": [CT],
+  // Kansas - four western counties are Mountain
+  "316": [CT], "913": [CT],
+  "620": [CT, MT], "785": [CT, MT],
+  // Kentucky - split between Eastern and Central
+  "502": ["America/Kentucky/Louisville"], "859": ["America/Kentucky/Louisville"],
+  "270": ["America/Kentucky/Louisville", CT], "364": ["America/Kentucky/Louisville", CT],
+  "606": ["America/Kentucky/Louisville", CT],
+  // Louisiana
+  "225": [CT], "318": [CT], "337": [CT], "504": [CT], "985": [CT],
+  // Maine
+  "207": [ET],
+  // Maryland
+  "227": [ET], "240": [ET], "301": [ET], "410": [ET], "443": [ET], "667": [ET],
+  // Massachusetts
+  "339": [ET], "351": [ET], "413": [ET], "508": [ET], "617": [ET], "774": [ET],
+  "781": [ET], "857": [ET], "978": [ET],
+  // Michigan - four Upper Peninsula counties are Central
+  "231": ["America/Detroit"], "248": ["America/Detroit"],
+  "269": ["America/Detroit"], "313": ["America/Detroit"],
+  "517": ["America/Detroit"], "586": ["America/Detroit"],
+  "616": ["America/Detroit"], "679": ["America/Detroit"],
+  "734": ["America/Detroit"], "810": ["America/Detroit"],
+  "947": ["America/Detroit"], "989": ["America/Detroit"],
+  "906": ["America/Detroit", "America/Menominee"],
+  // Minnesota
+  "218": [CT], "320": [CT], "507": [CT], "612": [CT], "651": [CT], "763": [CT],
+  "924": [CT], "952": [CT],
+  // Mississippi
+  "228": [CT], "471": [CT], "601": [CT], "662": [CT], "769": [CT],
+  // Missouri
+  "235": [CT], "314": [CT], "417": [CT], "557": [CT], "573": [CT], "636": [CT],
+  "660": [CT], "816": [CT], "975": [CT],
+  // Montana
+  "406": [MT],
+  // Nebraska - the west is Mountain
+  "402": [CT], "531": [CT],
+  "308": [CT, MT],
+  // Nevada - West Wendover and Jackpot are Mountain
+  "702": [PT], "725": [PT],
+  "775": [PT, MT],
+  // New Hampshire
+  "603": [ET],
+  // New Jersey
+  "201": [ET], "551": [ET], "609": [ET], "640": [ET], "732": [ET], "848": [ET],
+  "856": [ET], "862": [ET], "908": [ET], "973": [ET],
+  // New Mexico
+  "505": [MT], "575": [MT],
+  // New York
+  "212": [ET], "315": [ET], "329": [ET], "332": [ET], "347": [ET], "363": [ET],
+  "516": [ET], "518": [ET], "585": [ET], "607": [ET], "624": [ET], "631": [ET],
+  "646": [ET], "680": [ET], "716": [ET], "718": [ET], "838": [ET], "845": [ET],
+  "914": [ET], "917": [ET], "929": [ET], "934": [ET],
+  // North Carolina
+  "252": [ET], "336": [ET], "472": [ET], "704": [ET], "743": [ET], "828": [ET],
+  "910": [ET], "919": [ET], "980": [ET], "984": [ET],
+  // North Dakota - the southwest is Mountain
+  "701": [CT, MT],
+  // Ohio
+  "216": [ET], "220": [ET], "234": [ET], "283": [ET], "326": [ET], "330": [ET],
+  "380": [ET], "419": [ET], "436": [ET], "440": [ET], "513": [ET], "567": [ET],
+  "614": [ET], "740": [ET], "937": [ET],
+  // Oklahoma
+  "405": [CT], "539": [CT], "572": [CT], "580": [CT], "918": [CT],
+  // Oregon - Malheur County is Mountain
+  "503": [PT], "971": [PT],
+  "458": [PT, "America/Boise"], "541": [PT, "America/Boise"],
+  // Pennsylvania
+  "215": [ET], "223": [ET], "267": [ET], "272": [ET], "412": [ET], "445": [ET],
+  "484": [ET], "570": [ET], "582": [ET], "610": [ET], "717": [ET], "724": [ET],
+  "814": [ET], "835": [ET], "878": [ET],
+  // Rhode Island
+  "401": [ET],
+  // South Carolina
+  "803": [ET], "839": [ET], "843": [ET], "854": [ET], "864": [ET],
+  // South Dakota - west of the Missouri is Mountain
+  "605": [CT, MT],
+  // Tennessee - East Tennessee is Eastern, with Central counties in 423 and Eastern in 931
+  "865": [ET],
+  "615": [CT], "629": [CT], "731": [CT], "901": [CT],
+  "423": [ET, CT], "931": [ET, CT],
+  // Texas - El Paso and the far west are Mountain
+  "210": [CT], "214": [CT], "254": [CT], "281": [CT], "325": [CT], "346": [CT],
+  "361": [CT], "409": [CT], "430": [CT], "469": [CT], "512": [CT], "682": [CT],
+  "713": [CT], "726": [CT], "737": [CT], "806": [CT], "817": [CT], "830": [CT],
+  "832": [CT], "903": [CT], "936": [CT], "940": [CT], "945": [CT], "956": [CT],
+  "972": [CT], "979": [CT],
+  "915": [MT],
+  "432": [CT, MT],
+  // Utah
+  "385": [MT], "435": [MT], "801": [MT],
+  // Vermont
+  "802": [ET],
+  // Virginia
+  "276": [ET], "434": [ET], "540": [ET], "571": [ET], "686": [ET], "703": [ET],
+  "757": [ET], "804": [ET], "826": [ET], "948": [ET],
+  // Washington
+  "206": [PT], "253": [PT], "360": [PT], "425": [PT], "509": [PT], "564": [PT],
+  // West Virginia
+  "304": [ET], "681": [ET],
+  // Wisconsin
+  "262": [CT], "274": [CT], "353": [CT], "414": [CT], "534": [CT], "608": [CT],
+  "715": [CT], "920": [CT],
+  // Wyoming
+  "307": [MT],
+  // US territories
+  "787": ["America/Puerto_Rico"], "939": ["America/Puerto_Rico"],
+  "340": ["America/St_Thomas"],
+  "671": ["Pacific/Guam"],
+  "670": ["Pacific/Saipan"],
+  "684": ["Pacific/Pago_Pago"],
+  // Alberta
+  "368": ["America/Edmonton"], "403": ["America/Edmonton"],
+  "587": ["America/Edmonton"], "780": ["America/Edmonton"],
+  "825": ["America/Edmonton"],
+  // British Columbia - the Kootenays and the northeast are on Mountain time
+  "604": ["America/Vancouver"],
+  "236": ["America/Vancouver", "America/Edmonton", "America/Dawson_Creek"],
+  "250": ["America/Vancouver", "America/Edmonton", "America/Dawson_Creek"],
+  "257": ["America/Vancouver", "America/Edmonton", "America/Dawson_Creek"],
+  "672": ["America/Vancouver", "America/Edmonton", "America/Dawson_Creek"],
+  "778": ["America/Vancouver", "America/Edmonton", "America/Dawson_Creek"],
+  // Manitoba
+  "204": ["America/Winnipeg"], "431": ["America/Winnipeg"],
+  "584": ["America/Winnipeg"],
+  // New Brunswick
+  "428": ["America/Moncton"], "506": ["America/Moncton"],
+  // Newfoundland and Labrador - Labrador is mostly Atlantic
+  "709": ["America/St_Johns", "America/Goose_Bay"], "879": ["America/St_Johns", "America/Goose_Bay"],
+  // Nova Scotia and Prince Edward Island
+  "782": ["America/Halifax"], "902": ["America/Halifax"],
+  // Ontario - the northwest is Central
+  "226": ["America/Toronto"], "249": ["America/Toronto"],
+  "289": ["America/Toronto"], "343": ["America/Toronto"],
+  "365": ["America/Toronto"], "382": ["America/Toronto"],
+  "387": ["America/Toronto"], "416": ["America/Toronto"],
+  "437": ["America/Toronto"], "519": ["America/Toronto"],
+  "548": ["America/Toronto"], "613": ["America/Toronto"],
+  "647": ["America/Toronto"], "683": ["America/Toronto"],
+  "705": ["America/Toronto"], "742": ["America/Toronto"],
+  "753": ["America/Toronto"], "905": ["America/Toronto"],
+  "942": ["America/Toronto"],
+  "807": ["America/Toronto", "America/Winnipeg"],
+  // Quebec - the Magdalen Islands and Lower North Shore are Atlantic
+  "263": ["America/Toronto"], "354": ["America/Toronto"],
+  "438": ["America/Toronto"], "450": ["America/Toronto"],
+  "468": ["America/Toronto"], "514": ["America/Toronto"],
+  "579": ["America/Toronto"], "819": ["America/Toronto"],
+  "873": ["America/Toronto"],
+  "367": ["America/Toronto", "America/Halifax", "America/Blanc-Sablon"],
+  "418": ["America/Toronto", "America/Halifax", "America/Blanc-Sablon"],
+  "581": ["America/Toronto", "America/Halifax", "America/Blanc-Sablon"],
+  // Saskatchewan - no DST, except Lloydminster (Alberta time)
+  "306": ["America/Regina", "America/Edmonton"], "474": ["America/Regina", "America/Edmonton"],
+  "639": ["America/Regina", "America/Edmonton"],
+  // Yukon, Northwest Territories and Nunavut
+  "867": ["America/Whitehorse", "America/Yellowknife", "America/Rankin_Inlet", "America/Iqaluit"],
+  // Caribbean and Atlantic NANP countries
+  "242": ["America/Nassau"],
+  "246": ["America/Barbados"],
+  "264": ["America/Anguilla"],
+  "268": ["America/Antigua"],
+  "284": ["America/Tortola"],
+  "345": ["America/Cayman"],
+  "441": ["Atlantic/Bermuda"],
+  "473": ["America/Grenada"],
+  "649": ["America/Grand_Turk"],
+  "658": ["America/Jamaica"], "876": ["America/Jamaica"],
+  "664": ["America/Montserrat"],
+  "721": ["America/Lower_Princes"],
+  "758": ["America/St_Lucia"],
+  "767": ["America/Dominica"],
+  "784": ["America/St_Vincent"],
+  "809": ["America/Santo_Domingo"], "829": ["America/Santo_Domingo"],
+  "849": ["America/Santo_Domingo"],
+  "868": ["America/Port_of_Spain"],
+  "869": ["America/St_Kitts"],
+};
+
+// Unknown area code: every US zone, so the intersection stays inside all of them
+export const UNKNOWN_AREA_CODE_TIMEZONES: readonly string[] = [
+  ET,
+  CT,
+  MT,
+  PT,
+  "America/Anchorage",
+  "Pacific/Honolulu",
+];
+
+/**
+ * Timezones a NANP number may be in (null if the area code is unknown)
+ * Accepts +1XXXXXXXXXX, 1XXXXXXXXXX or a bare 10-digit number
+ */
+export function getTimezonesForAreaCode(phoneNumber: string): readonly string[] | null {
+  const digits = phoneNumber.replace(/\D/g, "");
+  const national = digits.length === 11 && digits.startsWith("1") ? digits.substring(1) : digits;
+  if (national.length !== 10) return null;
+
+  return NANP_AREA_CODE_TIMEZONES[national.substring(0, 3)] ?? null;
+}
+
+/**
+ * Whether a string is an IANA timezone the runtime understands
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Choices for the recipient timezone override on the call form
+ */
+export const RECIPIENT_TIMEZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: "America/New_York", label: "Eastern (New York)" },
+  { value: "America/Chicago", label: "Central (Chicago)" },
+  { value: "America/Denver", label: "Mountain (Denver)" },
+  { value: "America/Phoenix", label: "Mountain - no DST (Phoenix)" },
+  { value: "America/Los_Angeles", label: "Pacific (Los Angeles)" },
+  { value: "America/Anchorage", label: "Alaska (Anchorage)" },
+  { value: "Pacific/Honolulu", label: "Hawaii (Honolulu)" },
+  { value: "America/Puerto_Rico", label: "Atlantic (Puerto Rico)" },
+  { value: "America/Halifax", label: "Atlantic (Halifax)" },
+  { value: "America/St_Johns", label: "Newfoundland (St. John's)" },
+  { value: "America/Regina", label: "Central - no DST (Saskatchewan)" },
+  { value: "Pacific/Guam", label: "Chamorro (Guam)" },
+];
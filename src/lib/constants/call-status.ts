@@ -0,0 +1,25 @@
+/**
+ * Display labels and badge colors for call lifecycle states
+ */
+export const CALL_STATUS_DISPLAY: Record<string, { label: string; className: string }> = {
+  created: { label: "Created", className: "bg-blue-500/10 text-blue-500" },
+  scheduled: { label: "Scheduled", className: "bg-blue-500/10 text-blue-500" },
+  dialing: { label: "Dialing", className: "bg-yellow-500/10 text-yellow-500" },
+  ringing: { label: "Ringing", className: "bg-yellow-500/10 text-yellow-500" },
+  in_progress: { label: "In Progress", className: "bg-yellow-500/10 text-yellow-500" },
+  no_answer: { label: "No Answer", className: "bg-orange-500/10 text-orange-500" },
+  busy: { label: "Busy", className: "bg-orange-500/10 text-orange-500" },
+  voicemail: { label: "Voicemail", className: "bg-red-500/10 text-red-500" },
+  completed: { label: "Complete", className: "bg-green-500/10 text-green-500" },
+  failed: { label: "Failed", className: "bg-red-500/10 text-red-500" },
+  cancelled: { label: "Cancelled", className: "bg-gray-500/10 text-gray-500" },
+};
+
+// "created" call whose script waits for the requester's approval (see calls/script-review.ts)
+export const SCRIPT_REVIEW_DISPLAY = { label: "Awaiting Review", className: "bg-purple-500/10 text-purple-500" };
+
+// A Twilio call exists for these - the live view can follow it
+export const LIVE_CALL_STATUSES = new Set(["dialing", "ringing", "in_progress"]);
+
+// Not dialed yet, or waiting on a retry - the requester can still cancel
+export const CANCELLABLE_CALL_STATUSES = new Set(["created", "scheduled", "no_answer", "busy"]);
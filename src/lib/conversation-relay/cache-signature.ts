@@ -0,0 +1,58 @@
+/**
+ * HMAC authentication for the relay server's POST /cache/call endpoint
+ *
+ * The cached data includes the persona's system prompt, so writes must come
+ * from our app. The sender signs `${timestamp}.${body}` with the shared
+ * CALL_CACHE_SECRET; the relay rejects bad signatures and stale timestamps
+ * (replay protection).
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export const CACHE_SIGNATURE_HEADER = "x-cache-signature";
+export const CACHE_TIMESTAMP_HEADER = "x-cache-timestamp";
+
+// Max clock skew / replay window between app and relay server
+const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+
+function computeSignature(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Headers to send with a cache write
+ */
+export function signCacheRequest(secret: string, body: string): Record<string, string> {
+  const timestamp = Date.now().toString();
+  return {
+    [CACHE_TIMESTAMP_HEADER]: timestamp,
+    [CACHE_SIGNATURE_HEADER]: computeSignature(secret, timestamp, body),
+  };
+}
+
+/**
+ * Verify a cache write, returns an error message or null when valid
+ */
+export function verifyCacheRequest(
+  secret: string,
+  body: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+): string | null {
+  if (!timestamp || !signature) {
+    return "Missing signature headers";
+  }
+
+  const sentAt = parseInt(timestamp, 10);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > MAX_SIGNATURE_AGE_MS) {
+    return "Stale or invalid timestamp";
+  }
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), "hex");
+  const received = Buffer.from(signature, "hex");
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return "Invalid signature";
+  }
+
+  return null;
+}
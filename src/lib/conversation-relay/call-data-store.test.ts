@@ -0,0 +1,55 @@
+/**
+ * Relay call data cache (run with `bun test`)
+ *
+ * A POST /cache/call write has to come back out of the store on setup with
+ * everything the session needs - including the callId that live transcript
+ * events and turn writes are keyed on.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { MemoryCallDataStore, parseCacheWrite } from "./call-data-store";
+import type { CachedCallData } from "./call-data-store";
+
+// What cacheCallDataToWebSocket (twilio/call.ts) sends
+const WRITE = {
+  callSid: "CA123",
+  callId: "call-1",
+  openaiPrompt: "You are Jamie.",
+  welcomeGreeting: "Hi, is this Sam?",
+  llm: { provider: "groq", model: "llama-3.3-70b-versatile" },
+  limits: { maxDurationSeconds: 300, silenceNudgeSeconds: 10, silenceTimeoutSeconds: 25 },
+} satisfies CachedCallData & { callSid: string };
+
+describe("parseCacheWrite", () => {
+  test("keeps every field the session reads", () => {
+    const { callSid, ...data } = WRITE;
+    expect(parseCacheWrite(JSON.stringify(WRITE))).toEqual({ callSid, data });
+  });
+
+  test("drops fields the relay doesn't use", () => {
+    expect(parseCacheWrite(JSON.stringify({ ...WRITE, recipientNumber: "+15125550123" }))?.data).not.toHaveProperty("recipientNumber");
+  });
+
+  test.each([
+    ["no callSid", { ...WRITE, callSid: undefined }],
+    ["no prompt", { ...WRITE, openaiPrompt: "" }],
+  ])("rejects a write with %s", (_label, write) => {
+    expect(parseCacheWrite(JSON.stringify(write))).toBeNull();
+  });
+});
+
+describe("MemoryCallDataStore", () => {
+  test("a cached write gives the session its callId", async () => {
+    const store = new MemoryCallDataStore();
+    const write = parseCacheWrite(JSON.stringify(WRITE))!;
+    await store.set(write.callSid, write.data, 60_000);
+    expect((await store.get("CA123"))?.callId).toBe("call-1");
+  });
+
+  test("expired entries are gone", async () => {
+    const store = new MemoryCallDataStore();
+    await store.set("CA123", { openaiPrompt: "You are Jamie." }, -1);
+    expect(await store.purgeExpired()).toBe(1);
+    expect(await store.get("CA123")).toBeNull();
+  });
+});
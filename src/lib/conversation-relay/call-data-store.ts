@@ -0,0 +1,134 @@
+/**
+ * Call data store for ConversationRelay sessions
+ *
+ * The app pushes per-call data (prompt, greeting, LLM settings, limits) to the
+ * relay server when a call is initiated; the relay reads it back on setup.
+ * With more than one relay instance the write and the WebSocket can land on
+ * different processes, so the default store is Postgres (call_data_cache).
+ * An in-memory store remains for single-instance/local development.
+ *
+ * Select with CALL_CACHE_STORE=postgres|memory (default: postgres)
+ */
+
+import { eq, gt, and, lte } from "drizzle-orm";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { callDataCache } from "~/lib/db/schema/call-data-cache";
+import type { CallLimits } from "./call-limits";
+import type { PersonaLLMSettings } from "./llm-providers";
+
+export interface CachedCallData {
+  callId?: string; // Our call id - live transcript events are published under it
+  openaiPrompt: string;
+  welcomeGreeting?: string;
+  llm?: PersonaLLMSettings; // Caller persona's model overrides
+  limits?: CallLimits; // Resolved duration/silence limits
+}
+
+export interface CallDataStore {
+  get(callSid: string): Promise<CachedCallData | null>;
+  set(callSid: string, data: CachedCallData, ttlMs: number): Promise<void>;
+  // Remove expired entries, returns how many were removed
+  purgeExpired(): Promise<number>;
+}
+
+export const CALL_DATA_STORES = ["postgres", "memory"] as const;
+export type CallDataStoreName = (typeof CALL_DATA_STORES)[number];
+
+const DEFAULT_TTL_SECONDS = 60 * 60; // 1 hour - calls connect within seconds of initiation
+
+/**
+ * Entry TTL from CALL_CACHE_TTL_SECONDS (default 1 hour)
+ */
+export function getCallDataTtlMs(): number {
+  const seconds = parseInt(process.env.CALL_CACHE_TTL_SECONDS || "", 10);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Read a POST /cache/call body (see cacheCallDataToWebSocket in twilio/call.ts)
+ * Null when the callSid or prompt is missing
+ */
+export function parseCacheWrite(body: string): { callSid: string; data: CachedCallData } | null {
+  const { callSid, callId, openaiPrompt, welcomeGreeting, llm, limits } = JSON.parse(body);
+  if (!callSid || !openaiPrompt) {
+    return null;
+  }
+  return { callSid, data: { callId, openaiPrompt, welcomeGreeting, llm, limits } };
+}
+
+/**
+ * Store name from CALL_CACHE_STORE (default postgres)
+ */
+export function getCallDataStoreName(): CallDataStoreName {
+  const name = process.env.CALL_CACHE_STORE;
+  return name === "memory" ? "memory" : "postgres";
+}
+
+/**
+ * Per-process Map - only correct with a single relay instance
+ */
+export class MemoryCallDataStore implements CallDataStore {
+  private entries = new Map<string, { data: CachedCallData; expiresAt: number }>();
+
+  async get(callSid: string): Promise<CachedCallData | null> {
+    const entry = this.entries.get(callSid);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(callSid);
+      return null;
+    }
+    return entry.data;
+  }
+
+  async set(callSid: string, data: CachedCallData, ttlMs: number): Promise<void> {
+    this.entries.set(callSid, { data, expiresAt: Date.now() + ttlMs });
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    for (const [callSid, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(callSid);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+/**
+ * Shared store - any relay instance can resolve any call
+ */
+export class PostgresCallDataStore implements CallDataStore {
+  constructor(private db: ReturnType<typeof drizzle>) {}
+
+  async get(callSid: string): Promise<CachedCallData | null> {
+    const [row] = await this.db
+      .select({ data: callDataCache.data })
+      .from(callDataCache)
+      .where(and(eq(callDataCache.callSid, callSid), gt(callDataCache.expiresAt, new Date())))
+      .limit(1);
+
+    return row ? (row.data as CachedCallData) : null;
+  }
+
+  async set(callSid: string, data: CachedCallData, ttlMs: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttlMs);
+    await this.db
+      .insert(callDataCache)
+      .values({ callSid, data, expiresAt })
+      .onConflictDoUpdate({
+        target: callDataCache.callSid,
+        set: { data, expiresAt },
+      });
+  }
+
+  async purgeExpired(): Promise<number> {
+    const purged = await this.db
+      .delete(callDataCache)
+      .where(lte(callDataCache.expiresAt, new Date()))
+      .returning({ callSid: callDataCache.callSid });
+    return purged.length;
+  }
+}
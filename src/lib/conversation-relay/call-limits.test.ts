@@ -0,0 +1,67 @@
+/**
+ * Call duration and silence limits (run with `bun test`)
+ *
+ * Precedence is per-call override → CALL_* env → default, and the silence
+ * nudge always lands before the silence timeout.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { callLimitOverridesFromCall, resolveCallLimits, twilioTimeLimitSeconds } from "./call-limits";
+
+const ENV_KEYS = ["CALL_MAX_DURATION_SECONDS", "CALL_SILENCE_NUDGE_SECONDS", "CALL_SILENCE_TIMEOUT_SECONDS"] as const;
+let savedEnv: Partial<Record<(typeof ENV_KEYS)[number], string>> = {};
+
+beforeEach(() => {
+  savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+describe("resolveCallLimits", () => {
+  test("defaults", () => {
+    expect(resolveCallLimits()).toEqual({ maxDurationSeconds: 300, silenceNudgeSeconds: 8, silenceTimeoutSeconds: 25 });
+  });
+
+  test("env replaces the defaults", () => {
+    process.env.CALL_MAX_DURATION_SECONDS = "600";
+    process.env.CALL_SILENCE_TIMEOUT_SECONDS = "40";
+    expect(resolveCallLimits()).toEqual({ maxDurationSeconds: 600, silenceNudgeSeconds: 8, silenceTimeoutSeconds: 40 });
+  });
+
+  test.each(["0", "-5", "soon", ""])("ignores CALL_MAX_DURATION_SECONDS=%p", (value) => {
+    process.env.CALL_MAX_DURATION_SECONDS = value;
+    expect(resolveCallLimits().maxDurationSeconds).toBe(300);
+  });
+
+  test("per-call overrides win over env", () => {
+    process.env.CALL_MAX_DURATION_SECONDS = "600";
+    expect(resolveCallLimits({ maxDurationSeconds: 120 }).maxDurationSeconds).toBe(120);
+  });
+
+  test.each([
+    [{ silenceNudgeSeconds: 30, silenceTimeoutSeconds: 20 }, 10],
+    [{ silenceNudgeSeconds: 20, silenceTimeoutSeconds: 20 }, 10],
+    [{ silenceTimeoutSeconds: 5 }, 2],
+    [{ silenceNudgeSeconds: 1, silenceTimeoutSeconds: 1 }, 1],
+  ])("moves the nudge before the timeout for %p", (overrides, nudge) => {
+    const limits = resolveCallLimits(overrides);
+    expect(limits.silenceNudgeSeconds).toBe(nudge);
+    expect(limits.silenceTimeoutSeconds).toBe(overrides.silenceTimeoutSeconds);
+  });
+});
+
+test("callLimitOverridesFromCall leaves empty columns to env and defaults", () => {
+  const overrides = callLimitOverridesFromCall({ maxDurationSeconds: 90, silenceNudgeSeconds: null, silenceTimeoutSeconds: null });
+  expect(overrides).toEqual({ maxDurationSeconds: 90, silenceNudgeSeconds: undefined, silenceTimeoutSeconds: undefined });
+  expect(resolveCallLimits(overrides)).toEqual({ maxDurationSeconds: 90, silenceNudgeSeconds: 8, silenceTimeoutSeconds: 25 });
+});
+
+test("Twilio's own time limit leaves the relay a minute to wrap up", () => {
+  expect(twilioTimeLimitSeconds(resolveCallLimits({ maxDurationSeconds: 120 }))).toBe(180);
+});
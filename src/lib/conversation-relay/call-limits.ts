@@ -0,0 +1,104 @@
+/**
+ * Call duration limits and silence watchdog settings for ConversationRelay
+ *
+ * Runaway calls burn Twilio minutes and inflate video generation cost
+ * (priced by audio duration), so every session gets:
+ * - maxDurationSeconds: hard talk-time limit → in-character wrap-up, then end
+ * - silenceNudgeSeconds: recipient silent this long → persona nudges them
+ * - silenceTimeoutSeconds: still silent → wrap-up, then end
+ *
+ * Precedence: per-call override (calls table) → env → default
+ * Reads process.env directly (loaded by server-ws.ts).
+ */
+
+export interface CallLimits {
+  maxDurationSeconds: number;
+  silenceNudgeSeconds: number;
+  silenceTimeoutSeconds: number;
+}
+
+export type CallLimitOverrides = Partial<CallLimits>;
+
+const DEFAULT_CALL_LIMITS: CallLimits = {
+  maxDurationSeconds: 300, // 5 minutes
+  silenceNudgeSeconds: 8,
+  silenceTimeoutSeconds: 25,
+};
+
+// Bounds for per-call overrides (also used by createCall validation)
+export const CALL_LIMIT_BOUNDS = {
+  maxDurationSeconds: { min: 30, max: 1800 },
+  silenceNudgeSeconds: { min: 3, max: 60 },
+  silenceTimeoutSeconds: { min: 5, max: 180 },
+} as const;
+
+// Extra time Twilio allows beyond maxDurationSeconds before it hangs up itself
+// (backstop in case the relay server never sends the end message)
+const TWILIO_TIME_LIMIT_GRACE_SECONDS = 60;
+
+function envSeconds(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Convert a calls row (nullable columns) into overrides
+ */
+export function callLimitOverridesFromCall(call: {
+  maxDurationSeconds: number | null;
+  silenceNudgeSeconds: number | null;
+  silenceTimeoutSeconds: number | null;
+}): CallLimitOverrides {
+  return {
+    maxDurationSeconds: call.maxDurationSeconds ?? undefined,
+    silenceNudgeSeconds: call.silenceNudgeSeconds ?? undefined,
+    silenceTimeoutSeconds: call.silenceTimeoutSeconds ?? undefined,
+  };
+}
+
+/**
+ * Resolve per-call overrides against environment defaults
+ */
+export function resolveCallLimits(overrides?: CallLimitOverrides): CallLimits {
+  const limits: CallLimits = {
+    maxDurationSeconds: overrides?.maxDurationSeconds
+      ?? envSeconds("CALL_MAX_DURATION_SECONDS")
+      ?? DEFAULT_CALL_LIMITS.maxDurationSeconds,
+    silenceNudgeSeconds: overrides?.silenceNudgeSeconds
+      ?? envSeconds("CALL_SILENCE_NUDGE_SECONDS")
+      ?? DEFAULT_CALL_LIMITS.silenceNudgeSeconds,
+    silenceTimeoutSeconds: overrides?.silenceTimeoutSeconds
+      ?? envSeconds("CALL_SILENCE_TIMEOUT_SECONDS")
+      ?? DEFAULT_CALL_LIMITS.silenceTimeoutSeconds,
+  };
+
+  // Nudge must come before the timeout to be useful
+  if (limits.silenceNudgeSeconds >= limits.silenceTimeoutSeconds) {
+    limits.silenceNudgeSeconds = Math.max(1, Math.floor(limits.silenceTimeoutSeconds / 2));
+  }
+
+  return limits;
+}
+
+/**
+ * Twilio-side hard cap (calls.create timeLimit) for a call
+ */
+export function twilioTimeLimitSeconds(limits: CallLimits): number {
+  return limits.maxDurationSeconds + TWILIO_TIME_LIMIT_GRACE_SECONDS;
+}
+
+// One-off system instructions (see StreamOptions.instruction)
+export const SILENCE_NUDGE_INSTRUCTION =
+  "The person has gone quiet for a while. Staying fully in character, check whether " +
+  "they're still there or gently re-engage them in one short sentence.";
+
+export const SILENCE_WRAP_UP_INSTRUCTION =
+  "The person has stopped responding. Staying fully in character, say one short " +
+  "goodbye sentence. Do not ask any questions. The call ends right after.";
+
+export const MAX_DURATION_WRAP_UP_INSTRUCTION =
+  "You are out of time on this call. Staying fully in character, wrap the conversation " +
+  "up in one or two short sentences and say goodbye. Do not ask any questions. " +
+  "The call ends right after.";
@@ -0,0 +1,107 @@
+/**
+ * In-call keypad (DTMF) menu for recipients
+ *
+ * ConversationRelay forwards key presses as `dtmf` messages. Each configured
+ * digit maps to an action the relay server executes immediately, bypassing
+ * the LLM so the result is deterministic:
+ * - opt_out: add the number to the do-not-call list, confirm, hang up
+ * - end_call: say goodbye and hang up
+ *
+ * Configure with DTMF_MENU (JSON), e.g. {"9":"opt_out","0":"end_call"} or
+ * {"9":{"action":"opt_out","confirmation":"Done, we won't call again."}}
+ * Reads process.env directly (loaded by server-ws.ts).
+ */
+
+export const DTMF_ACTIONS = ["opt_out", "end_call"] as const;
+export type DtmfAction = (typeof DTMF_ACTIONS)[number];
+
+export interface DtmfMenuOption {
+  action: DtmfAction;
+  confirmation: string; // Spoken before hanging up
+}
+
+export type DtmfMenu = Record<string, DtmfMenuOption>;
+
+const DEFAULT_CONFIRMATIONS: Record<DtmfAction, string> = {
+  opt_out:
+    "You've been added to our do-not-call list and won't be called by this service again. Goodbye.",
+  end_call: "No problem, ending the call now. Goodbye.",
+};
+
+export const DEFAULT_DTMF_MENU: DtmfMenu = {
+  "9": { action: "opt_out", confirmation: DEFAULT_CONFIRMATIONS.opt_out },
+};
+
+const VALID_DIGITS = /^[0-9*#]$/;
+
+function isDtmfAction(value: unknown): value is DtmfAction {
+  return typeof value === "string" && (DTMF_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Load the menu from DTMF_MENU, falling back to the default (9 = opt out)
+ * Invalid entries are skipped; an opt-out digit is always kept (compliance)
+ */
+export function loadDtmfMenu(): DtmfMenu {
+  const raw = process.env.DTMF_MENU;
+  if (!raw) {
+    return DEFAULT_DTMF_MENU;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.warn("[DTMF Menu] ⚠️ DTMF_MENU is not valid JSON, using default menu");
+    return DEFAULT_DTMF_MENU;
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    console.warn("[DTMF Menu] ⚠️ DTMF_MENU must be an object of digit → action, using default menu");
+    return DEFAULT_DTMF_MENU;
+  }
+
+  const menu: DtmfMenu = {};
+  for (const [digit, entry] of Object.entries(parsed)) {
+    const action = typeof entry === "object" && entry !== null ? (entry as { action?: unknown }).action : entry;
+    if (!VALID_DIGITS.test(digit) || !isDtmfAction(action)) {
+      console.warn(`[DTMF Menu] ⚠️ Skipping invalid menu entry "${digit}"`);
+      continue;
+    }
+
+    const confirmation = typeof entry === "object" && entry !== null
+      ? (entry as { confirmation?: unknown }).confirmation
+      : undefined;
+    menu[digit] = {
+      action,
+      confirmation: typeof confirmation === "string" && confirmation.trim()
+        ? confirmation
+        : DEFAULT_CONFIRMATIONS[action],
+    };
+  }
+
+  if (!Object.values(menu).some((option) => option.action === "opt_out")) {
+    console.warn("[DTMF Menu] ⚠️ DTMF_MENU has no opt_out digit, keeping 9 = opt_out");
+    menu["9"] = DEFAULT_DTMF_MENU["9"];
+  }
+
+  return menu;
+}
+
+/**
+ * System prompt addendum so the persona can tell people how to opt out
+ */
+export function describeDtmfMenu(menu: DtmfMenu): string {
+  const lines = Object.entries(menu).map(([digit, option]) =>
+    option.action === "opt_out"
+      ? `- Press ${digit} to never be called by this service again`
+      : `- Press ${digit} to end the call`,
+  );
+
+  return [
+    "KEYPAD OPTIONS (handled automatically, you never need to act on them):",
+    ...lines,
+    "If the person asks how to stop these calls or to be removed from the list, " +
+      "break character briefly and tell them these options.",
+  ].join("\n");
+}
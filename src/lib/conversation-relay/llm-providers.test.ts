@@ -0,0 +1,82 @@
+/**
+ * Live-call LLM settings (run with `bun test`)
+ *
+ * Precedence is persona → LLM_PROVIDER / LLM_MODEL → provider default, and
+ * LLM_MODEL only counts when the persona didn't pick a provider of its own.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createChatProvider, personaLLMSettingsFromCaller, resolveLLMConfig } from "./llm-providers";
+
+const ENV_KEYS = ["LLM_PROVIDER", "LLM_MODEL", "GROQ_API_KEY"] as const;
+let savedEnv: Partial<Record<(typeof ENV_KEYS)[number], string>> = {};
+
+beforeEach(() => {
+  savedEnv = Object.fromEntries(ENV_KEYS.map((key) => [key, process.env[key]]));
+  for (const key of ENV_KEYS) delete process.env[key];
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+describe("resolveLLMConfig", () => {
+  test("defaults to OpenAI", () => {
+    expect(resolveLLMConfig()).toEqual({ provider: "openai", model: "gpt-4o-mini", temperature: 0.8, maxTokens: 1024 });
+  });
+
+  test("uses LLM_PROVIDER and LLM_MODEL without a persona provider", () => {
+    process.env.LLM_PROVIDER = "groq";
+    process.env.LLM_MODEL = "llama-3.1-8b-instant";
+    expect(resolveLLMConfig({ temperature: 0.2 })).toMatchObject({
+      provider: "groq",
+      model: "llama-3.1-8b-instant",
+      temperature: 0.2,
+    });
+  });
+
+  test("ignores an unknown LLM_PROVIDER", () => {
+    process.env.LLM_PROVIDER = "anthropic";
+    expect(resolveLLMConfig().provider).toBe("openai");
+  });
+
+  test("persona provider drops LLM_MODEL for its own default", () => {
+    process.env.LLM_PROVIDER = "openai";
+    process.env.LLM_MODEL = "gpt-4o";
+    expect(resolveLLMConfig({ provider: "near" })).toMatchObject({ provider: "near", model: "deepseek-ai/DeepSeek-V3.1" });
+  });
+
+  test("persona model wins over everything", () => {
+    process.env.LLM_MODEL = "gpt-4o";
+    expect(resolveLLMConfig({ provider: "groq", model: "custom", maxTokens: 200 })).toMatchObject({
+      provider: "groq",
+      model: "custom",
+      maxTokens: 200,
+    });
+  });
+});
+
+describe("personaLLMSettingsFromCaller", () => {
+  test("maps nullable columns to optional settings", () => {
+    expect(
+      personaLLMSettingsFromCaller({ llmProvider: "groq", llmModel: null, llmTemperature: 0.5, llmMaxTokens: null }),
+    ).toEqual({ provider: "groq", model: undefined, temperature: 0.5, maxTokens: undefined });
+  });
+
+  test("drops an unknown provider", () => {
+    expect(
+      personaLLMSettingsFromCaller({ llmProvider: "mistral", llmModel: "x", llmTemperature: null, llmMaxTokens: null }).provider,
+    ).toBeUndefined();
+  });
+});
+
+describe("createChatProvider", () => {
+  test("refuses a provider without an API key", () => {
+    expect(() => createChatProvider(resolveLLMConfig({ provider: "groq" }), "You are Sandra.")).toThrow(
+      'No API key configured for LLM provider "groq"',
+    );
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * LLM provider layer for ConversationRelay
+ *
+ * Every provider we use for live calls exposes an OpenAI-compatible
+ * chat completions API, so one streaming client covers all of them.
+ * Providers differ only in base URL, API key and default model.
+ *
+ * Reads process.env directly (like server-ws.ts) so the WebSocket server
+ * can load this module without the full app environment.
+ */
+
+import type OpenAI from "openai";
+import { OpenAIChatClient } from "./openai-chat";
+import type { ConversationTurn } from "./types";
+
+export const LLM_PROVIDERS = ["openai", "groq", "near", "local"] as const;
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+/**
+ * A function call requested by the model (arguments are raw JSON)
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Result of executing a tool call
+ * followUp: run another completion so the model can speak after the tool ran
+ */
+export interface ToolCallOutcome {
+  result: string;
+  followUp: boolean;
+}
+
+export type ToolCallHandler = (call: ToolCall) => Promise<ToolCallOutcome>;
+
+/**
+ * Per-request options for streamResponse
+ * instruction: one-off system message appended after the conversation
+ * (e.g. "wrap up now") - not stored in the conversation history
+ * signal: cancels the stream; streamResponse then resolves with the partial text
+ */
+export interface StreamOptions {
+  onToolCall?: ToolCallHandler;
+  instruction?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Streaming chat contract used by the relay server
+ */
+export interface ChatProvider {
+  streamResponse(
+    conversation: ConversationTurn[],
+    onToken: (token: string) => void,
+    options?: StreamOptions,
+  ): Promise<string>;
+  setSystemPrompt(prompt: string): void;
+}
+
+/**
+ * Per-persona overrides (stored on the callers table, all optional)
+ */
+export interface PersonaLLMSettings {
+  provider?: LLMProviderName;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Fully resolved settings for one call
+ */
+export interface LLMConfig {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+interface ProviderDefinition {
+  baseURL?: string; // undefined = OpenAI SDK default
+  apiKey: () => string | undefined;
+  defaultModel: string;
+}
+
+const PROVIDER_DEFINITIONS: Record<LLMProviderName, ProviderDefinition> = {
+  openai: {
+    apiKey: () => process.env.OPENAI_API_KEY,
+    defaultModel: "gpt-4o-mini",
+  },
+  groq: {
+    baseURL: "https://api.groq.com/openai/v1",
+    apiKey: () => process.env.GROQ_API_KEY,
+    defaultModel: "llama-3.3-70b-versatile",
+  },
+  near: {
+    baseURL: "https://cloud-api.near.ai/v1",
+    apiKey: () => process.env.NEAR_AI_API_KEY,
+    defaultModel: "deepseek-ai/DeepSeek-V3.1",
+  },
+  local: {
+    // Any OpenAI-compatible server (Ollama, LM Studio, vLLM, llama.cpp...)
+    baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+    // Most local servers ignore the key but the SDK requires one
+    apiKey: () => process.env.LOCAL_LLM_API_KEY || "local",
+    defaultModel: "llama3.1",
+  },
+};
+
+const DEFAULT_TEMPERATURE = 0.8;
+const DEFAULT_MAX_TOKENS = 1024;
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === "string" && (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Convert a callers row (nullable columns) into persona settings
+ */
+export function personaLLMSettingsFromCaller(caller: {
+  llmProvider: string | null;
+  llmModel: string | null;
+  llmTemperature: number | null;
+  llmMaxTokens: number | null;
+}): PersonaLLMSettings {
+  return {
+    provider: isLLMProviderName(caller.llmProvider) ? caller.llmProvider : undefined,
+    model: caller.llmModel ?? undefined,
+    temperature: caller.llmTemperature ?? undefined,
+    maxTokens: caller.llmMaxTokens ?? undefined,
+  };
+}
+
+/**
+ * Resolve persona overrides against environment defaults
+ * Precedence: persona → LLM_PROVIDER / LLM_MODEL env → provider default
+ */
+export function resolveLLMConfig(persona?: PersonaLLMSettings): LLMConfig {
+  const envProvider = process.env.LLM_PROVIDER;
+  const provider = persona?.provider
+    ?? (isLLMProviderName(envProvider) ? envProvider : "openai");
+
+  // LLM_MODEL only applies when it belongs to the provider we ended up with
+  const envModel = persona?.provider ? undefined : process.env.LLM_MODEL;
+
+  return {
+    provider,
+    model: persona?.model || envModel || PROVIDER_DEFINITIONS[provider].defaultModel,
+    temperature: persona?.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: persona?.maxTokens ?? DEFAULT_MAX_TOKENS,
+  };
+}
+
+/**
+ * Create a streaming chat client for the given config
+ */
+export function createChatProvider(
+  config: LLMConfig,
+  systemPrompt: string,
+  tools?: OpenAI.Chat.ChatCompletionTool[],
+): ChatProvider {
+  const definition = PROVIDER_DEFINITIONS[config.provider];
+  const apiKey = definition.apiKey();
+
+  if (!apiKey) {
+    throw new Error(`No API key configured for LLM provider "${config.provider}"`);
+  }
+
+  return new OpenAIChatClient({
+    apiKey,
+    baseURL: definition.baseURL,
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    systemPrompt,
+    tools,
+  });
+}
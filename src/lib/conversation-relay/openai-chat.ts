@@ -3,36 +3,60 @@
  * 
  * Uses streaming to send tokens as they arrive for lower latency
  * Works with ConversationRelay's text-based interface
+ * 
+ * Also used for any OpenAI-compatible endpoint (Groq, NEAR AI, local servers)
+ * via baseURL - see llm-providers.ts
  */
 
 import OpenAI from "openai";
+import type { ChatProvider, StreamOptions, ToolCall } from "./llm-providers";
 import type { ConversationTurn } from "./types";
 
+// Safety cap on tool call → follow-up completion rounds per user turn
+const MAX_TOOL_ROUNDS = 3;
+
 export interface ChatConfig {
   apiKey: string;
+  baseURL?: string; // OpenAI-compatible endpoint (defaults to api.openai.com)
   model?: string;
+  temperature?: number;
+  maxTokens?: number;
   systemPrompt: string;
+  tools?: OpenAI.Chat.ChatCompletionTool[]; // Function-calling tools offered to the model
 }
 
-export class OpenAIChatClient {
+export class OpenAIChatClient implements ChatProvider {
   private client: OpenAI;
   private model: string;
+  private temperature?: number;
+  private maxTokens: number;
   private systemPrompt: string;
+  private tools?: OpenAI.Chat.ChatCompletionTool[];
 
   constructor(config: ChatConfig) {
-    this.client = new OpenAI({ apiKey: config.apiKey });
+    this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
     this.model = config.model || "gpt-4o-mini";
+    this.temperature = config.temperature;
+    this.maxTokens = config.maxTokens ?? 1024;
     this.systemPrompt = config.systemPrompt;
+    this.tools = config.tools?.length ? config.tools : undefined;
   }
 
   /**
    * Stream a response from OpenAI
    * Calls onToken for each token, returns full response when done
+   * 
+   * If the model calls tools, onToolCall executes each one and its result is
+   * fed back so the model can keep talking (e.g. say goodbye after end_call)
+   * 
+   * Aborting options.signal stops the stream and returns what arrived so far
    */
   async streamResponse(
     conversation: ConversationTurn[],
     onToken: (token: string) => void,
+    options: StreamOptions = {},
   ): Promise<string> {
+    const { onToolCall, instruction, signal } = options;
     const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
       { role: "system", content: this.systemPrompt },
       ...conversation.map((turn) => ({
@@ -41,23 +65,88 @@ export class OpenAIChatClient {
       })),
     ];
 
-    console.log("[OpenAI Chat] Streaming response...");
-    console.log("[OpenAI Chat] Messages:", messages.length);
+    if (instruction) {
+      messages.push({ role: "system", content: instruction });
+    }
 
-    const stream = await this.client.chat.completions.create({
-      model: this.model,
-      messages,
-      stream: true,
-      max_tokens: 1024,
-    });
+    console.log("[OpenAI Chat] Streaming response...");
+    console.log("[OpenAI Chat] Model:", this.model, "Messages:", messages.length);
 
+    const tools = onToolCall ? this.tools : undefined;
     let fullResponse = "";
 
-    for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content;
-      if (content) {
-        fullResponse += content;
-        onToken(content);
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      // Last round never offers tools so the model has to answer in text
+      const offerTools = tools && round < MAX_TOOL_ROUNDS ? tools : undefined;
+
+      let roundContent = "";
+      const toolCalls: ToolCall[] = [];
+
+      try {
+        const stream = await this.client.chat.completions.create(
+          {
+            model: this.model,
+            messages,
+            stream: true,
+            temperature: this.temperature,
+            max_tokens: this.maxTokens,
+            tools: offerTools,
+          },
+          { signal },
+        );
+
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta;
+          const content = delta?.content;
+          if (content) {
+            roundContent += content;
+            fullResponse += content;
+            onToken(content);
+          }
+
+          // Tool call arguments arrive in fragments keyed by index
+          for (const toolDelta of delta?.tool_calls ?? []) {
+            const call = (toolCalls[toolDelta.index] ??= { id: "", name: "", arguments: "" });
+            if (toolDelta.id) call.id = toolDelta.id;
+            if (toolDelta.function?.name) call.name += toolDelta.function.name;
+            if (toolDelta.function?.arguments) call.arguments += toolDelta.function.arguments;
+          }
+        }
+      } catch (error) {
+        if (!signal?.aborted) {
+          throw error;
+        }
+      }
+
+      if (signal?.aborted) {
+        console.log("[OpenAI Chat] ✋ Stream aborted after", fullResponse.length, "chars");
+        return fullResponse;
+      }
+
+      if (toolCalls.length === 0 || !onToolCall) {
+        break;
+      }
+
+      messages.push({
+        role: "assistant",
+        content: roundContent || null,
+        tool_calls: toolCalls.map((call) => ({
+          id: call.id,
+          type: "function" as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      });
+
+      let followUp = false;
+      for (const call of toolCalls) {
+        console.log(`[OpenAI Chat] 🔧 Tool call: ${call.name}(${call.arguments})`);
+        const outcome = await onToolCall(call);
+        messages.push({ role: "tool", tool_call_id: call.id, content: outcome.result });
+        followUp = followUp || outcome.followUp;
+      }
+
+      if (!followUp) {
+        break;
       }
     }
 
@@ -0,0 +1,37 @@
+/**
+ * Sound-effect clips the persona can play mid-call via the play_sound tool
+ *
+ * Clips are static mp3 files served from SOUND_EFFECTS_BASE_URL. No clips ship
+ * with the app, so without it the tool isn't offered to the persona at all.
+ */
+
+export const SOUND_EFFECTS = {
+  doorbell: "A doorbell ringing",
+  dog_bark: "A small dog barking",
+  parrot_squawk: "A parrot squawking",
+  phone_ring: "Another phone ringing in the background",
+  office_noise: "Busy office chatter and keyboards",
+  crowd_cheer: "A crowd cheering",
+  drumroll: "A drumroll",
+  sad_trombone: "A sad trombone (wah wah wah)",
+} as const;
+
+export type SoundEffectName = keyof typeof SOUND_EFFECTS;
+
+export const SOUND_EFFECT_NAMES = Object.keys(SOUND_EFFECTS) as SoundEffectName[];
+
+/**
+ * Whether clips are hosted somewhere (SOUND_EFFECTS_BASE_URL is set)
+ */
+export function isSoundEffectsConfigured(): boolean {
+  return !!process.env.SOUND_EFFECTS_BASE_URL?.trim();
+}
+
+/**
+ * Public URL Twilio will fetch the clip from (null when no clips are hosted)
+ */
+export function getSoundEffectUrl(name: SoundEffectName): string | null {
+  const baseUrl = process.env.SOUND_EFFECTS_BASE_URL?.trim();
+  if (!baseUrl) return null;
+  return `${baseUrl.replace(/\/$/, "")}/${name}.mp3`;
+}
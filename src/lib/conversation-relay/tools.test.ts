@@ -0,0 +1,134 @@
+/**
+ * In-call tools (run with `bun test`)
+ *
+ * Bad arguments go back to the model as a result instead of throwing, end_call
+ * only arms the hang-up once, and play_sound needs SOUND_EFFECTS_BASE_URL -
+ * no clips ship with the app.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { getSoundEffectUrl, isSoundEffectsConfigured } from "./sound-effects";
+import { estimateSpeechDurationMs, executeRelayTool } from "./tools";
+import type { ConversationSession, OutgoingRelayMessage } from "./types";
+
+function createSession(): ConversationSession {
+  return {
+    sessionId: "VX123",
+    callSid: "CA123",
+    openaiPrompt: "You are Sandra.",
+    conversation: [],
+    isProcessing: false,
+  };
+}
+
+function run(name: string, args: unknown, session = createSession()) {
+  const sent: OutgoingRelayMessage[] = [];
+  const outcome = executeRelayTool(
+    { id: "call_1", name, arguments: typeof args === "string" ? args : JSON.stringify(args) },
+    { session, send: (message) => sent.push(message) },
+  );
+  return { outcome, sent, session };
+}
+
+let savedBaseUrl: string | undefined;
+
+beforeEach(() => {
+  savedBaseUrl = process.env.SOUND_EFFECTS_BASE_URL;
+  delete process.env.SOUND_EFFECTS_BASE_URL;
+});
+
+afterEach(() => {
+  if (savedBaseUrl === undefined) delete process.env.SOUND_EFFECTS_BASE_URL;
+  else process.env.SOUND_EFFECTS_BASE_URL = savedBaseUrl;
+});
+
+describe("end_call", () => {
+  test("arms the hang-up with the handoff data", () => {
+    const { outcome, sent, session } = run("end_call", { reason: "voicemail", summary: "Reached a machine" });
+    expect(outcome.followUp).toBe(true);
+    expect(sent).toEqual([]);
+    expect(JSON.parse(session.pendingEnd!.handoffData)).toEqual({
+      reason: "voicemail",
+      summary: "Reached a machine",
+      endedBy: "persona",
+      callSid: "CA123",
+      sessionId: "VX123",
+    });
+  });
+
+  test("only once per call", () => {
+    const session = createSession();
+    run("end_call", { reason: "conversation_complete" }, session);
+    const { outcome } = run("end_call", { reason: "other" }, session);
+    expect(outcome).toEqual({ result: "The call is already ending.", followUp: false });
+    expect(JSON.parse(session.pendingEnd!.handoffData).reason).toBe("conversation_complete");
+  });
+
+  test.each([
+    ["an unknown reason", { reason: "bored" }],
+    ["no reason", {}],
+    ["broken JSON", "{reason:"],
+  ])("rejects %s", (_label, args) => {
+    const { outcome, session } = run("end_call", args);
+    expect(outcome.result).toStartWith("end_call rejected:");
+    expect(session.pendingEnd).toBeUndefined();
+  });
+});
+
+describe("switch_language", () => {
+  test("switches TTS and STT together", () => {
+    const { sent, session } = run("switch_language", { language: "es-MX" });
+    expect(sent).toEqual([{ type: "language", ttsLanguage: "es-MX", transcriptionLanguage: "es-MX" }]);
+    expect(session.language).toBe("es-MX");
+  });
+
+  test("rejects an unsupported language", () => {
+    const { outcome, sent } = run("switch_language", { language: "ja-JP" });
+    expect(outcome.result).toStartWith("switch_language rejected:");
+    expect(sent).toEqual([]);
+  });
+});
+
+describe("play_sound", () => {
+  test("plays the clip from SOUND_EFFECTS_BASE_URL", () => {
+    process.env.SOUND_EFFECTS_BASE_URL = "https://cdn.example.com/sounds/";
+    const { sent } = run("play_sound", { sound: "drumroll" });
+    expect(sent).toEqual([
+      {
+        type: "play",
+        source: "https://cdn.example.com/sounds/drumroll.mp3",
+        loop: 1,
+        preemptible: false,
+        interruptible: true,
+      },
+    ]);
+  });
+
+  test("plays nothing without hosted clips", () => {
+    expect(isSoundEffectsConfigured()).toBe(false);
+    expect(getSoundEffectUrl("drumroll")).toBeNull();
+    const { outcome, sent } = run("play_sound", { sound: "drumroll" });
+    expect(outcome.followUp).toBe(true);
+    expect(sent).toEqual([]);
+  });
+
+  test("rejects an unknown clip", () => {
+    process.env.SOUND_EFFECTS_BASE_URL = "https://cdn.example.com/sounds";
+    const { outcome, sent } = run("play_sound", { sound: "air_horn" });
+    expect(outcome.result).toStartWith("play_sound rejected:");
+    expect(sent).toEqual([]);
+  });
+});
+
+test("unknown tools are reported back to the model", () => {
+  expect(run("transfer_call", {}).outcome).toEqual({ result: 'Unknown tool "transfer_call"', followUp: true });
+});
+
+test.each([
+  [0, 1500],
+  [4, 1500],
+  [100, 7000],
+  [1000, 15000],
+])("estimateSpeechDurationMs for %d characters is %d ms", (length, expected) => {
+  expect(estimateSpeechDurationMs("a".repeat(length))).toBe(expected);
+});
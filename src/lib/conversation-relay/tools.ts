@@ -0,0 +1,258 @@
+/**
+ * In-call tools for the live persona (LLM function calling)
+ *
+ * The model can request these mid-conversation; the relay server validates
+ * the arguments and executes them against the Twilio ConversationRelay socket:
+ * - end_call: hang up gracefully (EndMessage with handoffData)
+ * - switch_language: change TTS/STT language (SwitchLanguageMessage)
+ * - play_sound: play a sound-effect clip (PlayMessage) - only offered when
+ *   SOUND_EFFECTS_BASE_URL is set
+ */
+
+import type OpenAI from "openai";
+import { z } from "zod";
+import type { ToolCall, ToolCallOutcome } from "./llm-providers";
+import { getSoundEffectUrl, isSoundEffectsConfigured, SOUND_EFFECT_NAMES, SOUND_EFFECTS } from "./sound-effects";
+import type { SoundEffectName } from "./sound-effects";
+import type { ConversationSession, OutgoingRelayMessage } from "./types";
+
+export const END_CALL_REASONS = [
+  "conversation_complete", // Natural end of the bit
+  "recipient_asked_to_stop", // Recipient asked not to be called / to stop
+  "recipient_hostile", // Abusive or distressed recipient
+  "wrong_person", // Not the intended recipient
+  "voicemail", // Talking to a machine
+  "other",
+] as const;
+
+export type EndCallReason = (typeof END_CALL_REASONS)[number];
+
+// BCP-47 codes supported by ConversationRelay for both Deepgram STT and ElevenLabs TTS
+export const SUPPORTED_LANGUAGES = {
+  "en-US": "English",
+  "es-US": "Spanish (US)",
+  "es-MX": "Spanish (Mexico)",
+  "es-ES": "Spanish (Spain)",
+  "fr-FR": "French",
+  "de-DE": "German",
+  "it-IT": "Italian",
+  "pt-BR": "Portuguese (Brazil)",
+} as const;
+
+export type SupportedLanguage = keyof typeof SUPPORTED_LANGUAGES;
+
+const LANGUAGE_CODES = Object.keys(SUPPORTED_LANGUAGES) as [SupportedLanguage, ...SupportedLanguage[]];
+
+/**
+ * Handoff payload sent with the EndMessage (surfaced as HandoffData on the
+ * conversation-relay-complete webhook)
+ */
+export interface EndCallHandoff {
+  reason: EndCallReason | "dtmf_opt_out" | "dtmf_end_call" | "max_duration" | "silence_timeout";
+  summary?: string;
+  endedBy: "persona" | "recipient" | "system"; // recipient = keypad (DTMF), system = limits
+  callSid: string;
+  sessionId: string;
+}
+
+// Offered only when clips are hosted (SOUND_EFFECTS_BASE_URL)
+const PLAY_SOUND_TOOL: OpenAI.Chat.ChatCompletionTool = {
+  type: "function",
+  function: {
+    name: "play_sound",
+    description:
+      "Play a short sound effect on the call to support the bit. Use sparingly.",
+    parameters: {
+      type: "object",
+      properties: {
+        sound: {
+          type: "string",
+          enum: SOUND_EFFECT_NAMES,
+          description: Object.entries(SOUND_EFFECTS)
+            .map(([name, description]) => `${name}: ${description}`)
+            .join("; "),
+        },
+      },
+      required: ["sound"],
+    },
+  },
+};
+
+export const RELAY_TOOLS: OpenAI.Chat.ChatCompletionTool[] = [
+  {
+    type: "function",
+    function: {
+      name: "end_call",
+      description:
+        "Hang up the phone call. Use when the conversation has reached its natural end, " +
+        "the person asks you to stop calling or to hang up, they are distressed or hostile, " +
+        "you reached the wrong person, or you are talking to voicemail.",
+      parameters: {
+        type: "object",
+        properties: {
+          reason: { type: "string", enum: [...END_CALL_REASONS] },
+          summary: {
+            type: "string",
+            description: "One sentence on how the call went",
+          },
+        },
+        required: ["reason"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "switch_language",
+      description:
+        "Switch the language you speak and listen in. Use when the person clearly " +
+        "speaks or asks for a different language. Reply in that language afterwards.",
+      parameters: {
+        type: "object",
+        properties: {
+          language: {
+            type: "string",
+            enum: LANGUAGE_CODES,
+            description: Object.entries(SUPPORTED_LANGUAGES)
+              .map(([code, name]) => `${code} = ${name}`)
+              .join(", "),
+          },
+        },
+        required: ["language"],
+      },
+    },
+  },
+  ...(isSoundEffectsConfigured() ? [PLAY_SOUND_TOOL] : []),
+];
+
+const endCallArgs = z.object({
+  reason: z.enum(END_CALL_REASONS),
+  summary: z.string().max(500).optional(),
+});
+
+const switchLanguageArgs = z.object({
+  language: z.enum(LANGUAGE_CODES),
+});
+
+const playSoundArgs = z.object({
+  sound: z.enum(SOUND_EFFECT_NAMES as [SoundEffectName, ...SoundEffectName[]]),
+});
+
+export interface ToolExecutionContext {
+  session: ConversationSession;
+  send: (message: OutgoingRelayMessage) => void;
+}
+
+/**
+ * Parse JSON tool arguments against a schema
+ * Returns an error string for the model instead of throwing
+ */
+function parseArgs<T>(schema: z.ZodType<T>, raw: string): { data?: T; error?: string } {
+  let json: unknown;
+  try {
+    json = raw ? JSON.parse(raw) : {};
+  } catch {
+    return { error: "Arguments were not valid JSON" };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return { error: result.error.issues.map((issue) => issue.message).join("; ") };
+  }
+  return { data: result.data };
+}
+
+/**
+ * Validate and execute a tool call against the ConversationRelay socket
+ */
+export function executeRelayTool(
+  call: ToolCall,
+  context: ToolExecutionContext,
+): ToolCallOutcome {
+  const { session, send } = context;
+
+  switch (call.name) {
+    case "end_call": {
+      const { data, error } = parseArgs(endCallArgs, call.arguments);
+      if (!data) {
+        return { result: `end_call rejected: ${error}`, followUp: true };
+      }
+
+      if (session.pendingEnd) {
+        return { result: "The call is already ending.", followUp: false };
+      }
+
+      const handoff: EndCallHandoff = {
+        reason: data.reason,
+        summary: data.summary,
+        endedBy: "persona",
+        callSid: session.callSid,
+        sessionId: session.sessionId,
+      };
+      session.pendingEnd = { handoffData: JSON.stringify(handoff) };
+      console.log(`[Relay Tools] 📴 end_call requested (${data.reason})`);
+
+      return {
+        result:
+          "The call will hang up after your next words. If you have not said goodbye yet, " +
+          "say one short in-character goodbye now. Otherwise reply with nothing.",
+        followUp: true,
+      };
+    }
+
+    case "switch_language": {
+      const { data, error } = parseArgs(switchLanguageArgs, call.arguments);
+      if (!data) {
+        return { result: `switch_language rejected: ${error}`, followUp: true };
+      }
+
+      send({
+        type: "language",
+        ttsLanguage: data.language,
+        transcriptionLanguage: data.language,
+      });
+      session.language = data.language;
+      console.log(`[Relay Tools] 🌐 Switched language to ${data.language}`);
+
+      return {
+        result: `Language switched to ${SUPPORTED_LANGUAGES[data.language]}. Continue the conversation in that language.`,
+        followUp: true,
+      };
+    }
+
+    case "play_sound": {
+      const { data, error } = parseArgs(playSoundArgs, call.arguments);
+      if (!data) {
+        return { result: `play_sound rejected: ${error}`, followUp: true };
+      }
+
+      const source = getSoundEffectUrl(data.sound);
+      if (!source) {
+        return { result: "Sound effects aren't available on this call.", followUp: true };
+      }
+
+      send({
+        type: "play",
+        source,
+        loop: 1,
+        preemptible: false,
+        interruptible: true,
+      });
+      console.log(`[Relay Tools] 🔊 Playing sound: ${data.sound}`);
+
+      return { result: `Played ${data.sound}.`, followUp: true };
+    }
+
+    default:
+      console.warn(`[Relay Tools] ⚠️ Unknown tool: ${call.name}`);
+      return { result: `Unknown tool "${call.name}"`, followUp: true };
+  }
+}
+
+/**
+ * Rough time for TTS to finish speaking text (~15 chars/sec), used to delay
+ * the EndMessage so the goodbye isn't cut off
+ */
+export function estimateSpeechDurationMs(text: string): number {
+  return Math.min(Math.max(text.length * 70, 1500), 15000);
+}
@@ -0,0 +1,95 @@
+/**
+ * Transcript persistence for ConversationRelay sessions
+ *
+ * The WebSocket server keeps the conversation in memory while the call is live
+ * and writes each turn to call_transcripts as it changes, so the live feed's
+ * snapshot has the call so far. When the session closes we write every turn
+ * again (final, truncated content) so the conversation survives the process
+ * and can be shown next to the video.
+ */
+
+import { eq, sql } from "drizzle-orm";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { calls } from "~/lib/db/schema/calls";
+import { callTranscripts } from "~/lib/db/schema/call-transcripts";
+import type { ConversationSession, ConversationTurn } from "./types";
+
+type Database = ReturnType<typeof drizzle>;
+
+function transcriptRow(
+  session: Pick<ConversationSession, "callSid" | "sessionId">,
+  callId: string | null,
+  turn: ConversationTurn,
+  turnIndex: number,
+): typeof callTranscripts.$inferInsert {
+  return {
+    callId,
+    callSid: session.callSid,
+    sessionId: session.sessionId,
+    turnIndex,
+    role: turn.role,
+    content: turn.content,
+    wasInterrupted: turn.wasInterrupted ?? false,
+    interruptedAt: turn.interruptedAt ?? null,
+    confidence: turn.confidence ?? null,
+    spokenAt: new Date(turn.timestamp),
+  };
+}
+
+// Re-writing a turn replaces it (merged speech, interrupt truncation)
+const REPLACE_TURN = {
+  target: [callTranscripts.sessionId, callTranscripts.turnIndex],
+  set: {
+    callId: sql`coalesce(excluded.call_id, ${callTranscripts.callId})`,
+    content: sql`excluded.content`,
+    wasInterrupted: sql`excluded.was_interrupted`,
+    interruptedAt: sql`excluded.interrupted_at`,
+    confidence: sql`excluded.confidence`,
+  },
+};
+
+/**
+ * Persist one turn while the call is live (insert or replace by session and index)
+ */
+export async function saveTranscriptTurn(
+  db: Database,
+  session: Pick<ConversationSession, "callSid" | "sessionId" | "callId">,
+  turn: ConversationTurn,
+  turnIndex: number,
+): Promise<void> {
+  await db
+    .insert(callTranscripts)
+    .values(transcriptRow(session, session.callId ?? null, turn, turnIndex))
+    .onConflictDoUpdate(REPLACE_TURN);
+}
+
+/**
+ * Persist all turns of a session, resolving the call record by callSid
+ * Returns the number of turns written
+ */
+export async function saveSessionTranscript(
+  db: Database,
+  session: ConversationSession,
+): Promise<number> {
+  if (session.conversation.length === 0) {
+    return 0;
+  }
+
+  const [call] = await db
+    .select({ id: calls.id })
+    .from(calls)
+    .where(eq(calls.callSid, session.callSid))
+    .limit(1);
+
+  if (!call) {
+    console.warn(`[Transcript] ⚠️ No call found for ${session.callSid}, saving by callSid only`);
+  }
+
+  // Turns already written during the call are replaced with their final content
+  await db
+    .insert(callTranscripts)
+    .values(session.conversation.map((turn, index) => transcriptRow(session, call?.id ?? null, turn, index)))
+    .onConflictDoUpdate(REPLACE_TURN);
+
+  return session.conversation.length;
+}
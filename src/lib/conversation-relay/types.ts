@@ -138,11 +138,23 @@ export interface SwitchLanguageMessage {
   transcriptionLanguage?: string;
 }
 
+/**
+ * Play message - play an audio file (mp3/wav) on the call
+ */
+export interface PlayMessage {
+  type: "play";
+  source: string; // Public URL of the audio file
+  loop?: number; // Times to play (default 1)
+  preemptible?: boolean; // Can be cut off by subsequent text/play messages
+  interruptible?: boolean; // Can be interrupted by caller speech
+}
+
 export type OutgoingRelayMessage = 
   | TextTokenMessage 
   | ClearMessage 
   | EndMessage 
-  | SwitchLanguageMessage;
+  | SwitchLanguageMessage
+  | PlayMessage;
 
 // ============================================
 // Session State
@@ -154,14 +166,21 @@ export interface ConversationTurn {
   timestamp: number;
   wasInterrupted?: boolean;
   interruptedAt?: string; // Content up to interruption point
+  confidence?: number; // STT confidence from the prompt message (user turns only)
 }
 
 export interface ConversationSession {
   sessionId: string;
   callSid: string;
+  callId?: string; // Our call id, for live transcript events
+  recipientNumber?: string; // The person being called (setup.to for outbound calls)
   openaiPrompt: string;
   conversation: ConversationTurn[];
   isProcessing: boolean;
   lastAssistantResponse?: string;
+  language?: string; // Current TTS/STT language after a switch_language tool call
+  // Set by end_call or a keypad action, sent once the goodbye is spoken
+  // muteResponse: drop any in-flight LLM tokens (keypad actions speak their own confirmation)
+  pendingEnd?: { handoffData: string; muteResponse?: boolean };
 }
 
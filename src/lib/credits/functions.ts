@@ -4,6 +4,7 @@ import { createPostgresDriver } from "~/lib/db";
 import { z } from "zod";
 import { eq, and } from "drizzle-orm";
 import { callCredits } from "~/lib/db/schema/credits";
+import { creditEvents } from "~/lib/db/schema/credit-events";
 import * as schema from "~/lib/db/schema";
 import { auth } from "~/lib/auth/auth";
 import { getRequest } from "@tanstack/react-start/server";
@@ -161,6 +162,14 @@ export async function consumeCredit(
     })
     .where(eq(callCredits.id, credit.id));
 
+  await recordCreditEvent(db, {
+    creditId: credit.id,
+    callId,
+    fromState: "unused",
+    toState: "consumed",
+    reason: "call_created",
+  });
+
   console.log(`[Credit] ✅ Consumed credit ${credit.id} for call ${callId} (method: ${credit.paymentMethod})`);
 
   return {
@@ -171,3 +180,56 @@ export async function consumeCredit(
   };
 }
 
+
+/**
+ * Append a credit state change to credit_events (audit trail)
+ */
+export async function recordCreditEvent(
+  db: ReturnType<typeof drizzle>,
+  event: typeof creditEvents.$inferInsert
+): Promise<void> {
+  await db.insert(creditEvents).values(event);
+}
+
+/**
+ * Restore the credit consumed by a call (internal use - call failed, was refunded or cancelled)
+ * The credit goes back to "unused" so the user can place another call.
+ * Returns false if the call has no consumed credit (already restored or never paid)
+ */
+export async function restoreCreditForCall(
+  db: ReturnType<typeof drizzle>,
+  callId: string,
+  reason: string,
+  metadata?: Record<string, unknown>
+): Promise<boolean> {
+  const restored = await db
+    .update(callCredits)
+    .set({
+      state: "unused",
+      callId: null,
+      consumedAt: null,
+    })
+    .where(
+      and(
+        eq(callCredits.callId, callId),
+        eq(callCredits.state, "consumed")
+      )
+    )
+    .returning({ id: callCredits.id });
+
+  if (restored.length === 0) {
+    return false;
+  }
+
+  await recordCreditEvent(db, {
+    creditId: restored[0].id,
+    callId,
+    fromState: "consumed",
+    toState: "unused",
+    reason,
+    metadata: metadata ?? null,
+  });
+
+  console.log(`[Credit] ↩️ Restored credit ${restored[0].id} from call ${callId} (${reason})`);
+  return true;
+}
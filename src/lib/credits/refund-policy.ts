@@ -0,0 +1,208 @@
+import { and, eq } from "drizzle-orm";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import Stripe from "stripe";
+import { env } from "~/env/server";
+import { user } from "~/lib/db/schema/auth.schema";
+import { calls } from "~/lib/db/schema/calls";
+import { callCredits } from "~/lib/db/schema/credits";
+import type { refundCategoryEnum, refundMethodEnum } from "~/lib/db/schema/enums";
+import { refunds } from "~/lib/db/schema/refunds";
+import { recordCreditEvent } from "~/lib/credits/functions";
+
+/**
+ * Refund policy - what a user gets back when a paid call doesn't deliver
+ *
+ * | Category       | Card payment     | Everything else    |
+ * |----------------|------------------|--------------------|
+ * | never_answered | replacement      | replacement        |
+ * | our_error      | Stripe refund    | replacement        |
+ * | too_short      | replacement      | replacement        |
+ *
+ * The original credit stays linked to the call (the refund row points at it).
+ * A failed Stripe refund falls back to a replacement credit so the user is
+ * never left with nothing.
+ */
+
+type Database = ReturnType<typeof drizzle>;
+type CallRecord = typeof calls.$inferSelect;
+type CreditRecord = typeof callCredits.$inferSelect;
+
+export type RefundCategory = (typeof refundCategoryEnum.enumValues)[number];
+export type RefundMethod = (typeof refundMethodEnum.enumValues)[number];
+
+export interface RefundResult {
+  refundId: string;
+  category: RefundCategory;
+  method: RefundMethod;
+}
+
+// Retry reasons that mean the dial never worked on our side (see scheduleRetry callers)
+const OUR_ERROR_RETRY_REASONS = new Set<string>(["dial_error", "processing_error", "retry_after_failed"]);
+
+/**
+ * Failure category for a call whose retries ran out, from the last retry reason
+ */
+export function refundCategoryForRetries(lastReason: string | undefined): RefundCategory {
+  return lastReason && OUR_ERROR_RETRY_REASONS.has(lastReason) ? "our_error" : "never_answered";
+}
+
+/**
+ * How a category is refunded for a given credit
+ */
+export function resolveRefundMethod(category: RefundCategory, credit: CreditRecord): RefundMethod {
+  const refundableCard = credit.paymentMethod === "credit_card" && !!credit.paymentRef && !!env.STRIPE_SECRET_KEY;
+  return category === "our_error" && refundableCard ? "stripe_refund" : "replacement_credit";
+}
+
+/**
+ * Refund a failed call according to the policy and email the user
+ * Returns null if the call had no consumed credit or was already refunded
+ */
+export async function applyRefundPolicy(
+  db: Database,
+  call: CallRecord,
+  options: { category: RefundCategory; reason: string },
+): Promise<RefundResult | null> {
+  const [credit] = await db
+    .select()
+    .from(callCredits)
+    .where(and(eq(callCredits.callId, call.id), eq(callCredits.state, "consumed")))
+    .limit(1);
+
+  if (!credit) {
+    console.log(`[Refund] No consumed credit for call ${call.id} (${options.reason}), nothing to refund`);
+    return null;
+  }
+
+  let method = resolveRefundMethod(options.category, credit);
+
+  // Claim the refund - a second report of the same failure stops here
+  const [refund] = await db
+    .insert(refunds)
+    .values({
+      userId: call.userId,
+      callId: call.id,
+      originalCreditId: credit.id,
+      category: options.category,
+      method,
+      reason: options.reason,
+      amountCents: credit.amountCents,
+    })
+    .onConflictDoNothing({ target: refunds.callId })
+    .returning();
+
+  if (!refund) {
+    console.log(`[Refund] Call ${call.id} already refunded`);
+    return null;
+  }
+
+  if (method === "stripe_refund") {
+    try {
+      const stripeRefundId = await refundStripePayment(credit, call.id);
+      await db
+        .update(callCredits)
+        .set({ state: "expired" })
+        .where(eq(callCredits.id, credit.id));
+      await recordCreditEvent(db, {
+        creditId: credit.id,
+        callId: call.id,
+        fromState: "consumed",
+        toState: "expired",
+        reason: "stripe_refund",
+        metadata: { refundId: refund.id, stripeRefundId },
+      });
+      await db.update(refunds).set({ stripeRefundId }).where(eq(refunds.id, refund.id));
+    } catch (error) {
+      console.error(`[Refund] ❌ Stripe refund failed for call ${call.id}, granting a replacement credit:`, error);
+      method = "replacement_credit";
+      await db.update(refunds).set({ method }).where(eq(refunds.id, refund.id));
+    }
+  }
+
+  if (method === "replacement_credit") {
+    const [replacement] = await db
+      .insert(callCredits)
+      .values({
+        userId: credit.userId,
+        state: "unused",
+        paymentMethod: credit.paymentMethod,
+        network: "refund",
+        amountCents: credit.amountCents,
+      })
+      .returning();
+    await recordCreditEvent(db, {
+      creditId: replacement.id,
+      callId: call.id,
+      fromState: null,
+      toState: "unused",
+      reason: "refund_replacement",
+      metadata: { refundId: refund.id, originalCreditId: credit.id },
+    });
+    await db.update(refunds).set({ replacementCreditId: replacement.id }).where(eq(refunds.id, refund.id));
+  }
+
+  console.log(`[Refund] 💸 Call ${call.id} refunded: ${options.category} → ${method} (${options.reason})`);
+
+  await notifyRefund(db, call, { category: options.category, method }).catch((error) => {
+    // Don't undo the refund if email fails
+    console.error(`[Refund] ❌ Failed to send refund email for call ${call.id}:`, error);
+  });
+
+  return { refundId: refund.id, category: options.category, method };
+}
+
+/**
+ * Refund the card payment behind a credit (paymentRef is the Checkout Session ID)
+ */
+async function refundStripePayment(credit: CreditRecord, callId: string): Promise<string> {
+  if (!env.STRIPE_SECRET_KEY || !credit.paymentRef) {
+    throw new Error("Stripe is not configured or the credit has no checkout session");
+  }
+
+  const stripe = new Stripe(env.STRIPE_SECRET_KEY);
+  const session = await stripe.checkout.sessions.retrieve(credit.paymentRef);
+  const paymentIntent = typeof session.payment_intent === "string"
+    ? session.payment_intent
+    : session.payment_intent?.id;
+  if (!paymentIntent) {
+    throw new Error(`Checkout session ${credit.paymentRef} has no payment intent`);
+  }
+
+  const stripeRefund = await stripe.refunds.create(
+    {
+      payment_intent: paymentIntent,
+      amount: credit.amountCents,
+      metadata: { callId, creditId: credit.id },
+    },
+    // Same call can't be refunded twice even if our own bookkeeping fails
+    { idempotencyKey: `call_refund_${callId}` },
+  );
+  return stripeRefund.id;
+}
+
+/**
+ * Email the call owner what they got back
+ */
+async function notifyRefund(
+  db: Database,
+  call: CallRecord,
+  refund: { category: RefundCategory; method: RefundMethod },
+): Promise<void> {
+  const [owner] = await db
+    .select({ email: user.email, name: user.name })
+    .from(user)
+    .where(eq(user.id, call.userId))
+    .limit(1);
+  if (!owner?.email) {
+    return;
+  }
+
+  const { sendRefundEmail } = await import("~/lib/email/resend");
+  await sendRefundEmail(owner.email, owner.name || "User", {
+    // Encrypted names aren't readable here
+    recipientName: call.fhenixEnabled ? null : call.recipientName,
+    category: refund.category,
+    method: refund.method,
+    dashboardUrl: `${env.VITE_BASE_URL}/your-calls`,
+  });
+}
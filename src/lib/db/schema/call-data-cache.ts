@@ -0,0 +1,17 @@
+import { index, jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+
+/**
+ * Call Data Cache - per-call session data for the ConversationRelay servers
+ *
+ * Written through the HMAC-authenticated POST /cache/call endpoint when a call
+ * is initiated, read by whichever relay instance receives the WebSocket setup.
+ * Rows expire after a TTL and are purged periodically by the relay servers.
+ */
+export const callDataCache = pgTable("call_data_cache", {
+  callSid: text("call_sid").primaryKey(), // Twilio Call SID
+  data: jsonb("data").notNull(), // CachedCallData (prompt, greeting, LLM settings, limits)
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("call_data_cache_expires_at_idx").on(table.expiresAt),
+]);
@@ -0,0 +1,25 @@
+import { index, jsonb, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { calls } from "./calls";
+import { callEventSourceEnum, callStatusEnum } from "./enums";
+
+/**
+ * Call Events - append-only log of every call status transition
+ *
+ * Written only by lib/calls/lifecycle.ts, in the same transaction as the
+ * status change. Rows are never updated or deleted; ordered by createdAt they
+ * form the call's timeline.
+ */
+export const callEvents = pgTable("call_events", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  callId: uuid("call_id")
+    .notNull()
+    .references(() => calls.id, { onDelete: "cascade" }),
+  fromStatus: callStatusEnum("from_status"), // Null for the creation event
+  toStatus: callStatusEnum("to_status").notNull(),
+  reason: text("reason").notNull(), // e.g. "prompts_ready", "twilio_no-answer", "outside_calling_hours"
+  source: callEventSourceEnum("source").notNull(),
+  metadata: jsonb("metadata"), // Transition details (retry time, Twilio SID, error)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("call_events_call_id_idx").on(table.callId),
+]);
@@ -0,0 +1,40 @@
+import {
+  boolean,
+  index,
+  integer,
+  pgTable,
+  real,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { calls } from "./calls";
+import { transcriptRoleEnum } from "./enums";
+
+/**
+ * Call Transcripts - one row per conversation turn from a ConversationRelay session
+ *
+ * Written by the WebSocket server (server-ws.ts) as each turn happens, so the live
+ * view can pick up a call mid-way, and rewritten when the session closes, after
+ * interrupt truncation has been applied, so content reflects what was actually spoken.
+ */
+export const callTranscripts = pgTable("call_transcripts", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  // Nullable: a session can outlive (or precede) its call record lookup
+  callId: uuid("call_id").references(() => calls.id, { onDelete: "cascade" }),
+  callSid: text("call_sid").notNull(), // Twilio Call SID
+  sessionId: text("session_id").notNull(), // ConversationRelay session ID
+  turnIndex: integer("turn_index").notNull(), // Order within the session (0-based)
+  role: transcriptRoleEnum("role").notNull(),
+  content: text("content").notNull(),
+  wasInterrupted: boolean("was_interrupted").notNull().default(false),
+  interruptedAt: text("interrupted_at"), // Utterance heard before the interrupt
+  confidence: real("confidence"), // STT confidence (user turns only)
+  spokenAt: timestamp("spoken_at").notNull(), // When the turn happened on the call
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("call_transcripts_call_id_idx").on(table.callId),
+  index("call_transcripts_call_sid_idx").on(table.callSid),
+  uniqueIndex("call_transcripts_session_turn_idx").on(table.sessionId, table.turnIndex), // Upsert target
+]);
@@ -2,6 +2,7 @@ import {
   boolean,
   integer,
   pgTable,
+  real,
   text,
   timestamp,
   uuid,
@@ -23,6 +24,13 @@ export const callers = pgTable("callers", {
   webOptimizedImageUrl: text("web_optimized_image_url"),
   webOptimizedImageS3Key: text("web_optimized_image_s3_key"),
   appearanceDescription: text("appearance_description").notNull(),
+  // Live-call LLM overrides (null = use LLM_PROVIDER / LLM_MODEL defaults)
+  llmProvider: text("llm_provider"), // "openai", "groq", "near", "local"
+  llmModel: text("llm_model"),
+  llmTemperature: real("llm_temperature"),
+  llmMaxTokens: integer("llm_max_tokens"),
+  // Spoken after the relay session ends without a persona goodbye (null = default)
+  goodbyeMessage: text("goodbye_message"),
   isActive: boolean("is_active").notNull().default(true),
   displayOrder: integer("display_order").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -1,22 +1,26 @@
 import {
   boolean,
   integer,
+  jsonb,
   pgTable,
   text,
   timestamp,
   uuid,
   decimal,
 } from "drizzle-orm/pg-core";
+import type { EndCallHandoff } from "../../conversation-relay/tools";
+import type { PromptVariables } from "../../prompts/template";
 import { user } from "./auth.schema";
 import { callers } from "./callers";
-import { callStatusEnum, paymentMethodEnum, videoStatusEnum } from "./enums";
+import { promptTemplates } from "./prompt-templates";
+import { callStatusEnum, paymentMethodEnum, videoStatusEnum, voicemailModeEnum } from "./enums";
 
 export const calls = pgTable("calls", {
   id: uuid("id").defaultRandom().primaryKey(),
   userId: text("user_id")
     .notNull()
     .references(() => user.id, { onDelete: "cascade" }),
-  status: callStatusEnum("status").notNull().default("call_created"),
+  status: callStatusEnum("status").notNull().default("created"),
   recipientName: text("recipient_name").notNull(), // Plaintext name OR encrypted name JSON if fhenixEnabled
   // Caller selection
   callerId: uuid("caller_id").references(() => callers.id), // Selected caller (nullable for backward compatibility)
@@ -38,14 +42,34 @@ export const calls = pgTable("calls", {
   // Generated prompts
   openaiPrompt: text("openai_prompt"), // Generated OpenAI call instructions
   welcomeGreeting: text("welcome_greeting"), // Opening line for the call
+  voicemailMessage: text("voicemail_message"), // Left on an answering machine (voicemailMode "leave_message")
   imagePrompt: text("image_prompt"), // Generated image generation prompt
   script: text("script"), // Generated by OpenAI
+  // Prompt registry version that generated the prompts above (null id = built-in, version 0)
+  promptTemplateId: uuid("prompt_template_id").references(() => promptTemplates.id, { onDelete: "set null" }),
+  promptTemplateVersion: integer("prompt_template_version"),
+  promptVariables: jsonb("prompt_variables").$type<PromptVariables>(), // Inputs the template was rendered with
+  promptProvider: text("prompt_provider"), // Who wrote the script: groq, openai, near or template (prompts/prompt-providers.ts)
+  scenarioSummary: text("scenario_summary"), // Plain-language scenario shown to the requester for review
+  // Script review (requester opted in): the call stays "created" until approved or this passes
+  scriptReviewDeadline: timestamp("script_review_deadline"),
+  scriptRegenerations: integer("script_regenerations").notNull().default(0),
+  // Live-call limits (null = env/default, see conversation-relay/call-limits.ts)
+  maxDurationSeconds: integer("max_duration_seconds"), // Hard talk-time limit
+  silenceNudgeSeconds: integer("silence_nudge_seconds"), // Silence before the persona nudges
+  silenceTimeoutSeconds: integer("silence_timeout_seconds"), // Silence before the call is wrapped up
+  // Requester-supplied IANA zone - overrides the area-code lookup for calling hours
+  recipientTimezone: text("recipient_timezone"),
+  recipientCountry: text("recipient_country"), // ISO 3166-1 alpha-2, selects calling rules (see calls/country-rules.ts)
   attempts: integer("attempts").notNull().default(0),
   maxAttempts: integer("max_attempts").notNull().default(3),
   firstAttemptAt: timestamp("first_attempt_at"), // When first call was attempted
   lastAttemptAt: timestamp("last_attempt_at"), // When last call was attempted
   daysSinceFirstAttempt: integer("days_since_first_attempt").default(0), // Days since first attempt
   nextRetryAt: timestamp("next_retry_at"), // When to attempt next call
+  scheduledFor: timestamp("scheduled_for"), // Requester-chosen delivery time (null = as soon as possible)
+  // What to do when answering-machine detection says a machine picked up
+  voicemailMode: voicemailModeEnum("voicemail_mode").notNull().default("hang_up"),
   isFree: boolean("is_free").notNull().default(false),
   paymentMethod: paymentMethodEnum("payment_method").notNull(),
   paymentTxHash: text("payment_tx_hash"),
@@ -55,14 +79,30 @@ export const calls = pgTable("calls", {
   fhenixEnabled: boolean("fhenix_enabled").notNull().default(false), // Whether FHE encryption is used
   fhenixVaultId: text("fhenix_vault_id"), // bytes32 callId in PIIVault contract on Base
   callSid: text("call_sid"), // Twilio Call SID for webhook mapping
+  fromNumber: text("from_number"), // Caller ID the latest attempt was placed from
+  // Pool number behind fromNumber (null when TWILIO_PHONE_NUMBER was the fallback)
+  outboundNumberId: uuid("outbound_number_id"),
+  answeredBy: text("answered_by"), // Twilio AMD result: "human", "machine_end_beep", "fax", "unknown", ...
   recordingUrl: text("recording_url"), // Twilio recording URL
   recordingSid: text("recording_sid"), // Twilio recording SID
+  // All-party consent audit (see calls/recording-consent.ts) - null where none was needed
+  recordingJurisdiction: text("recording_jurisdiction"), // "US-CA", "GB", ...
+  recordingDisclosure: text("recording_disclosure"), // What the opening line said about the recording
   duration: integer("duration"), // seconds
   videoUrl: text("video_url"), // S3 video URL (may be expired presigned URL)
   videoS3Key: text("video_s3_key"), // S3 object key for generating fresh URLs
   videoStatus: videoStatusEnum("video_status").default("pending"),
   wavespeedJobId: text("wavespeed_job_id"), // WavespeedAI job IDs (comma-separated)
   videoErrorMessage: text("video_error_message"),
+  // ConversationRelay session outcome (conversation-relay-complete webhook)
+  relaySessionId: text("relay_session_id"),
+  relaySessionStatus: text("relay_session_status"), // "ended", "completed", "failed"
+  relaySessionDuration: integer("relay_session_duration"), // seconds
+  relayErrorCode: text("relay_error_code"),
+  relayErrorMessage: text("relay_error_message"),
+  endReason: text("end_reason"), // From HandoffData, e.g. "recipient_asked_to_stop", "max_duration"
+  endedBy: text("ended_by"), // "persona", "recipient", "system" (null = hung up / relay ended)
+  handoffData: jsonb("handoff_data").$type<EndCallHandoff>(), // Raw structured HandoffData from the relay server
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at")
     .defaultNow()
@@ -0,0 +1,25 @@
+import { index, jsonb, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { calls } from "./calls";
+import { callCredits } from "./credits";
+import { creditStateEnum } from "./enums";
+
+/**
+ * Credit Events - append-only audit trail of call_credits state changes
+ *
+ * call_credits.callId is cleared when a credit is restored, so this log is
+ * the only record of which calls a credit paid for and why it came back.
+ */
+export const creditEvents = pgTable("credit_events", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  creditId: uuid("credit_id")
+    .notNull()
+    .references(() => callCredits.id, { onDelete: "cascade" }),
+  callId: uuid("call_id").references(() => calls.id, { onDelete: "set null" }),
+  fromState: creditStateEnum("from_state"), // Null when the credit was created in this state
+  toState: creditStateEnum("to_state").notNull(),
+  reason: text("reason").notNull(), // e.g. "call_created", "cancelled_by_requester", "relay_refund"
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("credit_events_credit_id_idx").on(table.creditId),
+]);
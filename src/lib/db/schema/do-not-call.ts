@@ -0,0 +1,46 @@
+import { index, integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { doNotCallSourceEnum } from "./enums";
+
+/**
+ * Do-Not-Call list - numbers that must never be called by this service again
+ *
+ * Permanent: entries are never expired. Stores only a SHA-256 hash of the
+ * normalized E.164 number (same privacy model as call_analytics).
+ */
+export const doNotCall = pgTable("do_not_call", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  phoneNumberHash: text("phone_number_hash").notNull().unique(),
+  source: doNotCallSourceEnum("source").notNull(),
+  callSid: text("call_sid"), // Call during which the opt-out happened (if any)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Opt-out verifications - one-time SMS codes for the public /opt-out page
+ *
+ * Same hashing as do_not_call: only the number's hash and the code's hash are
+ * stored. One pending row per number; requesting a new code replaces it.
+ */
+export const optOutVerifications = pgTable("opt_out_verifications", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  phoneNumberHash: text("phone_number_hash").notNull().unique(),
+  codeHash: text("code_hash").notNull(),
+  attempts: integer("attempts").notNull().default(0), // Codes tried, claimed before each comparison
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Opt-out code sends - one row per text the /opt-out page sent
+ *
+ * The page is public, so requestOptOutCode caps texts per requester and in
+ * total over a rolling window (see lib/opt-out/functions.ts). Only a hash of
+ * the requester's IP is stored; rows past the window are pruned on each send.
+ */
+export const optOutCodeSends = pgTable("opt_out_code_sends", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  requesterIpHash: text("requester_ip_hash"), // Null when the request had no IP
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("opt_out_code_sends_created_idx").on(table.createdAt),
+]);
@@ -1,11 +1,25 @@
 import { pgEnum } from "drizzle-orm/pg-core";
 
+// Transitions between these are owned by lib/calls/lifecycle.ts
 export const callStatusEnum = pgEnum("call_status", [
-  "call_created",
-  "prompt_ready",
-  "call_attempted",
-  "call_complete",
-  "call_failed",
+  "created",     // Waiting for prompts
+  "scheduled",   // Prompts ready, waiting for a dial slot (first attempt or retry)
+  "dialing",     // Twilio call placed
+  "ringing",
+  "in_progress", // Answered
+  "no_answer",
+  "busy",
+  "voicemail",   // Reached a machine - no video is generated
+  "completed",
+  "failed",
+  "cancelled",
+]);
+
+export const callEventSourceEnum = pgEnum("call_event_source", [
+  "api",    // Call creation and user actions
+  "worker", // pg-boss call processor
+  "twilio", // Twilio status callbacks
+  "relay",  // ConversationRelay session outcome
 ]);
 
 export const paymentMethodEnum = pgEnum("payment_method", [
@@ -30,3 +44,42 @@ export const videoStatusEnum = pgEnum("video_status", [
   "failed",
 ]);
 
+
+export const transcriptRoleEnum = pgEnum("transcript_role", [
+  "user",      // Recipient speech (Deepgram STT via ConversationRelay)
+  "assistant", // Caller persona response (LLM)
+]);
+
+export const doNotCallSourceEnum = pgEnum("do_not_call_source", [
+  "dtmf", // Recipient pressed the opt-out key during a call
+  "persona", // Persona ended the call because the recipient asked to stop
+  "opt_out_page", // Recipient verified their number on the public /opt-out page
+]);
+
+export const refundCategoryEnum = pgEnum("refund_category", [
+  "never_answered", // Retries used up without the recipient picking up (or it wasn't them)
+  "our_error", // Missing prompt, dial error, relay failure
+  "too_short", // Call connected but too short to make a video
+]);
+
+export const refundMethodEnum = pgEnum("refund_method", [
+  "replacement_credit", // New unused credit for another call
+  "stripe_refund", // Card payment refunded through Stripe
+]);
+
+export const voicemailModeEnum = pgEnum("voicemail_mode", [
+  "hang_up", // Hang up on an answering machine and retry later (counts as no answer)
+  "leave_message", // Leave the persona's short voicemail message
+]);
+
+export const moderationStageEnum = pgEnum("moderation_stage", [
+  "request", // Requester's free-text call details (form, createCall, Stripe webhook)
+  "generated_script", // systemPrompt / welcomeGreeting / voicemailMessage from prompt generation
+  "script_edit", // Script review feedback or an edited opening line
+]);
+
+export const moderationReviewStatusEnum = pgEnum("moderation_review_status", [
+  "pending", // Blocked automatically, nobody has looked yet
+  "upheld", // A reviewer agreed with the block
+  "overturned", // A reviewer found it harmless (false positive - tune the rules)
+]);
@@ -4,3 +4,12 @@ export * from "./calls";
 export * from "./callers";
 export * from "./call-analytics";
 export * from "./credits";
+export * from "./credit-events";
+export * from "./refunds";
+export * from "./call-transcripts";
+export * from "./call-events";
+export * from "./do-not-call";
+export * from "./outbound-numbers";
+export * from "./prompt-templates";
+export * from "./moderation";
+export * from "./call-data-cache";
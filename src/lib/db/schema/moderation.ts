@@ -0,0 +1,28 @@
+import { jsonb, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { user } from "./auth.schema";
+import { calls } from "./calls";
+import { moderationReviewStatusEnum, moderationStageEnum } from "./enums";
+
+/**
+ * Moderation reviews - every request or script that moderation blocked
+ *
+ * The review queue for humans (scripts/moderation-queue.ts): a block takes
+ * effect immediately, the review only records whether it was right so the
+ * rules and classifier can be tuned. callId is null when the block happened
+ * before the call row existed.
+ */
+export const moderationReviews = pgTable("moderation_reviews", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  callId: uuid("call_id").references(() => calls.id, { onDelete: "set null" }),
+  stage: moderationStageEnum("stage").notNull(),
+  content: jsonb("content").notNull(), // The fields that were checked, as submitted
+  flags: jsonb("flags").notNull(), // ModerationFlag[] (field, category, source)
+  classifier: text("classifier").notNull(), // "rules", or the classifier that ran alongside them
+  status: moderationReviewStatusEnum("status").notNull().default("pending"),
+  reviewNotes: text("review_notes"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -0,0 +1,49 @@
+import { boolean, index, integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { calls } from "./calls";
+
+/**
+ * Outbound Numbers - the caller-ID pool calls are placed from
+ *
+ * Selection prefers a number local to the recipient (see
+ * lib/twilio/caller-id-pool.ts). Counters are updated from call-status
+ * outcomes; a number in cool-down is skipped until cooldownUntil passes.
+ * TWILIO_PHONE_NUMBER is only the fallback when the pool has nothing eligible.
+ */
+export const outboundNumbers = pgTable("outbound_numbers", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  phoneNumber: text("phone_number").notNull().unique(), // E.164, must be a Twilio number on the account
+  country: text("country").notNull(), // ISO 3166-1 alpha-2
+  areaCode: text("area_code"), // NANP only - null elsewhere
+  active: boolean("active").notNull().default(true), // False = retired, never selected
+  callsPlaced: integer("calls_placed").notNull().default(0),
+  callsAnswered: integer("calls_answered").notNull().default(0), // A person picked up
+  callsUnanswered: integer("calls_unanswered").notNull().default(0), // No answer, busy or answering machine
+  consecutiveUnanswered: integer("consecutive_unanswered").notNull().default(0), // Reset by an answer
+  spamFlags: integer("spam_flags").notNull().default(0), // Carrier rejections (SIP 603/607/608)
+  lastSpamFlagAt: timestamp("last_spam_flag_at"),
+  cooldownUntil: timestamp("cooldown_until"), // Not selected before this
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+/**
+ * Outbound Number Uses - which pool number dialed which recipient, per attempt
+ *
+ * Keyed on the recipient's phone hash (same privacy model as do_not_call),
+ * so the pool can avoid showing one recipient the same number twice within
+ * the reuse window.
+ */
+export const outboundNumberUses = pgTable("outbound_number_uses", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  outboundNumberId: uuid("outbound_number_id")
+    .notNull()
+    .references(() => outboundNumbers.id, { onDelete: "cascade" }),
+  callId: uuid("call_id")
+    .notNull()
+    .references(() => calls.id, { onDelete: "cascade" }),
+  recipientHash: text("recipient_hash").notNull(),
+  callSid: text("call_sid"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("outbound_number_uses_recipient_idx").on(table.recipientHash, table.createdAt),
+]);
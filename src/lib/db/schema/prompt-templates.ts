@@ -0,0 +1,23 @@
+import { boolean, integer, pgTable, text, timestamp, unique, uuid } from "drizzle-orm/pg-core";
+
+/**
+ * Prompt Templates - versioned prompts for LLM generation, editable without a deploy
+ *
+ * One row per version of a named template (e.g. "call_prompts"). Versions are
+ * never edited once published - change a prompt by publishing a new version.
+ * Every active version with weight > 0 takes a share of traffic proportional
+ * to its weight, which is how A/B experiments run (see lib/prompts/registry.ts).
+ */
+export const promptTemplates = pgTable("prompt_templates", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: text("name").notNull(),
+  version: integer("version").notNull(), // 1, 2, 3... per name (0 is the built-in template in code)
+  systemTemplate: text("system_template").notNull(),
+  userTemplate: text("user_template").notNull(),
+  weight: integer("weight").notNull().default(0), // Relative traffic share; 0 = not served
+  active: boolean("active").notNull().default(true),
+  notes: text("notes"), // What changed / what the experiment tests
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.name, table.version),
+]);
@@ -0,0 +1,33 @@
+import { integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { user } from "./auth.schema";
+import { calls } from "./calls";
+import { callCredits } from "./credits";
+import { refundCategoryEnum, refundMethodEnum } from "./enums";
+
+/**
+ * Refunds - one row per call the refund policy paid back
+ *
+ * Written by lib/credits/refund-policy.ts. The unique callId makes the policy
+ * idempotent: webhooks and workers can all report the same failure.
+ */
+export const refunds = pgTable("refunds", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id")
+    .notNull()
+    .references(() => user.id, { onDelete: "cascade" }),
+  callId: uuid("call_id")
+    .notNull()
+    .unique()
+    .references(() => calls.id, { onDelete: "cascade" }),
+  // Credit that paid for the call (stays "consumed", or "expired" once refunded through Stripe)
+  originalCreditId: uuid("original_credit_id")
+    .notNull()
+    .references(() => callCredits.id, { onDelete: "cascade" }),
+  category: refundCategoryEnum("category").notNull(),
+  method: refundMethodEnum("method").notNull(),
+  reason: text("reason").notNull(), // Failure that triggered it, e.g. "retries_exhausted", "missing_prompt"
+  amountCents: integer("amount_cents").notNull(),
+  replacementCreditId: uuid("replacement_credit_id").references(() => callCredits.id, { onDelete: "set null" }),
+  stripeRefundId: text("stripe_refund_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
@@ -168,3 +168,95 @@ export async function sendVideoReadyEmail(
   });
 }
 
+
+export interface RefundEmailDetails {
+  recipientName: string | null; // Null when the name is encrypted
+  category: "never_answered" | "our_error" | "too_short";
+  method: "replacement_credit" | "stripe_refund";
+  dashboardUrl: string;
+}
+
+// What happened, in the same lowercase voice as the rest of the emails
+const REFUND_CATEGORY_COPY: Record<RefundEmailDetails["category"], string> = {
+  never_answered: "we tried several times over a few days, but the call never got through",
+  our_error: "something went wrong on our side and the call couldn't be completed",
+  too_short: "the call connected, but it was too short for us to make a video from it",
+};
+
+/**
+ * Send refund notification email (replacement credit or card refund)
+ * Same layout and spam-filter rules as sendVideoReadyEmail
+ */
+export async function sendRefundEmail(
+  userEmail: string,
+  userName: string,
+  details: RefundEmailDetails,
+): Promise<void> {
+  const firstName = userName.split(" ")[0] || "there";
+  const callLabel = details.recipientName ? `your call to ${details.recipientName}` : "your call";
+  const outcome = details.method === "stripe_refund"
+    ? "we've refunded your card. it can take 5-10 business days to show up on your statement."
+    : "we've added a call credit to your account, so you can place another call at no cost.";
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>about ${callLabel}</title>
+      </head>
+      <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #1a1a1a; margin: 0; padding: 0; background-color: #ffffff;">
+        <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #ffffff;">
+          <tr>
+            <td align="center" style="padding: 40px 20px 30px;">
+              <a href="${env.VITE_BASE_URL}" style="text-decoration: none; display: inline-block;">
+                <h1 style="font-size: 24px; font-weight: 700; color: #03301D; margin: 0; letter-spacing: -0.5px;">aicall.tv</h1>
+              </a>
+            </td>
+          </tr>
+          <tr>
+            <td align="center" style="padding: 0 20px;">
+              <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 560px; margin: 0 auto; background-color: #ffffff;">
+                <tr>
+                  <td style="padding: 0 0 30px;">
+                    <h1 style="font-size: 28px; font-weight: 600; color: #03301D; margin: 0 0 20px 0; line-height: 1.3; text-transform: lowercase;">about ${callLabel}</h1>
+                    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">hi ${firstName},</p>
+                    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">${REFUND_CATEGORY_COPY[details.category]}.</p>
+                    <p style="margin: 0 0 30px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">${outcome}</p>
+                  </td>
+                </tr>
+                <tr>
+                  <td style="padding: 0 0 40px;">
+                    <p style="margin: 0; color: #4a4a4a; font-size: 16px;">
+                      <a href="${details.dashboardUrl}" style="color: #03301D; text-decoration: underline; font-weight: 500; text-transform: lowercase;">view in dashboard</a>
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+          <tr>
+            <td align="center" style="padding: 30px 20px; border-top: 1px solid #e5e5e5;">
+              <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 560px; margin: 0 auto;">
+                <tr>
+                  <td style="padding: 0;">
+                    <p style="margin: 0; color: #8a8a8a; font-size: 13px; text-transform: lowercase;">
+                      <a href="${env.VITE_BASE_URL}" style="color: #03301D; text-decoration: none; font-weight: 500;">aicall.tv</a>
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </body>
+    </html>
+  `;
+
+  await sendEmail({
+    to: userEmail,
+    subject: `about ${callLabel}`,
+    html,
+  });
+}
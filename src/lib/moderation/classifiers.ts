@@ -0,0 +1,155 @@
+import { env } from "~/env/server";
+import { MODERATION_CATEGORIES } from "./rules";
+import type { ModeratedFields, ModerationCategory, ModerationFlag } from "./rules";
+
+/**
+ * Moderation classifiers - a remote model that runs alongside the local rules
+ *
+ * Chosen with MODERATION_CLASSIFIER. Add one by implementing
+ * ModerationClassifier and registering a factory in CLASSIFIERS; moderate.ts
+ * falls back to the rules alone if it isn't configured, times out or errors.
+ */
+
+export interface ModerationClassifier {
+  name: string;
+  classify(fields: ModeratedFields): Promise<ModerationFlag[]>;
+}
+
+export type ModerationClassifierName = NonNullable<typeof env.MODERATION_CLASSIFIER>;
+
+const CLASSIFIER_TIMEOUT_MS = 8000;
+
+// OpenAI moderation categories that map onto ours (scams and impersonation
+// aren't covered there - the rules handle those)
+const OPENAI_CATEGORY_MAP: Record<string, ModerationCategory> = {
+  "harassment/threatening": "threat",
+  "illicit/violent": "threat",
+  hate: "hate",
+  "hate/threatening": "hate",
+};
+
+function nonEmptyFields(fields: ModeratedFields): [string, string][] {
+  return Object.entries(fields).filter((entry): entry is [string, string] => !!entry[1]?.trim());
+}
+
+/**
+ * OpenAI moderation endpoint (one result per field)
+ */
+function createOpenAIClassifier(apiKey: string): ModerationClassifier {
+  return {
+    name: "openai",
+    async classify(fields) {
+      const entries = nonEmptyFields(fields);
+      if (entries.length === 0) return [];
+
+      const response = await fetch("https://api.openai.com/v1/moderations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: "omni-moderation-latest",
+          input: entries.map(([, value]) => value),
+        }),
+        signal: AbortSignal.timeout(CLASSIFIER_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`OpenAI moderation error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as { results: { categories: Record<string, boolean> }[] };
+      return data.results.flatMap((result, index) => {
+        const categories = new Set(
+          Object.entries(result.categories)
+            .filter(([name, flagged]) => flagged && OPENAI_CATEGORY_MAP[name])
+            .map(([name]) => OPENAI_CATEGORY_MAP[name]),
+        );
+        return [...categories].map((category) => ({ field: entries[index][0], category, source: "openai" }));
+      });
+    },
+  };
+}
+
+const GROQ_MODERATION_PROMPT = `You review requests for a comedy prank-call service before a call is placed.
+
+Flag a field only if it asks for, or contains, one of these:
+- threat: threatening violence or harm against anyone
+- hate: attacking people for race, religion, ethnicity, nationality, gender, sexuality or disability
+- medical_scam: fake medical news (test results, diagnoses) or selling cures
+- financial_scam: getting money, card numbers, passwords, account or verification codes
+- impersonation: posing as police, a bank, a government agency or emergency services
+
+Harmless teasing, absurd scenarios, insults about hobbies or sports teams, and a
+target who works as a police officer or banker are all fine.
+
+Fields are given as JSON. Reply with JSON only:
+{"flags": [{"field": "<field name>", "category": "<category>"}]}
+Use {"flags": []} when nothing applies.`;
+
+/**
+ * Groq-hosted LLM prompted with our categories (covers scams and impersonation too)
+ */
+function createGroqClassifier(apiKey: string): ModerationClassifier {
+  return {
+    name: "groq",
+    async classify(fields) {
+      const entries = nonEmptyFields(fields);
+      if (entries.length === 0) return [];
+
+      const response = await fetch("https://api.groq.com/openai/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: "meta-llama/llama-4-scout-17b-16e-instruct",
+          messages: [
+            { role: "system", content: GROQ_MODERATION_PROMPT },
+            { role: "user", content: JSON.stringify(Object.fromEntries(entries)) },
+          ],
+          temperature: 0,
+          response_format: { type: "json_object" },
+        }),
+        signal: AbortSignal.timeout(CLASSIFIER_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Groq moderation error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error("Groq moderation returned no content");
+      }
+
+      // Ignore anything outside our fields and categories
+      const parsed = JSON.parse(content) as { flags?: { field?: string; category?: string }[] };
+      return (parsed.flags ?? []).flatMap((flag) =>
+        flag.field && flag.field in fields && MODERATION_CATEGORIES.includes(flag.category as ModerationCategory)
+          ? [{ field: flag.field, category: flag.category as ModerationCategory, source: "groq" }]
+          : [],
+      );
+    },
+  };
+}
+
+const CLASSIFIERS: Record<ModerationClassifierName, () => ModerationClassifier | null> = {
+  openai: () => (env.OPENAI_API_KEY ? createOpenAIClassifier(env.OPENAI_API_KEY) : null),
+  groq: () => (env.GROQ_API_KEY ? createGroqClassifier(env.GROQ_API_KEY) : null),
+};
+
+/**
+ * The configured classifier, or null for rules only (unset, or its API key is missing)
+ */
+export function getModerationClassifier(): ModerationClassifier | null {
+  if (!env.MODERATION_CLASSIFIER) {
+    return null;
+  }
+  const classifier = CLASSIFIERS[env.MODERATION_CLASSIFIER]();
+  if (!classifier) {
+    console.warn(`[Moderation] ⚠️ MODERATION_CLASSIFIER=${env.MODERATION_CLASSIFIER} but its API key is missing - using rules only`);
+  }
+  return classifier;
+}
@@ -0,0 +1,89 @@
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { moderationReviews } from "~/lib/db/schema/moderation";
+import type { moderationStageEnum } from "~/lib/db/schema/enums";
+import { getModerationClassifier } from "./classifiers";
+import { describeModerationFlags, moderateWithRules } from "./rules";
+import type { ModeratedFields, ModerationFlag } from "./rules";
+
+/**
+ * Moderation - screens call requests and generated scripts before anything is dialed
+ *
+ * The local rules always run; the configured classifier (classifiers.ts) adds
+ * its flags on top. Anything flagged is blocked and kept in
+ * moderation_reviews for a human to look at.
+ */
+
+type Database = ReturnType<typeof drizzle>;
+
+export type ModerationStage = (typeof moderationStageEnum.enumValues)[number];
+
+export interface ModerationResult {
+  allowed: boolean;
+  flags: ModerationFlag[];
+  classifier: string; // What ran: "rules", or the classifier's name
+  message: string | null; // Explanation for the requester when blocked
+}
+
+// Prefixes for the requester-facing explanation
+const STAGE_MESSAGES: Record<ModerationStage, string> = {
+  request: "We can't place this call.",
+  generated_script: "The generated script didn't pass our content rules - try changing the call details.",
+  script_edit: "We can't use that change.",
+};
+
+/**
+ * Check free text against the rules and the classifier (no side effects)
+ */
+export async function moderateContent(fields: ModeratedFields): Promise<ModerationResult> {
+  const flags = moderateWithRules(fields);
+  let classifierName = "rules";
+
+  const classifier = getModerationClassifier();
+  if (classifier) {
+    try {
+      flags.push(...await classifier.classify(fields));
+      classifierName = classifier.name;
+    } catch (error) {
+      console.warn(`[Moderation] ⚠️ ${classifier.name} classifier failed, using rules only:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Rules and classifier often agree - one flag per field and category
+  const unique = flags.filter((flag, index) =>
+    flags.findIndex((other) => other.field === flag.field && other.category === flag.category) === index,
+  );
+
+  return {
+    allowed: unique.length === 0,
+    flags: unique,
+    classifier: classifierName,
+    message: unique.length > 0 ? describeModerationFlags(unique) : null,
+  };
+}
+
+/**
+ * Moderate one stage of a call and put it in the review queue when blocked
+ * The result's message is ready to show the requester
+ */
+export async function moderateCallContent(
+  db: Database,
+  options: { userId: string; stage: ModerationStage; fields: ModeratedFields; callId?: string | null },
+): Promise<ModerationResult> {
+  const result = await moderateContent(options.fields);
+  if (result.allowed) {
+    return result;
+  }
+
+  await db.insert(moderationReviews).values({
+    userId: options.userId,
+    callId: options.callId ?? null,
+    stage: options.stage,
+    content: options.fields,
+    flags: result.flags,
+    classifier: result.classifier,
+  });
+
+  const categories = [...new Set(result.flags.map((flag) => flag.category))].join(", ");
+  console.log(`[Moderation] 🚫 Blocked ${options.stage} for user ${options.userId} (${categories}, ${result.classifier})`);
+  return { ...result, message: `${STAGE_MESSAGES[options.stage]} ${result.message}` };
+}
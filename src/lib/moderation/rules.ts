@@ -0,0 +1,145 @@
+/**
+ * Local moderation rules - what a call request or script may never contain
+ *
+ * Pattern rules for the categories we refuse outright. They run everywhere
+ * (form validation in the browser, createCall, the Stripe webhook) and are the
+ * fallback when no classifier is configured or it fails (see moderate.ts).
+ * They aim at the request's intent ("pretend to be from his bank"), not at
+ * words alone - a target whose profession is "police officer" is fine.
+ */
+
+export const MODERATION_CATEGORIES = [
+  "threat",
+  "hate",
+  "medical_scam",
+  "financial_scam",
+  "impersonation",
+] as const;
+export type ModerationCategory = (typeof MODERATION_CATEGORIES)[number];
+
+// Free text checked per field, e.g. { ragebaitTrigger: "...", welcomeGreeting: "..." }
+export type ModeratedFields = Record<string, string | null | undefined>;
+
+export interface ModerationFlag {
+  field: string;
+  category: ModerationCategory;
+  source: string; // "rules" or the classifier's name
+}
+
+// Shown to the requester - says what isn't allowed, not which pattern matched
+export const MODERATION_CATEGORY_MESSAGES: Record<ModerationCategory, string> = {
+  threat: "Threats of violence or harm aren't allowed - calls have to stay harmless.",
+  hate: "Attacking someone for their race, religion, ethnicity, nationality, gender, sexuality or disability isn't allowed.",
+  medical_scam: "Fake medical news (test results, diagnoses, cures) isn't allowed - it causes real panic.",
+  financial_scam: "Asking for money, card numbers, passwords or account codes isn't allowed.",
+  impersonation: "Posing as the police, a bank, a government agency or emergency services isn't allowed.",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  recipientName: "Recipient name",
+  targetGenderCustom: "Gender",
+  targetPhysicalDescription: "Physical description",
+  targetCity: "City",
+  targetHobby: "Hobby",
+  targetProfession: "Profession",
+  interestingPiece: "Secret",
+  ragebaitTrigger: "Ragebait trigger",
+  systemPrompt: "Generated script",
+  welcomeGreeting: "Opening line",
+  voicemailMessage: "Voicemail message",
+  feedback: "Feedback",
+};
+
+const PROTECTED_GROUPS = String.raw`(?:(?:black|white|brown|asian|jewish|gay|trans|disabled) (?:people|folks|guys|men|women|kids)|jews|muslims?|christians|hindus|sikhs|mexicans|latinos|hispanics|arabs|immigrants|gays|lesbians|queers|transgenders?|retards?|women)`;
+const AUTHORITIES = String.raw`(?:police|cops?|officer|detective|sheriff|deputy|fbi|cia|dea|ice|irs|hmrc|dhs|homeland security|secret service|social security(?: administration)?|government|tax (?:office|agency)|immigration|customs|court|judge|federal agent|911|emergency services|paramedics?|fire department|(?:his|her|their|your|the) bank|bank(?:'s)? (?:fraud|security)(?: department| team)?|fraud department|chase|wells fargo|bank of america|citibank|paypal|visa|mastercard)`;
+const SECRETS = String.raw`(?:credit card|debit card|card number|cvv|cvc|security code|bank account|account number|routing number|sort code|social security(?: number)?|ssn|pin(?: number| code)?|password|passcode|login|one[- ]time (?:code|password)|verification code|2fa code|seed phrase|recovery phrase)`;
+
+const CATEGORY_RULES: Record<ModerationCategory, RegExp[]> = {
+  threat: [
+    // First person only - "his wife will kill him" is an idiom, "we're going to hurt him" isn't
+    /\b(?:i|we|i'm|we're|i'll|we'll|i've|we've)\b[^.!?]{0,20}\b(?:kill|murder|shoot|stab|strangle|hurt|beat up|kidnap|rape|torture|burn down|come for)\s+(?:you|him|her|them|your|his|her|their)\b/i,
+    /\bthreaten(?:ing)?\b[^.!?]{0,20}\b(?:kill|murder|shoot|stab|hurt|kidnap|rape)\b/i,
+    /\b(?:i|we) know where (?:you|he|she|they) (?:live|work|sleep)s?\b/i,
+    /\b(?:bomb|death|murder) threat\b/i,
+    /\b(?:there(?:'s| is) a bomb|planted a bomb|watching (?:you|your house|your kids))\b/i,
+  ],
+  hate: [
+    new RegExp(String.raw`\b(?:hate|kill|deport|get rid of) (?:all )?(?:the )?${PROTECTED_GROUPS}\b`, "i"),
+    new RegExp(String.raw`\b(?:all|those|filthy|dirty|stupid) ${PROTECTED_GROUPS} (?:are|should)\b`, "i"),
+    new RegExp(String.raw`\b(?:because|since|for being) (?:you(?:'re| are)|he(?:'s| is)|she(?:'s| is)|they(?:'re| are)) (?:a )?${PROTECTED_GROUPS}\b`, "i"),
+    /\bgo back to (?:your|his|her|their) (?:own )?country\b/i,
+  ],
+  medical_scam: [
+    /\b(?:your|his|her|their|the) (?:lab|biopsy|blood ?work|mri|hiv|std|sti|cancer|covid|medical|pregnancy|paternity) (?:test |scan )?results?\b/i,
+    /\b(?:tested positive|test came back positive)\b/i,
+    /\b(?:you|he|she|they) (?:have|has|tested positive for|(?:was|were) diagnosed with) (?:cancer|hiv|aids|an? (?:std|sti|tumou?r)|covid|ebola|a terminal)\b/i,
+    /\b(?:miracle cure|cure for (?:cancer|diabetes|hiv)|only (?:weeks|months|days) (?:left )?to live)\b/i,
+  ],
+  financial_scam: [
+    new RegExp(String.raw`\b(?:ask(?:ing)? (?:him|her|them|for)|get (?:him|her|them) to (?:read|give|say)|read (?:out|back)|verify|confirm|provide|give (?:us|me)|share)\b[^.!?]{0,40}\b${SECRETS}\b`, "i"),
+    /\b(?:pay|send|wire|transfer|buy)\b[^.!?]{0,30}\b(?:gift ?cards?|bitcoin|crypto|western union|moneygram|zelle|venmo|cash ?app)\b/i,
+    /\b(?:owes?|overdue|outstanding)\b[^.!?]{0,30}\b(?:taxes|tax debt|fine|bail)\b[^.!?]{0,30}\b(?:pay|arrest|warrant)\b/i,
+  ],
+  impersonation: [
+    new RegExp(String.raw`\b(?:pretend(?:ing)? to be|pose as|posing as|claim(?:ing)? to be|act(?:ing)? as|impersonat(?:e|ing)|calling from|on behalf of|this is)\s+(?:an? |the |from the )?${AUTHORITIES}\b`, "i"),
+    new RegExp(String.raw`\b(?:you are|you're|i am|i'm)\s+(?:an? |the )?(?:officer|detective|agent|sheriff|deputy|representative|investigator) (?:from|with|of) (?:the )?${AUTHORITIES}\b`, "i"),
+    /\b(?:there(?:'s| is) a|issued a|active) (?:warrant|arrest warrant) (?:for|out for)\b/i,
+  ],
+};
+
+// Free-text call request fields that reach the prompt (everything else is a fixed choice)
+export const CALL_REQUEST_MODERATED_FIELDS = [
+  "recipientName",
+  "targetGenderCustom",
+  "targetPhysicalDescription",
+  "targetCity",
+  "targetHobby",
+  "targetProfession",
+  "interestingPiece",
+  "ragebaitTrigger",
+] as const;
+
+/**
+ * The moderated fields of a call request (form data, createCall input, checkout metadata)
+ */
+export function pickCallRequestFields(
+  data: Partial<Record<(typeof CALL_REQUEST_MODERATED_FIELDS)[number], string | null>>,
+): ModeratedFields {
+  return Object.fromEntries(CALL_REQUEST_MODERATED_FIELDS.map((field) => [field, data[field]]));
+}
+
+/**
+ * Flags from the local rules - one per field and category
+ */
+export function moderateWithRules(fields: ModeratedFields): ModerationFlag[] {
+  const flags: ModerationFlag[] = [];
+  for (const [field, value] of Object.entries(fields)) {
+    if (!value?.trim()) continue;
+    for (const category of MODERATION_CATEGORIES) {
+      if (CATEGORY_RULES[category].some((rule) => rule.test(value))) {
+        flags.push({ field, category, source: "rules" });
+      }
+    }
+  }
+  return flags;
+}
+
+/**
+ * Human-readable field name for rejection messages
+ */
+export function moderationFieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+/**
+ * One explanation per flagged field, e.g. "Ragebait trigger: Threats of violence..."
+ */
+export function describeModerationFlags(flags: ModerationFlag[]): string {
+  const byField = new Map<string, ModerationCategory>();
+  for (const flag of flags) {
+    if (!byField.has(flag.field)) byField.set(flag.field, flag.category);
+  }
+  return [...byField]
+    .map(([field, category]) => `${moderationFieldLabel(field)}: ${MODERATION_CATEGORY_MESSAGES[category]}`)
+    .join(" ");
+}
@@ -0,0 +1,204 @@
+import { createServerFn } from "@tanstack/react-start";
+import { getRequestIP } from "@tanstack/react-start/server";
+import { drizzle } from "drizzle-orm/postgres-js";
+import { and, count, eq, gt, gte, lt, sql } from "drizzle-orm";
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { createPostgresDriver } from "~/lib/db";
+import * as schema from "~/lib/db/schema";
+import { optOutCodeSends, optOutVerifications } from "~/lib/db/schema/do-not-call";
+import { addToDoNotCallList, isOnDoNotCallList } from "~/lib/calls/do-not-call";
+import { hashPhoneNumber } from "~/lib/calls/phone-hash";
+import { parsePhoneNumber } from "~/lib/validation/phone-number";
+
+/**
+ * Public opt-out flow (/opt-out) - no account needed
+ *
+ * 1. requestOptOutCode texts a 6-digit code to the number
+ * 2. confirmOptOut checks the code and adds the number to do_not_call
+ *
+ * Owning the phone is the proof: nobody can opt out a number they can't read texts on.
+ * Texts are capped per requester IP and in total (opt_out_code_sends).
+ */
+
+type Database = ReturnType<typeof drizzle>;
+
+const CODE_TTL_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 5;
+const RESEND_COOLDOWN_SECONDS = 60;
+
+// Texts cost money per message - caps against SMS pumping through the public page
+const SEND_WINDOW_MINUTES = 60;
+const MAX_SENDS_PER_REQUESTER = 5; // Per IP per window
+const MAX_SENDS_PER_WINDOW = 200; // Everyone together
+const SEND_LIMIT_MESSAGE = "Too many codes have been requested. Please try again later.";
+
+const requestOptOutCodeSchema = z.object({
+  phoneNumber: z.string().min(1, "Phone number is required"),
+  recipientCountry: z.string().optional(),
+});
+
+const confirmOptOutSchema = requestOptOutCodeSchema.extend({
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code from the text message"),
+});
+
+function hashCode(phoneHash: string, code: string): string {
+  return createHash("sha256").update(`${phoneHash}:${code}`).digest("hex");
+}
+
+function parseOrThrow(phoneNumber: string, country?: string): string {
+  const parsed = parsePhoneNumber(phoneNumber, country);
+  if (!parsed.valid) {
+    throw new Error(parsed.error);
+  }
+  return parsed.phone.e164;
+}
+
+function hashRequesterIp(ip: string | undefined): string | null {
+  return ip ? createHash("sha256").update(`opt-out:${ip}`).digest("hex") : null;
+}
+
+/**
+ * Count a text against the send limits, or throw when the requester or the
+ * page as a whole has used them up
+ * Serialized with an advisory lock so parallel requests can't all pass the check
+ */
+async function claimCodeSend(db: Database, requesterIpHash: string | null): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext('opt_out_code_sends'))`);
+
+    const windowStart = new Date(Date.now() - SEND_WINDOW_MINUTES * 60 * 1000);
+    await tx.delete(optOutCodeSends).where(lt(optOutCodeSends.createdAt, windowStart));
+
+    const [sends] = await tx
+      .select({
+        total: count(),
+        fromRequester: sql<number>`count(*) filter (where ${optOutCodeSends.requesterIpHash} = ${requesterIpHash})`.mapWith(Number),
+      })
+      .from(optOutCodeSends)
+      .where(gte(optOutCodeSends.createdAt, windowStart));
+    if (sends.total >= MAX_SENDS_PER_WINDOW || sends.fromRequester >= MAX_SENDS_PER_REQUESTER) {
+      console.warn(`[Opt Out] 🚫 Send limit reached (${sends.fromRequester} from this requester, ${sends.total} in total)`);
+      throw new Error(SEND_LIMIT_MESSAGE);
+    }
+
+    await tx.insert(optOutCodeSends).values({ requesterIpHash });
+  });
+}
+
+/**
+ * Text a one-time code to the number that wants to opt out
+ */
+export const requestOptOutCode = createServerFn({ method: "POST" }).handler(
+  async ({ data: input }: { data: unknown }) => {
+    const data = requestOptOutCodeSchema.parse(input);
+    const e164 = parseOrThrow(data.phoneNumber, data.recipientCountry);
+    const phoneHash = hashPhoneNumber(e164);
+
+    const driver = createPostgresDriver();
+    const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+    try {
+      if (await isOnDoNotCallList(db, e164)) {
+        return { sent: false, alreadyOptedOut: true };
+      }
+
+      const [pending] = await db
+        .select({ createdAt: optOutVerifications.createdAt })
+        .from(optOutVerifications)
+        .where(eq(optOutVerifications.phoneNumberHash, phoneHash))
+        .limit(1);
+      if (pending && Date.now() - pending.createdAt.getTime() < RESEND_COOLDOWN_SECONDS * 1000) {
+        throw new Error("A code was just sent. Please wait a minute before requesting another.");
+      }
+
+      await claimCodeSend(db, hashRequesterIp(getRequestIP({ xForwardedFor: true })));
+
+      const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+      const values = {
+        codeHash: hashCode(phoneHash, code),
+        attempts: 0,
+        expiresAt: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000),
+        createdAt: new Date(),
+      };
+      await db
+        .insert(optOutVerifications)
+        .values({ phoneNumberHash: phoneHash, ...values })
+        .onConflictDoUpdate({ target: optOutVerifications.phoneNumberHash, set: values });
+
+      const { sendSms } = await import("~/lib/twilio/sms");
+      await sendSms(
+        e164,
+        `Your aicall.tv opt-out code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`,
+      );
+
+      console.log(`[Opt Out] 📟 Verification code sent`);
+      return { sent: true, alreadyOptedOut: false };
+    } finally {
+      await driver.end();
+    }
+  },
+);
+
+/**
+ * Check the code and permanently add the number to the do-not-call list
+ */
+export const confirmOptOut = createServerFn({ method: "POST" }).handler(
+  async ({ data: input }: { data: unknown }) => {
+    const data = confirmOptOutSchema.parse(input);
+    const e164 = parseOrThrow(data.phoneNumber, data.recipientCountry);
+    const phoneHash = hashPhoneNumber(e164);
+
+    const driver = createPostgresDriver();
+    const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+    try {
+      // Claim the attempt before comparing - parallel guesses each use one up,
+      // and none get compared once the limit is reached
+      const [verification] = await db
+        .update(optOutVerifications)
+        .set({ attempts: sql`${optOutVerifications.attempts} + 1` })
+        .where(
+          and(
+            eq(optOutVerifications.phoneNumberHash, phoneHash),
+            lt(optOutVerifications.attempts, MAX_CODE_ATTEMPTS),
+            gt(optOutVerifications.expiresAt, new Date()),
+          ),
+        )
+        .returning();
+
+      if (!verification) {
+        const [spent] = await db
+          .select({ id: optOutVerifications.id })
+          .from(optOutVerifications)
+          .where(
+            and(
+              eq(optOutVerifications.phoneNumberHash, phoneHash),
+              gte(optOutVerifications.attempts, MAX_CODE_ATTEMPTS),
+              gt(optOutVerifications.expiresAt, new Date()),
+            ),
+          )
+          .limit(1);
+        throw new Error(spent
+          ? "Too many incorrect codes. Please request a new one."
+          : "This code has expired. Please request a new one.");
+      }
+
+      const expected = Buffer.from(verification.codeHash, "hex");
+      const actual = Buffer.from(hashCode(phoneHash, data.code), "hex");
+      if (!timingSafeEqual(expected, actual)) {
+        if (verification.attempts >= MAX_CODE_ATTEMPTS) {
+          throw new Error("Too many incorrect codes. Please request a new one.");
+        }
+        throw new Error("That code is incorrect.");
+      }
+
+      await addToDoNotCallList(db, e164, { source: "opt_out_page" });
+      await db.delete(optOutVerifications).where(eq(optOutVerifications.id, verification.id));
+
+      return { success: true };
+    } finally {
+      await driver.end();
+    }
+  },
+);
@@ -0,0 +1,75 @@
+/**
+ * Call prompt builder - the template variables and rendered messages for a generation
+ *
+ * Requester-supplied values are screened and quoted here (see injection.ts)
+ * before they reach any template. No API clients or env, so the injection
+ * corpus (injection.test.ts) runs against it directly.
+ */
+
+import { BUILTIN_CALL_PROMPT_TEMPLATE } from "./call-prompt-template";
+import { detectPromptInjection, quotePromptData, REQUESTER_PROMPT_VARIABLES } from "./injection";
+import { renderPromptTemplate } from "./template";
+import type { PromptVariables } from "./template";
+import type { CallPromptTemplate, PromptGenerationInput } from "./groq-generator";
+
+export interface CallPromptMessages {
+  systemPrompt: string;
+  userPrompt: string;
+  promptVariables: PromptVariables; // As rendered - requester values quoted, withheld ones missing
+  withheld: string[]; // Requester variables left out because they look like an injection
+}
+
+/**
+ * Template variables for a generation (names in CALL_PROMPT_VARIABLES), unescaped
+ */
+export function getPromptVariables(input: PromptGenerationInput): PromptVariables {
+  const target = input.targetPerson;
+  return {
+    callerName: input.caller?.name,
+    callerPersonality: input.caller?.personality,
+    callerSpeakingStyle: input.caller?.speakingStyle,
+    targetName: target.name,
+    targetGender: target.gender,
+    targetGenderCustom: target.genderCustom,
+    targetAgeRange: target.ageRange,
+    targetCity: target.city,
+    targetHobby: target.hobby,
+    targetProfession: target.profession,
+    targetPhysicalDescription: target.physicalDescription,
+    targetInterestingPiece: target.interestingPiece,
+    targetRagebaitTrigger: target.ragebaitTrigger,
+    recordingDisclosure: input.recordingDisclosure,
+    requesterFeedback: input.revision?.feedback,
+    previousWelcomeGreeting: input.revision?.previousWelcomeGreeting,
+  };
+}
+
+/**
+ * Render the system and user messages for generateCallPrompts
+ * Requester values that trip the injection detector are left out, the rest are quoted
+ */
+export function buildCallPromptMessages(
+  input: PromptGenerationInput,
+  template: CallPromptTemplate = BUILTIN_CALL_PROMPT_TEMPLATE,
+): CallPromptMessages {
+  const promptVariables = getPromptVariables(input);
+  const withheld: string[] = [];
+
+  for (const name of REQUESTER_PROMPT_VARIABLES) {
+    const value = promptVariables[name];
+    if (!value?.trim()) continue;
+    if (detectPromptInjection(value).length > 0) {
+      promptVariables[name] = undefined;
+      withheld.push(name);
+    } else {
+      promptVariables[name] = quotePromptData(value);
+    }
+  }
+
+  return {
+    systemPrompt: renderPromptTemplate(template.systemTemplate, promptVariables),
+    userPrompt: renderPromptTemplate(template.userTemplate, promptVariables),
+    promptVariables,
+    withheld,
+  };
+}
@@ -1,10 +1,18 @@
 /**
- * Groq API integration for generating dynamic prompts
- * Uses meta-llama/llama-4-scout-17b-16e-instruct model
+ * Prompt generation for calls and images
+ * Call scripts go through the provider chain in prompt-providers.ts (Groq first);
+ * image prompts use Groq's meta-llama/llama-4-scout-17b-16e-instruct model
  */
 
 import { env } from "~/env/server";
 import { getRandomCallerDescription } from "./caller-descriptions";
+import { BUILTIN_CALL_PROMPT_TEMPLATE } from "./call-prompt-template";
+import { buildCallPromptMessages } from "./call-prompt-builder";
+import { detectPromptInjection } from "./injection";
+import { getPromptProviderChain, isPromptProviderConfigured, requestPromptCompletion } from "./prompt-providers";
+import type { PromptProviderName } from "./prompt-providers";
+import { generateTemplatePrompts } from "./template-generator";
+import type { PromptVariables } from "./template";
 
 const GROQ_API_BASE = "https://api.groq.com/openai/v1";
 const MODEL = "meta-llama/llama-4-scout-17b-16e-instruct";
@@ -34,11 +42,46 @@ export interface PromptGenerationInput {
     speakingStyle: string;
     appearanceDescription?: string; // For image generation
   };
+  // All-party-consent jurisdiction: the greeting must say the call is recorded (see calls/recording-consent.ts)
+  recordingDisclosure?: string;
+  // Script review: the requester asked for another version (see calls/script-review.ts)
+  revision?: {
+    feedback: string;
+    previousWelcomeGreeting: string;
+  };
 }
 
 export interface GeneratedPrompts {
   systemPrompt: string;
   welcomeGreeting: string;
+  voicemailMessage: string; // Left when an answering machine picks up (if the requester chose to)
+  scenarioSummary: string; // Plain-language description for the requester's script review
+  promptVariables: PromptVariables; // What the template was rendered with (saved on the call)
+  provider: PromptProviderName; // Who wrote it (saved on the call as promptProvider)
+}
+
+// Templates rendered by generateCallPrompts (a prompt_templates version, or the built-in one)
+export interface CallPromptTemplate {
+  systemTemplate: string;
+  userTemplate: string;
+}
+
+const DEFAULT_WELCOME_GREETING = "Hello, is this the person I'm looking for?";
+const DEFAULT_VOICEMAIL_MESSAGE = "Hey, it's me - sorry I missed you. I'll try you again later!";
+const SCENARIO_SUMMARY_MAX_LENGTH = 400;
+
+/**
+ * Stand-in summary when the model left scenarioSummary out: the start of the
+ * system prompt, cut at a sentence boundary
+ */
+function summarizeSystemPrompt(systemPrompt: string): string {
+  const text = systemPrompt.replace(/\s+/g, " ").trim();
+  if (text.length <= SCENARIO_SUMMARY_MAX_LENGTH) {
+    return text;
+  }
+  const cut = text.substring(0, SCENARIO_SUMMARY_MAX_LENGTH);
+  const sentenceEnd = cut.lastIndexOf(". ");
+  return sentenceEnd > 0 ? cut.substring(0, sentenceEnd + 1) : `${cut}...`;
 }
 
 /**
@@ -52,142 +95,29 @@ export async function generateOpenAIPrompt(
 }
 
 /**
- * Generate both system prompt and welcome greeting using Groq
+ * Refuse a script that picked up injected instructions - its systemPrompt
+ * becomes the live call's instructions
  */
-export async function generateCallPrompts(
-  input: PromptGenerationInput,
-): Promise<GeneratedPrompts> {
-  if (!env.GROQ_API_KEY) {
-    throw new Error(
-      "Groq API key not configured. Please set GROQ_API_KEY environment variable",
-    );
+function assertNoInjectedInstructions(prompts: Pick<GeneratedPrompts, "systemPrompt" | "welcomeGreeting" | "voicemailMessage">): void {
+  const matches = detectPromptInjection(
+    [prompts.systemPrompt, prompts.welcomeGreeting, prompts.voicemailMessage].join("\n"),
+  );
+  if (matches.length > 0) {
+    console.warn("[Prompts] 🛡️ Injection check failed:", matches.map((match) => `${match.pattern} "${match.excerpt}"`).join(", "));
+    throw new Error(`Generated script failed the prompt-injection check (${matches.map((match) => match.pattern).join(", ")})`);
   }
-
-  const systemPrompt = `You are an expert at creating ENTERTAINING PRANK CALL scenarios.
-
-Your task is to generate instructions for a PRANK CALL - the PRIMARY GOAL is ENTERTAINMENT.
-
-${input.caller ? `
-**CRITICAL: TWO EQUALLY IMPORTANT ELEMENTS**
-
-1. **THE CALLER CHARACTER** (provides the "angle" and personality):
-   Name: ${input.caller.name}
-   Personality: ${input.caller.personality}
-   Speaking Style: ${input.caller.speakingStyle}
-   
-   This character provides the unique angle, psychological hook, and speaking style. Without this, there's no distinctive approach.
-
-2. **THE TARGET PERSON** (provides relatability and power):
-   The specific details about the person being called (name, location, hobbies, profession, secrets, etc.) make the call relatable and powerful. Without these, the call feels generic and loses impact.
-
-**THE MAGIC HAPPENS WHEN BOTH COMBINE:**
-- The caller's personality/angle creates the unique approach
-- The target person's specific details make it personal and relatable
-- Together, they create a scenario that feels both cleverly crafted AND personally relevant
-
-The systemPrompt you generate must:
-- Make the AI embody the caller character completely (${input.caller.name})
-- Use the caller's specific angle/personality as the foundation
-- Incorporate the target person's specific details to personalize the scenario
-- Create a scenario where the caller's angle intersects with the target's personal details
-- Make it feel like THIS caller is calling THIS specific person for a reason that makes sense
-` : ''}
-
-You must return a JSON object with EXACTLY this structure:
-{
-  "systemPrompt": "The full instructions for the AI on how to conduct the call...",
-  "welcomeGreeting": "The exact opening line the AI should say when the call connects (1-2 sentences max)"
 }
 
-The systemPrompt must:
-- NEVER mention "AI", "AI-powered", "artificial intelligence", "prank call", or break the fourth wall
-${input.caller ? `- Make the AI embody the caller character: ${input.caller.name} - ${input.caller.personality}` : ''}
-- Create a believable, AMUSING scenario that combines the caller's angle with the target's personal details
-- Use the target person's specific information (name, location, hobbies, profession, secrets) to make the scenario feel personally relevant
-- Use the caller's unique angle/personality to create the distinctive approach
-- The scenario should feel like THIS caller calling THIS person makes sense given their details
-- Keep responses SHORT (1-3 sentences) - this is a phone call!
-- The goal is ENTERTAINMENT - make viewers LAUGH
-${input.caller ? `- The caller's speaking style: ${input.caller.speakingStyle} - this must be reflected in all responses` : ''}
-
-The welcomeGreeting must:
-- Be the EXACT first thing said when they answer (no "Hello?" - jump right into character)
-${input.caller ? `- Be spoken in the style of ${input.caller.name}: ${input.caller.speakingStyle}` : ''}
-- Reference something specific about the target person (their name, location, hobby, etc.) to show this is personal
-- Use the caller's angle to create the unique approach
-- Set up the scenario immediately
-- Be intriguing/confusing enough that they'll respond
-- Be 1-2 sentences max
-- Stay in character from the very first word
-
-Return ONLY valid JSON, no markdown, no explanation.`;
-
-  const userPrompt = `Generate a prank call scenario JSON that COMBINES both elements:
-
-${input.caller ? `
-**THE CALLER CHARACTER** (provides the angle):
-Name: ${input.caller.name}
-Personality: ${input.caller.personality}
-Speaking Style: ${input.caller.speakingStyle}
-
-This caller has a specific angle/approach. Use their personality to create the unique hook.
-` : ''}
-
-**THE TARGET PERSON** (provides relatability):
-- Name: ${input.targetPerson.name}
-- Gender: ${input.targetPerson.gender}${input.targetPerson.genderCustom ? ` (${input.targetPerson.genderCustom})` : ""}
-${input.targetPerson.ageRange ? `- Age Range: ${input.targetPerson.ageRange}` : ""}
-${input.targetPerson.city ? `- Lives in: ${input.targetPerson.city}` : ""}
-${input.targetPerson.hobby ? `- Hobby: ${input.targetPerson.hobby}` : ""}
-${input.targetPerson.profession ? `- Profession: ${input.targetPerson.profession}` : ""}
-${input.targetPerson.physicalDescription ? `- Physical Description: ${input.targetPerson.physicalDescription}` : ""}
-${input.targetPerson.interestingPiece ? `- Secret/Thing only they know: ${input.targetPerson.interestingPiece}` : ""}
-${input.targetPerson.ragebaitTrigger ? `- To ragebait them, say: ${input.targetPerson.ragebaitTrigger}` : ""}
-
-**YOUR TASK:**
-${input.caller ? `1. Use ${input.caller.name}'s unique angle/personality as the foundation for the scenario` : ''}
-2. Incorporate the target person's specific details to make it personal and relatable
-3. Create a scenario where the caller's angle intersects naturally with the target's personal information
-4. Make it feel like THIS caller calling THIS person makes sense given their details
-5. The scenario should feel both cleverly crafted (from the caller's angle) AND personally relevant (from the target's details)
-
-Example: If the caller is "Sandra the Neighbor" (nosy, suspicious) and the target lives in "Brooklyn" and has hobby "birdwatching", create a scenario where Sandra's suspicious nature intersects with their Brooklyn location and birdwatching hobby in a way that feels personal and relevant.
-
-Create an ENTERTAINING scenario that balances BOTH elements equally. Return ONLY the JSON object.`;
-
-  const response = await fetch(`${GROQ_API_BASE}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${env.GROQ_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: MODEL,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.8,
-      response_format: { type: "json_object" },
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Groq API error: ${response.status} ${response.statusText} - ${errorText}`,
-    );
-  }
-
-  const result = await response.json();
-  const content = result.choices?.[0]?.message?.content;
-
-  if (!content) {
-    throw new Error("Groq API returned no content");
-  }
-
+/**
+ * Turn a model's reply into the script fields
+ * Handles markdown code fences; a reply that isn't JSON becomes the system prompt as-is
+ */
+function parsePromptResponse(
+  content: string,
+  provider: PromptProviderName,
+): Pick<GeneratedPrompts, "systemPrompt" | "welcomeGreeting" | "voicemailMessage" | "scenarioSummary"> {
   // Log raw response for debugging
-  console.log("[Groq] Raw response:", content.substring(0, 500));
+  console.log(`[Prompts] ${provider} raw response:`, content.substring(0, 500));
 
   try {
     // Parse the JSON response - handle markdown code blocks
@@ -216,22 +146,72 @@ Create an ENTERTAINING scenario that balances BOTH elements equally. Return ONLY
       throw new Error("Missing systemPrompt in response");
     }
     
-    console.log("[Groq] ✅ Successfully parsed JSON response");
+    console.log(`[Prompts] ✅ Parsed ${provider} JSON response`);
     return {
       systemPrompt: parsed.systemPrompt,
-      welcomeGreeting: parsed.welcomeGreeting || "Hello, is this the person I'm looking for?",
+      welcomeGreeting: parsed.welcomeGreeting || DEFAULT_WELCOME_GREETING,
+      voicemailMessage: parsed.voicemailMessage || DEFAULT_VOICEMAIL_MESSAGE,
+      scenarioSummary: parsed.scenarioSummary || summarizeSystemPrompt(parsed.systemPrompt),
     };
   } catch (error) {
     // Fallback if JSON parsing fails - use the content as system prompt
-    console.warn("[Groq] Failed to parse JSON:", error instanceof Error ? error.message : error);
-    console.warn("[Groq] Raw content:", content.substring(0, 200));
+    console.warn(`[Prompts] Failed to parse ${provider} JSON:`, error instanceof Error ? error.message : error);
+    console.warn("[Prompts] Raw content:", content.substring(0, 200));
     return {
       systemPrompt: content.trim(),
-      welcomeGreeting: "Hello, is this the person I'm looking for?",
+      welcomeGreeting: DEFAULT_WELCOME_GREETING,
+      voicemailMessage: DEFAULT_VOICEMAIL_MESSAGE,
+      scenarioSummary: summarizeSystemPrompt(content),
     };
   }
 }
 
+/**
+ * Generate system prompt, welcome greeting and voicemail message
+ * Tries each provider in PROMPT_PROVIDERS until one returns a usable script
+ * (see prompt-providers.ts); throws only if every provider in the chain failed
+ * @param template - Registry version to render (see prompts/registry.ts), built-in by default
+ */
+export async function generateCallPrompts(
+  input: PromptGenerationInput,
+  template: CallPromptTemplate = BUILTIN_CALL_PROMPT_TEMPLATE,
+): Promise<GeneratedPrompts> {
+  const { systemPrompt, userPrompt, promptVariables, withheld } = buildCallPromptMessages(input, template);
+  if (withheld.length > 0) {
+    console.warn(`[Prompts] 🛡️ Left out ${withheld.join(", ")} - looks like a prompt injection`);
+  }
+
+  const failures: string[] = [];
+  for (const provider of getPromptProviderChain()) {
+    if (provider === "template") {
+      const prompts = generateTemplatePrompts(input, promptVariables);
+      assertNoInjectedInstructions(prompts);
+      console.log("[Prompts] 📄 Using the offline template generator");
+      return { ...prompts, promptVariables, provider };
+    }
+
+    if (!isPromptProviderConfigured(provider)) {
+      failures.push(`${provider}: no API key`);
+      continue;
+    }
+
+    const startTime = Date.now();
+    try {
+      const content = await requestPromptCompletion(provider, { systemPrompt, userPrompt });
+      const prompts = parsePromptResponse(content, provider);
+      assertNoInjectedInstructions(prompts);
+      console.log(`[Prompts] ✅ ${provider} wrote the script in ${Date.now() - startTime}ms`);
+      return { ...prompts, promptVariables, provider };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[Prompts] ⚠️ ${provider} failed after ${Date.now() - startTime}ms, trying the next provider:`, message);
+      failures.push(`${provider}: ${message}`);
+    }
+  }
+
+  throw new Error(`No prompt provider could write the script (${failures.join("; ")})`);
+}
+
 /**
  * Generate image prompt using Groq
  * 
@@ -0,0 +1,131 @@
+/**
+ * Prompt generation providers - who writes the call script, in order of preference
+ *
+ * generateCallPrompts walks the chain from PROMPT_PROVIDERS (default: groq,
+ * openai, near, template) and uses the first provider that answers in time
+ * with a usable script. Remote providers are skipped when their API key is
+ * missing; "template" is the offline generator (template-generator.ts) and
+ * never fails, so a chain ending in it always produces a script - including
+ * in local dev without any keys.
+ */
+
+import { env } from "~/env/server";
+
+export const PROMPT_PROVIDERS = ["groq", "openai", "near", "template"] as const;
+export type PromptProviderName = (typeof PROMPT_PROVIDERS)[number];
+export type RemotePromptProviderName = Exclude<PromptProviderName, "template">;
+
+interface RemotePromptProvider {
+  baseURL: string;
+  apiKey: () => string | undefined;
+  model: string;
+  timeoutMs: number; // Default per-request limit (PROMPT_PROVIDER_TIMEOUT_SECONDS overrides)
+  jsonMode: boolean; // Supports response_format json_object
+}
+
+const DEFAULT_CHAIN: PromptProviderName[] = ["groq", "openai", "near", "template"];
+
+const REMOTE_PROVIDERS: Record<RemotePromptProviderName, RemotePromptProvider> = {
+  groq: {
+    baseURL: "https://api.groq.com/openai/v1",
+    apiKey: () => env.GROQ_API_KEY,
+    model: "meta-llama/llama-4-scout-17b-16e-instruct",
+    timeoutMs: 15_000,
+    jsonMode: true,
+  },
+  openai: {
+    baseURL: "https://api.openai.com/v1",
+    apiKey: () => env.OPENAI_API_KEY,
+    model: "gpt-4o-mini",
+    timeoutMs: 20_000,
+    jsonMode: true,
+  },
+  near: {
+    baseURL: "https://cloud-api.near.ai/v1",
+    apiKey: () => env.NEAR_AI_API_KEY,
+    model: "deepseek-ai/DeepSeek-V3.1",
+    timeoutMs: 30_000,
+    jsonMode: false, // Replies with plain text - the parser strips code fences
+  },
+};
+
+function isPromptProviderName(value: string): value is PromptProviderName {
+  return (PROMPT_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Providers to try, in order (unknown names in PROMPT_PROVIDERS are skipped with a warning)
+ * @param setting - Comma-separated provider names, PROMPT_PROVIDERS by default
+ */
+export function getPromptProviderChain(setting: string | undefined = env.PROMPT_PROVIDERS): PromptProviderName[] {
+  if (!setting?.trim()) {
+    return DEFAULT_CHAIN;
+  }
+
+  const chain: PromptProviderName[] = [];
+  for (const name of setting.split(",").map((entry) => entry.trim().toLowerCase())) {
+    if (!name) continue;
+    if (!isPromptProviderName(name)) {
+      console.warn(`[Prompts] ⚠️ Unknown prompt provider "${name}" in PROMPT_PROVIDERS - skipping (known: ${PROMPT_PROVIDERS.join(", ")})`);
+      continue;
+    }
+    if (!chain.includes(name)) chain.push(name);
+  }
+  return chain.length > 0 ? chain : DEFAULT_CHAIN;
+}
+
+/**
+ * Whether a remote provider has its API key
+ */
+export function isPromptProviderConfigured(provider: RemotePromptProviderName): boolean {
+  return !!REMOTE_PROVIDERS[provider].apiKey();
+}
+
+/**
+ * One chat completion from a remote provider - the raw reply text
+ * Throws on a missing key, HTTP error, timeout or empty reply
+ */
+export async function requestPromptCompletion(
+  provider: RemotePromptProviderName,
+  messages: { systemPrompt: string; userPrompt: string },
+): Promise<string> {
+  const definition = REMOTE_PROVIDERS[provider];
+  const apiKey = definition.apiKey();
+  if (!apiKey) {
+    throw new Error(`${provider} API key not configured`);
+  }
+
+  const timeoutMs = env.PROMPT_PROVIDER_TIMEOUT_SECONDS
+    ? env.PROMPT_PROVIDER_TIMEOUT_SECONDS * 1000
+    : definition.timeoutMs;
+
+  const response = await fetch(`${definition.baseURL}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify({
+      model: definition.model,
+      messages: [
+        { role: "system", content: messages.systemPrompt },
+        { role: "user", content: messages.userPrompt },
+      ],
+      temperature: 0.8,
+      ...(definition.jsonMode ? { response_format: { type: "json_object" } } : {}),
+    }),
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${provider} API error: ${response.status} ${response.statusText} - ${errorText}`);
+  }
+
+  const result = await response.json();
+  const content: string | undefined = result.choices?.[0]?.message?.content;
+  if (!content) {
+    throw new Error(`${provider} API returned no content`);
+  }
+  return content;
+}
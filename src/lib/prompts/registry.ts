@@ -0,0 +1,139 @@
+import { and, desc, eq, gt, isNotNull, sql } from "drizzle-orm";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { calls } from "~/lib/db/schema/calls";
+import { promptTemplates } from "~/lib/db/schema/prompt-templates";
+import { BUILTIN_CALL_PROMPT_TEMPLATE, CALL_PROMPTS_TEMPLATE_NAME } from "./call-prompt-template";
+
+/**
+ * Prompt template registry - which version of a prompt a generation uses
+ *
+ * Active versions with weight > 0 split traffic by weight (70/30 = two
+ * versions weighted 70 and 30). With none, the built-in template from code is
+ * served as version 0. The chosen version is saved on the call, so
+ * getCallPromptStats can compare outcomes per version.
+ */
+
+type Database = ReturnType<typeof drizzle>;
+
+export interface PromptTemplate {
+  id: string | null; // Null for the built-in template
+  name: string;
+  version: number;
+  systemTemplate: string;
+  userTemplate: string;
+}
+
+export interface PromptVersionStats {
+  version: number;
+  calls: number;
+  finished: number; // Completed, failed or voicemail
+  completed: number;
+  completionRate: number | null; // completed / finished
+  avgDurationSeconds: number | null; // Completed calls only
+}
+
+const BUILTIN_TEMPLATES: Record<string, Omit<PromptTemplate, "id" | "name" | "version">> = {
+  [CALL_PROMPTS_TEMPLATE_NAME]: BUILTIN_CALL_PROMPT_TEMPLATE,
+};
+
+/**
+ * Built-in (version 0) template for a name
+ */
+export function getBuiltinPromptTemplate(name: string): PromptTemplate {
+  const builtin = BUILTIN_TEMPLATES[name];
+  if (!builtin) {
+    throw new Error(`No built-in prompt template named "${name}"`);
+  }
+  return { id: null, name, version: 0, ...builtin };
+}
+
+/**
+ * Pick the template version for one generation, weighted by traffic share
+ */
+export async function selectPromptTemplate(db: Database, name: string): Promise<PromptTemplate> {
+  const versions = await db
+    .select()
+    .from(promptTemplates)
+    .where(and(eq(promptTemplates.name, name), eq(promptTemplates.active, true), gt(promptTemplates.weight, 0)));
+
+  if (versions.length === 0) {
+    return getBuiltinPromptTemplate(name);
+  }
+
+  const totalWeight = versions.reduce((sum, version) => sum + version.weight, 0);
+  let pick = Math.random() * totalWeight;
+  const chosen = versions.find((version) => (pick -= version.weight) < 0) ?? versions[versions.length - 1];
+
+  return {
+    id: chosen.id,
+    name: chosen.name,
+    version: chosen.version,
+    systemTemplate: chosen.systemTemplate,
+    userTemplate: chosen.userTemplate,
+  };
+}
+
+/**
+ * A specific version by id, e.g. to regenerate with the version a call used
+ * Null id (or a deleted version) gives the built-in template
+ */
+export async function getPromptTemplate(db: Database, name: string, id: string | null): Promise<PromptTemplate> {
+  if (!id) {
+    return getBuiltinPromptTemplate(name);
+  }
+
+  const [version] = await db
+    .select()
+    .from(promptTemplates)
+    .where(eq(promptTemplates.id, id))
+    .limit(1);
+  if (!version) {
+    return getBuiltinPromptTemplate(name);
+  }
+
+  return {
+    id: version.id,
+    name: version.name,
+    version: version.version,
+    systemTemplate: version.systemTemplate,
+    userTemplate: version.userTemplate,
+  };
+}
+
+/**
+ * Next version number for a name (versions start at 1; 0 is built-in)
+ */
+export async function nextPromptTemplateVersion(db: Database, name: string): Promise<number> {
+  const [latest] = await db
+    .select({ version: promptTemplates.version })
+    .from(promptTemplates)
+    .where(eq(promptTemplates.name, name))
+    .orderBy(desc(promptTemplates.version))
+    .limit(1);
+  return (latest?.version ?? 0) + 1;
+}
+
+/**
+ * Completion rate and duration per call-prompt version
+ */
+export async function getCallPromptStats(db: Database): Promise<PromptVersionStats[]> {
+  const rows = await db
+    .select({
+      version: calls.promptTemplateVersion,
+      calls: sql<number>`count(*)`.mapWith(Number),
+      finished: sql<number>`count(*) filter (where ${calls.status} in ('completed', 'failed', 'voicemail'))`.mapWith(Number),
+      completed: sql<number>`count(*) filter (where ${calls.status} = 'completed')`.mapWith(Number),
+      avgDurationSeconds: sql<number | null>`avg(${calls.duration}) filter (where ${calls.status} = 'completed')`
+        .mapWith((value) => (value === null ? null : Number(value))),
+    })
+    .from(calls)
+    .where(isNotNull(calls.promptTemplateVersion))
+    .groupBy(calls.promptTemplateVersion)
+    .orderBy(calls.promptTemplateVersion);
+
+  return rows.map((row) => ({
+    ...row,
+    version: row.version ?? 0,
+    completionRate: row.finished > 0 ? row.completed / row.finished : null,
+  }));
+}
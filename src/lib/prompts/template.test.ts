@@ -0,0 +1,91 @@
+/**
+ * Prompt template rendering (run with `bun test`)
+ *
+ * Sections keep or drop their body on the variable being empty, values are
+ * inserted once and never expanded, and the built-in templates only use
+ * variables generateCallPrompts fills.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { BUILTIN_CALL_PROMPT_TEMPLATE, CALL_PROMPT_REVISION_TEMPLATE, CALL_PROMPT_VARIABLES, CALL_PROMPTS_TEMPLATE_NAME } from "./call-prompt-template";
+import { getBuiltinPromptTemplate } from "./registry";
+import { renderPromptTemplate, templateVariableNames } from "./template";
+
+describe("renderPromptTemplate", () => {
+  test("fills variables, missing ones with nothing", () => {
+    expect(renderPromptTemplate("Hi {{name}}, from {{city}}.", { name: "Sam" })).toBe("Hi Sam, from .");
+  });
+
+  test.each([
+    ["a value", { hobby: "golf" }, "Likes golf."],
+    ["an empty string", { hobby: "" }, ""],
+    ["no value", {}, ""],
+  ])("{{#section}} with %s", (_label, variables, expected) => {
+    expect(renderPromptTemplate("{{#hobby}}Likes {{hobby}}.{{/hobby}}", variables)).toBe(expected);
+  });
+
+  test.each([
+    ["a value", { hobby: "golf" }, ""],
+    ["an empty string", { hobby: "" }, "No hobby."],
+    ["no value", {}, "No hobby."],
+  ])("{{^section}} with %s", (_label, variables, expected) => {
+    expect(renderPromptTemplate("{{^hobby}}No hobby.{{/hobby}}", variables)).toBe(expected);
+  });
+
+  test("an if / else pair picks one side", () => {
+    const template = "{{#city}}In {{city}}{{/city}}{{^city}}Somewhere{{/city}}.";
+    expect(renderPromptTemplate(template, { city: "Austin" })).toBe("In Austin.");
+    expect(renderPromptTemplate(template, {})).toBe("Somewhere.");
+  });
+
+  test("sections nest", () => {
+    const template = "{{#name}}[{{name}}{{#city}} of {{city}}{{/city}}{{^city}} of nowhere{{/city}}]{{/name}}";
+    expect(renderPromptTemplate(template, { name: "Sam", city: "Austin" })).toBe("[Sam of Austin]");
+    expect(renderPromptTemplate(template, { name: "Sam" })).toBe("[Sam of nowhere]");
+    expect(renderPromptTemplate(template, { city: "Austin" })).toBe("");
+  });
+
+  test("keeps the text around sections", () => {
+    expect(renderPromptTemplate("a\n{{#x}}b\n{{/x}}c {{y}}", { x: "1", y: "2" })).toBe("a\nb\nc 2");
+  });
+
+  test.each([
+    ["a variable", "{{name}}"],
+    ["a section", "{{#city}}{{name}}{{/city}}"],
+  ])("values that look like tags are never expanded, in %s", (_label, template) => {
+    const rendered = renderPromptTemplate(template, { name: "{{city}} {{#city}}x{{/city}}", city: "Austin" });
+    expect(rendered).toContain("{{city}} {{#city}}x{{/city}}");
+  });
+});
+
+describe("templateVariableNames", () => {
+  test("lists each name once, from variables and sections", () => {
+    expect(templateVariableNames("{{#a}}{{b}}{{/a}}{{^c}}{{a}}{{/c}} {{b}}")).toEqual(["a", "b", "c"]);
+  });
+
+  test("ignores anything that isn't a tag", () => {
+    expect(templateVariableNames("{ {a} } {{ b }} {{c-d}}")).toEqual([]);
+  });
+});
+
+describe("built-in templates", () => {
+  test.each([
+    ["system", BUILTIN_CALL_PROMPT_TEMPLATE.systemTemplate],
+    ["user", BUILTIN_CALL_PROMPT_TEMPLATE.userTemplate],
+    ["revision", CALL_PROMPT_REVISION_TEMPLATE],
+  ])("the %s template only uses CALL_PROMPT_VARIABLES", (_label, template) => {
+    for (const name of templateVariableNames(template)) {
+      expect(CALL_PROMPT_VARIABLES as readonly string[]).toContain(name);
+    }
+  });
+
+  test("the revision block disappears without feedback", () => {
+    expect(renderPromptTemplate(CALL_PROMPT_REVISION_TEMPLATE, { previousWelcomeGreeting: "Hello!" })).toBe("");
+    expect(renderPromptTemplate(CALL_PROMPT_REVISION_TEMPLATE, { requesterFeedback: "Funnier" })).toContain("Their feedback: Funnier");
+  });
+
+  test("the registry serves the built-in call template as version 0", () => {
+    expect(getBuiltinPromptTemplate(CALL_PROMPTS_TEMPLATE_NAME)).toMatchObject({ id: null, version: 0, ...BUILTIN_CALL_PROMPT_TEMPLATE });
+    expect(() => getBuiltinPromptTemplate("nope")).toThrow('No built-in prompt template named "nope"');
+  });
+});
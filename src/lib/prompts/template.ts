@@ -0,0 +1,47 @@
+/**
+ * Prompt template rendering - a small Mustache subset
+ *
+ *   {{name}}                  value of a variable ("" if missing)
+ *   {{#name}}...{{/name}}     block kept only when the variable is non-empty
+ *   {{^name}}...{{/name}}     block kept only when the variable is empty
+ *
+ * Blocks may nest (different names). Values are inserted as-is and never
+ * scanned for tags themselves - requester text is quoted before it gets here
+ * (see quotePromptData in injection.ts).
+ */
+
+export type PromptVariables = Record<string, string | undefined>;
+
+const SECTION = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+function renderVariables(text: string, variables: PromptVariables): string {
+  return text.replace(VARIABLE, (_match, name: string) => variables[name] ?? "");
+}
+
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  // Text between sections gets its variables here, section bodies in the recursive call -
+  // so a value that looks like "{{targetName}}" is never expanded
+  let output = "";
+  let last = 0;
+  for (const match of template.matchAll(SECTION)) {
+    const [whole, kind, name, body] = match;
+    output += renderVariables(template.substring(last, match.index), variables);
+    if (!!variables[name] === (kind === "#")) {
+      output += renderPromptTemplate(body, variables);
+    }
+    last = match.index + whole.length;
+  }
+  return output + renderVariables(template.substring(last), variables);
+}
+
+/**
+ * Variable names a template uses (for validating a new version before publishing)
+ */
+export function templateVariableNames(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(/\{\{[#^/]?(\w+)\}\}/g)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
@@ -94,6 +94,12 @@ export async function getBoss(): Promise<PgBoss> {
       // Queue might already exist, ignore
     }
 
+    try {
+      await boss.createQueue(JOB_TYPES.SCRIPT_REVIEW_TIMEOUT);
+    } catch {
+      // Queue might already exist, ignore
+    }
+
   return boss;
   })();
 
@@ -104,5 +110,24 @@ export async function getBoss(): Promise<PgBoss> {
 export const JOB_TYPES = {
   PROCESS_CALL: "process-call",
   GENERATE_VIDEO: "generate-video",
+  SCRIPT_REVIEW_TIMEOUT: "script-review-timeout",
 } as const;
 
+
+/**
+ * Delete a call's queued PROCESS_CALL jobs (retries and scheduled dials not yet picked up)
+ * Jobs already running are left alone - the lifecycle rejects their dial claim.
+ * Returns the number of jobs removed
+ */
+export async function deletePendingCallJobs(callId: string): Promise<number> {
+  const boss = await getBoss();
+  const { rows } = await boss.getDb().executeSql(
+    `SELECT id FROM pgboss.job WHERE name = $1 AND state IN ('created', 'retry') AND data->>'callId' = $2`,
+    [JOB_TYPES.PROCESS_CALL, callId],
+  );
+  const jobIds = rows.map((row: { id: string }) => row.id);
+  if (jobIds.length > 0) {
+    await boss.deleteJob(JOB_TYPES.PROCESS_CALL, jobIds);
+  }
+  return jobIds.length;
+}
@@ -0,0 +1,51 @@
+/**
+ * Answering-machine detection (AMD) helpers
+ *
+ * Calls are placed with machineDetection "DetectMessageEnd", so Twilio waits
+ * for the greeting and beep before requesting TwiML. The AnsweredBy result
+ * arrives on the voice request and on status callbacks:
+ *   human | unknown                      → ConversationRelay as usual
+ *   machine_start | machine_end_* | fax  → voicemail flow (hang up or leave a message)
+ */
+
+// Twilio's <Say> can't use the persona's ElevenLabs voice - pick a neural voice by gender
+const VOICEMAIL_VOICES: Record<string, string> = {
+  male: "Polly.Matthew-Neural",
+  female: "Polly.Joanna-Neural",
+};
+const DEFAULT_VOICEMAIL_VOICE = "Polly.Joanna-Neural";
+
+/**
+ * Whether Twilio's AnsweredBy means nobody is on the line live
+ */
+export function isMachineAnswer(answeredBy: string | null | undefined): boolean {
+  return !!answeredBy && (answeredBy.startsWith("machine_") || answeredBy === "fax");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * TwiML for a machine answer - leave the voicemail message, or just hang up
+ */
+export function voicemailTwiml(message: string | null, callerGender?: string | null): string {
+  if (!message) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Hangup/>
+</Response>`;
+  }
+
+  const voice = (callerGender && VOICEMAIL_VOICES[callerGender]) || DEFAULT_VOICEMAIL_VOICE;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Say voice="${voice}">${escapeXml(message)}</Say>
+    <Hangup/>
+</Response>`;
+}
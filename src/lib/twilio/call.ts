@@ -1,14 +1,37 @@
+import type { drizzle } from "drizzle-orm/postgres-js";
 import { getTwilioClient, isTwilioConfigured } from "./client";
+import { recordOutboundNumberUse, selectOutboundNumber } from "./caller-id-pool";
 import { env } from "~/env/server";
 import type { calls } from "~/lib/db/schema/calls";
 import { extractPhoneNumber, isFhenixEncrypted } from "~/lib/fhenix/backend-decrypt";
+import { isOnDoNotCallList } from "~/lib/calls/do-not-call";
+import { transitionCall } from "~/lib/calls/lifecycle";
+import type { CallEventSource } from "~/lib/calls/lifecycle";
+import { restoreCreditForCall } from "~/lib/credits/functions";
+import type { PersonaLLMSettings } from "~/lib/conversation-relay/llm-providers";
+import {
+  callLimitOverridesFromCall,
+  resolveCallLimits,
+  twilioTimeLimitSeconds,
+} from "~/lib/conversation-relay/call-limits";
+import type { CallLimits } from "~/lib/conversation-relay/call-limits";
+import { signCacheRequest } from "~/lib/conversation-relay/cache-signature";
 
+type Database = ReturnType<typeof drizzle>;
 type CallRecord = typeof calls.$inferSelect;
 
 interface CacheData {
   callSid: string;
+  callId: string; // Our call id - lets the relay publish live transcript events
   openaiPrompt: string;
   welcomeGreeting?: string;
+  llm?: PersonaLLMSettings;
+  limits?: CallLimits;
+}
+
+export interface InitiateCallOptions {
+  llm?: PersonaLLMSettings; // Caller persona's live-call model settings
+  source?: CallEventSource; // Recorded on the failed transition when the number opted out (default: worker)
 }
 
 /**
@@ -20,10 +43,15 @@ async function cacheCallDataToWebSocket(data: CacheData): Promise<void> {
   const cacheUrl = `http://localhost:${port}/cache/call`;
   
   try {
+    // Signed with the shared secret - the relay rejects unsigned writes in production
+    const body = JSON.stringify(data);
     const response = await fetch(cacheUrl, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
+      headers: {
+        "Content-Type": "application/json",
+        ...(env.CALL_CACHE_SECRET ? signCacheRequest(env.CALL_CACHE_SECRET, body) : {}),
+      },
+      body,
     });
     
     if (response.ok) {
@@ -39,25 +67,28 @@ async function cacheCallDataToWebSocket(data: CacheData): Promise<void> {
 
 /**
  * Initiate a Twilio call using ConversationRelay
+ * @param db - Database for the caller-ID pool (see caller-id-pool.ts)
  * @param call - Call record from database
- * @returns Call SID and recording SID
+ * @param options - Persona settings forwarded to the WebSocket server cache
+ * @returns Call SID, recording SID and the caller ID it was placed from -
+ * null when the number is on the do-not-call list (the call is failed and its credit restored)
  */
 export async function initiateTwilioCall(
+  db: Database,
   call: CallRecord,
+  options: InitiateCallOptions = {},
 ): Promise<{
   callSid: string;
   recordingSid?: string;
-}> {
+  fromNumber: string;
+  outboundNumberId: string | null;
+} | null> {
   const client = getTwilioClient();
 
   if (!client) {
     throw new Error("Twilio is not configured. Please set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, and TWILIO_PHONE_NUMBER");
   }
 
-  if (!env.TWILIO_PHONE_NUMBER) {
-    throw new Error("TWILIO_PHONE_NUMBER is not set");
-  }
-
   // Extract phone number from encrypted handle
   // Supports both legacy (encrypted_+1...) and Fhenix (fhenix:0x...) formats
   const phoneNumber = await extractPhoneNumber(call.encryptedHandle);
@@ -70,6 +101,20 @@ export async function initiateTwilioCall(
     throw new Error("Phone number not found in call record");
   }
 
+  // Last check before dialing - the only one that sees Fhenix numbers, which are
+  // decrypted just above (isHandleOnDoNotCallList can't read them)
+  if (await isOnDoNotCallList(db, phoneNumber)) {
+    console.warn(`[Twilio Call] 🚫 Not dialing call ${call.id} - the number is on the do-not-call list`);
+    const failed = await transitionCall(db, call.id, "failed", { reason: "do_not_call", source: options.source ?? "worker" });
+    if (failed.applied) {
+      await restoreCreditForCall(db, call.id, "do_not_call");
+    }
+    return null;
+  }
+
+  // Local caller ID from the pool, falling back to TWILIO_PHONE_NUMBER
+  const from = await selectOutboundNumber(db, { callId: call.id, recipientPhoneNumber: phoneNumber });
+
   // TwiML URL with call ID for fetching call-specific data (welcome greeting, etc.)
   const twimlUrl = `${env.VITE_BASE_URL}/api/twilio/voice?callId=${call.id}`;
 
@@ -77,8 +122,12 @@ export async function initiateTwilioCall(
   const statusCallbackUrl = `${env.VITE_BASE_URL}/api/webhooks/twilio/call-status`;
   const recordingStatusCallbackUrl = `${env.VITE_BASE_URL}/api/webhooks/twilio/recording-status`;
 
+  // Duration/silence limits enforced by the relay server; Twilio's timeLimit is the backstop
+  const limits = resolveCallLimits(callLimitOverridesFromCall(call));
+
   console.log("=".repeat(80));
   console.log("[Twilio Call] 📞 Initiating call to:", phoneNumber);
+  console.log("[Twilio Call] From:", from.phoneNumber);
   console.log("[Twilio Call] 🎙️  Using ConversationRelay (ElevenLabs TTS + Deepgram STT)");
   console.log("[Twilio Call] TwiML URL:", twimlUrl);
   console.log("[Twilio Call] Status callback:", statusCallbackUrl);
@@ -88,7 +137,7 @@ export async function initiateTwilioCall(
   // Make the call with recording enabled
   const twilioCall = await client.calls.create({
     to: phoneNumber,
-    from: env.TWILIO_PHONE_NUMBER,
+    from: from.phoneNumber,
     url: twimlUrl,
     statusCallback: statusCallbackUrl,
     statusCallbackEvent: ["initiated", "ringing", "answered", "completed"],
@@ -97,20 +146,38 @@ export async function initiateTwilioCall(
     recordingChannels: "dual", // Dual-channel: left=caller/AI, right=target/person (stereo)
     recordingStatusCallback: recordingStatusCallbackUrl,
     recordingStatusCallbackMethod: "POST",
+    timeLimit: twilioTimeLimitSeconds(limits),
+    // Answering-machine detection - the voice webhook gets AnsweredBy after the greeting/beep
+    machineDetection: "DetectMessageEnd",
+    machineDetectionTimeout: 30,
+  });
+
+  await recordOutboundNumberUse(db, from, {
+    callId: call.id,
+    recipientPhoneNumber: phoneNumber,
+    callSid: twilioCall.sid,
+  }).catch((error) => {
+    // The call is already ringing - losing one stats row isn't worth failing it
+    console.error(`[Twilio Call] ⚠️ Failed to record caller-ID use for call ${call.id}:`, error);
   });
 
   // Cache call data to WebSocket server for faster session initialization
   if (call.openaiPrompt) {
     await cacheCallDataToWebSocket({
       callSid: twilioCall.sid,
+      callId: call.id,
       openaiPrompt: call.openaiPrompt,
       welcomeGreeting: call.welcomeGreeting || undefined,
+      llm: options.llm,
+      limits,
     });
   }
 
   return {
     callSid: twilioCall.sid,
     recordingSid: twilioCall.sid, // Recording SID will come from webhook
+    fromNumber: from.phoneNumber,
+    outboundNumberId: from.outboundNumberId,
   };
 }
 
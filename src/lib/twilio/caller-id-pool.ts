@@ -0,0 +1,284 @@
+import { and, eq, gte, isNull, lte, ne, or, sql } from "drizzle-orm";
+import type { drizzle } from "drizzle-orm/postgres-js";
+import { env } from "~/env/server";
+import { outboundNumberUses, outboundNumbers } from "~/lib/db/schema/outbound-numbers";
+import { getCountryRules } from "~/lib/calls/country-rules";
+import { hashPhoneNumber } from "~/lib/calls/phone-hash";
+import { getTimezonesForAreaCode } from "~/lib/calls/timezones";
+import { parsePhoneNumber } from "~/lib/validation/phone-number";
+
+/**
+ * Caller-ID pool - which number a call is placed from
+ *
+ * Candidates are active pool numbers outside their cool-down that haven't
+ * dialed this recipient for another call within CALLER_ID_REUSE_DAYS
+ * (retries of the same call don't count against a number).
+ * They're ranked by how local they are, then by answer rate, then least
+ * recently used:
+ *
+ *   0. same area code
+ *   1. same country, sharing a timezone with the recipient's area code (NANP)
+ *   2. same country
+ *   3. same country calling code (US ↔ CA)
+ *   4. anything else in the pool
+ *
+ * With nothing eligible the call goes out from TWILIO_PHONE_NUMBER.
+ */
+
+type Database = ReturnType<typeof drizzle>;
+type OutboundNumberRecord = typeof outboundNumbers.$inferSelect;
+
+const DEFAULT_REUSE_DAYS = 30;
+
+// Health signals from call-status outcomes (see recordOutboundNumberOutcome)
+const SPAM_SIP_RESPONSE_CODES = new Set(["603", "607", "608"]); // Decline, Unwanted, Rejected
+const SPAM_COOLDOWN_HOURS = 24; // Per flag on record, so repeat offenders rest longer
+const MAX_SPAM_COOLDOWN_HOURS = 24 * 7;
+const MAX_SPAM_FLAGS = 5; // Retired after this many carrier rejections
+const MAX_CONSECUTIVE_UNANSWERED = 8;
+const UNANSWERED_COOLDOWN_HOURS = 12;
+const RECENT_SPAM_FLAG_DAYS = 30; // A flag this recent halves a number's rank score
+
+export interface OutboundNumberSelection {
+  phoneNumber: string;
+  outboundNumberId: string | null; // Null for the TWILIO_PHONE_NUMBER fallback
+}
+
+export interface RankedOutboundNumber {
+  number: OutboundNumberRecord;
+  tier: number;
+  score: number;
+}
+
+export type OutboundNumberOutcome = "answered" | "unanswered" | "rejected";
+
+interface RecipientLocation {
+  country: string;
+  dialCode: string;
+  areaCode: string | null;
+  timezones: readonly string[];
+}
+
+/**
+ * NANP area code of an E.164 number (null outside +1)
+ */
+export function getAreaCode(e164: string): string | null {
+  const digits = e164.replace(/\D/g, "");
+  return digits.length === 11 && digits.startsWith("1") ? digits.substring(1, 4) : null;
+}
+
+function locate(phoneNumber: string): RecipientLocation | null {
+  const parsed = parsePhoneNumber(phoneNumber);
+  if (!parsed.valid) return null;
+
+  const areaCode = getAreaCode(parsed.phone.e164);
+  return {
+    country: parsed.phone.country,
+    dialCode: getCountryRules(parsed.phone.country)?.dialCode ?? "",
+    areaCode,
+    timezones: areaCode ? getTimezonesForAreaCode(parsed.phone.e164) ?? [] : [],
+  };
+}
+
+/**
+ * How local a pool number is to the recipient (lower is better, see tiers above)
+ */
+function localityTier(number: OutboundNumberRecord, recipient: RecipientLocation): number {
+  if (recipient.areaCode && number.areaCode === recipient.areaCode) return 0;
+  if (number.country === recipient.country) {
+    const zones = number.areaCode ? getTimezonesForAreaCode(number.phoneNumber) ?? [] : [];
+    return zones.some((zone) => recipient.timezones.includes(zone)) ? 1 : 2;
+  }
+  if (recipient.dialCode && number.phoneNumber.startsWith(`+${recipient.dialCode}`)) return 3;
+  return 4;
+}
+
+/**
+ * Smoothed answer rate, halved after a recent spam flag
+ */
+function healthScore(number: OutboundNumberRecord, now: Date): number {
+  const answerRate = (number.callsAnswered + 1) / (number.callsAnswered + number.callsUnanswered + 2);
+  const recentFlag = number.lastSpamFlagAt
+    && now.getTime() - number.lastSpamFlagAt.getTime() < RECENT_SPAM_FLAG_DAYS * 24 * 60 * 60 * 1000;
+  return recentFlag ? answerRate / 2 : answerRate;
+}
+
+/**
+ * Order eligible pool numbers best-first for a recipient: locality tier, then
+ * health score, then least recently used (empty if the recipient doesn't parse)
+ */
+export function rankOutboundNumbers(
+  candidates: OutboundNumberRecord[],
+  recipientPhoneNumber: string,
+  now: Date = new Date(),
+): RankedOutboundNumber[] {
+  const recipient = locate(recipientPhoneNumber);
+  if (!recipient) return [];
+
+  return candidates
+    .map((number) => ({ number, tier: localityTier(number, recipient), score: healthScore(number, now) }))
+    .sort((a, b) =>
+      a.tier - b.tier
+      || b.score - a.score
+      || (a.number.lastUsedAt?.getTime() ?? 0) - (b.number.lastUsedAt?.getTime() ?? 0),
+    );
+}
+
+/**
+ * Pick the caller ID for a call to a recipient
+ * @throws if the pool has nothing eligible and TWILIO_PHONE_NUMBER isn't set
+ */
+export async function selectOutboundNumber(
+  db: Database,
+  options: { callId: string; recipientPhoneNumber: string },
+): Promise<OutboundNumberSelection> {
+  const now = new Date();
+  const reuseDays = env.CALLER_ID_REUSE_DAYS ?? DEFAULT_REUSE_DAYS;
+  const reuseSince = new Date(now.getTime() - reuseDays * 24 * 60 * 60 * 1000);
+
+  const available = await db
+    .select()
+    .from(outboundNumbers)
+    .where(
+      and(
+        eq(outboundNumbers.active, true),
+        or(isNull(outboundNumbers.cooldownUntil), lte(outboundNumbers.cooldownUntil, now)),
+      ),
+    );
+
+  const recentUses = available.length > 0
+    ? await db
+        .select({ outboundNumberId: outboundNumberUses.outboundNumberId })
+        .from(outboundNumberUses)
+        .where(
+          and(
+            eq(outboundNumberUses.recipientHash, hashPhoneNumber(options.recipientPhoneNumber)),
+            gte(outboundNumberUses.createdAt, reuseSince),
+            ne(outboundNumberUses.callId, options.callId),
+          ),
+        )
+    : [];
+  const usedForRecipient = new Set(recentUses.map((use) => use.outboundNumberId));
+  const candidates = available.filter((number) => !usedForRecipient.has(number.id));
+
+  const [best] = rankOutboundNumbers(candidates, options.recipientPhoneNumber, now);
+  if (best) {
+    console.log(`[Caller ID] 📱 Call ${options.callId} → ${best.number.phoneNumber} (tier ${best.tier}, score ${best.score.toFixed(2)})`);
+    return { phoneNumber: best.number.phoneNumber, outboundNumberId: best.number.id };
+  }
+
+  if (!env.TWILIO_PHONE_NUMBER) {
+    throw new Error("No eligible outbound number in the caller-ID pool and TWILIO_PHONE_NUMBER is not set");
+  }
+
+  if (available.length > 0) {
+    console.warn(`[Caller ID] ⚠️ No eligible pool number for call ${options.callId} (${available.length} available, ${usedForRecipient.size} recently used for this recipient), using TWILIO_PHONE_NUMBER`);
+  }
+  return { phoneNumber: env.TWILIO_PHONE_NUMBER, outboundNumberId: null };
+}
+
+/**
+ * Record that a pool number dialed a recipient (no-op for the fallback number)
+ */
+export async function recordOutboundNumberUse(
+  db: Database,
+  selection: OutboundNumberSelection,
+  use: { callId: string; recipientPhoneNumber: string; callSid: string },
+): Promise<void> {
+  if (!selection.outboundNumberId) return;
+
+  await db.insert(outboundNumberUses).values({
+    outboundNumberId: selection.outboundNumberId,
+    callId: use.callId,
+    recipientHash: hashPhoneNumber(use.recipientPhoneNumber),
+    callSid: use.callSid,
+  });
+  await db
+    .update(outboundNumbers)
+    .set({
+      callsPlaced: sql`${outboundNumbers.callsPlaced} + 1`,
+      lastUsedAt: new Date(),
+    })
+    .where(eq(outboundNumbers.id, selection.outboundNumberId));
+}
+
+/**
+ * Health signal for a Twilio call-status outcome (null = says nothing about the number)
+ * A carrier rejection (SIP 603/607/608) is the closest thing Twilio reports to "flagged as spam"
+ */
+export function outboundNumberOutcomeFromTwilio(
+  callStatus: string,
+  options: { sipResponseCode?: string | null; machine: boolean },
+): OutboundNumberOutcome | null {
+  if (options.sipResponseCode && SPAM_SIP_RESPONSE_CODES.has(options.sipResponseCode)) {
+    return "rejected";
+  }
+  switch (callStatus) {
+    case "completed":
+      return options.machine ? "unanswered" : "answered";
+    case "no-answer":
+    case "busy":
+      return "unanswered";
+    default:
+      return null; // failed (our side or the carrier), canceled
+  }
+}
+
+/**
+ * Update a pool number's stats from a call outcome, cooling it down when it
+ * looks burned: a spam flag, or a long run of unanswered calls
+ */
+export async function recordOutboundNumberOutcome(
+  db: Database,
+  outboundNumberId: string,
+  outcome: OutboundNumberOutcome,
+): Promise<void> {
+  const now = new Date();
+
+  if (outcome === "answered") {
+    await db
+      .update(outboundNumbers)
+      .set({ callsAnswered: sql`${outboundNumbers.callsAnswered} + 1`, consecutiveUnanswered: 0 })
+      .where(eq(outboundNumbers.id, outboundNumberId));
+    return;
+  }
+
+  const [number] = await db
+    .update(outboundNumbers)
+    .set({
+      callsUnanswered: sql`${outboundNumbers.callsUnanswered} + 1`,
+      consecutiveUnanswered: sql`${outboundNumbers.consecutiveUnanswered} + 1`,
+      ...(outcome === "rejected"
+        ? { spamFlags: sql`${outboundNumbers.spamFlags} + 1`, lastSpamFlagAt: now }
+        : {}),
+    })
+    .where(eq(outboundNumbers.id, outboundNumberId))
+    .returning();
+  if (!number) return;
+
+  if (outcome === "rejected") {
+    if (number.spamFlags >= MAX_SPAM_FLAGS) {
+      await db
+        .update(outboundNumbers)
+        .set({ active: false })
+        .where(eq(outboundNumbers.id, outboundNumberId));
+      console.warn(`[Caller ID] 🚫 ${number.phoneNumber} retired after ${number.spamFlags} spam flags`);
+      return;
+    }
+    const hours = Math.min(SPAM_COOLDOWN_HOURS * number.spamFlags, MAX_SPAM_COOLDOWN_HOURS);
+    await coolDown(db, number, hours, "spam flag");
+  } else if (number.consecutiveUnanswered >= MAX_CONSECUTIVE_UNANSWERED) {
+    await coolDown(db, number, UNANSWERED_COOLDOWN_HOURS, `${number.consecutiveUnanswered} unanswered in a row`);
+  }
+}
+
+async function coolDown(db: Database, number: OutboundNumberRecord, hours: number, reason: string): Promise<void> {
+  await db
+    .update(outboundNumbers)
+    .set({
+      cooldownUntil: new Date(Date.now() + hours * 60 * 60 * 1000),
+      consecutiveUnanswered: 0,
+    })
+    .where(eq(outboundNumbers.id, number.id));
+  console.warn(`[Caller ID] 🧊 ${number.phoneNumber} cooling down for ${hours}h (${reason})`);
+}
@@ -0,0 +1,62 @@
+import twilio from "twilio";
+
+/**
+ * Twilio request signature (X-Twilio-Signature) validation
+ *
+ * Twilio signs the exact public URL it called plus the POST params with the
+ * account auth token. Behind proxies/ngrok the URL our server sees differs
+ * from the public one, so callers pass every plausible public URL and the
+ * request is valid if any of them matches.
+ *
+ * No env imports - shared by the app routes and server-ws.ts.
+ */
+
+export const TWILIO_SIGNATURE_HEADER = "x-twilio-signature";
+
+/**
+ * Check a signature against candidate public URLs
+ */
+export function isValidTwilioSignature(
+  authToken: string,
+  signature: string | null | undefined,
+  candidateUrls: string[],
+  params: Record<string, string> = {},
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  return candidateUrls.some((url) => twilio.validateRequest(authToken, signature, url, params));
+}
+
+/**
+ * Public URLs Twilio may have signed for a request
+ * - publicBaseUrl + path (the URL we gave Twilio, e.g. VITE_BASE_URL / ngrok URL)
+ * - X-Forwarded-Proto/Host reconstruction (reverse proxies, ngrok)
+ * - the URL as seen by this server
+ */
+export function candidateTwilioUrls(
+  requestUrl: string,
+  headers: { get(name: string): string | null },
+  publicBaseUrls: (string | undefined)[],
+): string[] {
+  const url = new URL(requestUrl);
+  const pathAndQuery = `${url.pathname}${url.search}`;
+  const candidates = new Set<string>();
+
+  for (const base of publicBaseUrls) {
+    if (base) {
+      candidates.add(`${base.replace(/\/+$/, "")}${pathAndQuery}`);
+    }
+  }
+
+  const forwardedHost = headers.get("x-forwarded-host") || headers.get("host");
+  if (forwardedHost) {
+    const forwardedProto = headers.get("x-forwarded-proto")?.split(",")[0].trim()
+      || url.protocol.replace(":", "");
+    candidates.add(`${forwardedProto}://${forwardedHost}${pathAndQuery}`);
+  }
+
+  candidates.add(url.toString());
+  return [...candidates];
+}
@@ -0,0 +1,27 @@
+import { getTwilioClient, isTwilioConfigured } from "./client";
+import { env } from "~/env/server";
+
+/**
+ * Send a text message from our Twilio number
+ * Without Twilio credentials in development the message is printed to the
+ * server console instead (local stand-in); in production that's an error.
+ */
+export async function sendSms(to: string, body: string): Promise<void> {
+  const client = getTwilioClient();
+
+  if (!client || !isTwilioConfigured()) {
+    if (process.env.NODE_ENV !== "production") {
+      console.log(`[Twilio SMS] 📟 (dev stand-in) SMS to ${to}: ${body}`);
+      return;
+    }
+    throw new Error("Twilio is not configured - can't send SMS");
+  }
+
+  const message = await client.messages.create({
+    to,
+    from: env.TWILIO_PHONE_NUMBER!,
+    body,
+  });
+
+  console.log(`[Twilio SMS] ✅ Sent message ${message.sid}`);
+}
@@ -0,0 +1,66 @@
+import { env } from "~/env/server";
+import { candidateTwilioUrls, isValidTwilioSignature, TWILIO_SIGNATURE_HEADER } from "./signature";
+
+type TwilioRouteHandler = (context: { request: Request }) => Promise<Response>;
+
+/**
+ * Whether signature checks are switched off (local testing only, never in production)
+ */
+function isValidationDisabled(): boolean {
+  return process.env.NODE_ENV !== "production" && env.TWILIO_SKIP_SIGNATURE_VALIDATION === "true";
+}
+
+/**
+ * Validate X-Twilio-Signature for a form-encoded Twilio webhook/TwiML request
+ * Returns null when valid, otherwise the reason for rejecting it
+ */
+export async function validateTwilioRequest(request: Request): Promise<string | null> {
+  if (isValidationDisabled()) {
+    return null;
+  }
+
+  if (!env.TWILIO_AUTH_TOKEN) {
+    return "TWILIO_AUTH_TOKEN is not configured";
+  }
+
+  // Read params from a clone so the handler can still consume the body
+  const params: Record<string, string> = {};
+  const contentType = request.headers.get("content-type") || "";
+  if (request.method === "POST" && contentType.includes("application/x-www-form-urlencoded")) {
+    const formData = await request.clone().formData();
+    for (const [key, value] of formData.entries()) {
+      if (typeof value === "string") {
+        params[key] = value;
+      }
+    }
+  }
+
+  const urls = candidateTwilioUrls(request.url, request.headers, [
+    env.TWILIO_WEBHOOK_BASE_URL,
+    env.VITE_BASE_URL,
+  ]);
+  const signature = request.headers.get(TWILIO_SIGNATURE_HEADER);
+
+  if (!isValidTwilioSignature(env.TWILIO_AUTH_TOKEN, signature, urls, params)) {
+    return signature ? "Invalid signature" : "Missing X-Twilio-Signature header";
+  }
+
+  return null;
+}
+
+/**
+ * Wrap a Twilio webhook/TwiML route handler: requests without a valid
+ * X-Twilio-Signature are rejected with 403 before the handler runs
+ */
+export function withTwilioSignature(handler: TwilioRouteHandler): TwilioRouteHandler {
+  return async ({ request }) => {
+    const rejection = await validateTwilioRequest(request);
+    if (rejection) {
+      const path = new URL(request.url).pathname;
+      console.warn(`[Twilio Auth] 🚫 Rejected ${request.method} ${path}: ${rejection}`);
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    return handler({ request });
+  };
+}
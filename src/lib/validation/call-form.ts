@@ -1,8 +1,12 @@
 import { VIDEO_STYLES } from "~/lib/constants/video-styles";
+import { parsePhoneNumber } from "~/lib/validation/phone-number";
+import { MODERATION_CATEGORY_MESSAGES, moderateWithRules, pickCallRequestFields } from "~/lib/moderation/rules";
+import { findInjectedFields, PROMPT_INJECTION_MESSAGE } from "~/lib/prompts/injection";
 
 export interface CallFormData {
   recipientName?: string;
   phoneNumber?: string;
+  recipientCountry?: string; // ISO country of the number - national-format input is read in this country
   targetGender?: "male" | "female" | "prefer_not_to_say" | "other";
   targetGenderCustom?: string;
   targetAgeRange?: "" | "18-25" | "26-35" | "36-45" | "46-55" | "56+";
@@ -15,13 +19,35 @@ export interface CallFormData {
   videoStyle?: string;
   uploadedImageUrl?: string;
   uploadedImageS3Key?: string;
+  scheduledFor?: string; // Delivery time on the recipient's wall clock, "" = as soon as possible
+  voicemailMode?: VoicemailMode; // What to do if an answering machine picks up
+  reviewScript?: boolean; // Approve the generated script before the call is queued
 }
 
+export type VoicemailMode = "hang_up" | "leave_message";
+
+// "YYYY-MM-DDTHH:mm" - what <input type="datetime-local"> produces
+export const SCHEDULED_FOR_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
 export interface ValidationError {
   field: string;
   message: string;
 }
 
+// Shown wherever a listed number is refused (form, assistant, createCall, checkout, worker)
+export const DO_NOT_CALL_MESSAGE = "This number has opted out of calls from this service and can't be called.";
+
+// Script review limits (see calls/script-review.ts)
+export const MAX_SCRIPT_REGENERATIONS = 5;
+export const SCRIPT_FEEDBACK_MAX_LENGTH = 500;
+export const WELCOME_GREETING_MAX_LENGTH = 500;
+
+export interface ValidateCallFormOptions {
+  // E.164 numbers known to be on the do-not-call list - the list lives server-side,
+  // so callers look the number up first (checkDoNotCall, getDoNotCallNumbers)
+  doNotCallNumbers?: ReadonlySet<string>;
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
@@ -29,56 +55,19 @@ export interface ValidationResult {
 }
 
 /**
- * Validates and normalizes a US phone number
- * Accepts formats like: +1 555-123-4567, (555) 123-4567, 555-123-4567, 5551234567
- * Always returns in format: +1XXXXXXXXXX (11 digits total)
+ * Validates and normalizes a phone number for any supported country
+ * Accepts international (+44 20 7946 0958, 0044...) or national format for the selected country
+ * Always returns E.164: +<country code><national number>
  */
-function validateAndNormalizePhoneNumber(phone: string): { valid: boolean; normalized?: string; error?: string } {
-  if (!phone || typeof phone !== "string") {
-    return { valid: false, error: "Phone number is required" };
-  }
-
-  // Remove all non-digit characters except +
-  const cleaned = phone.trim();
-  
-  // Remove common formatting characters
-  let digits = cleaned.replace(/[^\d+]/g, "");
-  
-  // Handle +1 prefix
-  if (digits.startsWith("+1")) {
-    digits = digits.substring(2);
-  } else if (digits.startsWith("1") && digits.length === 11) {
-    digits = digits.substring(1);
-  }
-  
-  // Must be exactly 10 digits for US number
-  if (digits.length !== 10) {
-    return { 
-      valid: false, 
-      error: `Phone number must be 10 digits. Got ${digits.length} digits. Please provide a US phone number in format: +1 (555) 123-4567` 
-    };
-  }
-  
-  // Check if it's a valid US area code (starts with 2-9)
-  const areaCode = digits.substring(0, 3);
-  if (areaCode[0] === "0" || areaCode[0] === "1") {
-    return { 
-      valid: false, 
-      error: "Invalid US area code. Area code must start with 2-9." 
-    };
-  }
-  
-  // Check exchange code (4th digit must be 2-9)
-  const exchangeCode = digits.substring(3, 6);
-  if (exchangeCode[0] === "0" || exchangeCode[0] === "1") {
-    return { 
-      valid: false, 
-      error: "Invalid US exchange code. Exchange code must start with 2-9." 
-    };
-  }
-  
-  // Return normalized format: +1XXXXXXXXXX
-  return { valid: true, normalized: `+1${digits}` };
+function validateAndNormalizePhoneNumber(
+  phone: string,
+  country?: string,
+): { valid: boolean; normalized?: string; country?: string; error?: string } {
+  const result = parsePhoneNumber(phone, country);
+  if (!result.valid) {
+    return { valid: false, error: result.error };
+  }
+  return { valid: true, normalized: result.phone.e164, country: result.phone.country };
 }
 
 /**
@@ -220,7 +209,10 @@ function validateTextField(
 /**
  * Comprehensive validation function for call form data
  */
-export function validateCallFormData(data: Partial<CallFormData>): ValidationResult {
+export function validateCallFormData(
+  data: Partial<CallFormData>,
+  options: ValidateCallFormOptions = {},
+): ValidationResult {
   const errors: ValidationError[] = [];
   const normalizedData: Partial<CallFormData> = {};
 
@@ -233,11 +225,14 @@ export function validateCallFormData(data: Partial<CallFormData>): ValidationRes
   }
 
   // Validate phone number (required)
-  const phoneResult = validateAndNormalizePhoneNumber(data.phoneNumber || "");
+  const phoneResult = validateAndNormalizePhoneNumber(data.phoneNumber || "", data.recipientCountry);
   if (!phoneResult.valid) {
     errors.push({ field: "phoneNumber", message: phoneResult.error! });
+  } else if (phoneResult.normalized && options.doNotCallNumbers?.has(phoneResult.normalized)) {
+    errors.push({ field: "phoneNumber", message: DO_NOT_CALL_MESSAGE });
   } else if (phoneResult.normalized) {
     normalizedData.phoneNumber = phoneResult.normalized;
+    normalizedData.recipientCountry = phoneResult.country;
   }
 
   // Validate gender (required)
@@ -335,6 +330,30 @@ export function validateCallFormData(data: Partial<CallFormData>): ValidationRes
     normalizedData.ragebaitTrigger = ragebaitResult.normalized;
   }
 
+  // Content rules - createCall checks again (with the classifier) and screens the generated script
+  for (const flag of moderateWithRules(pickCallRequestFields(data))) {
+    if (!errors.some((error) => error.field === flag.field)) {
+      errors.push({ field: flag.field, message: MODERATION_CATEGORY_MESSAGES[flag.category] });
+    }
+  }
+
+  // Instructions smuggled into the details - generation leaves such fields out anyway
+  for (const field of findInjectedFields(pickCallRequestFields(data))) {
+    if (!errors.some((error) => error.field === field)) {
+      errors.push({ field, message: PROMPT_INJECTION_MESSAGE });
+    }
+  }
+
+  // Validate scheduled time (optional) - calling hours depend on the number, checked on createCall
+  const scheduledFor = data.scheduledFor?.trim();
+  if (scheduledFor) {
+    if (!SCHEDULED_FOR_PATTERN.test(scheduledFor)) {
+      errors.push({ field: "scheduledFor", message: "Scheduled time must look like 2025-06-01T10:00" });
+    } else {
+      normalizedData.scheduledFor = scheduledFor;
+    }
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
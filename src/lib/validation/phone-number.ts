@@ -0,0 +1,124 @@
+import {
+  COUNTRY_CALLING_RULES,
+  DEFAULT_COUNTRY,
+  getCountryRules,
+  getNanpCountry,
+  SUPPORTED_COUNTRIES,
+} from "~/lib/calls/country-rules";
+import type { CountryCallingRules } from "~/lib/calls/country-rules";
+
+export interface ParsedPhoneNumber {
+  e164: string; // +<country code><national number>
+  country: string; // ISO 3166-1 alpha-2
+  nationalNumber: string;
+}
+
+type ParseResult = { valid: true; phone: ParsedPhoneNumber } | { valid: false; error: string };
+
+// Longest calling code first so "+353" isn't read as "+35..." of another country
+const DIAL_CODE_RULES = Object.values(COUNTRY_CALLING_RULES)
+  .filter((rules) => rules.dialCode !== "1")
+  .sort((a, b) => b.dialCode.length - a.dialCode.length);
+
+const SUPPORTED_NAMES = SUPPORTED_COUNTRIES.map((rules) => rules.name).join(", ");
+
+/**
+ * Validate a 10-digit NANP number and resolve its country from the area code
+ */
+function parseNanpNumber(national: string): ParseResult {
+  if (national.length !== 10) {
+    return {
+      valid: false,
+      error: `Phone number must be 10 digits. Got ${national.length} digits. Please provide a number in format: +1 (555) 123-4567`,
+    };
+  }
+
+  // Area code and exchange code must start with 2-9
+  const areaCode = national.substring(0, 3);
+  if (areaCode[0] === "0" || areaCode[0] === "1") {
+    return { valid: false, error: "Invalid area code. Area code must start with 2-9." };
+  }
+  const exchangeCode = national.substring(3, 6);
+  if (exchangeCode[0] === "0" || exchangeCode[0] === "1") {
+    return { valid: false, error: "Invalid exchange code. Exchange code must start with 2-9." };
+  }
+
+  const country = getNanpCountry(areaCode);
+  if (!country) {
+    return {
+      valid: false,
+      error: `Area code ${areaCode} is outside the US and Canada. We currently call: ${SUPPORTED_NAMES}.`,
+    };
+  }
+
+  return { valid: true, phone: { e164: `+1${national}`, country, nationalNumber: national } };
+}
+
+/**
+ * Validate the digits after the country code against the country's rules
+ */
+function parseNationalNumber(rules: CountryCallingRules, digits: string): ParseResult {
+  let national = digits;
+
+  // "+44 (0) 20..." and "020..." - drop the trunk prefix
+  if (rules.trunkPrefix && national.startsWith(rules.trunkPrefix)) {
+    national = national.substring(rules.trunkPrefix.length);
+  }
+  // Mexican mobiles used to be dialed as +52 1 XX XXXX XXXX
+  if (rules.code === "MX" && national.length === 11 && national.startsWith("1")) {
+    national = national.substring(1);
+  }
+
+  if (!rules.nationalNumberLengths.includes(national.length)) {
+    return {
+      valid: false,
+      error: `${rules.name} numbers have ${rules.nationalNumberLengths.join(" or ")} digits after +${rules.dialCode}. Got ${national.length}.`,
+    };
+  }
+
+  return {
+    valid: true,
+    phone: { e164: `+${rules.dialCode}${national}`, country: rules.code, nationalNumber: national },
+  };
+}
+
+/**
+ * Parse a phone number to E.164 and identify its country
+ * Numbers with "+" or "00" are international; anything else is read in
+ * defaultCountry's national format (US if not given)
+ */
+export function parsePhoneNumber(input: string, defaultCountry: string = DEFAULT_COUNTRY): ParseResult {
+  if (!input || typeof input !== "string") {
+    return { valid: false, error: "Phone number is required" };
+  }
+
+  const cleaned = input.trim().replace(/[^\d+]/g, "");
+  const international = cleaned.startsWith("+") || cleaned.startsWith("00");
+  const digits = cleaned.replace(/^(\+|00)/, "").replace(/\D/g, "");
+
+  if (digits.length === 0) {
+    return { valid: false, error: "Phone number is required" };
+  }
+
+  if (!international) {
+    const rules = getCountryRules(defaultCountry) ?? getCountryRules(DEFAULT_COUNTRY)!;
+    if (rules.dialCode === "1") {
+      return parseNanpNumber(digits.length === 11 && digits.startsWith("1") ? digits.substring(1) : digits);
+    }
+    return parseNationalNumber(rules, digits);
+  }
+
+  if (digits.startsWith("1")) {
+    return parseNanpNumber(digits.substring(1));
+  }
+
+  const rules = DIAL_CODE_RULES.find((candidate) => digits.startsWith(candidate.dialCode));
+  if (!rules) {
+    return {
+      valid: false,
+      error: `We don't call +${digits.substring(0, 3)}… numbers yet. We currently call: ${SUPPORTED_NAMES}.`,
+    };
+  }
+
+  return parseNationalNumber(rules, digits.substring(rules.dialCode.length));
+}
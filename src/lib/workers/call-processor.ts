@@ -5,12 +5,13 @@ import { createPostgresDriver } from "~/lib/db";
 import { calls } from "~/lib/db/schema/calls";
 import * as schema from "~/lib/db/schema";
 import { getBoss, JOB_TYPES } from "~/lib/queue/boss";
-import {
-  incrementDailyCallCount,
-  shouldRetryCall,
-  calculateNextRetryTime,
-} from "~/lib/calls/retry-logic";
+import { incrementDailyCallCount, shouldRetryCall } from "~/lib/calls/retry-logic";
+import { scheduleRetry, transitionCall } from "~/lib/calls/lifecycle";
 import { cacheCallData } from "~/lib/calls/cache";
+import { applyRefundPolicy } from "~/lib/credits/refund-policy";
+import { restoreCreditForCall } from "~/lib/credits/functions";
+import { personaLLMSettingsFromCaller } from "~/lib/conversation-relay/llm-providers";
+import { callLimitOverridesFromCall, resolveCallLimits } from "~/lib/conversation-relay/call-limits";
 
 interface ProcessCallJob {
   callId: string;
@@ -54,22 +55,19 @@ export async function setupCallProcessorWorker() {
           console.error(`[Call Processor] ❌ Call ${callId} missing OpenAI prompt! Status: ${call.status}`);
           console.error(`[Call Processor]   Call cannot be processed without prompt. Skipping...`);
           
-          // If status is prompt_ready but prompt is missing, something went wrong
-          if (call.status === "prompt_ready") {
-            console.error(`[Call Processor]   Status says prompt_ready but prompt is missing - data inconsistency!`);
-            await db
-              .update(calls)
-              .set({
-                status: "call_failed",
-                updatedAt: new Date(),
-              })
-              .where(eq(calls.id, callId));
+          // If status is scheduled but prompt is missing, something went wrong
+          if (call.status === "scheduled") {
+            console.error(`[Call Processor]   Status says scheduled but prompt is missing - data inconsistency!`);
+            const failed = await transitionCall(db, callId, "failed", { reason: "missing_prompt", source: "worker" });
+            if (failed.applied) {
+              await applyRefundPolicy(db, failed.call, { category: "our_error", reason: "missing_prompt" });
+            }
             return;
           }
           
-          // If status is call_created, prompt generation might have failed - don't process
-          if (call.status === "call_created") {
-            console.error(`[Call Processor]   Call still in call_created status without prompt - prompt generation may have failed`);
+          // If status is created, prompt generation might have failed - don't process
+          if (call.status === "created") {
+            console.error(`[Call Processor]   Call still in created status without prompt - prompt generation may have failed`);
             return;
           }
           
@@ -77,13 +75,13 @@ export async function setupCallProcessorWorker() {
           return;
         }
         
-        // Only process calls that are in "prompt_ready" status
-        if (call.status !== "prompt_ready") {
-          console.log(`[Call Processor] ⏸️  Call ${callId} not ready yet. Status: ${call.status} (expected: prompt_ready)`);
+        // Only process calls that are waiting for a dial slot
+        if (call.status !== "scheduled") {
+          console.log(`[Call Processor] ⏸️  Call ${callId} not ready yet. Status: ${call.status} (expected: scheduled)`);
           return;
         }
         
-        console.log(`[Call Processor] ✅ Call ${callId} is ready - has prompt and status is prompt_ready`);
+        console.log(`[Call Processor] ✅ Call ${callId} is ready - has prompt and status is scheduled`);
 
         // Check if we should retry this call now
         const retryCheck = await shouldRetryCall(db, callId);
@@ -92,91 +90,38 @@ export async function setupCallProcessorWorker() {
             `[Call Processor] Skipping call ${callId}: ${retryCheck.reason}`,
           );
 
-          // If it's just outside calling hours but within the day, schedule for later today
-          // Otherwise, calculate next retry time
-          const { isWithinCallingHours } = await import("~/lib/calls/retry-logic");
-          const canCallNow = isWithinCallingHours(call.encryptedHandle || "");
-          
-          if (!canCallNow && retryCheck.reason?.includes("calling hours")) {
-            // Within the day but outside hours - schedule for next available time slot today
-            const now = new Date();
-            const { getTimezoneForPhoneNumber } = await import("~/lib/calls/retry-logic");
-            const timezone = getTimezoneForPhoneNumber(call.encryptedHandle || "");
-            const formatter = new Intl.DateTimeFormat("en-US", {
-              timeZone: timezone,
-              hour: "numeric",
-              hour12: false,
-            });
-            const parts = formatter.formatToParts(now);
-            const currentHour = parseInt(parts.find((p) => p.type === "hour")?.value || "0", 10);
-            
-            // Schedule for next available time slot today (10 AM, 2 PM, or 6 PM)
-            const RETRY_TIME_SLOTS = [10, 14, 18];
-            const nextSlot = RETRY_TIME_SLOTS.find((slot) => slot > currentHour) || RETRY_TIME_SLOTS[0];
-            
-            // Calculate next retry time today
-            const nextRetryAt = new Date(now);
-            if (nextSlot <= currentHour) {
-              nextRetryAt.setDate(nextRetryAt.getDate() + 1);
+          // Recipient opted out - never call this number again
+          // The requester gets their credit back - the call can never be placed
+          if (retryCheck.doNotCall) {
+            const failed = await transitionCall(db, callId, "failed", { reason: "do_not_call", source: "worker" });
+            if (failed.applied) {
+              await restoreCreditForCall(db, callId, "do_not_call");
             }
-            nextRetryAt.setHours(nextSlot, 0, 0, 0);
-            
-            await db
-              .update(calls)
-              .set({
-                nextRetryAt,
-                updatedAt: new Date(),
-              })
-              .where(eq(calls.id, callId));
-
-            const boss = await getBoss();
-            await boss.send(
-              JOB_TYPES.PROCESS_CALL,
-              { callId },
-              { startAfter: nextRetryAt },
-            );
-          } else {
-            // Calculate next retry time (for daily limit or other reasons)
-            const nextRetryAt = calculateNextRetryTime(
-              call.encryptedHandle || "",
-              call.daysSinceFirstAttempt || 0,
-            );
-
-            if (nextRetryAt) {
-              // Update call with next retry time
-              await db
-                .update(calls)
-                .set({
-                  nextRetryAt,
-                  updatedAt: new Date(),
-                })
-                .where(eq(calls.id, callId));
+            return;
+          }
 
-              // Schedule retry job for later
-              const boss = await getBoss();
-              await boss.send(
-                JOB_TYPES.PROCESS_CALL,
-                { callId },
-                { startAfter: nextRetryAt },
-              );
-            } else {
-              // Max retry days exceeded - mark as failed
-              await db
-                .update(calls)
-                .set({
-                  status: "call_failed",
-                  updatedAt: new Date(),
-                })
-                .where(eq(calls.id, callId));
+          // Fired before nextRetryAt (early job, or one left from before a reschedule) -
+          // re-queue for the scheduled time so the call never sits in "scheduled" without a job
+          if (retryCheck.notDue) {
+            if (call.nextRetryAt) {
+              await boss.send(JOB_TYPES.PROCESS_CALL, { callId }, { startAfter: call.nextRetryAt });
+              console.log(`[Call Processor] ⏳ Call ${callId} not due yet, re-queued for ${call.nextRetryAt.toISOString()}`);
             }
+            return;
           }
 
+          // Outside hours - next slot inside the recipient's window
+          // Otherwise (daily limit, retry time not reached) - back off across the retry days
+          await scheduleRetry(db, call, {
+            strategy: retryCheck.reason?.includes("calling hours") ? "next_slot" : "backoff",
+            reason: retryCheck.reason?.includes("calling hours") ? "outside_calling_hours" : "retry_deferred",
+            source: "worker",
+            metadata: { detail: retryCheck.reason },
+          });
+
           return; // Exit without processing
         }
 
-        // Increment daily call count (TCPA compliance)
-        await incrementDailyCallCount(db, call.encryptedHandle || "");
-
         // Calculate days since first attempt
         const now = new Date();
         const firstAttemptAt = call.firstAttemptAt || now;
@@ -184,23 +129,47 @@ export async function setupCallProcessorWorker() {
           (now.getTime() - firstAttemptAt.getTime()) / (1000 * 60 * 60 * 24),
         );
 
-        // Update status to "call_attempted"
-        await db
-          .update(calls)
-          .set({
-            status: "call_attempted",
+        // Claim the attempt - a duplicate job or a cancellation loses here
+        const dialing = await transitionCall(db, callId, "dialing", {
+          reason: "dial_attempt",
+          source: "worker",
+          metadata: { attempt: call.attempts + 1 },
+          fields: {
             attempts: call.attempts + 1,
             firstAttemptAt: call.firstAttemptAt || now,
             lastAttemptAt: now,
             daysSinceFirstAttempt,
-            updatedAt: new Date(),
-          })
-          .where(eq(calls.id, callId));
+          },
+        });
+        if (!dialing.applied) {
+          return;
+        }
+
+        // Increment daily call count (TCPA compliance) - only for an attempt this job owns
+        await incrementDailyCallCount(db, call.encryptedHandle || "");
+
+        // Load caller persona's live-call LLM settings (model, temperature, etc.)
+        const [caller] = call.callerId
+          ? await db
+              .select({
+                llmProvider: schema.callers.llmProvider,
+                llmModel: schema.callers.llmModel,
+                llmTemperature: schema.callers.llmTemperature,
+                llmMaxTokens: schema.callers.llmMaxTokens,
+              })
+              .from(schema.callers)
+              .where(eq(schema.callers.id, call.callerId))
+              .limit(1)
+          : [];
+        const llm = caller ? personaLLMSettingsFromCaller(caller) : undefined;
 
         // Step 2 - Initiate Twilio call
         try {
           const { initiateTwilioCall } = await import("~/lib/twilio/call");
-          const callResult = await initiateTwilioCall(call);
+          const callResult = await initiateTwilioCall(db, call, { llm });
+          if (!callResult) {
+            return; // Opted out - failed and credit restored before dialing
+          }
           
           // Store Twilio Call SID for webhook mapping
           await db
@@ -208,6 +177,8 @@ export async function setupCallProcessorWorker() {
             .set({
               callSid: callResult.callSid,
               recordingSid: callResult.recordingSid || null,
+              fromNumber: callResult.fromNumber,
+              outboundNumberId: callResult.outboundNumberId,
               updatedAt: new Date(),
             })
             .where(eq(calls.id, callId));
@@ -215,7 +186,13 @@ export async function setupCallProcessorWorker() {
           // ✅ Cache call data in WebSocket server to avoid DB query in critical path
           // This allows handleStart to get prompt instantly when call connects
           if (call.openaiPrompt && callResult.callSid) {
-            await cacheCallData(callResult.callSid, call.openaiPrompt);
+            const limits = resolveCallLimits(callLimitOverridesFromCall(call));
+            await cacheCallData(callResult.callSid, call.openaiPrompt, {
+              llm,
+              limits,
+              callId: call.id,
+              welcomeGreeting: call.welcomeGreeting || undefined,
+            });
           }
           
           // Call initiated successfully - status will be updated via webhook when call completes
@@ -224,7 +201,7 @@ export async function setupCallProcessorWorker() {
           
           // Don't mark as complete here - wait for webhook to handle call completion
           // The webhook will:
-          // - Update status to "call_complete" if successful
+          // - Move the call through ringing / in_progress / completed
           // - Schedule next retry if no answer/failed
           // - Enqueue video generation job
           
@@ -232,41 +209,12 @@ export async function setupCallProcessorWorker() {
           console.error(`[Call Processor] Twilio error for call ${callId}:`, twilioError);
           
           // Call failed to initiate - schedule retry at next available slot
-          const { getTimezoneForPhoneNumber } = await import("~/lib/calls/retry-logic");
-          const timezone = getTimezoneForPhoneNumber(call.encryptedHandle || "");
-          const now = new Date();
-          const formatter = new Intl.DateTimeFormat("en-US", {
-            timeZone: timezone,
-            hour: "numeric",
-            hour12: false,
+          await scheduleRetry(db, dialing.call, {
+            strategy: "next_slot",
+            reason: "dial_error",
+            source: "worker",
+            metadata: { error: twilioError instanceof Error ? twilioError.message : String(twilioError) },
           });
-          const parts = formatter.formatToParts(now);
-          const currentHour = parseInt(parts.find((p) => p.type === "hour")?.value || "0", 10);
-          
-          // Schedule for next available time slot (10 AM, 2 PM, or 6 PM)
-          const RETRY_TIME_SLOTS = [10, 14, 18];
-          const nextSlot = RETRY_TIME_SLOTS.find((slot) => slot > currentHour) || RETRY_TIME_SLOTS[0];
-          
-          const nextRetryAt = new Date(now);
-          if (nextSlot <= currentHour) {
-            nextRetryAt.setDate(nextRetryAt.getDate() + 1);
-          }
-          nextRetryAt.setHours(nextSlot, 0, 0, 0);
-          
-          await db
-            .update(calls)
-            .set({
-              nextRetryAt,
-              updatedAt: new Date(),
-            })
-            .where(eq(calls.id, callId));
-
-          const boss = await getBoss();
-          await boss.send(
-            JOB_TYPES.PROCESS_CALL,
-            { callId },
-            { startAfter: nextRetryAt },
-          );
         }
       } catch (error) {
         console.error(`[Call Processor] Error processing call ${callId}:`, error);
@@ -282,50 +230,13 @@ export async function setupCallProcessorWorker() {
           return; // Call not found, exit
         }
 
-        // Check if max retry days exceeded
-        if ((call.daysSinceFirstAttempt || 0) >= 5) {
-          await db
-            .update(calls)
-            .set({
-              status: "call_failed",
-              updatedAt: new Date(),
-            })
-            .where(eq(calls.id, callId));
-          return;
-        }
-
-        // Calculate next retry time
-        const nextRetryAt = calculateNextRetryTime(
-          call.encryptedHandle || "",
-          call.daysSinceFirstAttempt || 0,
-        );
-
-        if (nextRetryAt) {
-          // Schedule retry for later
-          await db
-            .update(calls)
-            .set({
-              nextRetryAt,
-              updatedAt: new Date(),
-            })
-            .where(eq(calls.id, callId));
-
-          const boss = await getBoss();
-          await boss.send(
-            JOB_TYPES.PROCESS_CALL,
-            { callId },
-            { startAfter: nextRetryAt },
-          );
-        } else {
-          // No more retries - mark as failed
-          await db
-            .update(calls)
-            .set({
-              status: "call_failed",
-              updatedAt: new Date(),
-            })
-            .where(eq(calls.id, callId));
-        }
+        // Back off (fails the call once the retry days are used up)
+        await scheduleRetry(db, call, {
+          strategy: "backoff",
+          reason: "processing_error",
+          source: "worker",
+          metadata: { error: error instanceof Error ? error.message : String(error) },
+        });
       } finally {
         await driver.end();
       }
@@ -3,6 +3,7 @@
 // Set RUN_WORKERS=false to disable workers in main app
 import { setupCallProcessorWorker } from "./call-processor";
 import { setupVideoGeneratorWorker } from "./video-generator";
+import { setupScriptReviewTimeoutWorker } from "./script-review-timeout";
 
 let workersInitialized = false;
 
@@ -38,6 +39,12 @@ export async function initializeWorkers() {
     } catch (error) {
       console.error("[Workers] Failed to setup video generator worker:", error);
     }
+
+    try {
+      await setupScriptReviewTimeoutWorker();
+    } catch (error) {
+      console.error("[Workers] Failed to setup script review timeout worker:", error);
+    }
     
     workersInitialized = true;
     console.log("[Workers] Worker initialization completed");
@@ -0,0 +1,61 @@
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import { createPostgresDriver } from "~/lib/db";
+import { calls } from "~/lib/db/schema/calls";
+import * as schema from "~/lib/db/schema";
+import { getBoss, JOB_TYPES } from "~/lib/queue/boss";
+import {
+  approveScript,
+  isAwaitingScriptReview,
+  queueScriptReviewTimeout,
+  type ScriptReviewTimeoutJob,
+} from "~/lib/calls/script-review";
+
+/**
+ * Queue calls whose script review deadline passed without an approval
+ * Regenerating or editing moves the deadline - the job then re-queues itself for it
+ */
+export async function setupScriptReviewTimeoutWorker() {
+  const boss = await getBoss();
+
+  // Queue is created in getBoss(), so we can start worker directly
+  await boss.work<ScriptReviewTimeoutJob>(
+    JOB_TYPES.SCRIPT_REVIEW_TIMEOUT,
+    async ([job]) => {
+      if (!job) return;
+
+      const { callId } = job.data;
+
+      const driver = createPostgresDriver();
+      const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+      try {
+        const [call] = await db
+          .select()
+          .from(calls)
+          .where(eq(calls.id, callId))
+          .limit(1);
+
+        // Approved, cancelled or deleted in the meantime
+        if (!call || !isAwaitingScriptReview(call) || !call.scriptReviewDeadline) {
+          return;
+        }
+
+        if (call.scriptReviewDeadline > new Date()) {
+          await queueScriptReviewTimeout(call.id, call.scriptReviewDeadline);
+          console.log(`[Script Review] ⏳ Call ${callId} deadline moved to ${call.scriptReviewDeadline.toISOString()}`);
+          return;
+        }
+
+        const result = await approveScript(db, call, { reason: "script_review_timeout", source: "worker" });
+        if (result.applied) {
+          console.log(`[Script Review] ⏰ Call ${callId} queued without approval (review timed out)`);
+        }
+      } finally {
+        await driver.end();
+      }
+    },
+  );
+
+  console.log(`[Script Review] Worker started for job type: ${JOB_TYPES.SCRIPT_REVIEW_TIMEOUT}`);
+}
@@ -12,6 +12,7 @@ import { Route as rootRouteImport } from './routes/__root'
 import { Route as YourCallsRouteImport } from './routes/your-calls'
 import { Route as TermsRouteImport } from './routes/terms'
 import { Route as PrivacyRouteImport } from './routes/privacy'
+import { Route as OptOutRouteImport } from './routes/opt-out'
 import { Route as HowItWorksRouteImport } from './routes/how-it-works'
 import { Route as CreateRouteImport } from './routes/create'
 import { Route as CallsRouteImport } from './routes/calls'
@@ -39,6 +40,7 @@ import { Route as ApiAuthSplatRouteImport } from './routes/api/auth/$'
 import { Route as ApiWebhooksTwilioRecordingStatusRouteImport } from './routes/api/webhooks/twilio/recording-status'
 import { Route as ApiWebhooksTwilioConversationRelayCompleteRouteImport } from './routes/api/webhooks/twilio/conversation-relay-complete'
 import { Route as ApiWebhooksTwilioCallStatusRouteImport } from './routes/api/webhooks/twilio/call-status'
+import { Route as ApiCallsCallIdLiveRouteImport } from './routes/api/calls.$callId.live'
 
 const YourCallsRoute = YourCallsRouteImport.update({
   id: '/your-calls',
@@ -55,6 +57,11 @@ const PrivacyRoute = PrivacyRouteImport.update({
   path: '/privacy',
   getParentRoute: () => rootRouteImport,
 } as any)
+const OptOutRoute = OptOutRouteImport.update({
+  id: '/opt-out',
+  path: '/opt-out',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const HowItWorksRoute = HowItWorksRouteImport.update({
   id: '/how-it-works',
   path: '/how-it-works',
@@ -191,6 +198,11 @@ const ApiWebhooksTwilioCallStatusRoute =
     path: '/api/webhooks/twilio/call-status',
     getParentRoute: () => rootRouteImport,
   } as any)
+const ApiCallsCallIdLiveRoute = ApiCallsCallIdLiveRouteImport.update({
+  id: '/api/calls/$callId/live',
+  path: '/api/calls/$callId/live',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -198,6 +210,7 @@ export interface FileRoutesByFullPath {
   '/calls': typeof CallsRoute
   '/create': typeof CreateRoute
   '/how-it-works': typeof HowItWorksRoute
+  '/opt-out': typeof OptOutRoute
   '/privacy': typeof PrivacyRoute
   '/terms': typeof TermsRoute
   '/your-calls': typeof YourCallsRoute
@@ -218,6 +231,7 @@ export interface FileRoutesByFullPath {
   '/api/twilio/voice': typeof ApiTwilioVoiceRoute
   '/api/upload/image': typeof ApiUploadImageRoute
   '/api/zcash/payment': typeof ApiZcashPaymentRoute
+  '/api/calls/$callId/live': typeof ApiCallsCallIdLiveRoute
   '/api/webhooks/twilio/call-status': typeof ApiWebhooksTwilioCallStatusRoute
   '/api/webhooks/twilio/conversation-relay-complete': typeof ApiWebhooksTwilioConversationRelayCompleteRoute
   '/api/webhooks/twilio/recording-status': typeof ApiWebhooksTwilioRecordingStatusRoute
@@ -227,6 +241,7 @@ export interface FileRoutesByTo {
   '/calls': typeof CallsRoute
   '/create': typeof CreateRoute
   '/how-it-works': typeof HowItWorksRoute
+  '/opt-out': typeof OptOutRoute
   '/privacy': typeof PrivacyRoute
   '/terms': typeof TermsRoute
   '/your-calls': typeof YourCallsRoute
@@ -247,6 +262,7 @@ export interface FileRoutesByTo {
   '/api/twilio/voice': typeof ApiTwilioVoiceRoute
   '/api/upload/image': typeof ApiUploadImageRoute
   '/api/zcash/payment': typeof ApiZcashPaymentRoute
+  '/api/calls/$callId/live': typeof ApiCallsCallIdLiveRoute
   '/api/webhooks/twilio/call-status': typeof ApiWebhooksTwilioCallStatusRoute
   '/api/webhooks/twilio/conversation-relay-complete': typeof ApiWebhooksTwilioConversationRelayCompleteRoute
   '/api/webhooks/twilio/recording-status': typeof ApiWebhooksTwilioRecordingStatusRoute
@@ -260,6 +276,7 @@ export interface FileRoutesById {
   '/calls': typeof CallsRoute
   '/create': typeof CreateRoute
   '/how-it-works': typeof HowItWorksRoute
+  '/opt-out': typeof OptOutRoute
   '/privacy': typeof PrivacyRoute
   '/terms': typeof TermsRoute
   '/your-calls': typeof YourCallsRoute
@@ -280,6 +297,7 @@ export interface FileRoutesById {
   '/api/twilio/voice': typeof ApiTwilioVoiceRoute
   '/api/upload/image': typeof ApiUploadImageRoute
   '/api/zcash/payment': typeof ApiZcashPaymentRoute
+  '/api/calls/$callId/live': typeof ApiCallsCallIdLiveRoute
   '/api/webhooks/twilio/call-status': typeof ApiWebhooksTwilioCallStatusRoute
   '/api/webhooks/twilio/conversation-relay-complete': typeof ApiWebhooksTwilioConversationRelayCompleteRoute
   '/api/webhooks/twilio/recording-status': typeof ApiWebhooksTwilioRecordingStatusRoute
@@ -292,6 +310,7 @@ export interface FileRouteTypes {
     | '/calls'
     | '/create'
     | '/how-it-works'
+    | '/opt-out'
     | '/privacy'
     | '/terms'
     | '/your-calls'
@@ -312,6 +331,7 @@ export interface FileRouteTypes {
     | '/api/twilio/voice'
     | '/api/upload/image'
     | '/api/zcash/payment'
+    | '/api/calls/$callId/live'
     | '/api/webhooks/twilio/call-status'
     | '/api/webhooks/twilio/conversation-relay-complete'
     | '/api/webhooks/twilio/recording-status'
@@ -321,6 +341,7 @@ export interface FileRouteTypes {
     | '/calls'
     | '/create'
     | '/how-it-works'
+    | '/opt-out'
     | '/privacy'
     | '/terms'
     | '/your-calls'
@@ -341,6 +362,7 @@ export interface FileRouteTypes {
     | '/api/twilio/voice'
     | '/api/upload/image'
     | '/api/zcash/payment'
+    | '/api/calls/$callId/live'
     | '/api/webhooks/twilio/call-status'
     | '/api/webhooks/twilio/conversation-relay-complete'
     | '/api/webhooks/twilio/recording-status'
@@ -353,6 +375,7 @@ export interface FileRouteTypes {
     | '/calls'
     | '/create'
     | '/how-it-works'
+    | '/opt-out'
     | '/privacy'
     | '/terms'
     | '/your-calls'
@@ -373,6 +396,7 @@ export interface FileRouteTypes {
     | '/api/twilio/voice'
     | '/api/upload/image'
     | '/api/zcash/payment'
+    | '/api/calls/$callId/live'
     | '/api/webhooks/twilio/call-status'
     | '/api/webhooks/twilio/conversation-relay-complete'
     | '/api/webhooks/twilio/recording-status'
@@ -386,6 +410,7 @@ export interface RootRouteChildren {
   CallsRoute: typeof CallsRoute
   CreateRoute: typeof CreateRoute
   HowItWorksRoute: typeof HowItWorksRoute
+  OptOutRoute: typeof OptOutRoute
   PrivacyRoute: typeof PrivacyRoute
   TermsRoute: typeof TermsRoute
   YourCallsRoute: typeof YourCallsRoute
@@ -401,6 +426,7 @@ export interface RootRouteChildren {
   ApiTwilioVoiceRoute: typeof ApiTwilioVoiceRoute
   ApiUploadImageRoute: typeof ApiUploadImageRoute
   ApiZcashPaymentRoute: typeof ApiZcashPaymentRoute
+  ApiCallsCallIdLiveRoute: typeof ApiCallsCallIdLiveRoute
   ApiWebhooksTwilioCallStatusRoute: typeof ApiWebhooksTwilioCallStatusRoute
   ApiWebhooksTwilioConversationRelayCompleteRoute: typeof ApiWebhooksTwilioConversationRelayCompleteRoute
   ApiWebhooksTwilioRecordingStatusRoute: typeof ApiWebhooksTwilioRecordingStatusRoute
@@ -429,6 +455,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PrivacyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/opt-out': {
+      id: '/opt-out'
+      path: '/opt-out'
+      fullPath: '/opt-out'
+      preLoaderRoute: typeof OptOutRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/how-it-works': {
       id: '/how-it-works'
       path: '/how-it-works'
@@ -618,6 +651,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiWebhooksTwilioCallStatusRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/calls/$callId/live': {
+      id: '/api/calls/$callId/live'
+      path: '/api/calls/$callId/live'
+      fullPath: '/api/calls/$callId/live'
+      preLoaderRoute: typeof ApiCallsCallIdLiveRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
@@ -668,6 +708,7 @@ const rootRouteChildren: RootRouteChildren = {
   CallsRoute: CallsRoute,
   CreateRoute: CreateRoute,
   HowItWorksRoute: HowItWorksRoute,
+  OptOutRoute: OptOutRoute,
   PrivacyRoute: PrivacyRoute,
   TermsRoute: TermsRoute,
   YourCallsRoute: YourCallsRoute,
@@ -683,6 +724,7 @@ const rootRouteChildren: RootRouteChildren = {
   ApiTwilioVoiceRoute: ApiTwilioVoiceRoute,
   ApiUploadImageRoute: ApiUploadImageRoute,
   ApiZcashPaymentRoute: ApiZcashPaymentRoute,
+  ApiCallsCallIdLiveRoute: ApiCallsCallIdLiveRoute,
   ApiWebhooksTwilioCallStatusRoute: ApiWebhooksTwilioCallStatusRoute,
   ApiWebhooksTwilioConversationRelayCompleteRoute:
     ApiWebhooksTwilioConversationRelayCompleteRoute,
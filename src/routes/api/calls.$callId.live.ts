@@ -0,0 +1,163 @@
+/**
+ * Live call feed (Server-Sent Events)
+ *
+ * Streams status changes and transcript turns for a call to its owner while the
+ * call is in progress. Opens with a snapshot (current status plus the turns the
+ * relay server has written so far), then forwards events published by the relay
+ * server and the call-status webhook.
+ */
+
+import { createFileRoute } from "@tanstack/react-router";
+import { and, asc, eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import { auth } from "~/lib/auth/auth";
+import { createPostgresDriver } from "~/lib/db";
+import * as schema from "~/lib/db/schema";
+import { calls } from "~/lib/db/schema/calls";
+import { callTranscripts } from "~/lib/db/schema/call-transcripts";
+import { subscribeToCallEvents } from "~/lib/calls/live-subscriber";
+import { eventsAfterSnapshot } from "~/lib/calls/live-events";
+import type { CallLiveEvent } from "~/lib/calls/live-events";
+
+const HEARTBEAT_INTERVAL_MS = 15_000; // Keeps proxies from closing an idle stream
+
+export const Route = createFileRoute("/api/calls/$callId/live")({
+  server: {
+    handlers: {
+      GET: async ({ request, params }: { request: Request; params: { callId: string } }) => {
+        const session = await auth.api.getSession({
+          headers: request.headers,
+        });
+
+        if (!session?.user) {
+          return new Response(
+            JSON.stringify({ error: "Unauthorized" }),
+            { status: 401, headers: { "Content-Type": "application/json" } }
+          );
+        }
+
+        const driver = createPostgresDriver();
+        const db = drizzle({ client: driver, schema, casing: "snake_case" });
+
+        // Subscribed before the snapshot is read so nothing published in between is
+        // lost - held back until the snapshot has gone out
+        const buffered: CallLiveEvent[] = [];
+        let forward: ((event: CallLiveEvent) => void) | null = null;
+        let unsubscribe: (() => void) | null = null;
+        let snapshot: {
+          call: { id: string; status: string };
+          turns: Extract<CallLiveEvent, { type: "turn" }>[];
+        } | null = null;
+
+        try {
+          // Scoped to the owner - other users' calls look like they don't exist
+          const [owned] = await db
+            .select({ id: calls.id })
+            .from(calls)
+            .where(and(eq(calls.id, params.callId), eq(calls.userId, session.user.id)))
+            .limit(1);
+
+          if (owned) {
+            unsubscribe = await subscribeToCallEvents(owned.id, (event) => {
+              if (forward) forward(event);
+              else buffered.push(event);
+            });
+
+            const [call] = await db
+              .select({ id: calls.id, status: calls.status })
+              .from(calls)
+              .where(eq(calls.id, owned.id))
+              .limit(1);
+
+            // Written turn by turn by the relay server - the call so far
+            const transcript = await db
+              .select()
+              .from(callTranscripts)
+              .where(eq(callTranscripts.callId, call.id))
+              .orderBy(asc(callTranscripts.turnIndex));
+
+            snapshot = {
+              call,
+              turns: transcript.map((turn) => ({
+                type: "turn",
+                callId: call.id,
+                index: turn.turnIndex,
+                role: turn.role,
+                content: turn.content,
+                wasInterrupted: turn.wasInterrupted,
+                at: turn.spokenAt.toISOString(),
+              })),
+            };
+          }
+        } catch (error) {
+          unsubscribe?.();
+          throw error;
+        } finally {
+          await driver.end();
+        }
+
+        if (!snapshot || !unsubscribe) {
+          return new Response(
+            JSON.stringify({ error: "Call not found" }),
+            { status: 404, headers: { "Content-Type": "application/json" } }
+          );
+        }
+
+        const { call, turns } = snapshot;
+        const stopListening = unsubscribe;
+        const encoder = new TextEncoder();
+        let cleanup: (() => void) | null = null;
+
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            let closed = false;
+            const send = (event: string, data: unknown) => {
+              if (closed) return;
+              controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+            };
+
+            send("snapshot", { callId: call.id, status: call.status, turns });
+            for (const event of eventsAfterSnapshot(turns, buffered)) {
+              send(event.type, event);
+            }
+            forward = (event) => send(event.type, event);
+
+            const heartbeat = setInterval(() => {
+              if (!closed) controller.enqueue(encoder.encode(`: heartbeat\n\n`));
+            }, HEARTBEAT_INTERVAL_MS);
+
+            cleanup = () => {
+              if (closed) return;
+              closed = true;
+              clearInterval(heartbeat);
+              stopListening();
+              try {
+                controller.close();
+              } catch {
+                // Already closed by the client
+              }
+            };
+
+            if (request.signal.aborted) {
+              cleanup();
+            } else {
+              request.signal.addEventListener("abort", () => cleanup?.());
+            }
+          },
+          cancel() {
+            cleanup?.();
+          },
+        });
+
+        return new Response(stream, {
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            "X-Accel-Buffering": "no",
+          },
+        });
+      },
+    },
+  },
+});
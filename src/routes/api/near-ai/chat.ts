@@ -8,6 +8,8 @@ import { drizzle } from "drizzle-orm/postgres-js";
 import { callers } from "~/lib/db/schema/callers";
 import { eq, asc } from "drizzle-orm";
 import * as schema from "~/lib/db/schema";
+import { getDoNotCallNumbers } from "~/lib/calls/do-not-call";
+import { parsePhoneNumber } from "~/lib/validation/phone-number";
 
 // NEAR AI uses OpenAI-compatible API
 // Runs in Trusted Execution Environment (TEE) for privacy
@@ -69,6 +71,20 @@ async function getCallersList(): Promise<{ list: string; nameToIdMap: Map<string
   return { list: callersList, nameToIdMap };
 }
 
+// Helper to check the extracted phone number against the do-not-call list
+async function lookUpDoNotCall(data: Partial<CallFormData>): Promise<Set<string>> {
+  const parsed = data.phoneNumber ? parsePhoneNumber(data.phoneNumber, data.recipientCountry) : null;
+  if (!parsed?.valid) return new Set();
+
+  const driver = createPostgresDriver();
+  const db = drizzle({ client: driver, schema, casing: "snake_case" });
+  try {
+    return await getDoNotCallNumbers(db, [parsed.phone.e164]);
+  } finally {
+    await driver.end();
+  }
+}
+
 // Helper to map caller name to ID
 function getCallerIdFromName(callerName: string | null | undefined, nameToIdMap: Map<string, string>): string | undefined {
   if (!callerName) return undefined;
@@ -82,6 +98,8 @@ function getSystemPrompt(): string {
 REQUIRED FIELDS (all 12 must be filled before isComplete=true):
 1. recipientName, 2. phoneNumber, 3. targetGender, 4. targetAgeRange, 5. targetCity, 6. targetHobby, 7. targetProfession, 8. targetPhysicalDescription (ONLY if no image uploaded), 9. callerId (use caller NAME, not ID), 10. videoStyle, 11. interestingPiece, 12. ragebaitTrigger
 
+OPTIONAL (never ask for it): scheduledFor - only if the user wants the call at a particular time, e.g. "on his birthday at 10am his time". The RECIPIENT'S local date and time as YYYY-MM-DDTHH:mm (24h). Today is ${new Date().toISOString().split("T")[0]}. null = call as soon as possible.
+
 PROCESS:
 - Ask for ONE missing field at a time
 - Extract what you can from user's message silently
@@ -119,7 +137,8 @@ RESPONSE FORMAT (CRITICAL):
     "callerId": "caller NAME (e.g., 'Sandra the Neighbor') or null",
     "videoStyle": "string or null",
     "interestingPiece": "string or null",
-    "ragebaitTrigger": "string or null"
+    "ragebaitTrigger": "string or null",
+    "scheduledFor": "YYYY-MM-DDTHH:mm or null"
   },
   "isComplete": false
 }
@@ -385,7 +404,9 @@ export const Route = createFileRoute("/api/near-ai/chat")({
           console.log("[NEAR AI] Data to validate keys:", Object.keys(dataToValidate));
           
           // Validate and normalize extracted data using comprehensive validation
-          const validationResult = validateCallFormData(dataToValidate);
+          // (an opted-out number fails here, so the assistant can tell the user why)
+          const doNotCallNumbers = await lookUpDoNotCall(dataToValidate);
+          const validationResult = validateCallFormData(dataToValidate, { doNotCallNumbers });
           
           // Merge normalized data with original merged data to preserve all fields
           // This ensures fields that weren't validated (like callerId, uploadedImageUrl) are preserved
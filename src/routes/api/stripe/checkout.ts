@@ -3,6 +3,15 @@ import Stripe from "stripe";
 import { env } from "~/env/server";
 import { auth } from "~/lib/auth/auth";
 import { PAYMENT_CONFIG } from "~/lib/web3/config";
+import { resolveScheduledTime } from "~/lib/calls/retry-logic";
+import { parsePhoneNumber } from "~/lib/validation/phone-number";
+import { DO_NOT_CALL_MESSAGE } from "~/lib/validation/call-form";
+import { createPostgresDriver } from "~/lib/db";
+import { drizzle } from "drizzle-orm/postgres-js";
+import * as schema from "~/lib/db/schema";
+import { isOnDoNotCallList } from "~/lib/calls/do-not-call";
+import { moderateCallContent } from "~/lib/moderation/moderate";
+import { pickCallRequestFields } from "~/lib/moderation/rules";
 
 /**
  * POST /api/stripe/checkout
@@ -53,6 +62,57 @@ export const Route = createFileRoute("/api/stripe/checkout")({
             );
           }
 
+          // Refuse opted-out numbers before taking payment (Fhenix numbers are checked at dial time)
+          if (!callData.fhenixEnabled) {
+            const parsedPhone = parsePhoneNumber(String(callData.phoneNumber), callData.recipientCountry || undefined);
+            if (parsedPhone.valid) {
+              const driver = createPostgresDriver();
+              const db = drizzle({ client: driver, schema, casing: "snake_case" });
+              const optedOut = await isOnDoNotCallList(db, parsedPhone.phone.e164).finally(() => driver.end());
+              if (optedOut) {
+                return new Response(
+                  JSON.stringify({ error: DO_NOT_CALL_MESSAGE }),
+                  { status: 400, headers: { "Content-Type": "application/json" } }
+                );
+              }
+            }
+          }
+
+          // Screen the free-text details before taking payment (the webhook screens the generated script)
+          const moderationDriver = createPostgresDriver();
+          const moderation = await moderateCallContent(
+            drizzle({ client: moderationDriver, schema, casing: "snake_case" }),
+            { userId: session.user.id, stage: "request", fields: pickCallRequestFields(callData) },
+          ).finally(() => moderationDriver.end());
+          if (!moderation.allowed) {
+            return new Response(
+              JSON.stringify({ error: moderation.message }),
+              { status: 400, headers: { "Content-Type": "application/json" } }
+            );
+          }
+
+          // Check a requested delivery time against the recipient's calling hours before taking payment
+          if (callData.scheduledFor) {
+            const parsedPhone = callData.fhenixEnabled ? null : parsePhoneNumber(String(callData.phoneNumber), callData.recipientCountry || undefined);
+            if (parsedPhone && !parsedPhone.valid) {
+              return new Response(
+                JSON.stringify({ error: parsedPhone.error }),
+                { status: 400, headers: { "Content-Type": "application/json" } }
+              );
+            }
+            const handle = parsedPhone ? `encrypted_${parsedPhone.phone.e164}` : `fhenix:${callData.fhenixVaultId}`;
+            const schedule = resolveScheduledTime(String(callData.scheduledFor), handle, {
+              timezone: callData.recipientTimezone || null,
+              country: callData.recipientCountry || null,
+            });
+            if (!schedule.valid) {
+              return new Response(
+                JSON.stringify({ error: schedule.error }),
+                { status: 400, headers: { "Content-Type": "application/json" } }
+              );
+            }
+          }
+
           const stripe = new Stripe(env.STRIPE_SECRET_KEY);
 
           // Get base URL for redirects
@@ -104,6 +164,13 @@ export const Route = createFileRoute("/api/stripe/checkout")({
               // Fhenix FHE encryption data
               fhenixEnabled: String(callData.fhenixEnabled || false),
               fhenixVaultId: String(callData.fhenixVaultId || "").slice(0, 500),
+              // Calling-hours timezone override
+              recipientTimezone: String(callData.recipientTimezone || "").slice(0, 500),
+              recipientCountry: String(callData.recipientCountry || "").slice(0, 500),
+              // Requested delivery time on the recipient's wall clock
+              scheduledFor: String(callData.scheduledFor || "").slice(0, 500),
+              voicemailMode: callData.voicemailMode === "leave_message" ? "leave_message" : "hang_up",
+              reviewScript: String(callData.reviewScript === true),
             },
             // Redirect URLs - go to your-calls page after successful payment
             success_url: `${baseUrl}/your-calls?payment=success`,
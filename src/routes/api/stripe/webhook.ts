@@ -8,6 +8,40 @@ import { callCredits } from "~/lib/db/schema/credits";
 import { calls } from "~/lib/db/schema/calls";
 import * as schema from "~/lib/db/schema";
 import { PAYMENT_CONFIG } from "~/lib/web3/config";
+import { isValidTimeZone } from "~/lib/calls/timezones";
+import { DEFAULT_COUNTRY, getCountryRules } from "~/lib/calls/country-rules";
+import { getRecordingConsent, withRecordingDisclosure } from "~/lib/calls/recording-consent";
+import { selectPromptTemplate } from "~/lib/prompts/registry";
+import { CALL_PROMPTS_TEMPLATE_NAME } from "~/lib/prompts/call-prompt-template";
+import type { PromptVariables } from "~/lib/prompts/template";
+import { parsePhoneNumber } from "~/lib/validation/phone-number";
+import { resolveScheduledTime } from "~/lib/calls/retry-logic";
+import { getScriptReviewDeadline, queueScriptReviewTimeout } from "~/lib/calls/script-review";
+import { moderateCallContent } from "~/lib/moderation/moderate";
+import { pickCallRequestFields } from "~/lib/moderation/rules";
+
+type Database = ReturnType<typeof drizzle>;
+
+/**
+ * Keep a checkout's payment as an unused credit when no call can be created from it
+ * Await it - the handler ends the driver in its finally block
+ * @param reason - Why no call was created (logged and echoed in the response)
+ */
+async function grantUnusedCredit(db: Database, userId: string, sessionId: string, reason: string): Promise<Response> {
+  const [credit] = await db
+    .insert(callCredits)
+    .values({
+      userId,
+      state: "unused",
+      paymentMethod: "credit_card",
+      paymentRef: sessionId,
+      network: "credit_card",
+      amountCents: PAYMENT_CONFIG.priceCents,
+    })
+    .returning();
+  console.log(`[Stripe Webhook] ✅ Created credit ${credit.id} (${reason})`);
+  return new Response(`OK - Credit created, ${reason}`, { status: 200 });
+}
 
 /**
  * POST /api/stripe/webhook
@@ -103,6 +137,15 @@ export const Route = createFileRoute("/api/stripe/webhook")({
             // Fhenix FHE encryption data
             const fhenixEnabled = metadata.fhenixEnabled === "true";
             const fhenixVaultId = metadata.fhenixVaultId || null;
+            // Calling-hours timezone override (ignored if not a valid IANA zone)
+            const recipientTimezone = metadata.recipientTimezone && isValidTimeZone(metadata.recipientTimezone)
+              ? metadata.recipientTimezone
+              : null;
+            // Country of the number (the form's choice is only used for Fhenix numbers)
+            const parsedPhone = fhenixEnabled ? null : parsePhoneNumber(phoneNumber, metadata.recipientCountry || undefined);
+            const recipientCountry = parsedPhone?.valid
+              ? parsedPhone.phone.country
+              : getCountryRules(metadata.recipientCountry)?.code ?? DEFAULT_COUNTRY;
             
             // Log metadata for debugging
             console.log(`[Stripe Webhook] Metadata received:`, {
@@ -122,19 +165,32 @@ export const Route = createFileRoute("/api/stripe/webhook")({
             if (!recipientName || !phoneNumber) {
               console.error("[Stripe Webhook] Missing required call data in metadata");
               // Still create credit so user can manually create call
-              const [credit] = await db
-                .insert(callCredits)
-                .values({
-                  userId,
-                  state: "unused",
-                  paymentMethod: "credit_card",
-                  paymentRef: session.id,
-                  network: "credit_card",
-                  amountCents: PAYMENT_CONFIG.priceCents,
-                })
-                .returning();
-              console.log(`[Stripe Webhook] ✅ Created credit ${credit.id} (no call data)`);
-              return new Response("OK - Credit created, no call data", { status: 200 });
+              return await grantUnusedCredit(db, userId, session.id, "no call data");
+            }
+
+            // Number opted out after checkout - keep the payment as an unused credit instead of a call
+            const { isOnDoNotCallList } = await import("~/lib/calls/do-not-call");
+            if (parsedPhone?.valid && await isOnDoNotCallList(db, parsedPhone.phone.e164)) {
+              console.log(`[Stripe Webhook] 🚫 Number is on the do-not-call list, not creating the call`);
+              return await grantUnusedCredit(db, userId, session.id, "number opted out");
+            }
+
+            // Same content screening as createCall - a blocked request keeps the payment as a credit
+            const requestModeration = await moderateCallContent(db, {
+              userId,
+              stage: "request",
+              fields: pickCallRequestFields({
+                recipientName,
+                targetGenderCustom,
+                targetCity,
+                targetHobby,
+                targetProfession,
+                interestingPiece,
+                ragebaitTrigger,
+              }),
+            });
+            if (!requestModeration.allowed) {
+              return await grantUnusedCredit(db, userId, session.id, "request blocked by moderation");
             }
 
             // Fetch caller data if callerId is provided
@@ -167,10 +223,31 @@ export const Route = createFileRoute("/api/stripe/webhook")({
               console.warn(`[Stripe Webhook] ⚠️ No callerId provided in metadata`);
             }
 
+            let encryptedHandle: string;
+            if (fhenixEnabled && fhenixVaultId) {
+              encryptedHandle = `fhenix:${fhenixVaultId}`;
+              console.log(`[Stripe Webhook] 🔐 Using Fhenix FHE encryption, vaultId: ${fhenixVaultId}`);
+            } else {
+              encryptedHandle = `encrypted_${parsedPhone?.valid ? parsedPhone.phone.e164 : phoneNumber}`;
+              console.log(`[Stripe Webhook] Using legacy phone encryption`);
+            }
+
+            // All-party-consent jurisdictions hear that the call is recorded, in the persona's voice
+            const recordingConsent = getRecordingConsent(encryptedHandle, {
+              timezone: recipientTimezone,
+              country: recipientCountry,
+            });
+
             // Generate OpenAI prompt and welcome greeting using the same function as createCall
             console.log(`[Stripe Webhook] 🕐 Generating OpenAI prompt...`);
+            const promptTemplate = await selectPromptTemplate(db, CALL_PROMPTS_TEMPLATE_NAME);
             let openaiPrompt: string;
             let welcomeGreeting: string;
+            let recordingDisclosure: string | null;
+            let voicemailMessage: string;
+            let scenarioSummary: string;
+            let promptVariables: PromptVariables;
+            let promptProvider: string;
             try {
               const { generateCallPrompts } = await import("~/lib/prompts/groq-generator");
               const prompts = await generateCallPrompts({
@@ -189,10 +266,18 @@ export const Route = createFileRoute("/api/stripe/webhook")({
                 videoStyle,
                 hasUploadedImage: !!(uploadedImageUrl || uploadedImageS3Key),
                 caller: callerData,
-              });
+                recordingDisclosure: recordingConsent?.disclosure,
+              }, promptTemplate);
               openaiPrompt = prompts.systemPrompt;
-              welcomeGreeting = prompts.welcomeGreeting || "";
-              console.log(`[Stripe Webhook] ✅ Generated OpenAI prompt and welcome greeting`);
+              voicemailMessage = prompts.voicemailMessage;
+              scenarioSummary = prompts.scenarioSummary;
+              promptVariables = prompts.promptVariables;
+              promptProvider = prompts.provider;
+              ({ welcomeGreeting, recordingDisclosure } = withRecordingDisclosure(
+                prompts.welcomeGreeting || "",
+                recordingConsent?.disclosure ?? null,
+              ));
+              console.log(`[Stripe Webhook] ✅ Generated OpenAI prompt and welcome greeting (${promptProvider}, template v${promptTemplate.version})`);
               console.log(`[Stripe Webhook]    System prompt length: ${openaiPrompt.length}`);
               console.log(`[Stripe Webhook]    Welcome greeting length: ${welcomeGreeting.length}`);
               console.log(`[Stripe Webhook]    Welcome greeting: "${welcomeGreeting.substring(0, 100)}${welcomeGreeting.length > 100 ? '...' : ''}"`);
@@ -204,30 +289,36 @@ export const Route = createFileRoute("/api/stripe/webhook")({
             } catch (error) {
               console.error(`[Stripe Webhook] ❌ Failed to generate prompt:`, error);
               // Create credit only - user can retry
-              const [credit] = await db
-                .insert(callCredits)
-                .values({
-                  userId,
-                  state: "unused",
-                  paymentMethod: "credit_card",
-                  paymentRef: session.id,
-                  network: "credit_card",
-                  amountCents: PAYMENT_CONFIG.priceCents,
-                })
-                .returning();
-              console.log(`[Stripe Webhook] ✅ Created credit ${credit.id} (prompt failed)`);
-              return new Response("OK - Credit created, prompt failed", { status: 200 });
+              return await grantUnusedCredit(db, userId, session.id, "prompt failed");
+            }
+
+            const scriptModeration = await moderateCallContent(db, {
+              userId,
+              stage: "generated_script",
+              fields: { systemPrompt: openaiPrompt, welcomeGreeting, voicemailMessage },
+            });
+            if (!scriptModeration.allowed) {
+              return await grantUnusedCredit(db, userId, session.id, "script blocked by moderation");
             }
 
             // Create the call with all fields (matching createCall function)
-            let encryptedHandle: string;
-            if (fhenixEnabled && fhenixVaultId) {
-              encryptedHandle = `fhenix:${fhenixVaultId}`;
-              console.log(`[Stripe Webhook] 🔐 Using Fhenix FHE encryption, vaultId: ${fhenixVaultId}`);
-            } else {
-              encryptedHandle = `encrypted_${phoneNumber}`;
-              console.log(`[Stripe Webhook] Using legacy phone encryption`);
+            // Requested delivery time was checked at checkout - if it has since become
+            // invalid (payment took too long), call as soon as possible instead
+            let scheduledAt: Date | null = null;
+            if (metadata.scheduledFor) {
+              const schedule = resolveScheduledTime(metadata.scheduledFor, encryptedHandle, {
+                timezone: recipientTimezone,
+                country: recipientCountry,
+              });
+              if (schedule.valid) {
+                scheduledAt = schedule.at;
+              } else {
+                console.warn(`[Stripe Webhook] ⚠️ Scheduled time no longer valid (${schedule.error}), calling ASAP`);
+              }
             }
+
+            // Requester wants to see the script first - the call waits in "created" until approved
+            const scriptReviewDeadline = metadata.reviewScript === "true" ? getScriptReviewDeadline() : null;
             
             const [newCall] = await db
               .insert(calls)
@@ -247,14 +338,28 @@ export const Route = createFileRoute("/api/stripe/webhook")({
                 uploadedImageUrl,
                 uploadedImageS3Key,
                 openaiPrompt,
+                promptTemplateId: promptTemplate.id,
+                promptTemplateVersion: promptTemplate.version,
+                promptVariables,
+                promptProvider,
+                scenarioSummary,
+                scriptReviewDeadline,
                 welcomeGreeting: welcomeGreeting && welcomeGreeting.trim().length > 0 ? welcomeGreeting.trim() : null,
+                recordingJurisdiction: recordingConsent?.jurisdiction ?? null,
+                recordingDisclosure,
+                voicemailMessage,
+                voicemailMode: metadata.voicemailMode === "leave_message" ? "leave_message" : "hang_up",
                 encryptedHandle,
                 paymentMethod: "credit_card",
                 isFree: false,
-                status: "prompt_ready",
+                status: scriptReviewDeadline ? "created" : "scheduled",
                 // Fhenix FHE encryption
                 fhenixEnabled,
                 fhenixVaultId,
+                recipientTimezone,
+                recipientCountry,
+                scheduledFor: scheduledAt,
+                nextRetryAt: scheduledAt,
               })
               .returning();
 
@@ -282,14 +387,46 @@ export const Route = createFileRoute("/api/stripe/webhook")({
               })
               .returning();
 
+            const { recordCreditEvent } = await import("~/lib/credits/functions");
+            await recordCreditEvent(db, {
+              creditId: credit.id,
+              callId: newCall.id,
+              fromState: null,
+              toState: "consumed",
+              reason: "stripe_checkout",
+              metadata: { stripeSessionId: session.id },
+            });
+
             console.log(`[Stripe Webhook] ✅ Created & consumed credit ${credit.id} for call ${newCall.id}`);
 
-            // Enqueue call for processing
+            const { recordCallCreated } = await import("~/lib/calls/lifecycle");
+            await recordCallCreated(db, newCall, {
+              reason: scriptReviewDeadline
+                ? "awaiting_script_review"
+                : scheduledAt ? "scheduled_by_requester" : "prompts_ready",
+              source: "api",
+              metadata: {
+                stripeSessionId: session.id,
+                scheduledFor: scheduledAt?.toISOString() ?? null,
+                reviewDeadline: scriptReviewDeadline?.toISOString() ?? null,
+              },
+            });
+
+            // Enqueue call for processing (or the review timeout - approval queues it)
             try {
-              const { getBoss, JOB_TYPES } = await import("~/lib/queue/boss");
-              const boss = await getBoss();
-              await boss.send(JOB_TYPES.PROCESS_CALL, { callId: newCall.id });
-              console.log(`[Stripe Webhook] ✅ Enqueued call ${newCall.id} for processing`);
+              if (scriptReviewDeadline) {
+                await queueScriptReviewTimeout(newCall.id, scriptReviewDeadline);
+                console.log(`[Stripe Webhook] 📝 Call ${newCall.id} awaiting script review until ${scriptReviewDeadline.toISOString()}`);
+              } else {
+                const { getBoss, JOB_TYPES } = await import("~/lib/queue/boss");
+                const boss = await getBoss();
+                await boss.send(
+                  JOB_TYPES.PROCESS_CALL,
+                  { callId: newCall.id },
+                  scheduledAt ? { startAfter: scheduledAt } : undefined,
+                );
+                console.log(`[Stripe Webhook] ✅ Enqueued call ${newCall.id} for ${scheduledAt ? scheduledAt.toISOString() : "processing"}`);
+              }
             } catch (queueError) {
               console.error(`[Stripe Webhook] ❌ Failed to enqueue call:`, queueError);
               // Call was created, just not queued - will need manual intervention
@@ -7,6 +7,7 @@ import * as schema from "~/lib/db/schema";
 import { auth } from "~/lib/auth/auth";
 import { getRequest } from "@tanstack/react-start/server";
 import { initiateTwilioCall } from "~/lib/twilio/call";
+import { recordCallCreated } from "~/lib/calls/lifecycle";
 
 /**
  * Test endpoint to initiate a Twilio call
@@ -76,18 +77,32 @@ export const Route = createFileRoute("/api/test/call")({
               encryptedHandle,
               paymentMethod: "free", // Test calls are free
               isFree: true,
-              status: "call_created",
+              status: "dialing", // Dialed right here, not through the call processor
             })
             .returning();
 
+          await recordCallCreated(db, newCall, { reason: "test_call", source: "api" });
+
           // Initiate the call
-          const callResult = await initiateTwilioCall(newCall);
+          const callResult = await initiateTwilioCall(db, newCall, { source: "api" });
+          if (!callResult) {
+            await driver.end();
+            return new Response(
+              JSON.stringify({ error: "This number is on the do-not-call list" }),
+              {
+                status: 409,
+                headers: { "Content-Type": "application/json" },
+              },
+            );
+          }
 
           // Update call with Twilio Call SID
           await db
             .update(calls)
             .set({
               callSid: callResult.callSid,
+              fromNumber: callResult.fromNumber,
+              outboundNumberId: callResult.outboundNumberId,
               updatedAt: new Date(),
             })
             .where(eq(calls.id, newCall.id));
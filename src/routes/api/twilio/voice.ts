@@ -1,10 +1,13 @@
 import { createFileRoute } from "@tanstack/react-router";
+import { withTwilioSignature } from "~/lib/twilio/webhook-auth";
 import { env } from "~/env/server";
 import postgres from "postgres";
 import { drizzle } from "drizzle-orm/postgres-js";
 import { eq } from "drizzle-orm";
 import { calls } from "~/lib/db/schema/calls";
 import * as schema from "~/lib/db/schema";
+import { isMachineAnswer, voicemailTwiml } from "~/lib/twilio/answering-machine";
+import { withRecordingDisclosure } from "~/lib/calls/recording-consent";
 
 /**
  * TwiML endpoint for Twilio ConversationRelay
@@ -19,10 +22,12 @@ import * as schema from "~/lib/db/schema";
 export const Route = createFileRoute("/api/twilio/voice")({
   server: {
     handlers: {
-      POST: async ({ request }) => {
+      POST: withTwilioSignature(async ({ request }) => {
         // Parse form data to get call info
         const formData = await request.formData();
         const callSid = formData.get("CallSid") as string;
+        // Answering-machine detection result (calls are placed with machineDetection)
+        const answeredBy = formData.get("AnsweredBy") as string | null;
         
         // Get call ID from URL query params
         const url = new URL(request.url);
@@ -31,10 +36,15 @@ export const Route = createFileRoute("/api/twilio/voice")({
         console.log("[Voice] TwiML requested");
         console.log(`[Voice]   CallSid: ${callSid}`);
         console.log(`[Voice]   CallId: ${callId}`);
+        console.log(`[Voice]   AnsweredBy: ${answeredBy ?? "n/a"}`);
 
         // Default welcome greeting and voice ID
         let welcomeGreeting = "Hello! How can I help you today?";
         let voiceId = "UgBBYS2sOqTuMpoF3BR0"; // Default ElevenLabs voice
+        // Set when a machine answered - replaces the ConversationRelay TwiML
+        let machineTwiml: string | null = null;
+        // A greeting carrying the recording notice has to be heard in full - talking over it can't cut it off
+        let greetingInterruptible: "speech" | "none" = "speech";
         
         // Fetch call-specific welcome greeting and caller voice ID from database
         if (callId) {
@@ -46,6 +56,10 @@ export const Route = createFileRoute("/api/twilio/voice")({
               .select({ 
                 welcomeGreeting: calls.welcomeGreeting,
                 callerId: calls.callerId,
+                voicemailMode: calls.voicemailMode,
+                voicemailMessage: calls.voicemailMessage,
+                recordingJurisdiction: calls.recordingJurisdiction,
+                recordingDisclosure: calls.recordingDisclosure,
               })
               .from(calls)
               .where(eq(calls.id, callId))
@@ -55,27 +69,55 @@ export const Route = createFileRoute("/api/twilio/voice")({
               welcomeGreeting = call.welcomeGreeting;
               console.log(`[Voice] ✅ Using greeting: "${welcomeGreeting.substring(0, 50)}..."`);
             }
+
+            // All-party consent: the recording notice goes first if the greeting no longer has it
+            if (call?.recordingDisclosure) {
+              welcomeGreeting = withRecordingDisclosure(welcomeGreeting, call.recordingDisclosure).welcomeGreeting;
+              greetingInterruptible = "none";
+              console.log(`[Voice] 🎙️ Recording disclosure required (${call.recordingJurisdiction})`);
+            }
             
             // Fetch caller's voice ID if caller is selected
-            if (call?.callerId) {
-              const [caller] = await db
-                .select({ voiceId: schema.callers.voiceId })
-                .from(schema.callers)
-                .where(eq(schema.callers.id, call.callerId))
-                .limit(1);
-              
-              if (caller?.voiceId) {
-                voiceId = caller.voiceId;
-                console.log(`[Voice] ✅ Using caller voice ID: ${voiceId}`);
-              }
+            const [caller] = call?.callerId
+              ? await db
+                  .select({ voiceId: schema.callers.voiceId, gender: schema.callers.gender })
+                  .from(schema.callers)
+                  .where(eq(schema.callers.id, call.callerId))
+                  .limit(1)
+              : [];
+            if (caller?.voiceId) {
+              voiceId = caller.voiceId;
+              console.log(`[Voice] ✅ Using caller voice ID: ${voiceId}`);
             }
-            
+
+            // Keep the AMD result - call-status decides no-answer vs voicemail from it
+            if (answeredBy) {
+              await db
+                .update(calls)
+                .set({ answeredBy, updatedAt: new Date() })
+                .where(eq(calls.id, callId));
+            }
+
+            if (call && isMachineAnswer(answeredBy)) {
+              const message = call.voicemailMode === "leave_message" && answeredBy !== "fax"
+                ? call.voicemailMessage
+                : null;
+              machineTwiml = voicemailTwiml(message, caller?.gender);
+              console.log(`[Voice] 📼 Machine answered (${answeredBy}) - ${message ? "leaving voicemail" : "hanging up"}`);
+            }
+
             await driver.end();
           } catch (error) {
             console.error("[Voice] Failed to fetch call data:", error);
           }
         }
         
+        if (machineTwiml) {
+          return new Response(machineTwiml, {
+            headers: { "Content-Type": "text/xml" },
+          });
+        }
+
         // Escape XML special characters in greeting
         const escapedGreeting = welcomeGreeting
           .replace(/&/g, "&amp;")
@@ -98,7 +140,7 @@ export const Route = createFileRoute("/api/twilio/voice")({
         <ConversationRelay 
             url="${wsUrl}"
             welcomeGreeting="${escapedGreeting}"
-            welcomeGreetingInterruptible="speech"
+            welcomeGreetingInterruptible="${greetingInterruptible}"
             ttsProvider="ElevenLabs"
             voice="${voiceId}"
             transcriptionProvider="Deepgram"
@@ -115,7 +157,7 @@ export const Route = createFileRoute("/api/twilio/voice")({
         return new Response(twiml, {
           headers: { "Content-Type": "text/xml" },
         });
-      },
+      }),
     },
   },
 });
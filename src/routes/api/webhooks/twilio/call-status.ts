@@ -1,10 +1,14 @@
 import { createFileRoute } from "@tanstack/react-router";
+import { withTwilioSignature } from "~/lib/twilio/webhook-auth";
 import { eq } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import { createPostgresDriver } from "~/lib/db";
 import { calls } from "~/lib/db/schema/calls";
 import * as schema from "~/lib/db/schema";
-import { getBoss, JOB_TYPES } from "~/lib/queue/boss";
+import { publishCallEvent } from "~/lib/calls/live-events";
+import { callStatusFromTwilio, scheduleRetry, transitionCall } from "~/lib/calls/lifecycle";
+import { isMachineAnswer } from "~/lib/twilio/answering-machine";
+import { outboundNumberOutcomeFromTwilio, recordOutboundNumberOutcome } from "~/lib/twilio/caller-id-pool";
 
 /**
  * Webhook endpoint for Twilio call status updates
@@ -13,7 +17,7 @@ import { getBoss, JOB_TYPES } from "~/lib/queue/boss";
 export const Route = createFileRoute("/api/webhooks/twilio/call-status")({
   server: {
     handlers: {
-      POST: async ({ request }: { request: Request }) => {
+      POST: withTwilioSignature(async ({ request }: { request: Request }) => {
     let driver: ReturnType<typeof createPostgresDriver> | null = null;
     
     try {
@@ -23,6 +27,8 @@ export const Route = createFileRoute("/api/webhooks/twilio/call-status")({
     const callSid = formData.get("CallSid") as string;
     const callStatus = formData.get("CallStatus") as string;
     const duration = formData.get("CallDuration") as string;
+    const answeredByParam = formData.get("AnsweredBy") as string | null;
+    const sipResponseCode = formData.get("SipResponseCode") as string | null;
 
       if (!callSid) {
         console.warn("[Twilio Webhook] Missing CallSid in request");
@@ -56,60 +62,96 @@ export const Route = createFileRoute("/api/webhooks/twilio/call-status")({
         });
       }
 
-      // Update call status based on Twilio status
-      if (callStatus === "completed") {
-        // Call completed successfully
-        await db
-          .update(calls)
-          .set({
-            status: "call_complete",
-            duration: duration ? parseInt(duration, 10) : null,
-            updatedAt: new Date(),
-          })
-          .where(eq(calls.id, call.id));
+      // Forward to the requester's live view (best effort)
+      await publishCallEvent(db, { type: "status", callId: call.id, status: callStatus }).catch((error) => {
+        console.warn("[Twilio Webhook] Failed to publish live status:", error);
+      });
+
+      const answeredBy = answeredByParam || call.answeredBy;
+      const metadata = { callSid, twilioStatus: callStatus, answeredBy, sipResponseCode };
+
+      if (callStatus === "completed" && isMachineAnswer(answeredBy)) {
+        // Answering machine (see /api/twilio/voice) - either we left the voicemail,
+        // or we hung up and it counts as no answer
+        const callDuration = duration ? parseInt(duration, 10) : null;
+        if (call.voicemailMode === "leave_message" && answeredBy !== "fax") {
+          await transitionCall(db, call.id, "voicemail", {
+            reason: "voicemail_left",
+            source: "twilio",
+            metadata: { ...metadata, duration: callDuration },
+            fields: { duration: callDuration, answeredBy },
+          });
+        } else {
+          const result = await transitionCall(db, call.id, "no_answer", {
+            reason: "answering_machine",
+            source: "twilio",
+            metadata,
+            fields: { duration: callDuration, answeredBy },
+          });
+          if (result.applied) {
+            const nextRetryAt = await scheduleRetry(db, result.call, {
+              strategy: "next_slot",
+              reason: "retry_after_answering_machine",
+              source: "twilio",
+              metadata,
+            });
+            console.log(`[Twilio Webhook] Call ${callSid} reached a machine (${answeredBy}), scheduled retry for ${nextRetryAt}`);
+          }
+        }
+      } else if (callStatus === "completed") {
+        // Stays failed/voicemail if the relay session already said so
+        // (conversation-relay-complete fires before the call ends)
+        const callDuration = duration ? parseInt(duration, 10) : null;
+        const result = await transitionCall(db, call.id, "completed", {
+          reason: "twilio_completed",
+          source: "twilio",
+          metadata: { ...metadata, duration: callDuration },
+          fields: { duration: callDuration },
+        });
+        if (!result.applied) {
+          await db
+            .update(calls)
+            .set({ duration: callDuration, updatedAt: new Date() })
+            .where(eq(calls.id, call.id));
+        }
 
         // Note: Video generation will be enqueued when recording is ready
         // (from recording-status webhook, not here)
         // The recording URL comes from the recording-status webhook
       } else if (callStatus === "no-answer" || callStatus === "busy" || callStatus === "failed") {
-        // Call didn't connect - schedule retry at next available slot
-        const { getTimezoneForPhoneNumber } = await import("~/lib/calls/retry-logic");
-        const timezone = getTimezoneForPhoneNumber(call.encryptedHandle || "");
-        const now = new Date();
-        const formatter = new Intl.DateTimeFormat("en-US", {
-          timeZone: timezone,
-          hour: "numeric",
-          hour12: false,
-        });
-        const parts = formatter.formatToParts(now);
-        const currentHour = parseInt(parts.find((p) => p.type === "hour")?.value || "0", 10);
-        
-        // Schedule for next available time slot (10 AM, 2 PM, or 6 PM)
-        const RETRY_TIME_SLOTS = [10, 14, 18];
-        const nextSlot = RETRY_TIME_SLOTS.find((slot) => slot > currentHour) || RETRY_TIME_SLOTS[0];
-        
-        const nextRetryAt = new Date(now);
-        if (nextSlot <= currentHour) {
-          nextRetryAt.setDate(nextRetryAt.getDate() + 1);
+        // Call didn't connect - schedule retry at next available slot (10 AM, 2 PM, or 6 PM)
+        // Twilio "failed" means the dial itself failed, so it goes straight back to scheduled
+        const status = callStatusFromTwilio(callStatus);
+        const result = status
+          ? await transitionCall(db, call.id, status, { reason: `twilio_${callStatus}`, source: "twilio", metadata })
+          : { applied: true, call };
+
+        if (result.applied && result.call) {
+          const nextRetryAt = await scheduleRetry(db, result.call, {
+            strategy: "next_slot",
+            reason: `retry_after_${callStatus}`,
+            source: "twilio",
+            metadata,
+          });
+          console.log(`[Twilio Webhook] Call ${callSid} failed (${callStatus}), scheduled retry for ${nextRetryAt}`);
+        }
+      } else {
+        // ringing, in-progress
+        const status = callStatusFromTwilio(callStatus);
+        if (status) {
+          await transitionCall(db, call.id, status, { reason: `twilio_${callStatus}`, source: "twilio", metadata });
         }
-        nextRetryAt.setHours(nextSlot, 0, 0, 0);
-        
-        await db
-          .update(calls)
-          .set({
-            nextRetryAt,
-            updatedAt: new Date(),
-          })
-          .where(eq(calls.id, call.id));
+      }
 
-        const boss = await getBoss();
-        await boss.send(
-          JOB_TYPES.PROCESS_CALL,
-          { callId: call.id },
-          { startAfter: nextRetryAt },
-        );
-        
-        console.log(`[Twilio Webhook] Call ${callSid} failed (${callStatus}), scheduled retry for ${nextRetryAt}`);
+      // Answer rate and spam signals for the caller-ID pool number this attempt used
+      const numberOutcome = outboundNumberOutcomeFromTwilio(callStatus, {
+        sipResponseCode,
+        machine: isMachineAnswer(answeredBy),
+      });
+      if (call.outboundNumberId && numberOutcome) {
+        await recordOutboundNumberOutcome(db, call.outboundNumberId, numberOutcome).catch((error) => {
+          console.warn("[Twilio Webhook] Failed to record caller-ID outcome:", error);
+        });
       }
       } catch (dbError) {
         console.error("[Twilio Webhook] Error processing call status:", dbError);
@@ -136,7 +178,7 @@ export const Route = createFileRoute("/api/webhooks/twilio/call-status")({
         status: 200, // Return 200 to prevent Twilio retries
       });
     }
-      },
+      }),
     },
   },
 });
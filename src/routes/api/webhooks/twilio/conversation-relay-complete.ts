@@ -1,13 +1,27 @@
 import { createFileRoute } from "@tanstack/react-router";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/postgres-js";
+import { withTwilioSignature } from "~/lib/twilio/webhook-auth";
+import { createPostgresDriver } from "~/lib/db";
+import { calls } from "~/lib/db/schema/calls";
+import * as schema from "~/lib/db/schema";
+import { applyRelayOutcome } from "~/lib/calls/relay-outcome";
+import type { RelayOutcome } from "~/lib/calls/relay-outcome";
+
+const DEFAULT_GOODBYE_MESSAGE = "Thank you for calling. Goodbye!";
 
 /**
  * Webhook for ConversationRelay session completion
  * Called when the <Connect> verb ends (session ended, failed, or completed)
+ * 
+ * Stores the session outcome on the call, runs follow-ups driven by the
+ * relay's HandoffData (failure, refund, do-not-call), then hangs up - with
+ * the caller's goodbye unless the persona already said one.
  */
 export const Route = createFileRoute("/api/webhooks/twilio/conversation-relay-complete")({
   server: {
     handlers: {
-      POST: async ({ request }) => {
+      POST: withTwilioSignature(async ({ request }) => {
         const formData = await request.formData();
         
         const callSid = formData.get("CallSid") as string;
@@ -38,20 +52,70 @@ export const Route = createFileRoute("/api/webhooks/twilio/conversation-relay-co
         
         console.log("=".repeat(60));
 
-        // TODO: Update call record in database with session info
-        // TODO: Trigger video generation if needed
+        let outcome: RelayOutcome | null = null;
+        let goodbyeMessage = DEFAULT_GOODBYE_MESSAGE;
+
+        const driver = createPostgresDriver();
+        const db = drizzle({ client: driver, schema, casing: "snake_case" });
+        try {
+          const [call] = await db
+            .select()
+            .from(calls)
+            .where(eq(calls.callSid, callSid))
+            .limit(1);
 
-        // Return TwiML to continue the call flow (or just hang up)
-        const twiml = `<?xml version="1.0" encoding="UTF-8"?>
+          if (call) {
+            outcome = await applyRelayOutcome(db, call, {
+              sessionId: sessionId || null,
+              sessionStatus: sessionStatus || null,
+              sessionDuration: sessionDuration ? parseInt(sessionDuration, 10) : null,
+              errorCode: errorCode || null,
+              errorMessage: errorMessage || null,
+              handoffData: handoffData || null,
+              recipientNumber: (formData.get("To") as string | null) || null,
+            });
+
+            if (call.callerId) {
+              const [caller] = await db
+                .select({ goodbyeMessage: schema.callers.goodbyeMessage })
+                .from(schema.callers)
+                .where(eq(schema.callers.id, call.callerId))
+                .limit(1);
+              if (caller?.goodbyeMessage) {
+                goodbyeMessage = caller.goodbyeMessage;
+              }
+            }
+          } else {
+            console.warn(`[ConversationRelay Complete] Call not found for callSid: ${callSid}`);
+          }
+        } catch (error) {
+          console.error("[ConversationRelay Complete] Failed to store session outcome:", error);
+        } finally {
+          await driver.end();
+        }
+
+        // Persona/keypad/limit endings already spoke a goodbye - just hang up
+        const escapedGoodbye = goodbyeMessage
+          .replace(/&/g, "&amp;")
+          .replace(/</g, "&lt;")
+          .replace(/>/g, "&gt;")
+          .replace(/"/g, "&quot;")
+          .replace(/'/g, "&apos;");
+        const twiml = outcome?.handoff
+          ? `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+    <Hangup/>
+</Response>`
+          : `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-    <Say>Thank you for calling. Goodbye!</Say>
+    <Say>${escapedGoodbye}</Say>
     <Hangup/>
 </Response>`;
 
         return new Response(twiml, {
           headers: { "Content-Type": "text/xml" },
         });
-      },
+      }),
     },
   },
 });
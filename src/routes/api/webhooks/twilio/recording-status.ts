@@ -1,9 +1,14 @@
 import { createFileRoute } from "@tanstack/react-router";
+import { withTwilioSignature } from "~/lib/twilio/webhook-auth";
 import { eq } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import { createPostgresDriver } from "~/lib/db";
 import { calls } from "~/lib/db/schema/calls";
 import * as schema from "~/lib/db/schema";
+import { isMachineAnswer } from "~/lib/twilio/answering-machine";
+
+// Recordings shorter than this don't have enough conversation for a video
+const MIN_VIDEO_RECORDING_SECONDS = 15;
 
 /**
  * Webhook endpoint for Twilio recording status updates
@@ -12,13 +17,14 @@ import * as schema from "~/lib/db/schema";
 export const Route = createFileRoute("/api/webhooks/twilio/recording-status")({
   server: {
     handlers: {
-      POST: async ({ request }: { request: Request }) => {
+      POST: withTwilioSignature(async ({ request }: { request: Request }) => {
     const formData = await request.formData();
     
     const recordingSid = formData.get("RecordingSid") as string;
     const recordingUrl = formData.get("RecordingUrl") as string;
     const callSid = formData.get("CallSid") as string;
     const recordingStatus = formData.get("RecordingStatus") as string;
+    const recordingDuration = formData.get("RecordingDuration") as string | null;
 
     console.log(`[Twilio Webhook] Recording ${recordingSid} status: ${recordingStatus}`);
 
@@ -48,6 +54,38 @@ export const Route = createFileRoute("/api/webhooks/twilio/recording-status")({
 
           console.log(`[Twilio Webhook] Recording ready for call ${call.id}: ${recordingUrl}`);
 
+          // Failed sessions (relay error, wrong person, voicemail) were refunded - no video
+          // Nor for answering machines - there's no conversation to animate
+          if (call.status === "failed" || call.status === "voicemail" || isMachineAnswer(call.answeredBy)) {
+            console.log(`[Twilio Webhook] Call ${call.id} failed, skipping video generation`);
+            return new Response('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
+              headers: {
+                "Content-Type": "text/xml",
+              },
+            });
+          }
+
+          // Too short for a video - refund instead of generating one
+          const durationSeconds = recordingDuration ? parseInt(recordingDuration, 10) : null;
+          if (durationSeconds !== null && durationSeconds < MIN_VIDEO_RECORDING_SECONDS) {
+            console.log(`[Twilio Webhook] Recording for call ${call.id} is ${durationSeconds}s, too short for a video`);
+            await db
+              .update(calls)
+              .set({
+                videoStatus: "failed",
+                videoErrorMessage: "Call was too short to make a video",
+                updatedAt: new Date(),
+              })
+              .where(eq(calls.id, call.id));
+            const { applyRefundPolicy } = await import("~/lib/credits/refund-policy");
+            await applyRefundPolicy(db, call, { category: "too_short", reason: "recording_too_short" });
+            return new Response('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
+              headers: {
+                "Content-Type": "text/xml",
+              },
+            });
+          }
+
           // Enqueue video generation job now that we have the recording URL
           const { getBoss, JOB_TYPES } = await import("~/lib/queue/boss");
           const boss = await getBoss();
@@ -70,7 +108,7 @@ export const Route = createFileRoute("/api/webhooks/twilio/recording-status")({
         "Content-Type": "text/xml",
       },
     });
-      },
+      }),
     },
   },
 });
@@ -0,0 +1,178 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Navbar } from "~/components/navbar";
+import { Footer } from "~/components/footer";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/components/ui/select";
+import { DEFAULT_COUNTRY, getCountryRules, SUPPORTED_COUNTRIES } from "~/lib/calls/country-rules";
+import { confirmOptOut, requestOptOutCode } from "~/lib/opt-out/functions";
+
+export const Route = createFileRoute("/opt-out")({
+  component: OptOutPage,
+});
+
+type Step = "phone" | "code" | "done";
+
+function OptOutPage() {
+  const [step, setStep] = useState<Step>("phone");
+  const [recipientCountry, setRecipientCountry] = useState(DEFAULT_COUNTRY);
+  const [digits, setDigits] = useState("");
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const country = getCountryRules(recipientCountry) ?? SUPPORTED_COUNTRIES[0];
+  const phoneNumber = digits ? `+${country.dialCode}${digits}` : "";
+
+  const handleRequestCode = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const result = await (requestOptOutCode as any)({ data: { phoneNumber, recipientCountry } });
+      if (result.alreadyOptedOut) {
+        setStep("done");
+        return;
+      }
+      toast.success("We texted you a 6-digit code");
+      setStep("code");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send code");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (confirmOptOut as any)({ data: { phoneNumber, recipientCountry, code } });
+      setStep("done");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to verify code");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-svh flex-col pb-24"> {/* padding for fixed footer */}
+      <Navbar />
+      <div className="container mx-auto max-w-md p-6">
+        <h1 className="text-3xl font-bold mb-2" style={{ color: '#1A1A1A' }}>Stop calls to my number</h1>
+        <p className="mb-6" style={{ color: '#1A1A1A', opacity: 0.7 }}>
+          Got a call from aicall.tv and don't want another? Verify your number and we'll never call it again.
+        </p>
+
+        <div className="rounded-lg border-2 p-6" style={{ backgroundColor: '#fffcf2', borderColor: '#1A1A1A' }}>
+          {step === "phone" && (
+            <form onSubmit={handleRequestCode} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="optOutPhone" style={{ color: '#1A1A1A' }}>Your phone number</Label>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={recipientCountry}
+                    onValueChange={(value) => {
+                      setRecipientCountry(value);
+                      setDigits("");
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    <SelectTrigger aria-label="Country" className="w-28" style={{ color: '#1A1A1A' }}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SUPPORTED_COUNTRIES.map((option) => (
+                        <SelectItem key={option.code} value={option.code}>
+                          {option.code} +{option.dialCode}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    id="optOutPhone"
+                    type="tel"
+                    value={digits}
+                    onChange={(e) => {
+                      const maxDigits = Math.max(...country.nationalNumberLengths) + (country.trunkPrefix?.length ?? 0);
+                      setDigits(e.target.value.replace(/[^\d]/g, "").substring(0, maxDigits));
+                    }}
+                    placeholder={country.dialCode === "1" ? "5551234567" : "Number without country code"}
+                    required
+                    disabled={isSubmitting}
+                    className="flex-1"
+                    style={{ color: '#1A1A1A' }}
+                  />
+                </div>
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isSubmitting || !digits}
+                style={{ backgroundColor: '#1A1A1A', color: '#fffcf2' }}
+              >
+                {isSubmitting ? "Sending..." : "Text me a code"}
+              </Button>
+            </form>
+          )}
+
+          {step === "code" && (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="optOutCode" style={{ color: '#1A1A1A' }}>Code sent to {phoneNumber}</Label>
+                <Input
+                  id="optOutCode"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/[^\d]/g, "").substring(0, 6))}
+                  placeholder="123456"
+                  required
+                  disabled={isSubmitting}
+                  style={{ color: '#1A1A1A' }}
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isSubmitting || code.length !== 6}
+                style={{ backgroundColor: '#1A1A1A', color: '#fffcf2' }}
+              >
+                {isSubmitting ? "Verifying..." : "Stop all calls"}
+              </Button>
+              <button
+                type="button"
+                className="w-full text-sm underline"
+                style={{ color: '#1A1A1A', opacity: 0.7 }}
+                onClick={() => {
+                  setCode("");
+                  setStep("phone");
+                }}
+                disabled={isSubmitting}
+              >
+                Use a different number
+              </button>
+            </form>
+          )}
+
+          {step === "done" && (
+            <p style={{ color: '#1A1A1A' }}>
+              {phoneNumber} is on our do-not-call list. No one can place a call to it through aicall.tv, including calls that were already scheduled.
+            </p>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
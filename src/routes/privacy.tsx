@@ -52,6 +52,9 @@ function PrivacyPage() {
           <p>
             You have the right to access, update, or delete your personal information at any time by contacting us.
           </p>
+          <p>
+            If you received a call from us and don't want another, you can verify your number at <a href="/opt-out">aicall.tv/opt-out</a> and it will never be called again.
+          </p>
 
           <h2>6. Contact Us</h2>
           <p>
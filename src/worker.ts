@@ -4,6 +4,7 @@
  * This runs as a separate process/service to handle heavy processing:
  * - Call processing (Twilio calls)
  * - Video generation (FFmpeg, fal.ai)
+ * - Script review timeouts (queue calls the requester didn't approve in time)
  * 
  * Deploy separately from main app:
  * - Local: bun run worker:dev
@@ -15,6 +16,7 @@
 
 import { setupCallProcessorWorker } from "./lib/workers/call-processor";
 import { setupVideoGeneratorWorker } from "./lib/workers/video-generator";
+import { setupScriptReviewTimeoutWorker } from "./lib/workers/script-review-timeout";
 import { getBoss } from "./lib/queue/boss";
 
 // Declare process for Bun runtime (types not available)
@@ -28,9 +30,10 @@ async function startWorker() {
   console.log("=".repeat(80));
   
   try {
-    // Initialize both workers
+    // Initialize all workers
     await setupCallProcessorWorker();
     await setupVideoGeneratorWorker();
+    await setupScriptReviewTimeoutWorker();
     
     console.log("✅ Worker service initialized successfully");
     console.log("📊 Listening for jobs from pg-boss queue...");